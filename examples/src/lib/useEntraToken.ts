@@ -1,6 +1,7 @@
 import { useCallback, useState } from 'react';
 import { useMsal } from '@azure/msal-react';
 import { InteractionRequiredAuthError } from '@azure/msal-browser';
+import type { TokenRequestOptions } from '@iloveagents/foundry-voice-live-react';
 
 /** Foundry data-plane scope for Voice Live */
 const SCOPES = ['https://ai.azure.com/.default'];
@@ -18,9 +19,10 @@ export interface EntraToken {
    * Pass this straight to `connection.getToken`. The SDK calls it on **every** connect and
    * reconnect, so the session always uses a fresh token — which is why the token must not be
    * baked into `proxyUrl` instead: a URL built once at sign-in freezes the token, and the first
-   * reconnect after it expires fails.
+   * reconnect after it expires fails. `forceRefresh` skips MSAL's cache when the SDK knows the
+   * cached token is stale (rejected, or about to expire).
    */
-  getToken: () => Promise<string>;
+  getToken: (options?: TokenRequestOptions) => Promise<string>;
 }
 
 /**
@@ -48,21 +50,28 @@ export function useEntraToken(): EntraToken {
     void instance.logoutPopup();
   }, [instance]);
 
-  const getToken = useCallback(async (): Promise<string> => {
-    if (!account) throw new Error('Not signed in');
-    try {
-      const silent = await instance.acquireTokenSilent({ scopes: SCOPES, account });
-      return silent.accessToken;
-    } catch (err) {
-      // The cached token expired and cannot be renewed without the user: ask them once, here,
-      // rather than letting the connection fail
-      if (err instanceof InteractionRequiredAuthError) {
-        const interactive = await instance.acquireTokenPopup({ scopes: SCOPES, account });
-        return interactive.accessToken;
+  const getToken = useCallback(
+    async (options?: TokenRequestOptions): Promise<string> => {
+      if (!account) throw new Error('Not signed in');
+      try {
+        const silent = await instance.acquireTokenSilent({
+          scopes: SCOPES,
+          account,
+          forceRefresh: options?.forceRefresh ?? false,
+        });
+        return silent.accessToken;
+      } catch (err) {
+        // The cached token expired and cannot be renewed without the user: ask them once, here,
+        // rather than letting the connection fail
+        if (err instanceof InteractionRequiredAuthError) {
+          const interactive = await instance.acquireTokenPopup({ scopes: SCOPES, account });
+          return interactive.accessToken;
+        }
+        throw err;
       }
-      throw err;
-    }
-  }, [instance, account]);
+    },
+    [instance, account]
+  );
 
   return {
     signedIn: !!account,
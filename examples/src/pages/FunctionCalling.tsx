@@ -1,41 +1,56 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { useVoiceLive, createVoiceLiveConfig } from '@iloveagents/foundry-voice-live-react';
-import type { FunctionTool } from '@iloveagents/foundry-voice-live-react';
+import {
+  useVoiceLive,
+  createVoiceLiveConfig,
+  defineTool,
+  ToolRegistry,
+} from '@iloveagents/foundry-voice-live-react';
+import type { ToolExecutionContext, ToolResult } from '@iloveagents/foundry-voice-live-react';
 import { SampleLayout, StatusBadge, Section, ControlGroup, ErrorPanel } from '../components';
 import { directOrProxyConnection } from '../lib/connection';
 
-// Tool definitions (JSON schema parameters)
-const TOOLS: FunctionTool[] = [
-  {
-    type: 'function',
-    name: 'get_weather',
-    description: 'Get the current weather for a location',
-    parameters: {
-      type: 'object',
-      properties: {
-        location: {
-          type: 'string',
-          description: 'City name or location',
-        },
-        unit: {
-          type: 'string',
-          enum: ['celsius', 'fahrenheit'],
-          description: 'Temperature unit',
-        },
+// Each tool declares its JSON schema once; `execute` receives the parsed, validated arguments
+// (typed from the schema). Unknown tools and invalid arguments are answered by the registry.
+const getWeather = defineTool({
+  name: 'get_weather',
+  description: 'Get the current weather for a location',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: {
+        type: 'string',
+        description: 'City name or location',
+      },
+      unit: {
+        type: 'string',
+        enum: ['celsius', 'fahrenheit'],
+        description: 'Temperature unit',
       },
-      required: ['location'],
     },
+    required: ['location'],
   },
-  {
-    type: 'function',
-    name: 'get_time',
-    description: 'Get the current time',
-    parameters: {
-      type: 'object',
-      properties: {},
-    },
+  execute: ({ location, unit = 'celsius' }) => ({
+    location,
+    temperature: Math.floor(Math.random() * 30) + 10,
+    unit,
+    condition: ['Sunny', 'Cloudy', 'Rainy', 'Windy'][Math.floor(Math.random() * 4)],
+  }),
+});
+
+const getTime = defineTool({
+  name: 'get_time',
+  description: 'Get the current time',
+  parameters: {
+    type: 'object',
+    properties: {},
   },
-];
+  execute: () => ({
+    time: new Date().toLocaleTimeString(),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  }),
+});
+
+const TOOLS = new ToolRegistry([getWeather, getTime]);
 
 export function FunctionCalling(): JSX.Element {
   const [logs, setLogs] = useState<string[]>([]);
@@ -45,40 +60,18 @@ export function FunctionCalling(): JSX.Element {
     setLogs((prev) => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
   }, []);
 
-  // Tool executor: RETURN the result and the hook sends it as
-  // function_call_output and triggers the next response automatically.
-  // (Return undefined to send it yourself later via sendToolResult().)
+  // The registry's executor RETURNS the result and the hook sends it as function_call_output
+  // and triggers the next response automatically. Wrapped here only to log the calls.
   const toolExecutor = useCallback(
-    async (toolName: string, args: string): Promise<Record<string, unknown>> => {
+    async (
+      toolName: string,
+      args: string,
+      callId: string,
+      context: ToolExecutionContext
+    ): Promise<void | ToolResult> => {
       addLog(`🔧 Tool called: ${toolName}`);
       addLog(`📥 Args: ${args}`);
-
-      let result: Record<string, unknown>;
-
-      try {
-        const parsedArgs = JSON.parse(args);
-
-        // Execute tool
-        if (toolName === 'get_weather') {
-          result = {
-            location: parsedArgs.location,
-            temperature: Math.floor(Math.random() * 30) + 10,
-            unit: parsedArgs.unit || 'celsius',
-            condition: ['Sunny', 'Cloudy', 'Rainy', 'Windy'][Math.floor(Math.random() * 4)],
-          };
-        } else if (toolName === 'get_time') {
-          result = {
-            time: new Date().toLocaleTimeString(),
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          };
-        } else {
-          result = { error: 'Unknown tool' };
-        }
-      } catch (err) {
-        addLog(`❌ Error: ${err}`);
-        result = { error: err instanceof Error ? err.message : String(err) };
-      }
-
+      const result = await TOOLS.execute(toolName, args, callId, context);
       addLog(`✅ Result: ${JSON.stringify(result)}`);
       return result;
     },
@@ -95,7 +88,7 @@ export function FunctionCalling(): JSX.Element {
         name: 'en-US-AvaMultilingualNeural',
         type: 'azure-standard',
       },
-      tools: TOOLS,
+      tools: TOOLS.tools,
       toolChoice: 'auto',
     },
     toolExecutor,
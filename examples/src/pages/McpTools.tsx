@@ -2,6 +2,7 @@ import { useRef, useEffect, useState, useCallback } from 'react';
 import { useVoiceLive, sessionConfig } from '@iloveagents/foundry-voice-live-react';
 import type {
   McpApprovalRequest,
+  ServerToolCallFailure,
   UseVoiceLiveReturn,
   VoiceLiveServerEvent,
 } from '@iloveagents/foundry-voice-live-react';
@@ -31,7 +32,8 @@ const DEFAULT_MCP_SERVER_URL = 'https://learn.microsoft.com/api/mcp';
  *
  * With `requireApproval: 'always'` every call first arrives as an
  * `mcp_approval_request` item - the hook surfaces it via `onMcpApprovalRequest`
- * and the page answers with `approveMcpCall(id, true | false)`.
+ * and the page answers with `approveMcpCall(id, true | false)`. When a response ends on the
+ * tool call instead of an answer, the hook asks the model to present the result itself.
  */
 export function McpTools(): JSX.Element {
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -44,17 +46,8 @@ export function McpTools(): JSX.Element {
   // Accumulates partial and final transcripts
   const { transcripts, onTranscript, clear: clearTranscripts } = useTranscripts();
 
-  // Response bookkeeping so we can nudge the model after a server-side tool call
+  // Used from the event handler to fetch the discovered tool list
   const sendEventRef = useRef<UseVoiceLiveReturn['sendEvent']>(() => false);
-  /**
-   * `createResponse()` instead of a raw `response.create`: the hook serializes turns
-   * (`ResponseGate`), so a follow-up here can never overlap a turn the user submitted meanwhile —
-   * the service rejects overlapping responses.
-   */
-  const createResponseRef = useRef<UseVoiceLiveReturn['createResponse']>(() => {});
-  const responseActiveRef = useRef(false);
-  const mcpCallsInProgressRef = useRef(0);
-  const followUpNeededRef = useRef(false);
 
   const addLog = useCallback((message: string): void => {
     setLogs((prev) => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
@@ -69,29 +62,20 @@ export function McpTools(): JSX.Element {
     [addLog]
   );
 
+  // The hook still asks the model to continue, so it can tell the user what went wrong
+  const handleToolCallFailed = useCallback(
+    (failure: ServerToolCallFailure): void => {
+      addLog(
+        `MCP call FAILED: ${failure.serverLabel ?? '?'}/${failure.name ?? '?'}${failure.error ? ` - ${failure.error}` : ''}`
+      );
+    },
+    [addLog]
+  );
+
   // Log the MCP lifecycle. `event.type` narrows the typed union.
   const handleEvent = useCallback(
     (event: VoiceLiveServerEvent): void => {
       switch (event.type) {
-        case 'response.created':
-          responseActiveRef.current = true;
-          break;
-
-        case 'response.done': {
-          responseActiveRef.current = false;
-          if (followUpNeededRef.current) {
-            followUpNeededRef.current = false;
-            // If the response that ran the tool ended without a spoken message,
-            // ask the model to continue so it can present the result.
-            const spoke = (event.response.output ?? []).some((item) => item.type === 'message');
-            if (!spoke) {
-              addLog('Tool result received - requesting the spoken answer');
-              createResponseRef.current();
-            }
-          }
-          break;
-        }
-
         case 'conversation.item.created': {
           const item = event.item;
           if (item.type === 'mcp_list_tools') {
@@ -141,26 +125,12 @@ export function McpTools(): JSX.Element {
           break;
 
         case 'response.mcp_call.in_progress':
-          mcpCallsInProgressRef.current += 1;
           addLog(`MCP call in progress (${String(event.item_id ?? '')})`);
           break;
 
         case 'response.mcp_call.completed':
-        case 'response.mcp_call.failed': {
-          mcpCallsInProgressRef.current = Math.max(0, mcpCallsInProgressRef.current - 1);
-          addLog(
-            event.type === 'response.mcp_call.completed' ? 'MCP call completed' : 'MCP call FAILED'
-          );
-          if (mcpCallsInProgressRef.current === 0) {
-            // The service executed the tool - make sure the model speaks the result.
-            if (responseActiveRef.current) {
-              followUpNeededRef.current = true; // decided at response.done
-            } else {
-              createResponseRef.current();
-            }
-          }
+          addLog('MCP call completed');
           break;
-        }
 
         default:
           break;
@@ -176,7 +146,6 @@ export function McpTools(): JSX.Element {
     sessionState,
     audioStream,
     sendEvent,
-    createResponse,
     approveMcpCall,
     isMuted,
     toggleMute,
@@ -199,14 +168,14 @@ export function McpTools(): JSX.Element {
       .build(),
     onTranscript,
     onMcpApprovalRequest: handleApprovalRequest,
+    onServerToolCallFailed: handleToolCallFailed,
     onEvent: handleEvent,
     logLevel: 'debug',
   });
 
   useEffect(() => {
     sendEventRef.current = sendEvent;
-    createResponseRef.current = createResponse;
-  }, [sendEvent, createResponse]);
+  }, [sendEvent]);
 
   useEffect(() => {
     if (audioRef.current && audioStream) {
@@ -230,9 +199,6 @@ export function McpTools(): JSX.Element {
       setLogs([]);
       setDiscoveredTools([]);
       setPendingApprovals([]);
-      responseActiveRef.current = false;
-      mcpCallsInProgressRef.current = 0;
-      followUpNeededRef.current = false;
       addLog(`Connecting with MCP server ${MCP_SERVER_LABEL} → ${serverUrl}`);
       await connect();
     } catch (err) {
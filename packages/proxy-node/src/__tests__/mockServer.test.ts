@@ -0,0 +1,285 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { WebSocket } from "ws";
+import {
+  startMockServer,
+  sineTone,
+  type MockVoiceLiveServer,
+  type MockVoiceLiveServerOptions,
+  type WireEvent,
+} from "../mockServer.js";
+
+let server: MockVoiceLiveServer | null = null;
+const sockets: WebSocket[] = [];
+
+afterEach(async () => {
+  sockets.splice(0).forEach((socket) => socket.terminate());
+  await server?.close();
+  server = null;
+});
+
+/** A client socket that records every server event */
+interface Client {
+  socket: WebSocket;
+  events: WireEvent[];
+  send: (event: Record<string, unknown>) => void;
+  /** Resolve with the first (not yet consumed) event of `type` */
+  next: (type: string) => Promise<WireEvent>;
+}
+
+async function connect(
+  options: MockVoiceLiveServerOptions = {},
+  path = "/voice-live/realtime?model=gpt-realtime"
+): Promise<Client> {
+  server ??= await startMockServer(options);
+  const socket = new WebSocket(`${server.origin}${path}`);
+  sockets.push(socket);
+  const events: WireEvent[] = [];
+  const waiting: Array<{ type: string; resolve: (event: WireEvent) => void }> = [];
+  /** Per event type: index after the last consumed event */
+  const cursor = new Map<string, number>();
+  socket.on("message", (data) => {
+    const event = JSON.parse(data.toString()) as WireEvent;
+    events.push(event);
+    const index = waiting.findIndex((entry) => entry.type === event.type);
+    if (index >= 0) {
+      const [entry] = waiting.splice(index, 1);
+      cursor.set(event.type, events.length);
+      entry?.resolve(event);
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", reject);
+  });
+  const next = (type: string): Promise<WireEvent> => {
+    const from = cursor.get(type) ?? 0;
+    const found = events.slice(from).findIndex((event) => event.type === type);
+    if (found >= 0) {
+      cursor.set(type, from + found + 1);
+      return Promise.resolve(events[from + found] as WireEvent);
+    }
+    return new Promise((resolve) => waiting.push({ type, resolve }));
+  };
+  return {
+    socket,
+    events,
+    send: (event) => socket.send(JSON.stringify(event)),
+    next,
+  };
+}
+
+/** Base64 PCM16 mono at 24 kHz: a loud tone, or silence */
+function pcm(ms: number, loud: boolean): string {
+  const samples = loud ? sineTone(ms) : new Int16Array((ms / 1000) * 24000);
+  return Buffer.from(samples.buffer).toString("base64");
+}
+
+const types = (events: WireEvent[]): string[] => events.map((event) => event.type);
+
+describe("startMockServer", () => {
+  it("creates a session and merges session.update", async () => {
+    const client = await connect();
+    const created = await client.next("session.created");
+    expect(created.session).toMatchObject({ model: "gpt-realtime", voice: "alloy" });
+
+    client.send({
+      type: "session.update",
+      event_id: "evt_1",
+      session: { voice: { name: "en-US-AvaNeural", type: "azure-standard" }, instructions: "Hi" },
+    });
+    const updated = await client.next("session.updated");
+    expect(updated.session).toMatchObject({
+      model: "gpt-realtime",
+      voice: { name: "en-US-AvaNeural" },
+      instructions: "Hi",
+    });
+    expect(server?.lastConnection?.received.map((event) => event.type)).toEqual(["session.update"]);
+  });
+
+  it("rejects unknown paths and missing API keys", async () => {
+    server = await startMockServer({ apiKey: "secret" });
+    const status = (path: string): Promise<number> =>
+      new Promise((resolve) => {
+        const socket = new WebSocket(`${server?.origin}${path}`);
+        socket.on("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+        socket.on("open", () => {
+          socket.close();
+          resolve(101);
+        });
+      });
+    expect(await status("/other")).toBe(404);
+    expect(await status("/voice-live/realtime")).toBe(401);
+    expect(await status("/voice-live/realtime?api-key=secret")).toBe(101);
+  });
+
+  it("detects speech in appended audio and answers with audio and a transcript", async () => {
+    const client = await connect({ transcript: "What time is it?" });
+    client.send({
+      type: "session.update",
+      session: { input_audio_transcription: { model: "azure-speech" } },
+    });
+    await client.next("session.updated");
+    client.send({ type: "input_audio_buffer.append", audio: pcm(300, true) });
+    for (let i = 0; i < 6; i++) {
+      client.send({ type: "input_audio_buffer.append", audio: pcm(100, false) });
+    }
+    const done = await client.next("response.done");
+
+    const sequence = types(client.events).filter((type) => !type.endsWith(".delta"));
+    expect(sequence).toEqual([
+      "session.created",
+      "session.updated",
+      "input_audio_buffer.speech_started",
+      "input_audio_buffer.speech_stopped",
+      "input_audio_buffer.committed",
+      "conversation.item.created",
+      "conversation.item.input_audio_transcription.completed",
+      "response.created",
+      "response.output_item.added",
+      "conversation.item.created",
+      "response.content_part.added",
+      "response.audio.done",
+      "response.audio_transcript.done",
+      "response.content_part.done",
+      "response.output_item.done",
+      "response.done",
+    ]);
+    const transcript = await client.next("response.audio_transcript.done");
+    expect(transcript.transcript).toBe("You said: What time is it?");
+    const audio = client.events.filter((event) => event.type === "response.audio.delta");
+    expect(audio.length).toBeGreaterThan(1);
+    expect(Buffer.from(String(audio[0]?.delta), "base64").byteLength).toBe(2400 * 2);
+    expect(done.response).toMatchObject({ status: "completed" });
+  });
+
+  it("streams text for text-only sessions and runs scripted function calls", async () => {
+    const client = await connect({
+      respond: (turn) =>
+        turn.functionOutput
+          ? { text: `It is ${turn.functionOutput.output}` }
+          : { functionCall: { name: "get_time", arguments: { tz: "UTC" } } },
+    });
+    client.send({ type: "session.update", session: { modalities: ["text"] } });
+    client.send({
+      type: "conversation.item.create",
+      item: { type: "message", role: "user", content: [{ type: "input_text", text: "Time?" }] },
+    });
+    client.send({ type: "response.create" });
+
+    const args = await client.next("response.function_call_arguments.done");
+    expect(args).toMatchObject({ name: "get_time", arguments: '{"tz":"UTC"}' });
+    await client.next("response.done");
+
+    client.send({
+      type: "conversation.item.create",
+      item: { type: "function_call_output", call_id: args.call_id, output: '"12:00"' },
+    });
+    client.send({ type: "response.create" });
+    const text = await client.next("response.text.done");
+    expect(text.text).toBe('It is "12:00"');
+    expect(types(client.events)).not.toContain("response.audio.delta");
+  });
+
+  it("requests MCP approval and runs the call once approved", async () => {
+    const client = await connect({
+      respond: () => ({
+        mcpApproval: { serverLabel: "docs", name: "search", arguments: { q: "voice" } },
+      }),
+    });
+    client.send({ type: "response.create" });
+    const request = await client.next("conversation.item.created");
+    expect(request.item).toMatchObject({
+      type: "mcp_approval_request",
+      server_label: "docs",
+      name: "search",
+      arguments: '{"q":"voice"}',
+    });
+    await client.next("response.done");
+
+    client.send({
+      type: "conversation.item.create",
+      item: {
+        type: "mcp_approval_response",
+        approval_request_id: (request.item as { id: string }).id,
+        approve: true,
+      },
+    });
+    await client.next("response.mcp_call.completed");
+    const done = await client.next("response.done");
+    expect(done.response).toMatchObject({
+      status: "completed",
+      output: [{ type: "mcp_call", server_label: "docs", output: '{"ok":true}' }],
+    });
+  });
+
+  it("acknowledges item edits and reports failures with the client event_id", async () => {
+    const client = await connect();
+    client.send({
+      type: "conversation.item.create",
+      item: { id: "u1", type: "message", role: "user", content: [] },
+    });
+    client.send({ type: "conversation.item.retrieve", item_id: "u1" });
+    expect((await client.next("conversation.item.retrieved")).item).toMatchObject({ id: "u1" });
+    client.send({ type: "conversation.item.delete", item_id: "u1" });
+    expect((await client.next("conversation.item.deleted")).item_id).toBe("u1");
+
+    client.send({ type: "conversation.item.delete", event_id: "evt_7", item_id: "u1" });
+    const error = await client.next("error");
+    expect(error.error).toMatchObject({ code: "item_not_found", event_id: "evt_7" });
+  });
+
+  it("cancels responses on request and on barge-in", async () => {
+    const client = await connect({ realtime: true, respond: () => ({ text: "a b c d e f g" }) });
+    client.send({ type: "response.create" });
+    await client.next("response.audio.delta");
+    client.send({ type: "response.create", event_id: "evt_2" });
+    expect((await client.next("error")).error).toMatchObject({
+      code: "conversation_already_has_active_response",
+      event_id: "evt_2",
+    });
+    client.send({ type: "response.cancel" });
+    expect((await client.next("response.done")).response).toMatchObject({ status: "cancelled" });
+
+    client.send({ type: "response.create" });
+    await client.next("response.audio.delta");
+    client.send({ type: "input_audio_buffer.append", audio: pcm(100, true) });
+    await client.next("input_audio_buffer.speech_started");
+    expect((await client.next("response.done")).response).toMatchObject({ status: "cancelled" });
+
+    client.send({ type: "response.cancel", event_id: "evt_3" });
+    expect((await client.next("error")).error).toMatchObject({
+      code: "response_cancel_not_active",
+    });
+  });
+
+  it("injects errors and closes", async () => {
+    const client = await connect({
+      failOn: { "session.update": { code: "invalid_value", message: "bad voice" } },
+      respond: () => ({ close: { code: 1011, reason: "upstream gone" } }),
+    });
+    client.send({ type: "session.update", event_id: "evt_1", session: {} });
+    expect((await client.next("error")).error).toMatchObject({
+      type: "invalid_request_error",
+      code: "invalid_value",
+      message: "bad voice",
+      event_id: "evt_1",
+    });
+
+    const closed = new Promise<number>((resolve) => client.socket.once("close", resolve));
+    client.send({ type: "response.create" });
+    expect(await closed).toBe(1011);
+  });
+
+  it("lets tests drive a connection directly", async () => {
+    server = await startMockServer();
+    const accepted = server.nextConnection();
+    const client = await connect();
+    const connection = await accepted;
+    await connection.simulateUserTurn("Hi there");
+    expect((await client.next("response.audio_transcript.done")).transcript).toBe(
+      "You said: Hi there"
+    );
+    connection.sendError({ type: "server_error", message: "boom" });
+    expect((await client.next("error")).error).toMatchObject({ message: "boom" });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { TelephonyBridge, readCarriers, readSessionOverrides, type Carrier } from "../telephony.js";
+
+/** A bridge with both directions recorded as parsed frames */
+function bridge(carrier: Carrier, session?: Record<string, unknown>) {
+  const toCarrier: any[] = [];
+  const toVoiceLive: any[] = [];
+  const instance = new TelephonyBridge({
+    carrier,
+    session,
+    toCarrier: (text) => toCarrier.push(JSON.parse(text)),
+    toVoiceLive: (text) => toVoiceLive.push(JSON.parse(text)),
+  });
+  const fromCarrier = (frame: Record<string, unknown>) =>
+    instance.handleCarrierMessage(JSON.stringify(frame));
+  const fromVoiceLive = (event: Record<string, unknown>) =>
+    instance.handleVoiceLiveMessage(JSON.stringify(event));
+  return { instance, toCarrier, toVoiceLive, fromCarrier, fromVoiceLive };
+}
+
+/** `bytes` of audio as base64 */
+const audio = (bytes: number): string => Buffer.alloc(bytes, 0xff).toString("base64");
+
+const delta = (itemId: string, bytes: number) => ({
+  type: "response.audio.delta",
+  response_id: "resp_1",
+  item_id: itemId,
+  output_index: 0,
+  content_index: 0,
+  delta: audio(bytes),
+});
+
+describe("TelephonyBridge (Twilio)", () => {
+  it("configures μ-law audio and forwards the caller's media", () => {
+    const twilio = bridge("twilio", { instructions: "Answer the phone", input_audio_format: "x" });
+    twilio.instance.start();
+    expect(twilio.toVoiceLive[0]).toEqual({
+      type: "session.update",
+      session: {
+        instructions: "Answer the phone",
+        input_audio_format: "g711_ulaw",
+        output_audio_format: "g711_ulaw",
+      },
+    });
+
+    expect(twilio.fromCarrier({ event: "connected", protocol: "Call" })).toEqual({
+      type: "ignored",
+      kind: "connected",
+    });
+    expect(
+      twilio.fromCarrier({ event: "start", streamSid: "MZ1", start: { streamSid: "MZ1" } })
+    ).toEqual({ type: "start", streamId: "MZ1" });
+    twilio.fromCarrier({ event: "media", media: { track: "inbound", payload: audio(160) } });
+    twilio.fromCarrier({ event: "media", media: { track: "outbound", payload: audio(160) } });
+    expect(twilio.toVoiceLive.slice(1)).toEqual([
+      { type: "input_audio_buffer.append", audio: audio(160) },
+    ]);
+    expect(twilio.fromCarrier({ event: "stop", streamSid: "MZ1" })).toEqual({ type: "stop" });
+  });
+
+  it("plays response audio as media frames followed by marks", () => {
+    const twilio = bridge("twilio");
+    twilio.fromCarrier({ event: "start", start: { streamSid: "MZ1" } });
+    twilio.fromVoiceLive(delta("item_1", 800));
+    twilio.fromVoiceLive(delta("item_1", 400));
+    expect(twilio.toCarrier).toEqual([
+      { event: "media", streamSid: "MZ1", media: { payload: audio(800) } },
+      { event: "mark", streamSid: "MZ1", mark: { name: "item_1:100" } },
+      { event: "media", streamSid: "MZ1", media: { payload: audio(400) } },
+      { event: "mark", streamSid: "MZ1", mark: { name: "item_1:150" } },
+    ]);
+  });
+
+  it("clears the caller's buffer on barge-in and truncates the item where playback was", () => {
+    const twilio = bridge("twilio");
+    twilio.fromCarrier({ event: "start", start: { streamSid: "MZ1" } });
+    twilio.fromVoiceLive(delta("item_1", 800));
+    twilio.fromVoiceLive(delta("item_1", 800));
+    twilio.fromCarrier({ event: "mark", mark: { name: "item_1:100" } });
+
+    twilio.fromVoiceLive({ type: "input_audio_buffer.speech_started", audio_start_ms: 900 });
+    expect(twilio.toCarrier.at(-1)).toEqual({ event: "clear", streamSid: "MZ1" });
+    expect(twilio.toVoiceLive).toEqual([
+      {
+        type: "conversation.item.truncate",
+        item_id: "item_1",
+        content_index: 0,
+        audio_end_ms: 100,
+      },
+    ]);
+
+    // Twilio echoes the remaining marks after a clear; they must not count as played
+    twilio.fromCarrier({ event: "mark", mark: { name: "item_1:200" } });
+    twilio.fromVoiceLive({ type: "input_audio_buffer.speech_started", audio_start_ms: 1500 });
+    expect(twilio.toVoiceLive).toHaveLength(1);
+    expect(twilio.toCarrier.filter((frame) => frame.event === "clear")).toHaveLength(1);
+  });
+
+  it("does not truncate an item the caller heard completely", () => {
+    const twilio = bridge("twilio");
+    twilio.fromVoiceLive(delta("item_1", 800));
+    twilio.fromCarrier({ event: "mark", mark: { name: "item_1:100" } });
+    twilio.fromVoiceLive({ type: "input_audio_buffer.speech_started", audio_start_ms: 900 });
+    expect(twilio.toVoiceLive).toEqual([]);
+  });
+
+  it("rejects frames that are not JSON objects", () => {
+    const twilio = bridge("twilio");
+    expect(() => twilio.instance.handleCarrierMessage("not json")).toThrow();
+    expect(() => twilio.instance.handleCarrierMessage("42")).toThrow(/JSON object/);
+  });
+});
+
+describe("TelephonyBridge (ACS)", () => {
+  it("bridges 24 kHz PCM16 and answers barge-in with StopAudio", () => {
+    const acs = bridge("acs");
+    acs.instance.start();
+    expect(acs.toVoiceLive[0].session).toEqual({
+      input_audio_format: "pcm16",
+      output_audio_format: "pcm16",
+    });
+    expect(
+      acs.fromCarrier({
+        kind: "AudioMetadata",
+        audioMetadata: { subscriptionId: "sub_1", encoding: "PCM", sampleRate: 24000 },
+      })
+    ).toEqual({ type: "start", streamId: "sub_1" });
+    acs.fromCarrier({ kind: "AudioData", audioData: { data: audio(960), silent: false } });
+    expect(acs.toVoiceLive.at(-1)).toEqual({
+      type: "input_audio_buffer.append",
+      audio: audio(960),
+    });
+
+    acs.fromVoiceLive(delta("item_1", 4800));
+    expect(acs.toCarrier).toEqual([{ kind: "AudioData", audioData: { data: audio(4800) } }]);
+    acs.fromVoiceLive({ type: "input_audio_buffer.speech_started", audio_start_ms: 300 });
+    expect(acs.toCarrier.at(-1)).toEqual({ kind: "StopAudio", audioData: null, stopAudio: {} });
+    // No playback marks: the played position is unknown, so nothing is truncated
+    expect(acs.toVoiceLive.map((event) => event.type)).not.toContain("conversation.item.truncate");
+  });
+});
+
+describe("telephony settings", () => {
+  it("reads the enabled carriers", () => {
+    const warnings: string[] = [];
+    expect(readCarriers(" Twilio, acs ,twilio,sip", (m) => warnings.push(m))).toEqual([
+      "twilio",
+      "acs",
+    ]);
+    expect(warnings).toEqual([expect.stringContaining('"sip"')]);
+    expect(readCarriers(undefined)).toEqual([]);
+  });
+
+  it("reads session overrides as a JSON object", () => {
+    expect(readSessionOverrides(undefined)).toBeUndefined();
+    expect(readSessionOverrides('{"instructions":"Hi"}')).toEqual({ instructions: "Hi" });
+    expect(() => readSessionOverrides("{instructions")).toThrow(/not valid JSON/);
+    expect(() => readSessionOverrides("[1]")).toThrow(/JSON object/);
+  });
+});
@@ -237,6 +237,23 @@ describe("buildAzureUrl - standard mode", () => {
       /FOUNDRY_RESOURCE_NAME/
     );
   });
+
+  it("uses UPSTREAM_ORIGIN instead of the resource host (no resource name needed)", async () => {
+    const { url, headers } = await buildAzureUrl(
+      { model: "gpt-realtime" },
+      cfg({
+        azureResourceName: "",
+        upstreamOrigin: "ws://127.0.0.1:9090/",
+        foundryApiKey: API_KEY,
+      }),
+      deps()
+    );
+    const { origin, pathname, params } = parseUrl(url);
+    expect(origin).toBe("ws://127.0.0.1:9090");
+    expect(pathname).toBe(REALTIME_PATH);
+    expect(params.get("model")).toBe("gpt-realtime");
+    expect(headers).toEqual({ "api-key": API_KEY });
+  });
 });
 
 describe("buildAzureUrl - Foundry Agents", () => {
@@ -11,6 +11,7 @@
  * Built with Express, includes CORS, rate limiting, and security best practices.
  * Supports Voice, Avatar, and Foundry Agents with browser token passthrough, API key, and
  * DefaultAzureCredential auth, over the WebSocket or WebRTC (preview) transport.
+ * Optionally bridges phone calls (Twilio / ACS media streams) to Voice Live, see telephony.ts.
  */
 
 import express from "express";
@@ -48,6 +49,13 @@ import {
   SERVER_AT_CAPACITY_CLOSE,
   toClientCloseFrame,
 } from "./closeFrame.js";
+import {
+  readCarriers,
+  readSessionOverrides,
+  TelephonyBridge,
+  type Carrier,
+  type CarrierEvent,
+} from "./telephony.js";
 
 dotenv.config();
 
@@ -152,6 +160,8 @@ const config: ProxyConfig = {
   // undefined = built-in default per transport (see url.ts); can be overridden per connection via ?apiVersion=
   apiVersion: process.env.API_VERSION || undefined,
   azureResourceName: process.env.FOUNDRY_RESOURCE_NAME || "",
+  // Optional: point the proxy at another upstream, e.g. the local mock server (pnpm mock)
+  upstreamOrigin: process.env.UPSTREAM_ORIGIN || undefined,
   foundryApiKey: process.env.FOUNDRY_API_KEY,
   foundryAgentName: process.env.FOUNDRY_AGENT_NAME,
   foundryProjectName: process.env.FOUNDRY_PROJECT_NAME,
@@ -178,8 +188,19 @@ const securityConfig: SecurityConfig = {
   ),
 };
 
-if (!config.azureResourceName) {
-  logger.error("Error: FOUNDRY_RESOURCE_NAME required in .env");
+if (!config.azureResourceName && !config.upstreamOrigin) {
+  logger.error("Error: FOUNDRY_RESOURCE_NAME (or UPSTREAM_ORIGIN) required in .env");
+  process.exit(1);
+}
+
+// Telephony bridge routes are opt-in: a carrier connects without an Origin, so an enabled route is
+// reachable by anyone who can reach the proxy
+const telephonyCarriers: Carrier[] = readCarriers(process.env.TELEPHONY, (m) => console.warn(m));
+let telephonySession: Record<string, unknown> | undefined;
+try {
+  telephonySession = readSessionOverrides(process.env.TELEPHONY_SESSION);
+} catch (error) {
+  logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
   process.exit(1);
 }
 
@@ -290,8 +311,9 @@ const limiter = rateLimit({
   },
 });
 
-// Apply rate limiting to WebSocket endpoint
+// Apply rate limiting to WebSocket endpoints
 app.use("/ws", limiter);
+app.use("/telephony", limiter);
 
 // JSON parsing for HTTP endpoints
 app.use(express.json());
@@ -389,6 +411,9 @@ function extractEventType(text: string): string | undefined {
   return EVENT_TYPE_PATTERN.exec(text.slice(0, 512))?.[1];
 }
 
+/** High-frequency upstream events that are not logged */
+const SKIP_LOG_TYPES = new Set(["response.audio.delta", "response.audio_transcript.delta"]);
+
 /**
  * Health check endpoint
  */
@@ -564,9 +589,6 @@ app.ws("/ws", async (ws, req) => {
       }
     }
 
-    // Skip logging high-frequency messages to reduce console spam
-    const SKIP_LOG_TYPES = new Set(["response.audio.delta", "response.audio_transcript.delta"]);
-
     azureWs.on("message", (msg) => {
       const text = msg.toString("utf8");
       const type = extractEventType(text);
@@ -630,6 +652,203 @@ app.ws("/ws", async (ws, req) => {
   }
 });
 
+/**
+ * Telephony bridge endpoints (enabled per carrier with TELEPHONY=twilio,acs)
+ *
+ * A carrier opens one of these sockets for each call's media stream:
+ * - Twilio:  <Connect><Stream url="wss://proxy.example/telephony/twilio" /></Connect>
+ * - ACS:     media streaming with transportUrl wss://proxy.example/telephony/acs (pcm24KMono)
+ *
+ * Unlike `/ws`, the proxy is the Voice Live client here: `TelephonyBridge` configures the session
+ * for the carrier's audio (plus TELEPHONY_SESSION) and translates frames in both directions. The
+ * upstream connection is resolved exactly like a browser's — `.env` defaults, or query parameters
+ * where the carrier keeps them (Twilio drops them from the stream URL) — always over WebSocket.
+ */
+for (const carrier of telephonyCarriers) {
+  app.ws(`/telephony/${carrier}`, async (ws, req) => {
+    if (activeConnections >= securityConfig.maxConnections) {
+      logger.warn("[Security] Max connections reached", {
+        maxConnections: securityConfig.maxConnections,
+      });
+      ws.close(SERVER_AT_CAPACITY_CLOSE.code, SERVER_AT_CAPACITY_CLOSE.reason);
+      return;
+    }
+
+    activeConnections++;
+    logger.info(
+      `\n[Telephony] ${carrier} stream connected (${activeConnections}/${securityConfig.maxConnections})`,
+      { carrier, url: redactUrl(req.url || ""), activeConnections }
+    );
+    logger.trackMetric("activeConnections", activeConnections);
+
+    let azureWs: WebSocket | undefined;
+    let carrierClosed = false;
+
+    // Same slot accounting as `/ws`: held until the call is gone and the upstream attempt settled
+    let released = false;
+    let upstreamSettled = false;
+    let abortUpstreamAttempt: (() => void) | null = null;
+    const releaseSlot = (): void => {
+      if (released || !carrierClosed || !upstreamSettled) return;
+      released = true;
+      activeConnections--;
+      logger.info(
+        `[Telephony] ${carrier} stream disconnected (${activeConnections}/${securityConfig.maxConnections})`,
+        { carrier, activeConnections }
+      );
+      logger.trackMetric("activeConnections", activeConnections);
+    };
+    const cleanup = (): void => {
+      carrierClosed = true;
+      abortUpstreamAttempt?.();
+      abortUpstreamAttempt = null;
+      releaseSlot();
+    };
+
+    ws.on("close", () => {
+      cleanup();
+      azureWs?.close();
+    });
+    ws.on("error", (error) => {
+      logger.error("[Telephony] Carrier WebSocket error:", error, { source: "carrier", carrier });
+      cleanup();
+      azureWs?.close();
+    });
+
+    // The session.update and the first audio frames are kept until the upstream socket is open;
+    // audio beyond the queue's frame limit is dropped (the caller is still hearing the ringback)
+    const pendingMessages = new PendingMessageQueue();
+    let droppedAudio = false;
+    const bridge = new TelephonyBridge({
+      carrier,
+      session: telephonySession,
+      toCarrier: (text) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(text);
+      },
+      toVoiceLive: (text) => {
+        if (azureWs?.readyState === WebSocket.OPEN) {
+          azureWs.send(text);
+          return;
+        }
+        const queued = pendingMessages.push(text);
+        if (queued === "over-budget") {
+          logger.warn("[Telephony] Closing stream: queued audio exceeds the byte budget", {
+            carrier,
+            pendingBytes: pendingMessages.byteLength,
+          });
+          ws.close(1009, "Queued payload too large before upstream connect");
+        } else if (queued === "dropped" && !droppedAudio) {
+          droppedAudio = true;
+          logger.warn("[Telephony] Dropping carrier audio until the upstream is connected", {
+            carrier,
+          });
+        }
+      },
+    });
+    bridge.start();
+
+    ws.on("message", (msg) => {
+      let event: CarrierEvent;
+      try {
+        event = bridge.handleCarrierMessage(msg.toString("utf8"));
+      } catch {
+        logger.warn("[Telephony] Ignoring a malformed carrier frame", { carrier });
+        return;
+      }
+      if (event.type === "start") {
+        logger.info(`[Telephony] ${carrier} media stream started`, {
+          carrier,
+          streamId: event.streamId,
+        });
+      } else if (event.type === "stop") {
+        logger.info(`[Telephony] ${carrier} call ended`, { carrier });
+        ws.close(1000, "Call ended");
+      }
+    });
+
+    try {
+      const parsed = parse(req.url || "", true);
+      const query: QueryParams = { ...(parsed.query as QueryParams), transport: "websocket" };
+
+      const connection = await connectToAzure(query, (abort) => {
+        abortUpstreamAttempt = abort;
+        if (carrierClosed) abort();
+      });
+      upstreamSettled = true;
+      abortUpstreamAttempt = null;
+      azureWs = connection.azureWs;
+
+      if (carrierClosed) {
+        logger.info("[Telephony] Call ended during upstream connect — closing Azure socket");
+        azureWs.close();
+        releaseSlot();
+        return;
+      }
+
+      logger.trackEvent("TelephonyConnected", {
+        carrier,
+        mode: connection.mode,
+        model: connection.model,
+        agentName: connection.agentName,
+      });
+
+      for (const text of pendingMessages.drain()) {
+        azureWs.send(text);
+      }
+
+      azureWs.on("message", (msg) => {
+        const text = msg.toString("utf8");
+        const type = extractEventType(text);
+        if (type === undefined || !SKIP_LOG_TYPES.has(type)) {
+          logger.info(`[Telephony] Azure → ${carrier}: ${type ?? "(unknown type)"}`, {
+            direction: "azure-to-carrier",
+            carrier,
+            messageType: type,
+          });
+        }
+        try {
+          bridge.handleVoiceLiveMessage(text);
+        } catch {
+          logger.warn("[Telephony] Ignoring a malformed upstream frame", { carrier });
+        }
+      });
+
+      azureWs.on("close", (code, reason) => {
+        const reasonText = reason.toString();
+        logger.info(
+          `[Telephony] Azure WebSocket closed - Code: ${code}, Reason: ${reasonText || "No reason"}`,
+          { source: "azure", carrier, closeCode: code, closeReason: reasonText }
+        );
+        // Ends the carrier's stream (Twilio then continues with the rest of its TwiML)
+        const { code: carrierCode, reason: carrierReason } = toClientCloseFrame(code, reasonText);
+        ws.close(carrierCode, carrierReason);
+      });
+
+      azureWs.on("error", (error) => {
+        logger.error("[Telephony] Azure WebSocket error:", error, { source: "azure", carrier });
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.close(1011, "Upstream error");
+        }
+      });
+    } catch (error) {
+      upstreamSettled = true;
+      abortUpstreamAttempt = null;
+      releaseSlot();
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.error("[Telephony] Error:", error instanceof Error ? error : undefined, {
+        carrier,
+        errorMessage,
+      });
+      logger.trackEvent("TelephonyError", { carrier, errorMessage });
+      // No error event: carriers do not read Voice Live events, the close code is all they get
+      const failure = connectFailureCloseFrame(error instanceof ProxyRequestError);
+      ws.close(failure.code, failure.reason);
+      azureWs?.close();
+      cleanup();
+    }
+  });
+}
+
 /**
  * Root endpoint - API info
  */
@@ -641,6 +860,9 @@ app.get("/", (_req, res) => {
     endpoints: {
       health: "GET /health",
       websocket: "WS /ws",
+      ...(telephonyCarriers.length > 0 && {
+        telephony: telephonyCarriers.map((carrier) => `WS /telephony/${carrier}`),
+      }),
     },
     websocketParams: {
       model: "Model for standard mode (default: gpt-realtime)",
@@ -677,8 +899,15 @@ app.listen(config.port, () => {
   logger.info(`  HTTP:       http://localhost:${config.port}`);
   logger.info(`  WebSocket:  ws://localhost:${config.port}/ws`);
   logger.info(`  Health:     http://localhost:${config.port}/health`);
+  for (const carrier of telephonyCarriers) {
+    logger.info(`  Telephony:  ws://localhost:${config.port}/telephony/${carrier}`);
+  }
   logger.info(`\nUpstream:`);
-  logger.info(`  Resource:    ${config.azureResourceName}.services.ai.azure.com`);
+  logger.info(
+    config.upstreamOrigin
+      ? `  Origin:      ${config.upstreamOrigin} (from UPSTREAM_ORIGIN)`
+      : `  Resource:    ${config.azureResourceName}.services.ai.azure.com`
+  );
   logger.info(
     `  API Version: ${websocketApiVersion} (${apiVersionSource}; override per connection with ?apiVersion=)`
   );
@@ -714,5 +943,6 @@ app.listen(config.port, () => {
     rateLimit: securityConfig.rateLimitMax,
     maxConnections: securityConfig.maxConnections,
     telemetry: telemetryStatus,
+    telephony: telephonyCarriers.join(","),
   });
 });
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * Mock Voice Live server CLI — offline development and e2e tests.
+ *
+ * Point the proxy at it with `UPSTREAM_ORIGIN=ws://127.0.0.1:9090`, or the SDK directly with
+ * `connection.proxyUrl` set to the printed URL. The assistant echoes what it hears; see `mockServer.ts` to script it.
+ *
+ * Environment:
+ * - `MOCK_PORT` (default 9090), `MOCK_HOST` (default 127.0.0.1)
+ * - `MOCK_AUDIO_FILE` — raw PCM16 mono 24 kHz to speak instead of the sine tone
+ * - `MOCK_REALTIME` — `false` sends reply audio as fast as possible (default: paced like a live stream)
+ * - `MOCK_API_KEY` — require this key from clients (default: none)
+ */
+
+import { readFileSync } from "fs";
+import { readPositiveInt } from "./security.js";
+import { startMockServer } from "./mockServer.js";
+
+function readAudio(path: string | undefined): Int16Array | undefined {
+  if (!path) return undefined;
+  const bytes = readFileSync(path);
+  return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+}
+
+const server = await startMockServer({
+  port: readPositiveInt(process.env.MOCK_PORT, 9090, "MOCK_PORT", (m) => console.warn(m)),
+  host: process.env.MOCK_HOST || "127.0.0.1",
+  audio: readAudio(process.env.MOCK_AUDIO_FILE),
+  realtime: process.env.MOCK_REALTIME !== "false",
+  apiKey: process.env.MOCK_API_KEY || undefined,
+  onConnection: (connection) => {
+    console.log(`Connection (model: ${connection.query.get("model") ?? "default"})`);
+  },
+});
+
+console.log(`\nMock Voice Live server listening on ${server.url}`);
+console.log(`Proxy:  UPSTREAM_ORIGIN=${server.origin} pnpm dev:ts`);
+console.log(`SDK:    connection.proxyUrl = "${server.url}"`);
+
+const shutdown = (): void => {
+  void server.close().then(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,869 @@
+/**
+ * Mock Voice Live server for offline development and end-to-end tests.
+ *
+ * Speaks enough of the Voice Live protocol on `/voice-live/realtime` (WebSocket transport) for
+ * the React SDK, the proxy and the examples to run without an Azure resource:
+ *
+ * - `session.created` on connect, `session.update` → `session.updated` (merged configuration)
+ * - server VAD simulated on the received PCM16 (energy threshold + trailing silence), with
+ *   `speech_started` / `speech_stopped` / `committed`, the user item and its transcript
+ * - responses streamed as `response.audio.delta` (a sine tone or recorded PCM16) with transcript
+ *   deltas, or as text with the text modality; barge-in and `response.cancel` cancel them
+ * - function calls, MCP approval requests, conversation item edits, injected errors and closes
+ *
+ * What the assistant says is scripted with `respond`; a connection can also be driven directly
+ * (`simulateUserTurn()`, `respond()`, `sendError()`, `close()`). The WebRTC transport is not
+ * simulated.
+ */
+
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import type { IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+
+/** A protocol event as it travels on the wire */
+export interface WireEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+/** A conversation item as the mock stores it (wire format) */
+export interface MockItem {
+  id: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+/** An `error` event payload */
+export interface MockError {
+  /** @default "invalid_request_error" */
+  type?: string;
+  code?: string;
+  message: string;
+}
+
+/** What the assistant does in reply to a turn */
+export interface MockReply {
+  /** Spoken (audio + transcript) or, with the text modality, written reply */
+  text?: string;
+  /** PCM16 mono at 24 kHz for this reply; default: the server's `audio` option */
+  audio?: Int16Array;
+  /** Call a function instead of speaking; the client answers with `function_call_output` */
+  functionCall?: { name: string; arguments: string | Record<string, unknown> };
+  /** Request approval for an MCP tool call; once approved, the call runs and returns `output` */
+  mcpApproval?: {
+    serverLabel: string;
+    name: string;
+    arguments: string | Record<string, unknown>;
+    /** @default '{"ok":true}' */
+    output?: string;
+  };
+  /** Answer with this error instead of a response */
+  error?: MockError;
+  /** Close the connection instead of responding */
+  close?: { code: number; reason?: string };
+}
+
+/** The turn a reply is generated for */
+export interface MockTurn {
+  /** Text of the latest user message (typed, or the simulated transcript of spoken audio) */
+  userText: string;
+  /** Set when the turn follows a function result */
+  functionOutput?: { name: string; output: string };
+  /** The conversation so far, oldest first */
+  conversation: readonly MockItem[];
+  /** The session configuration after every `session.update` */
+  session: Readonly<Record<string, unknown>>;
+}
+
+export type MockResponder = (
+  turn: MockTurn,
+  connection: MockConnection
+) => MockReply | Promise<MockReply>;
+
+export interface MockVoiceLiveServerOptions {
+  /** Port to listen on; 0 picks a free one (see `server.port`) @default 0 */
+  port?: number;
+  /** @default "127.0.0.1" */
+  host?: string;
+  /** Script the assistant; the default echoes the user's text */
+  respond?: MockResponder;
+  /** Reply audio: a 440 Hz tone sized to the text, or recorded PCM16 mono at 24 kHz @default "sine" */
+  audio?: "sine" | Int16Array;
+  /** Pace audio deltas like a live stream (100 ms per chunk) instead of sending them at once @default false */
+  realtime?: boolean;
+  /** Transcript the simulated VAD assigns to spoken input @default "Hello" */
+  transcript?: string;
+  /** Simulated server VAD on received audio */
+  vad?: {
+    /** RMS level (0–1) that counts as speech @default 0.02 */
+    threshold?: number;
+    /** Default trailing silence that ends a turn (the session's `silence_duration_ms` wins) @default 500 */
+    silenceMs?: number;
+  };
+  /** Require this key (`api-key` header or query parameter, or a Bearer token) @default none */
+  apiKey?: string;
+  /** Answer these client event types with an error instead of processing them */
+  failOn?: Partial<Record<string, MockError>>;
+  /** Called for every accepted connection (drive it, or inspect `received`) */
+  onConnection?: (connection: MockConnection) => void;
+}
+
+/** Path the mock accepts WebSocket upgrades on */
+export const MOCK_REALTIME_PATH = "/voice-live/realtime";
+
+/** Output (and default input) sample rate */
+const SAMPLE_RATE = 24000;
+/** Samples per `response.audio.delta` (100 ms) */
+const CHUNK_SAMPLES = 2400;
+
+/** The default script: repeat what the user said */
+export const echoResponder: MockResponder = (turn) => {
+  if (turn.functionOutput) {
+    return { text: `The ${turn.functionOutput.name} tool returned ${turn.functionOutput.output}.` };
+  }
+  return { text: turn.userText ? `You said: ${turn.userText}` : "Hello from the mock server." };
+};
+
+/** A sine tone (PCM16 mono, 24 kHz) — the default reply audio */
+export function sineTone(durationMs: number, frequency = 440): Int16Array {
+  const samples = new Int16Array(Math.round((durationMs / 1000) * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.25 * 32767);
+  }
+  return samples;
+}
+
+function toArguments(value: string | Record<string, unknown>): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** RMS level (0–1) of base64 PCM16; interleaved stereo is measured on channel 0 (the microphone) */
+function rmsLevel(base64: string, channels: number): { level: number; frames: number } {
+  const bytes = Buffer.from(base64, "base64");
+  const frames = Math.floor(bytes.length / 2 / channels);
+  if (frames === 0) return { level: 0, frames: 0 };
+  let sum = 0;
+  for (let i = 0; i < frames; i++) {
+    const sample = bytes.readInt16LE(i * 2 * channels) / 32768;
+    sum += sample * sample;
+  }
+  return { level: Math.sqrt(sum / frames), frames };
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** The response being streamed; `cancelled` is checked between chunks */
+interface ActiveResponse {
+  id: string;
+  cancelled: boolean;
+}
+
+/**
+ * One client connection: its session, conversation and simulated VAD
+ */
+export class MockConnection {
+  /** Every client event received, in order (audio appends included) */
+  readonly received: WireEvent[] = [];
+  private readonly items: MockItem[] = [];
+  private sessionConfig: Record<string, unknown>;
+  private seq = 0;
+  private active: ActiveResponse | null = null;
+  /** Pending MCP approvals: approval request id → the call to run once approved */
+  private readonly approvals = new Map<string, NonNullable<MockReply["mcpApproval"]>>();
+  private vad = { speaking: false, silenceMs: 0, audioMs: 0, startMs: 0, itemId: "" };
+
+  constructor(
+    private readonly ws: WebSocket,
+    private readonly options: MockVoiceLiveServerOptions,
+    /** Query parameters of the upgrade request (`model`, `api-version`, agent parameters, ...) */
+    readonly query: URLSearchParams
+  ) {
+    this.sessionConfig = {
+      id: `sess_mock_${Math.random().toString(36).slice(2, 10)}`,
+      model: query.get("model") ?? "gpt-realtime",
+      modalities: ["text", "audio"],
+      voice: "alloy",
+      input_audio_format: "pcm16",
+      output_audio_format: "pcm16",
+      turn_detection: { type: "server_vad", silence_duration_ms: 500, create_response: true },
+      expires_at: Math.floor(Date.now() / 1000) + 30 * 60,
+    };
+    ws.on("message", (data) => this.handleMessage(data));
+    this.send({ type: "session.created", session: this.sessionConfig });
+  }
+
+  /** The session configuration after every `session.update` */
+  get session(): Readonly<Record<string, unknown>> {
+    return this.sessionConfig;
+  }
+
+  /** The conversation, oldest first */
+  get conversation(): readonly MockItem[] {
+    return this.items;
+  }
+
+  /** Send a server event (an `event_id` is added) */
+  send(event: WireEvent): void {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ event_id: this.nextId("event"), ...event }));
+  }
+
+  /** Send an `error`, optionally naming the client event that caused it */
+  sendError(error: MockError, clientEventId?: string): void {
+    this.send({
+      type: "error",
+      error: {
+        type: error.type ?? "invalid_request_error",
+        code: error.code,
+        message: error.message,
+        ...(clientEventId ? { event_id: clientEventId } : {}),
+      },
+    });
+  }
+
+  /** Close the connection (e.g. `1011` to exercise the client's reconnect) */
+  close(code = 1000, reason = ""): void {
+    if (this.active) this.active.cancelled = true;
+    this.ws.close(code, reason);
+  }
+
+  /**
+   * Act out a spoken user turn without audio: VAD events, the committed user item and its
+   * transcript, then (with `create_response`) the reply
+   */
+  async simulateUserTurn(transcript = this.options.transcript ?? "Hello"): Promise<void> {
+    this.speechStarted();
+    await this.speechStopped(transcript);
+  }
+
+  /** Stream a reply now, as for `response.create` (the default reply comes from `respond`) */
+  async respond(reply?: MockReply): Promise<void> {
+    if (this.active) {
+      this.sendError({
+        code: "conversation_already_has_active_response",
+        message: "Conversation already has an active response",
+      });
+      return;
+    }
+    const response: ActiveResponse = { id: this.nextId("resp"), cancelled: false };
+    this.active = response;
+    try {
+      await this.runResponse(response, reply ?? (await this.scriptedReply()));
+    } finally {
+      if (this.active === response) this.active = null;
+    }
+  }
+
+  private nextId(prefix: string): string {
+    this.seq += 1;
+    return `${prefix}_mock_${this.seq}`;
+  }
+
+  private handleMessage(data: RawData): void {
+    let event: WireEvent;
+    try {
+      event = JSON.parse(data.toString()) as WireEvent;
+    } catch {
+      this.sendError({ code: "invalid_json", message: "Client event is not valid JSON" });
+      return;
+    }
+    this.received.push(event);
+    const eventId = typeof event.event_id === "string" ? event.event_id : undefined;
+    const injected = this.options.failOn?.[event.type];
+    if (injected) {
+      this.sendError(injected, eventId);
+      return;
+    }
+    void this.handleEvent(event, eventId).catch((err: unknown) => {
+      this.sendError(
+        { type: "server_error", message: err instanceof Error ? err.message : String(err) },
+        eventId
+      );
+    });
+  }
+
+  private async handleEvent(event: WireEvent, eventId: string | undefined): Promise<void> {
+    switch (event.type) {
+      case "session.update":
+        this.sessionConfig = { ...this.sessionConfig, ...(event.session as object) };
+        this.send({ type: "session.updated", session: this.sessionConfig });
+        return;
+
+      case "input_audio_buffer.append":
+        await this.detectSpeech(String(event.audio ?? ""));
+        return;
+
+      case "input_audio_buffer.commit":
+        await this.commitUserAudio(this.options.transcript ?? "Hello", false);
+        return;
+
+      case "input_audio_buffer.clear":
+        this.vad = {
+          speaking: false,
+          silenceMs: 0,
+          audioMs: this.vad.audioMs,
+          startMs: 0,
+          itemId: "",
+        };
+        this.send({ type: "input_audio_buffer.cleared" });
+        return;
+
+      case "conversation.item.create": {
+        const item = { ...(event.item as object) } as MockItem;
+        item.id ||= this.nextId("item");
+        item.status ??= "completed";
+        const previous = this.addItem(item, event.previous_item_id as string | undefined);
+        this.send({ type: "conversation.item.created", previous_item_id: previous, item });
+        if (item.type === "mcp_approval_response") {
+          await this.resolveApproval(item);
+        }
+        return;
+      }
+
+      case "conversation.item.retrieve": {
+        const item = this.findItem(event.item_id, eventId);
+        if (item) this.send({ type: "conversation.item.retrieved", item });
+        return;
+      }
+
+      case "conversation.item.delete": {
+        const item = this.findItem(event.item_id, eventId);
+        if (!item) return;
+        this.items.splice(this.items.indexOf(item), 1);
+        this.send({ type: "conversation.item.deleted", item_id: item.id });
+        return;
+      }
+
+      case "conversation.item.truncate": {
+        const item = this.findItem(event.item_id, eventId);
+        if (!item) return;
+        this.send({
+          type: "conversation.item.truncated",
+          item_id: item.id,
+          content_index: event.content_index ?? 0,
+          audio_end_ms: event.audio_end_ms ?? 0,
+        });
+        return;
+      }
+
+      case "response.create": {
+        if (this.active) {
+          this.sendError(
+            {
+              code: "conversation_already_has_active_response",
+              message: "Conversation already has an active response",
+            },
+            eventId
+          );
+          return;
+        }
+        const options = (event.response ?? {}) as Record<string, unknown>;
+        const pregenerated = options.pre_generated_assistant_message as
+          | { content?: Array<{ text?: string }> }
+          | undefined;
+        await this.respond(
+          pregenerated
+            ? { text: pregenerated.content?.map((part) => part.text ?? "").join("") }
+            : undefined
+        );
+        return;
+      }
+
+      case "response.cancel":
+        if (!this.active) {
+          this.sendError(
+            {
+              code: "response_cancel_not_active",
+              message: "There is no active response to cancel",
+            },
+            eventId
+          );
+          return;
+        }
+        this.active.cancelled = true;
+        return;
+
+      default:
+        this.sendError(
+          { code: "unknown_event", message: `Unknown event type '${event.type}'` },
+          eventId
+        );
+    }
+  }
+
+  private findItem(itemId: unknown, eventId: string | undefined): MockItem | undefined {
+    const item = this.items.find((candidate) => candidate.id === itemId);
+    if (!item) {
+      this.sendError(
+        { code: "item_not_found", message: `Item with item_id '${String(itemId)}' not found` },
+        eventId
+      );
+    }
+    return item;
+  }
+
+  /** Insert after `previousItemId` (or append); returns the id of the item before it */
+  private addItem(item: MockItem, previousItemId?: string): string | null {
+    const after = previousItemId
+      ? this.items.findIndex((entry) => entry.id === previousItemId)
+      : -1;
+    const index = after >= 0 ? after + 1 : this.items.length;
+    this.items.splice(index, 0, item);
+    return this.items[index - 1]?.id ?? null;
+  }
+
+  private get turnDetection(): Record<string, unknown> | null {
+    return (this.sessionConfig.turn_detection as Record<string, unknown> | null) ?? null;
+  }
+
+  // ===== Simulated server VAD =====
+
+  private async detectSpeech(audio: string): Promise<void> {
+    const echo = this.sessionConfig.input_audio_echo_cancellation as
+      | { channels?: number }
+      | undefined;
+    const rate = Number(this.sessionConfig.input_audio_sampling_rate ?? SAMPLE_RATE);
+    const { level, frames } = rmsLevel(audio, echo?.channels === 2 ? 2 : 1);
+    const chunkMs = (frames / rate) * 1000;
+    this.vad.audioMs += chunkMs;
+    const turnDetection = this.turnDetection;
+    if (!turnDetection) return; // manual turns: only `input_audio_buffer.commit` ends one
+
+    const isSpeech = level >= (this.options.vad?.threshold ?? 0.02);
+    if (isSpeech) {
+      this.vad.silenceMs = 0;
+      if (!this.vad.speaking) this.speechStarted();
+      return;
+    }
+    if (!this.vad.speaking) return;
+    this.vad.silenceMs += chunkMs;
+    const silenceMs = Number(
+      turnDetection.silence_duration_ms ?? this.options.vad?.silenceMs ?? 500
+    );
+    if (this.vad.silenceMs >= silenceMs) {
+      await this.speechStopped(this.options.transcript ?? "Hello");
+    }
+  }
+
+  private speechStarted(): void {
+    this.vad.speaking = true;
+    this.vad.silenceMs = 0;
+    this.vad.startMs = this.vad.audioMs;
+    this.vad.itemId = this.nextId("item");
+    this.send({
+      type: "input_audio_buffer.speech_started",
+      audio_start_ms: Math.round(this.vad.startMs),
+      item_id: this.vad.itemId,
+    });
+    // Barge-in: the user talking over the assistant cancels its response
+    if (this.active && this.turnDetection?.interrupt_response !== false) {
+      this.active.cancelled = true;
+    }
+  }
+
+  private async speechStopped(transcript: string): Promise<void> {
+    this.send({
+      type: "input_audio_buffer.speech_stopped",
+      audio_end_ms: Math.round(this.vad.audioMs),
+      item_id: this.vad.itemId,
+    });
+    await this.commitUserAudio(transcript, this.turnDetection?.create_response !== false);
+  }
+
+  /** Turn the buffered audio into a user item (with its transcript) and optionally reply */
+  private async commitUserAudio(transcript: string, createResponse: boolean): Promise<void> {
+    const itemId = this.vad.itemId || this.nextId("item");
+    this.vad = { speaking: false, silenceMs: 0, audioMs: this.vad.audioMs, startMs: 0, itemId: "" };
+    const item: MockItem = {
+      id: itemId,
+      type: "message",
+      role: "user",
+      status: "completed",
+      content: [{ type: "input_audio", transcript }],
+    };
+    const previous = this.addItem(item);
+    this.send({
+      type: "input_audio_buffer.committed",
+      previous_item_id: previous,
+      item_id: itemId,
+    });
+    this.send({
+      type: "conversation.item.created",
+      previous_item_id: previous,
+      item: { ...item, content: [{ type: "input_audio", transcript: null }] },
+    });
+    if (this.sessionConfig.input_audio_transcription) {
+      this.send({
+        type: "conversation.item.input_audio_transcription.completed",
+        item_id: itemId,
+        content_index: 0,
+        transcript,
+      });
+    }
+    if (createResponse) await this.respond();
+  }
+
+  // ===== Responses =====
+
+  private async scriptedReply(): Promise<MockReply> {
+    const respond = this.options.respond ?? echoResponder;
+    return respond(this.currentTurn(), this);
+  }
+
+  private currentTurn(): MockTurn {
+    const userMessage = [...this.items]
+      .reverse()
+      .find((item) => item.type === "message" && item.role === "user");
+    const content = (userMessage?.content ?? []) as Array<{ text?: string; transcript?: string }>;
+    const last = this.items[this.items.length - 1];
+    let functionOutput: MockTurn["functionOutput"];
+    if (last?.type === "function_call_output") {
+      const call = this.items.find(
+        (item) => item.type === "function_call" && item.call_id === last.call_id
+      );
+      functionOutput = { name: String(call?.name ?? ""), output: String(last.output ?? "") };
+    }
+    return {
+      userText: content.map((part) => part.text ?? part.transcript ?? "").join(""),
+      functionOutput,
+      conversation: this.items,
+      session: this.sessionConfig,
+    };
+  }
+
+  private async runResponse(response: ActiveResponse, reply: MockReply): Promise<void> {
+    if (reply.close) {
+      this.close(reply.close.code, reply.close.reason);
+      return;
+    }
+    if (reply.error) {
+      this.sendError(reply.error);
+      return;
+    }
+    this.send({
+      type: "response.created",
+      response: { id: response.id, object: "realtime.response", status: "in_progress", output: [] },
+    });
+
+    let item: MockItem;
+    if (reply.functionCall) {
+      item = this.streamFunctionCall(response, reply.functionCall);
+    } else if (reply.mcpApproval) {
+      item = this.requestApproval(response, reply.mcpApproval);
+    } else {
+      item = await this.streamMessage(response, reply);
+    }
+
+    const status = response.cancelled ? "cancelled" : "completed";
+    this.send({
+      type: "response.done",
+      response: { id: response.id, object: "realtime.response", status, output: [item] },
+    });
+  }
+
+  /** Announce an output item of `response` and add it to the conversation */
+  private addOutputItem(response: ActiveResponse, item: MockItem): void {
+    const previous = this.addItem(item);
+    this.send({
+      type: "response.output_item.added",
+      response_id: response.id,
+      output_index: 0,
+      item,
+    });
+    this.send({ type: "conversation.item.created", previous_item_id: previous, item });
+  }
+
+  private async streamMessage(response: ActiveResponse, reply: MockReply): Promise<MockItem> {
+    const text = reply.text ?? "";
+    const modalities = (this.sessionConfig.modalities as string[] | undefined) ?? ["text", "audio"];
+    const withAudio = modalities.includes("audio");
+    const item: MockItem = {
+      id: this.nextId("item"),
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [],
+    };
+    this.addOutputItem(response, item);
+    const ids = { response_id: response.id, item_id: item.id, output_index: 0, content_index: 0 };
+    this.send({
+      type: "response.content_part.added",
+      ...ids,
+      part: withAudio ? { type: "audio", transcript: "" } : { type: "text", text: "" },
+    });
+
+    const audio = withAudio ? this.replyAudio(reply) : new Int16Array(0);
+    const chunkCount = Math.max(1, Math.ceil(audio.length / CHUNK_SAMPLES));
+    const words = text.split(/(?<=\s)/);
+    let spoken = "";
+    for (let chunk = 0; chunk < chunkCount && !response.cancelled; chunk++) {
+      // Spread the words evenly over the audio chunks
+      const upTo = Math.round(((chunk + 1) / chunkCount) * words.length);
+      const delta = words.slice(Math.round((chunk / chunkCount) * words.length), upTo).join("");
+      if (delta) {
+        spoken += delta;
+        this.send({
+          type: withAudio ? "response.audio_transcript.delta" : "response.text.delta",
+          ...ids,
+          delta,
+        });
+      }
+      if (withAudio) {
+        const pcm = audio.subarray(chunk * CHUNK_SAMPLES, (chunk + 1) * CHUNK_SAMPLES);
+        this.send({
+          type: "response.audio.delta",
+          ...ids,
+          delta: Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).toString("base64"),
+        });
+      }
+      await sleep(this.options.realtime ? (CHUNK_SAMPLES / SAMPLE_RATE) * 1000 : 0);
+    }
+
+    if (withAudio) {
+      this.send({ type: "response.audio.done", ...ids });
+      this.send({ type: "response.audio_transcript.done", ...ids, transcript: spoken });
+    } else {
+      this.send({ type: "response.text.done", ...ids, text: spoken });
+    }
+    const part = withAudio ? { type: "audio", transcript: spoken } : { type: "text", text: spoken };
+    this.send({ type: "response.content_part.done", ...ids, part });
+    item.status = response.cancelled ? "incomplete" : "completed";
+    item.content = [part];
+    this.send({
+      type: "response.output_item.done",
+      response_id: response.id,
+      output_index: 0,
+      item,
+    });
+    return item;
+  }
+
+  private replyAudio(reply: MockReply): Int16Array {
+    if (reply.audio) return reply.audio;
+    if (this.options.audio instanceof Int16Array) return this.options.audio;
+    const durationMs = Math.min(5000, Math.max(300, (reply.text ?? "").length * 60));
+    return sineTone(durationMs);
+  }
+
+  private streamFunctionCall(
+    response: ActiveResponse,
+    call: NonNullable<MockReply["functionCall"]>
+  ): MockItem {
+    const args = toArguments(call.arguments);
+    const item: MockItem = {
+      id: this.nextId("item"),
+      type: "function_call",
+      call_id: this.nextId("call"),
+      name: call.name,
+      arguments: "",
+      status: "in_progress",
+    };
+    this.addOutputItem(response, item);
+    const ids = {
+      response_id: response.id,
+      item_id: item.id,
+      output_index: 0,
+      call_id: item.call_id,
+    };
+    this.send({ type: "response.function_call_arguments.delta", ...ids, delta: args });
+    this.send({
+      type: "response.function_call_arguments.done",
+      ...ids,
+      name: call.name,
+      arguments: args,
+    });
+    item.arguments = args;
+    item.status = "completed";
+    this.send({
+      type: "response.output_item.done",
+      response_id: response.id,
+      output_index: 0,
+      item,
+    });
+    return item;
+  }
+
+  private requestApproval(
+    response: ActiveResponse,
+    request: NonNullable<MockReply["mcpApproval"]>
+  ): MockItem {
+    const item: MockItem = {
+      id: this.nextId("mcpr"),
+      type: "mcp_approval_request",
+      server_label: request.serverLabel,
+      name: request.name,
+      arguments: toArguments(request.arguments),
+    };
+    this.approvals.set(item.id, request);
+    this.addOutputItem(response, item);
+    this.send({
+      type: "response.output_item.done",
+      response_id: response.id,
+      output_index: 0,
+      item,
+    });
+    return item;
+  }
+
+  /** An approved MCP call runs in a response of its own; a denied one just ends */
+  private async resolveApproval(approval: MockItem): Promise<void> {
+    const request = this.approvals.get(String(approval.approval_request_id));
+    if (!request) return;
+    this.approvals.delete(String(approval.approval_request_id));
+    if (approval.approve !== true || this.active) return;
+
+    const response: ActiveResponse = { id: this.nextId("resp"), cancelled: false };
+    this.active = response;
+    try {
+      this.send({
+        type: "response.created",
+        response: {
+          id: response.id,
+          object: "realtime.response",
+          status: "in_progress",
+          output: [],
+        },
+      });
+      const item: MockItem = {
+        id: this.nextId("item"),
+        type: "mcp_call",
+        server_label: request.serverLabel,
+        name: request.name,
+        arguments: toArguments(request.arguments),
+        approval_request_id: approval.approval_request_id,
+        status: "in_progress",
+      };
+      this.addOutputItem(response, item);
+      this.send({ type: "response.mcp_call.in_progress", item_id: item.id, output_index: 0 });
+      await sleep(0);
+      item.output = request.output ?? '{"ok":true}';
+      item.status = "completed";
+      this.send({ type: "response.mcp_call.completed", item_id: item.id, output_index: 0 });
+      this.send({
+        type: "response.output_item.done",
+        response_id: response.id,
+        output_index: 0,
+        item,
+      });
+      this.send({
+        type: "response.done",
+        response: {
+          id: response.id,
+          object: "realtime.response",
+          status: "completed",
+          output: [item],
+        },
+      });
+    } finally {
+      if (this.active === response) this.active = null;
+    }
+  }
+}
+
+function authorized(req: IncomingMessage, query: URLSearchParams, apiKey: string): boolean {
+  const header = req.headers["api-key"];
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+  return header === apiKey || query.get("api-key") === apiKey || bearer === apiKey;
+}
+
+/**
+ * A running mock server. Create it with `startMockServer()`.
+ */
+export class MockVoiceLiveServer {
+  /** Open connections, oldest first */
+  readonly connections: MockConnection[] = [];
+
+  constructor(
+    private readonly wss: WebSocketServer,
+    /** Actual port (useful with `port: 0`) */
+    readonly port: number,
+    private readonly host: string
+  ) {}
+
+  /** Origin for the proxy's `UPSTREAM_ORIGIN` */
+  get origin(): string {
+    return `ws://${this.host}:${this.port}`;
+  }
+
+  /** Full realtime endpoint URL (usable as the SDK's `connection.proxyUrl`) */
+  get url(): string {
+    return `${this.origin}${MOCK_REALTIME_PATH}`;
+  }
+
+  /** The most recent connection */
+  get lastConnection(): MockConnection | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+
+  /** Resolve with the next connection that is accepted */
+  nextConnection(): Promise<MockConnection> {
+    // Registered after the server's own handler, so the connection is already in the list
+    return new Promise((resolve) => {
+      this.wss.once("connection", () => resolve(this.lastConnection as MockConnection));
+    });
+  }
+
+  /** Close every connection and stop listening */
+  close(): Promise<void> {
+    for (const client of this.wss.clients) client.terminate();
+    return new Promise((resolve, reject) => {
+      this.wss.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+/**
+ * Start a mock Voice Live server.
+ *
+ * @example
+ * ```ts
+ * const server = await startMockServer({
+ *   respond: (turn) =>
+ *     turn.userText.includes("weather")
+ *       ? { functionCall: { name: "get_weather", arguments: { city: "Berlin" } } }
+ *       : { text: "Sunny." },
+ * });
+ * // Proxy: UPSTREAM_ORIGIN=server.origin; SDK without proxy: connection.proxyUrl = server.url
+ * await server.close();
+ * ```
+ */
+export function startMockServer(
+  options: MockVoiceLiveServerOptions = {}
+): Promise<MockVoiceLiveServer> {
+  const host = options.host ?? "127.0.0.1";
+  const wss = new WebSocketServer({
+    host,
+    port: options.port ?? 0,
+    verifyClient: ({ req }, done) => {
+      const url = new URL(req.url ?? "/", "http://mock.invalid");
+      if (url.pathname !== MOCK_REALTIME_PATH) {
+        done(false, 404, "Not found");
+        return;
+      }
+      if (options.apiKey && !authorized(req, url.searchParams, options.apiKey)) {
+        done(false, 401, "Unauthorized");
+        return;
+      }
+      done(true);
+    },
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once("error", reject);
+    wss.once("listening", () => {
+      wss.off("error", reject);
+      const server = new MockVoiceLiveServer(wss, (wss.address() as AddressInfo).port, host);
+      wss.on("connection", (ws, req) => {
+        const query = new URL(req.url ?? "/", "http://mock.invalid").searchParams;
+        const connection = new MockConnection(ws, options, query);
+        server.connections.push(connection);
+        ws.once("close", () => {
+          const index = server.connections.indexOf(connection);
+          if (index >= 0) server.connections.splice(index, 1);
+        });
+        options.onConnection?.(connection);
+      });
+      resolve(server);
+    });
+  });
+}
@@ -0,0 +1,294 @@
+/**
+ * Telephony bridge: a carrier media stream (Twilio Media Streams, Azure Communication Services
+ * bidirectional media streaming) translated to and from the Voice Live protocol.
+ *
+ * The carrier speaks its own JSON frames over the WebSocket it opens to the proxy; Voice Live
+ * speaks client/server events. `TelephonyBridge` converts between the two without touching a
+ * socket, so it can be tested on plain strings:
+ *
+ * - carrier audio → `input_audio_buffer.append` (no transcoding: the session is configured with
+ *   the carrier's own format, `g711_ulaw` for Twilio and 24 kHz `pcm16` for ACS)
+ * - `response.audio.delta` → carrier media frames
+ * - `input_audio_buffer.speech_started` (barge-in) → the carrier's clear message, so the caller
+ *   stops hearing the assistant at once. Twilio echoes a `mark` sent after each chunk once it has
+ *   been played, which tells how much of the interrupted item the caller actually heard; that item
+ *   is truncated there (`conversation.item.truncate`), as the browser SDK does.
+ */
+
+/** Carriers the bridge understands */
+export type Carrier = "twilio" | "acs";
+
+export const CARRIERS: readonly Carrier[] = ["twilio", "acs"];
+
+/** What a carrier frame meant, for the caller's lifecycle handling and logging */
+export type CarrierEvent =
+  /** The media stream started; `streamId` is Twilio's `streamSid` or ACS's `subscriptionId` */
+  | { type: "start"; streamId: string }
+  | { type: "audio" }
+  | { type: "mark"; name: string }
+  /** The call ended: close the upstream session */
+  | { type: "stop" }
+  /** A frame the bridge has no use for (Twilio `connected` / `dtmf`, ACS `DtmfData`, ...) */
+  | { type: "ignored"; kind: string };
+
+/** Voice Live audio format name */
+type WireAudioFormat = "pcm16" | "g711_ulaw";
+
+/** One carrier's frame format */
+interface CarrierProtocol {
+  /** Audio format the carrier streams in both directions */
+  format: WireAudioFormat;
+  /** Bytes per millisecond of that audio */
+  bytesPerMs: number;
+  /** Normalize an inbound frame; audio is returned as its base64 payload */
+  parse(frame: Record<string, any>): CarrierEvent & { payload?: string };
+  media(streamId: string, payload: string): Record<string, unknown>;
+  /** A marker the carrier echoes once the audio before it has been played (if supported) */
+  mark?(streamId: string, name: string): Record<string, unknown>;
+  clear(streamId: string): Record<string, unknown>;
+}
+
+/**
+ * Twilio Media Streams: `connected`, `start`, `media` (base64 μ-law, 8 kHz mono), `mark`, `stop`
+ * inbound; `media`, `mark` and `clear` outbound, each addressed by `streamSid`.
+ */
+const TWILIO: CarrierProtocol = {
+  format: "g711_ulaw",
+  bytesPerMs: 8,
+  parse(frame) {
+    switch (frame.event) {
+      case "start":
+        return { type: "start", streamId: String(frame.start?.streamSid ?? frame.streamSid ?? "") };
+      case "media":
+        // Only the caller's audio: a stream with `tracks: both_tracks` also carries ours
+        if (frame.media?.track && frame.media.track !== "inbound") {
+          return { type: "ignored", kind: `media (${frame.media.track})` };
+        }
+        return { type: "audio", payload: String(frame.media?.payload ?? "") };
+      case "mark":
+        return { type: "mark", name: String(frame.mark?.name ?? "") };
+      case "stop":
+        return { type: "stop" };
+      default:
+        return { type: "ignored", kind: String(frame.event) };
+    }
+  },
+  media: (streamSid, payload) => ({ event: "media", streamSid, media: { payload } }),
+  mark: (streamSid, name) => ({ event: "mark", streamSid, mark: { name } }),
+  clear: (streamSid) => ({ event: "clear", streamSid }),
+};
+
+/**
+ * ACS bidirectional media streaming: `AudioMetadata` and `AudioData` inbound, `AudioData` and
+ * `StopAudio` outbound. The call's media streaming options must select `pcm24KMono`, the rate
+ * Voice Live produces; ACS has no playback marks and closes the socket when the call ends.
+ */
+const ACS: CarrierProtocol = {
+  format: "pcm16",
+  bytesPerMs: 48,
+  parse(frame) {
+    switch (frame.kind) {
+      case "AudioMetadata":
+        return { type: "start", streamId: String(frame.audioMetadata?.subscriptionId ?? "") };
+      case "AudioData":
+        return { type: "audio", payload: String(frame.audioData?.data ?? "") };
+      default:
+        return { type: "ignored", kind: String(frame.kind) };
+    }
+  },
+  media: (_streamId, data) => ({ kind: "AudioData", audioData: { data } }),
+  clear: () => ({ kind: "StopAudio", audioData: null, stopAudio: {} }),
+};
+
+const PROTOCOLS: Record<Carrier, CarrierProtocol> = { twilio: TWILIO, acs: ACS };
+
+export function isCarrier(value: string): value is Carrier {
+  return (CARRIERS as readonly string[]).includes(value);
+}
+
+/** Decoded length of a base64 string, without decoding it */
+function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return (base64.length * 3) / 4 - padding;
+}
+
+export interface TelephonyBridgeOptions {
+  carrier: Carrier;
+  /** Send a frame to the carrier */
+  toCarrier: (text: string) => void;
+  /** Send a client event to Voice Live */
+  toVoiceLive: (text: string) => void;
+  /**
+   * Extra `session.update` fields in wire format (`instructions`, `voice`, `turn_detection`, ...).
+   * The audio formats are the carrier's and cannot be overridden.
+   */
+  session?: Record<string, unknown>;
+}
+
+/** The assistant item being played to the caller */
+interface PlayingItem {
+  itemId: string;
+  /** Audio sent to the carrier so far */
+  sentMs: number;
+  /** Audio the carrier has confirmed as played (marks) */
+  playedMs: number;
+}
+
+export class TelephonyBridge {
+  readonly carrier: Carrier;
+  private readonly protocol: CarrierProtocol;
+  private streamId = "";
+  private playing: PlayingItem | null = null;
+
+  constructor(private readonly options: TelephonyBridgeOptions) {
+    this.carrier = options.carrier;
+    this.protocol = PROTOCOLS[options.carrier];
+  }
+
+  /** Audio format of the session (the carrier's) */
+  get audioFormat(): WireAudioFormat {
+    return this.protocol.format;
+  }
+
+  /** Configure the session for the carrier's audio; call once, before any audio */
+  start(): void {
+    this.sendToVoiceLive({
+      type: "session.update",
+      session: {
+        ...this.options.session,
+        input_audio_format: this.protocol.format,
+        output_audio_format: this.protocol.format,
+      },
+    });
+  }
+
+  /**
+   * Handle a frame from the carrier.
+   *
+   * @throws Error when the frame is not a JSON object
+   */
+  handleCarrierMessage(text: string): CarrierEvent {
+    const frame: unknown = JSON.parse(text);
+    if (typeof frame !== "object" || frame === null) {
+      throw new Error("Carrier frame is not a JSON object");
+    }
+    const { payload, ...event } = this.protocol.parse(frame as Record<string, any>);
+    switch (event.type) {
+      case "start":
+        this.streamId = event.streamId;
+        break;
+      case "audio":
+        if (payload) this.sendToVoiceLive({ type: "input_audio_buffer.append", audio: payload });
+        break;
+      case "mark":
+        this.onMark(event.name);
+        break;
+    }
+    return event;
+  }
+
+  /** Handle a Voice Live server event (the raw frame; only a few event types are read) */
+  handleVoiceLiveMessage(text: string): void {
+    const event = JSON.parse(text) as { type?: string; item_id?: string; delta?: string };
+    switch (event.type) {
+      case "response.audio.delta":
+        if (event.item_id && event.delta) this.play(event.item_id, event.delta);
+        break;
+      case "input_audio_buffer.speech_started":
+        this.bargeIn();
+        break;
+    }
+  }
+
+  private play(itemId: string, payload: string): void {
+    if (this.playing?.itemId !== itemId) {
+      this.playing = { itemId, sentMs: 0, playedMs: 0 };
+    }
+    this.playing.sentMs += base64ByteLength(payload) / this.protocol.bytesPerMs;
+    this.sendToCarrier(this.protocol.media(this.streamId, payload));
+    const mark = this.protocol.mark?.(
+      this.streamId,
+      `${itemId}:${Math.round(this.playing.sentMs)}`
+    );
+    if (mark) this.sendToCarrier(mark);
+  }
+
+  /** A mark came back: the audio before it has been played */
+  private onMark(name: string): void {
+    const separator = name.lastIndexOf(":");
+    const itemId = name.slice(0, separator);
+    const ms = Number(name.slice(separator + 1));
+    // Marks of an item that was interrupted (Twilio echoes them all on `clear`) are stale
+    if (separator < 0 || this.playing?.itemId !== itemId || !Number.isFinite(ms)) return;
+    this.playing.playedMs = Math.max(this.playing.playedMs, ms);
+  }
+
+  private bargeIn(): void {
+    const playing = this.playing;
+    this.playing = null;
+    if (!playing) return;
+    this.sendToCarrier(this.protocol.clear(this.streamId));
+    // Without marks the played position is unknown; the service keeps the whole item then
+    if (this.protocol.mark && playing.playedMs < Math.round(playing.sentMs)) {
+      this.sendToVoiceLive({
+        type: "conversation.item.truncate",
+        item_id: playing.itemId,
+        content_index: 0,
+        audio_end_ms: Math.round(playing.playedMs),
+      });
+    }
+  }
+
+  private sendToCarrier(frame: Record<string, unknown>): void {
+    this.options.toCarrier(JSON.stringify(frame));
+  }
+
+  private sendToVoiceLive(event: Record<string, unknown>): void {
+    this.options.toVoiceLive(JSON.stringify(event));
+  }
+}
+
+/**
+ * Parse the `TELEPHONY` setting: a comma-separated list of carriers whose routes are served.
+ * Unknown names are reported and skipped rather than failing the whole proxy.
+ */
+export function readCarriers(
+  raw: string | undefined,
+  warn: (message: string) => void = (): void => undefined
+): Carrier[] {
+  const carriers: Carrier[] = [];
+  for (const entry of (raw ?? "").split(",")) {
+    const name = entry.trim().toLowerCase();
+    if (!name) continue;
+    if (isCarrier(name)) {
+      if (!carriers.includes(name)) carriers.push(name);
+    } else {
+      warn(
+        `[Config] TELEPHONY: unknown carrier "${entry.trim()}" (expected ${CARRIERS.join(", ")})`
+      );
+    }
+  }
+  return carriers;
+}
+
+/**
+ * Parse the `TELEPHONY_SESSION` setting: `session.update` fields (wire format) applied to every
+ * call, e.g. `{"instructions":"You answer the phone for Contoso","voice":{...}}`.
+ *
+ * @throws Error when the value is not a JSON object
+ */
+export function readSessionOverrides(raw: string | undefined): Record<string, unknown> | undefined {
+  if (raw === undefined || raw.trim() === "") return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `TELEPHONY_SESSION is not valid JSON (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("TELEPHONY_SESSION must be a JSON object of session.update fields");
+  }
+  return parsed as Record<string, unknown>;
+}
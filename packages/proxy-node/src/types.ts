@@ -77,6 +77,7 @@ export interface ProxyConfig {
   port: number;
   apiVersion?: string; // Optional: API_VERSION env; undefined = built-in default per transport
   azureResourceName: string;
+  upstreamOrigin?: string; // Optional: UPSTREAM_ORIGIN env, e.g. the local mock server
   foundryApiKey?: string; // Optional: for anonymous API key auth
   foundryAgentName?: string; // Optional: default agent name from .env
   foundryProjectName?: string; // Optional: default project name from .env
@@ -99,6 +100,7 @@ export interface EnvironmentConfig {
   PORT?: string;
   API_VERSION?: string;
   FOUNDRY_RESOURCE_NAME?: string;
+  UPSTREAM_ORIGIN?: string;
   FOUNDRY_API_KEY?: string;
   FOUNDRY_AGENT_NAME?: string;
   FOUNDRY_PROJECT_NAME?: string;
@@ -106,6 +108,8 @@ export interface EnvironmentConfig {
   RATE_LIMIT_WINDOW_MS?: string;
   RATE_LIMIT_MAX_REQUESTS?: string;
   MAX_CONNECTIONS?: string;
+  TELEPHONY?: string;
+  TELEPHONY_SESSION?: string;
   APPLICATIONINSIGHTS_CONNECTION_STRING?: string;
 }
 
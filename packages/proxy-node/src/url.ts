@@ -55,6 +55,11 @@ const REALTIME_CALLS_PATH = "/voice-live/realtime/calls";
 export interface UrlBuildConfig {
   /** Azure AI Foundry resource name (`<name>.services.ai.azure.com`) */
   azureResourceName: string;
+  /**
+   * Upstream origin from `UPSTREAM_ORIGIN` env (e.g. `ws://127.0.0.1:9090` for the mock server);
+   * replaces `wss://<azureResourceName>.services.ai.azure.com`
+   */
+  upstreamOrigin?: string;
   /** API version from `API_VERSION` env; undefined = built-in default per transport */
   apiVersion?: string;
   /** API key from `FOUNDRY_API_KEY` env (standard mode only) */
@@ -174,7 +179,7 @@ export async function buildAzureUrl(
   cfg: UrlBuildConfig,
   deps: UrlBuildDeps
 ): Promise<AzureConnectionConfig> {
-  if (!cfg.azureResourceName) {
+  if (!cfg.azureResourceName && !cfg.upstreamOrigin) {
     throw new Error("azureResourceName is required (FOUNDRY_RESOURCE_NAME)");
   }
 
@@ -182,7 +187,9 @@ export async function buildAzureUrl(
   const mode = resolveMode(query, cfg);
   const apiVersion = resolveApiVersion(query, cfg, transport);
   const path = transport === "webrtc" ? REALTIME_CALLS_PATH : REALTIME_PATH;
-  const origin = `wss://${cfg.azureResourceName}.services.ai.azure.com`;
+  const origin = cfg.upstreamOrigin
+    ? cfg.upstreamOrigin.replace(/\/+$/, "")
+    : `wss://${cfg.azureResourceName}.services.ai.azure.com`;
   const params: Array<[string, string]> = [["api-version", apiVersion]];
 
   const bearer = (token: string): Record<string, string> => ({
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { AUDIO_PROCESSOR_CODE, resolveClientVadOptions } from './audioCapture';
+
+const RATE = 24000;
+const QUANTUM = 128;
+
+interface Processor {
+  port: { postMessage: (message: unknown) => void };
+  process: (inputs: Float32Array[][], outputs: unknown[], parameters: unknown) => boolean;
+}
+
+/** The inline processor as an AudioWorkletGlobalScope would run it, posting into `posted` */
+function loadProcessor(processorOptions: object, posted: unknown[]): Processor {
+  let Registered: (new (options: object) => Processor) | undefined;
+  class AudioWorkletProcessor {
+    port = { postMessage: (message: unknown): number => posted.push(message) };
+  }
+  new Function('AudioWorkletProcessor', 'registerProcessor', 'sampleRate', AUDIO_PROCESSOR_CODE)(
+    AudioWorkletProcessor,
+    (_name: string, processor: new (options: object) => Processor) => {
+      Registered = processor;
+    },
+    RATE
+  );
+  return new Registered!({ processorOptions });
+}
+
+/** Deterministic white noise at `amplitude` */
+function noise(amplitude: number): (i: number) => number {
+  let seed = 42;
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed / 2147483648 - 0.5) * 2 * amplitude;
+  };
+}
+
+/** A voice-like tone: 150 Hz with harmonics falling off like a vowel's */
+const voice = (i: number): number => {
+  let sample = 0;
+  for (let h = 1; h <= 12; h++) sample += Math.sin((2 * Math.PI * 150 * h * i) / RATE) / h ** 2;
+  return 0.3 * sample;
+};
+
+/** Run `ms` of a signal through the processor, one render quantum at a time */
+function feed(processor: Processor, ms: number, signal: (i: number) => number): void {
+  const quanta = Math.round((ms / 1000) * (RATE / QUANTUM));
+  for (let q = 0; q < quanta; q++) {
+    const frame = new Float32Array(QUANTUM);
+    for (let i = 0; i < QUANTUM; i++) frame[i] = signal(q * QUANTUM + i);
+    processor.process([[frame]], [], {});
+  }
+}
+
+const samplesIn = (posted: unknown[]): number =>
+  posted
+    .filter((message): message is ArrayBuffer => message instanceof ArrayBuffer)
+    .reduce((total, buffer) => total + buffer.byteLength / 2, 0);
+
+describe('capture worklet voice activity detection', () => {
+  it('posts speech only, with the prefix padding and hangover around it', () => {
+    const posted: unknown[] = [];
+    const vad = resolveClientVadOptions({ prefixPaddingMs: 200, hangoverMs: 400 })!;
+    const processor = loadProcessor({ channels: 1, vad }, posted);
+
+    // Background noise: nothing is sent
+    feed(processor, 1000, noise(0.003));
+    expect(posted).toEqual([]);
+
+    feed(processor, 500, voice);
+    expect(posted.filter((message) => !(message instanceof ArrayBuffer))).toEqual([
+      { type: 'vad', speaking: true },
+    ]);
+    // The speech, with the 200 ms of padding ahead of it
+    expect(samplesIn(posted) / RATE).toBeCloseTo(0.7, 1);
+
+    posted.length = 0;
+    feed(processor, 1000, noise(0.003));
+    expect(posted.filter((message) => !(message instanceof ArrayBuffer))).toEqual([
+      { type: 'vad', speaking: false },
+    ]);
+    // The hangover: ~400 ms of the silence after the speech
+    expect(samplesIn(posted) / RATE).toBeCloseTo(0.4, 1);
+  });
+
+  it('does not take loud noise for speech', () => {
+    const posted: unknown[] = [];
+    const processor = loadProcessor({ channels: 1, vad: resolveClientVadOptions(true) }, posted);
+    feed(processor, 500, noise(0.003));
+    // 30 dB louder, but as flat as before
+    feed(processor, 1000, noise(0.1));
+    expect(posted).toEqual([]);
+  });
+
+  it('posts every quantum without vad', () => {
+    const posted: unknown[] = [];
+    const processor = loadProcessor({ channels: 1 }, posted);
+    feed(processor, 100, noise(0.003));
+    expect(samplesIn(posted)).toBe(Math.round((0.1 * RATE) / QUANTUM) * QUANTUM);
+  });
+});
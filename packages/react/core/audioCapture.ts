@@ -0,0 +1,702 @@
+/**
+ * Microphone capture for the WebSocket transport: `getUserMedia` → AudioWorklet → PCM16 chunks.
+ *
+ * Framework-agnostic: `useAudioCapture` is a React binding over this class, and
+ * `VoiceLiveSession` owns one for its WebSocket microphone. The WebRTC transport sends the
+ * microphone as an RTP track instead (see `microphone.ts`).
+ *
+ * With `channels: 2` the chunks are interleaved stereo — microphone plus the audio being played
+ * back — so the service can use channel 1 as the echo reference (`referenceSource: 'client'`).
+ * With a G.711 `format` they are resampled to 8 kHz and encoded, one byte per sample.
+ * With `vad` the worklet detects speech and only speech reaches `onAudioData`.
+ */
+
+import type { AudioDataCallback } from '../types';
+import type { AudioFormat, ClientVadOptions } from '../types/voiceLive';
+import { buildMicConstraints } from '../utils/audioHelpers';
+import { encodeFromPcm16, G711_SAMPLE_RATE, Pcm16Resampler } from '../utils/audioCodecs';
+
+/**
+ * Inline AudioWorklet processor code
+ * Converts float32 audio samples to PCM16 format. In stereo mode (`processorOptions.channels: 2`)
+ * it interleaves the microphone (input 0) with the playback reference (input 1).
+ *
+ * With `processorOptions.vad` it also runs the voice activity detector on the microphone and
+ * posts `{ type: 'vad', speaking }` on every change. Audio is then only posted while the user is
+ * speaking; until the onset, the last `prefixPaddingMs` of it wait in a ring and go out first.
+ */
+export const AUDIO_PROCESSOR_CODE = `
+// Band of the spectral features: where a voice has its harmonics
+const VAD_BAND_LOW_HZ = 100;
+const VAD_BAND_HIGH_HZ = 4000;
+// The noise floor never drops below this, so after digital silence a click is not speech
+const VAD_FLOOR_MIN_DB = -70;
+
+class VoiceActivityDetector {
+  constructor(options, rate) {
+    this.options = options;
+    // ~10 ms analysis frames, a power of two for the FFT
+    let size = 64;
+    while (size < rate / 100) size *= 2;
+    this.size = size;
+    this.frameMs = (size / rate) * 1000;
+    this.frame = new Float32Array(size);
+    this.filled = 0;
+    this.re = new Float64Array(size);
+    this.im = new Float64Array(size);
+    this.window = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    }
+    this.binLow = Math.max(1, Math.round((VAD_BAND_LOW_HZ * size) / rate));
+    this.binHigh = Math.min(size / 2 - 1, Math.round((VAD_BAND_HIGH_HZ * size) / rate));
+    this.floorDb = null;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+  }
+
+  /** Feed microphone samples; true when \`speaking\` changed */
+  push(samples) {
+    let changed = false;
+    for (let i = 0; i < samples.length; i++) {
+      this.frame[this.filled++] = samples[i];
+      if (this.filled === this.size) {
+        this.filled = 0;
+        if (this.analyse()) changed = true;
+      }
+    }
+    return changed;
+  }
+
+  analyse() {
+    const options = this.options;
+    let energy = 0;
+    for (let i = 0; i < this.size; i++) energy += this.frame[i] * this.frame[i];
+    const db = 10 * Math.log10(energy / this.size + 1e-12);
+    if (this.floorDb === null) this.floorDb = Math.max(db, VAD_FLOOR_MIN_DB);
+    const isSpeech =
+      db > this.floorDb + options.thresholdDb && this.flatness() < options.maxSpectralFlatness;
+    if (!isSpeech) {
+      // Follow the background: quickly down, slowly up (a steady noise becomes the floor)
+      const rate = db < this.floorDb ? 0.3 : 0.02;
+      this.floorDb = Math.max(VAD_FLOOR_MIN_DB, this.floorDb + (db - this.floorDb) * rate);
+    }
+
+    if (isSpeech) {
+      this.speechMs += this.frameMs;
+      this.silenceMs = 0;
+    } else {
+      this.speechMs = 0;
+      if (this.speaking) this.silenceMs += this.frameMs;
+    }
+    if (!this.speaking && this.speechMs >= options.minSpeechMs) {
+      this.speaking = true;
+      return true;
+    }
+    if (this.speaking && this.silenceMs >= options.hangoverMs) {
+      this.speaking = false;
+      this.silenceMs = 0;
+      return true;
+    }
+    return false;
+  }
+
+  /** Spectral flatness of the frame in the speech band: geometric over arithmetic mean power */
+  flatness() {
+    for (let i = 0; i < this.size; i++) {
+      this.re[i] = this.frame[i] * this.window[i];
+      this.im[i] = 0;
+    }
+    this.fft();
+    let logSum = 0;
+    let sum = 0;
+    for (let k = this.binLow; k <= this.binHigh; k++) {
+      const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+      logSum += Math.log(power);
+      sum += power;
+    }
+    const bins = this.binHigh - this.binLow + 1;
+    return Math.exp(logSum / bins) / (sum / bins);
+  }
+
+  /** In-place radix-2 FFT of re/im */
+  fft() {
+    const n = this.size;
+    const re = this.re;
+    const im = this.im;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+      const half = len >> 1;
+      const angle = (-2 * Math.PI) / len;
+      const stepRe = Math.cos(angle);
+      const stepIm = Math.sin(angle);
+      for (let start = 0; start < n; start += len) {
+        let wRe = 1;
+        let wIm = 0;
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const bRe = re[b] * wRe - im[b] * wIm;
+          const bIm = re[b] * wIm + im[b] * wRe;
+          re[b] = re[a] - bRe;
+          im[b] = im[a] - bIm;
+          re[a] += bRe;
+          im[a] += bIm;
+          const nextRe = wRe * stepRe - wIm * stepIm;
+          wIm = wRe * stepIm + wIm * stepRe;
+          wRe = nextRe;
+        }
+      }
+    }
+  }
+}
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = (options && options.processorOptions) || {};
+    this.channels = processorOptions.channels || 1;
+    this.vad = processorOptions.vad
+      ? new VoiceActivityDetector(processorOptions.vad, sampleRate)
+      : null;
+    // Audio held back while the user is silent (interleaved samples, like the posted chunks).
+    // The onset is only confirmed minSpeechMs into the speech, so that much more is kept.
+    this.padding = [];
+    this.paddingSamples = 0;
+    const vad = processorOptions.vad;
+    this.maxPaddingSamples = vad
+      ? Math.round(((vad.prefixPaddingMs + vad.minSpeechMs) / 1000) * sampleRate) * this.channels
+      : 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+
+    if (input && input.length > 0) {
+      const inputData = input[0]; // Get first channel
+
+      if (inputData && inputData.length > 0) {
+        // Input 1 has no channels while no reference is connected: that channel stays silent
+        const reference = this.channels === 2 && inputs[1] ? inputs[1][0] : undefined;
+
+        // Convert float32 audio samples to PCM16
+        const pcm16 = new Int16Array(inputData.length * this.channels);
+        for (let i = 0; i < inputData.length; i++) {
+          // Clamp to [-1, 1] and convert to 16-bit integer
+          const clamped = Math.max(-1, Math.min(1, inputData[i]));
+          if (this.channels === 2) {
+            pcm16[2 * i] = Math.round(clamped * 32767);
+            const ref = reference ? Math.max(-1, Math.min(1, reference[i])) : 0;
+            pcm16[2 * i + 1] = Math.round(ref * 32767);
+          } else {
+            pcm16[i] = Math.round(clamped * 32767);
+          }
+        }
+
+        if (this.vad) {
+          this.gate(inputData, pcm16);
+        } else {
+          // Send the PCM16 data to the main thread
+          this.port.postMessage(pcm16.buffer, [pcm16.buffer]);
+        }
+      }
+    }
+
+    // Return true to keep the processor alive
+    return true;
+  }
+
+  /** Post speech (padding first), keep silence in the padding ring */
+  gate(inputData, pcm16) {
+    if (this.vad.push(inputData)) {
+      this.port.postMessage({ type: 'vad', speaking: this.vad.speaking });
+    }
+    if (!this.vad.speaking) {
+      this.padding.push(pcm16);
+      this.paddingSamples += pcm16.length;
+      while (
+        this.padding.length > 0 &&
+        this.paddingSamples - this.padding[0].length >= this.maxPaddingSamples
+      ) {
+        this.paddingSamples -= this.padding.shift().length;
+      }
+      return;
+    }
+    for (const chunk of this.padding) this.port.postMessage(chunk.buffer, [chunk.buffer]);
+    this.padding = [];
+    this.paddingSamples = 0;
+    this.port.postMessage(pcm16.buffer, [pcm16.buffer]);
+  }
+}
+
+registerProcessor('audio-capture-processor', AudioCaptureProcessor);
+`;
+
+/**
+ * Buffer size: 2400 samples = 4800 bytes = 100ms at 24kHz mono PCM16 (twice that in stereo, which
+ * buffers 2400 sample frames). Reduces WebSocket message frequency by batching small worklet outputs.
+ */
+export const CAPTURE_CHUNK_SAMPLES = 2400;
+
+/** Detector settings used for every `ClientVadOptions` field left out */
+export const DEFAULT_CLIENT_VAD_OPTIONS: Readonly<Required<ClientVadOptions>> = {
+  thresholdDb: 12,
+  maxSpectralFlatness: 0.35,
+  minSpeechMs: 60,
+  hangoverMs: 800,
+  prefixPaddingMs: 300,
+};
+
+/** The complete detector settings for a `vad` option (null: detection off) */
+export function resolveClientVadOptions(
+  vad: boolean | ClientVadOptions | undefined
+): Required<ClientVadOptions> | null {
+  if (!vad) return null;
+  return { ...DEFAULT_CLIENT_VAD_OPTIONS, ...(vad === true ? {} : vad) };
+}
+
+/** What the inline processor posts besides audio */
+interface VoiceActivityMessage {
+  type: 'vad';
+  speaking: boolean;
+}
+
+function isVoiceActivityMessage(data: unknown): data is VoiceActivityMessage {
+  return typeof data === 'object' && data !== null && (data as { type?: unknown }).type === 'vad';
+}
+
+/**
+ * Create a blob URL for the inline audio processor
+ */
+function createProcessorBlobUrl(): string {
+  const blob = new Blob([AUDIO_PROCESSOR_CODE], { type: 'application/javascript' });
+  return URL.createObjectURL(blob);
+}
+
+export interface PcmCaptureOptions {
+  /** Sample rate for audio processing (default: 24000) */
+  sampleRate?: number;
+  /** Custom AudioWorklet processor script (default: the inline PCM16 processor) */
+  workletPath?: string;
+  /** Audio constraints for getUserMedia */
+  audioConstraints?: MediaTrackConstraints;
+  /**
+   * Receives ~100 ms chunks (in `format`) while capturing and not muted — with `vad`, only while
+   * the user is speaking (the chunk that ends an utterance may be shorter)
+   */
+  onAudioData?: AudioDataCallback;
+  /**
+   * Wire format of the chunks (the session's `inputAudioFormat`). G.711 is mono only. Takes
+   * effect with the next chunk. @default 'pcm16'
+   */
+  format?: AudioFormat;
+  /**
+   * `2` captures interleaved stereo for client-reference echo cancellation: channel 0 is the
+   * microphone, channel 1 `referenceStream`. Read by `start()`. @default 1
+   */
+  channels?: 1 | 2;
+  /**
+   * The audio actually played back (e.g. the assistant's `audioStream`), used as channel 1 in
+   * stereo mode. May be set or replaced while capturing; channel 1 is silent while it is null.
+   */
+  referenceStream?: MediaStream | null;
+  /** Voice activity detection in the inline processor (`true`: the defaults). Read by `start()`. */
+  vad?: boolean | ClientVadOptions;
+  /** Called when `vad` finds the user started or stopped speaking */
+  onVoiceActivity?: (speaking: boolean) => void;
+  /** Called whenever `isCapturing`, `isMuted`, `isSpeaking`, `error` or the stream change */
+  onStateChange?: () => void;
+}
+
+/** Resources one start attempt created, so a failure releases its own and nothing else */
+interface OwnedCapture {
+  stream: MediaStream | null;
+  audioContext: AudioContext | null;
+  blobUrl: string | null;
+}
+
+export class PcmCapture {
+  private options: PcmCaptureOptions;
+  private streamValue: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  /** Feeds `referenceStream` into the worklet's second input (stereo mode) */
+  private referenceSource: MediaStreamAudioSourceNode | null = null;
+  private referenceStream: MediaStream | null = null;
+  /** Channel count of the running capture (fixed per start) */
+  private channelCount: 1 | 2 = 1;
+  /** Sample rate of the running capture (fixed per start) */
+  private captureRate = 24000;
+  /** Capture rate → 8 kHz for G.711, continuous across chunks (created on the first one) */
+  private resampler: Pcm16Resampler | null = null;
+  private blobUrl: string | null = null;
+  private buffered: Int16Array[] = [];
+  private bufferedSamples = 0;
+  private capturing = false;
+  private mutedFlag = false;
+  private speakingFlag = false;
+  private errorMessage: string | null = null;
+  /**
+   * Incremented by `stop()`. `start()` awaits `getUserMedia` and `audioWorklet.addModule`; without
+   * this check a stop during either await would be undone by the resuming continuation, leaving
+   * `isCapturing` true with no stream (silently dead capture).
+   */
+  private generation = 0;
+  /** The start attempt in flight, so concurrent callers share it instead of racing */
+  private pendingStart: Promise<void> | null = null;
+
+  constructor(options: PcmCaptureOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Replace the options. Takes effect for the next chunk (callbacks), immediately
+   * (`referenceStream`), or with the next `start()` (everything else).
+   */
+  setOptions(options: PcmCaptureOptions): void {
+    this.options = options;
+    if (options.referenceStream !== undefined) {
+      this.setReferenceStream(options.referenceStream);
+    }
+  }
+
+  /** Replace the echo reference mixed into channel 1 (stereo capture only) */
+  setReferenceStream(stream: MediaStream | null): void {
+    if (stream === this.referenceStream) return;
+    this.referenceStream = stream;
+    this.connectReference();
+  }
+
+  /** (Re)wire the reference stream into the running worklet; no-op until capture runs */
+  private connectReference(): void {
+    this.referenceSource?.disconnect();
+    this.referenceSource = null;
+    const stream = this.referenceStream;
+    if (!stream || !this.context || !this.workletNode || this.channelCount !== 2) return;
+    try {
+      const source = this.context.createMediaStreamSource(stream);
+      source.connect(this.workletNode, 0, 1);
+      this.referenceSource = source;
+    } catch (err) {
+      // A stream without an audio track: capture keeps running with a silent reference
+      console.warn('Audio capture: could not attach the echo reference stream:', err);
+    }
+  }
+
+  /** Current audio stream from the microphone */
+  get stream(): MediaStream | null {
+    return this.streamValue;
+  }
+
+  /** The capture AudioContext */
+  get audioContext(): AudioContext | null {
+    return this.context;
+  }
+
+  get isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  get isMuted(): boolean {
+    return this.mutedFlag;
+  }
+
+  /** Whether the `vad` detector currently hears speech (always false without it) */
+  get isSpeaking(): boolean {
+    return this.speakingFlag;
+  }
+
+  /** Message of the last failed start, cleared by the next attempt */
+  get error(): string | null {
+    return this.errorMessage;
+  }
+
+  private changed(): void {
+    try {
+      this.options.onStateChange?.();
+    } catch {
+      // a failing observer must not break capture
+    }
+  }
+
+  /**
+   * Start capturing, coalescing concurrent calls.
+   *
+   * `getUserMedia` and the worklet module both take a while, and `isCapturing` only flips at the
+   * end — so two calls in that window (a re-rendered auto-start effect, a consumer calling
+   * `startMic()` twice) would each acquire a stream and the second would overwrite the fields of
+   * the first, leaving a microphone recording that nothing can stop. Callers share one attempt.
+   */
+  start(): Promise<void> {
+    if (this.pendingStart) return this.pendingStart;
+    if (this.streamValue) return Promise.resolve(); // already capturing
+    const attempt = this.run().finally(() => {
+      if (this.pendingStart === attempt) this.pendingStart = null;
+    });
+    this.pendingStart = attempt;
+    return attempt;
+  }
+
+  private async run(): Promise<void> {
+    const owned: OwnedCapture = { stream: null, audioContext: null, blobUrl: null };
+    const { sampleRate = 24000, workletPath, audioConstraints, channels = 1, vad } = this.options;
+    try {
+      if (channels === 2 && (this.options.format ?? 'pcm16') !== 'pcm16') {
+        throw new Error("Stereo capture (channels: 2) requires the 'pcm16' format");
+      }
+      if (this.errorMessage !== null) {
+        this.errorMessage = null;
+        this.changed();
+      }
+
+      const generation = this.generation;
+      const isSuperseded = (): boolean => generation !== this.generation;
+
+      // Request microphone access with the SDK's defaults for voice applications
+      const stream = await navigator.mediaDevices.getUserMedia(
+        buildMicConstraints(audioConstraints, sampleRate)
+      );
+      if (isSuperseded()) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      owned.stream = stream;
+      this.streamValue = stream;
+
+      const audioContext = new AudioContext({ sampleRate });
+      owned.audioContext = audioContext;
+      this.context = audioContext;
+
+      // Use the inline processor unless a custom path is provided (advanced usage)
+      let processorUrl: string;
+      if (workletPath) {
+        processorUrl = workletPath;
+      } else {
+        processorUrl = createProcessorBlobUrl();
+        owned.blobUrl = processorUrl;
+        this.blobUrl = processorUrl;
+      }
+
+      await audioContext.audioWorklet.addModule(processorUrl);
+      if (isSuperseded()) {
+        // stop() happened while the module was loading: release what we created here instead of
+        // wiring nodes into a context that is already closing
+        stream.getTracks().forEach((track) => track.stop());
+        audioContext.close().catch(() => undefined);
+        if (this.context === audioContext) this.context = null;
+        if (this.streamValue === stream) this.streamValue = null;
+        return;
+      }
+
+      const source = audioContext.createMediaStreamSource(stream);
+      const vadOptions = resolveClientVadOptions(vad);
+      // Stereo: a second input for the playback reference, interleaved by the processor
+      const workletNode =
+        channels === 2 || vadOptions
+          ? new AudioWorkletNode(audioContext, 'audio-capture-processor', {
+              numberOfInputs: channels,
+              processorOptions: { channels, ...(vadOptions && { vad: vadOptions }) },
+            })
+          : new AudioWorkletNode(audioContext, 'audio-capture-processor');
+      this.source = source;
+      this.workletNode = workletNode;
+      this.channelCount = channels;
+      this.captureRate = sampleRate;
+
+      // Set up the data handler BEFORE connecting. It reads the *current* callback, so replacing
+      // `onAudioData` through setOptions() needs no rewiring.
+      workletNode.port.onmessage = (event): void => this.handleWorkletData(event.data);
+
+      source.connect(workletNode);
+      workletNode.connect(audioContext.destination);
+      this.connectReference();
+
+      this.capturing = true;
+      this.changed();
+    } catch (err) {
+      // Release whatever this attempt managed to create. Leaving `stream` set would keep the
+      // microphone live *and* make every later start() return early as "already capturing" —
+      // capture could never be retried.
+      this.releasePartial(owned);
+      this.errorMessage = err instanceof Error ? err.message : 'Failed to start audio capture';
+      this.changed();
+      console.error('Audio capture error:', err);
+      throw err;
+    }
+  }
+
+  /** Buffer incoming samples into ~100 ms chunks to reduce WebSocket message frequency */
+  private handleWorkletData(data: ArrayBuffer | VoiceActivityMessage): void {
+    if (isVoiceActivityMessage(data)) {
+      this.handleVoiceActivity(data.speaking);
+      return;
+    }
+    const onAudioData = this.options.onAudioData;
+    if (this.mutedFlag || !onAudioData) return;
+
+    const incoming = new Int16Array(data);
+    this.buffered.push(incoming);
+    this.bufferedSamples += incoming.length;
+
+    const chunkSamples = CAPTURE_CHUNK_SAMPLES * this.channelCount;
+    while (this.bufferedSamples >= chunkSamples) {
+      this.flush(onAudioData, chunkSamples);
+    }
+  }
+
+  private handleVoiceActivity(speaking: boolean): void {
+    if (speaking === this.speakingFlag) return;
+    this.speakingFlag = speaking;
+    // The tail of the utterance goes out now; held back, it would open the next one
+    const onAudioData = this.options.onAudioData;
+    if (!speaking && this.bufferedSamples > 0 && onAudioData && !this.mutedFlag) {
+      this.flush(onAudioData, this.bufferedSamples);
+    }
+    try {
+      this.options.onVoiceActivity?.(speaking);
+    } catch (err) {
+      console.error('Audio capture: onVoiceActivity threw:', err);
+    }
+    this.changed();
+  }
+
+  /**
+   * Flush exactly `chunkSamples` from the buffer, leaving any remainder.
+   * This ensures bounded message sizes (~100ms chunks) regardless of input timing.
+   */
+  private flush(onAudioData: AudioDataCallback, chunkSamples: number): void {
+    const flat = new Int16Array(this.bufferedSamples);
+    let offset = 0;
+    for (const chunk of this.buffered) {
+      flat.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const output = flat.slice(0, chunkSamples);
+    const remainder = flat.slice(chunkSamples);
+    this.buffered = remainder.length > 0 ? [remainder] : [];
+    this.bufferedSamples = remainder.length;
+
+    onAudioData(this.encode(output));
+  }
+
+  /** A PCM16 chunk in the configured wire format */
+  private encode(pcm: Int16Array): ArrayBuffer {
+    const format = this.options.format ?? 'pcm16';
+    if (format === 'pcm16' || this.channelCount === 2) return pcm.buffer as ArrayBuffer;
+    if (this.resampler?.fromRate !== this.captureRate) {
+      this.resampler = new Pcm16Resampler(this.captureRate, G711_SAMPLE_RATE);
+    }
+    return encodeFromPcm16(this.resampler.process(pcm), format).buffer as ArrayBuffer;
+  }
+
+  /**
+   * Undo a half-built capture graph after a failed attempt.
+   *
+   * Only what *this* attempt published is released: a slow failure (a worklet module that rejects
+   * seconds later) must never tear down the capture a newer attempt has meanwhile started, which
+   * would leave `isCapturing` true with no stream behind it.
+   */
+  private releasePartial(owned: OwnedCapture): void {
+    if (owned.stream) {
+      owned.stream.getTracks().forEach((track) => track.stop());
+      if (this.streamValue === owned.stream) this.streamValue = null;
+    }
+    if (owned.audioContext) {
+      if (this.context === owned.audioContext) {
+        this.source?.disconnect();
+        this.source = null;
+        this.referenceSource?.disconnect();
+        this.referenceSource = null;
+        if (this.workletNode) {
+          this.workletNode.disconnect();
+          this.workletNode.port.onmessage = null;
+          this.workletNode = null;
+        }
+        this.context = null;
+      }
+      owned.audioContext.close().catch(() => undefined);
+    }
+    if (owned.blobUrl) {
+      URL.revokeObjectURL(owned.blobUrl);
+      if (this.blobUrl === owned.blobUrl) this.blobUrl = null;
+    }
+  }
+
+  /** Stop capturing and release every resource (also cancels a start still in flight) */
+  stop(): void {
+    // The attempt cleans up what it created; dropping the shared promise means a later start()
+    // begins a fresh one
+    this.generation += 1;
+    this.pendingStart = null;
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+    // The reference stream itself belongs to the caller (the playback graph) and stays set
+    if (this.referenceSource) {
+      this.referenceSource.disconnect();
+      this.referenceSource = null;
+    }
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode.port.onmessage = null;
+      this.workletNode = null;
+    }
+    if (this.context) {
+      this.context.close();
+      this.context = null;
+    }
+    if (this.streamValue) {
+      this.streamValue.getTracks().forEach((track) => track.stop());
+      this.streamValue = null;
+    }
+    if (this.blobUrl) {
+      URL.revokeObjectURL(this.blobUrl);
+      this.blobUrl = null;
+    }
+    this.buffered = [];
+    this.bufferedSamples = 0;
+    this.resampler = null;
+    // A new capture session starts unmuted
+    this.mutedFlag = false;
+    this.speakingFlag = false;
+    this.capturing = false;
+    this.changed();
+  }
+
+  /** Suspend the capture context */
+  pause(): void {
+    if (this.context && this.context.state === 'running') {
+      this.context.suspend();
+    }
+  }
+
+  /** Resume a suspended capture context */
+  resume(): void {
+    if (this.context && this.context.state === 'suspended') {
+      this.context.resume();
+    }
+  }
+
+  /** Mute/unmute — instant, keeps the worklet running and drops chunks while muted */
+  setMuted(muted: boolean): void {
+    if (this.mutedFlag === muted) return;
+    this.mutedFlag = muted;
+    this.changed();
+  }
+
+  toggleMute(): void {
+    this.setMuted(!this.mutedFlag);
+  }
+}
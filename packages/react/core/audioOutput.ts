@@ -10,6 +10,9 @@
  */
 
 import type { Logger } from '../utils/logger';
+import type { AudioFormat } from '../types/voiceLive';
+import { base64ToBytes } from '../utils/audioHelpers';
+import { audioFormatSampleRate, decodeToPcm16 } from '../utils/audioCodecs';
 import { createPlaybackProcessorBlobUrl } from './playbackWorklet';
 
 export interface OutputAudioGraphOptions {
@@ -146,16 +149,21 @@ export class OutputAudioGraph {
 }
 
 export interface PcmPlayerOptions {
-  /** Sample rate of the incoming PCM16 (the session's output format) */
+  /** Sample rate of incoming PCM16 (G.711 is always 8 kHz) */
   sourceSampleRate: number;
+  /** Wire format of the chunks (the session's `outputAudioFormat`) @default 'pcm16' */
+  format?: AudioFormat;
   log?: Logger;
+  /** Called when everything handed to the player has been played */
+  onPlaybackEnd?: () => void;
   /** Factory for the worklet node (test seam) */
   createWorkletNode?: (context: AudioContext, options: AudioWorkletNodeOptions) => AudioWorkletNode;
 }
 
 /**
- * Gapless PCM16 playback through an AudioWorklet (off the main thread). Tracks the start
- * time of the current response for viseme/word-timestamp synchronization.
+ * Gapless PCM16 playback through an AudioWorklet (off the main thread). G.711 chunks are decoded
+ * to PCM16 first; the worklet resamples to the context rate. Tracks the start time of the current
+ * response for viseme/word-timestamp synchronization.
  */
 export class PcmPlayer {
   private worklet: AudioWorkletNode | null = null;
@@ -170,19 +178,32 @@ export class PcmPlayer {
    * afterwards — that would play a stale fragment into the next turn.
    */
   private flushGeneration = 0;
+  /** Chunks handed to the worklet, and how many of them it has played (or dropped on `stop()`) */
+  private postedChunks = 0;
+  private finishedChunks = 0;
 
   constructor(
     private readonly graph: OutputAudioGraph,
     private readonly options: PcmPlayerOptions
   ) {}
 
+  /** The wire format this player decodes */
+  get format(): AudioFormat {
+    return this.options.format ?? 'pcm16';
+  }
+
+  /** Whether audio handed to the player is still being played */
+  get isPlaying(): boolean {
+    return this.postedChunks > this.finishedChunks;
+  }
+
   /** Call on `response.created` so the next chunk marks the response start */
   markResponseStart(): void {
     this.awaitingFirstChunk = true;
     this.responseStartTime = null;
   }
 
-  /** Decode a base64 PCM16 chunk and hand it to the worklet (initializing it lazily) */
+  /** Decode a base64 chunk and hand it to the worklet as PCM16 (initializing it lazily) */
   async enqueue(base64Audio: string): Promise<void> {
     const ctx = this.graph.context;
     if (!ctx || this.disposed) return;
@@ -200,14 +221,13 @@ export class PcmPlayer {
         this.awaitingFirstChunk = false;
       }
 
-      const binaryString = atob(base64Audio);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+      const bytes = base64ToBytes(base64Audio);
       // Transferable for zero-copy hand-off to the worklet
-      const buffer = bytes.buffer;
-      this.worklet?.port.postMessage(buffer, [buffer]);
+      const buffer =
+        this.format === 'pcm16' ? bytes.buffer : decodeToPcm16(bytes, this.format).buffer;
+      if (!this.worklet) return;
+      this.worklet.port.postMessage(buffer, [buffer]);
+      this.postedChunks += 1;
     } catch (err) {
       this.options.log?.error('Error playing audio chunk:', err);
     }
@@ -217,6 +237,7 @@ export class PcmPlayer {
   stop(): void {
     this.flushGeneration += 1;
     this.worklet?.port.postMessage(null);
+    this.finishedChunks = this.postedChunks;
   }
 
   /** Milliseconds of audio played since the current response started (null before the first chunk) */
@@ -240,6 +261,7 @@ export class PcmPlayer {
     }
     this.responseStartTime = null;
     this.awaitingFirstChunk = true;
+    this.finishedChunks = this.postedChunks;
   }
 
   private init(): Promise<void> {
@@ -256,8 +278,17 @@ export class PcmPlayer {
         ((context: AudioContext, options: AudioWorkletNodeOptions): AudioWorkletNode =>
           new AudioWorkletNode(context, 'audio-playback-processor', options));
       const node = create(ctx, {
-        processorOptions: { sourceSampleRate: this.options.sourceSampleRate },
+        processorOptions: {
+          sourceSampleRate: audioFormatSampleRate(this.format, this.options.sourceSampleRate),
+        },
       });
+      // The worklet reports how many chunks it had received whenever its queue runs dry; a
+      // report overtaken by newer chunks (or by a stop) cannot end playback early
+      node.port.onmessage = (event: MessageEvent<{ type?: string; received?: number }>): void => {
+        if (event.data?.type !== 'drained' || typeof event.data.received !== 'number') return;
+        this.finishedChunks = Math.max(this.finishedChunks, event.data.received);
+        if (!this.isPlaying) this.options.onPlaybackEnd?.();
+      };
       // Through the gain node (visualization + output stream) or straight to the speakers
       node.connect(this.graph.gain ?? ctx.destination);
       this.worklet = node;
@@ -41,4 +41,9 @@ export class BoundedMap<K, V> {
   clear(): void {
     this.entries.clear();
   }
+
+  /** Oldest first */
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries[Symbol.iterator]();
+  }
 }
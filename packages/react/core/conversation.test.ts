@@ -0,0 +1,321 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/**
+ * ConversationStore — the conversation history folded from server events
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { ConversationStore } from './conversation';
+import {
+  resolveRestoreConversationOptions,
+  selectRestoredItems,
+  toRequestItems,
+} from './conversationRestore';
+import type { ConversationItem } from '../types/voiceLive';
+import type { VoiceLiveServerEvent } from '../types/events';
+
+function feed(store: ConversationStore, ...events: object[]) {
+  events.forEach((event) => store.apply(event as VoiceLiveServerEvent));
+}
+
+const userAudioItem = {
+  type: 'conversation.item.created',
+  previous_item_id: null,
+  item: {
+    id: 'u1',
+    type: 'message',
+    role: 'user',
+    status: 'completed',
+    content: [{ type: 'input_audio', transcript: null }],
+  },
+};
+
+const assistantItem = (status: string, transcript?: string) => ({
+  id: 'a1',
+  type: 'message',
+  role: 'assistant',
+  status,
+  content: transcript === undefined ? [] : [{ type: 'audio', transcript }],
+});
+
+describe('ConversationStore', () => {
+  it('builds user and assistant turns from transcription and transcript streams', () => {
+    const store = new ConversationStore();
+    feed(
+      store,
+      userAudioItem,
+      { type: 'conversation.item.input_audio_transcription.delta', item_id: 'u1', delta: 'Hel' },
+      { type: 'conversation.item.input_audio_transcription.delta', item_id: 'u1', delta: 'lo' }
+    );
+    expect(store.getSnapshot()).toEqual([
+      {
+        id: 'u1',
+        type: 'message',
+        role: 'user',
+        status: 'completed',
+        text: 'Hello',
+        hasAudio: true,
+      },
+    ]);
+    feed(store, {
+      type: 'conversation.item.input_audio_transcription.completed',
+      item_id: 'u1',
+      transcript: 'Hello there',
+    });
+
+    feed(
+      store,
+      { type: 'response.output_item.added', response_id: 'r1', item: assistantItem('in_progress') },
+      {
+        type: 'conversation.item.created',
+        previous_item_id: 'u1',
+        item: assistantItem('in_progress'),
+      },
+      { type: 'response.audio_transcript.delta', response_id: 'r1', item_id: 'a1', delta: 'Hi' }
+    );
+    const streaming = store.getSnapshot()[1];
+    expect(streaming).toMatchObject({ text: 'Hi', status: 'in_progress', responseId: 'r1' });
+
+    feed(
+      store,
+      {
+        type: 'response.audio_transcript.done',
+        response_id: 'r1',
+        item_id: 'a1',
+        transcript: 'Hi!',
+      },
+      {
+        type: 'response.output_item.done',
+        response_id: 'r1',
+        item: assistantItem('completed', 'Hi!'),
+      }
+    );
+    const items = store.getSnapshot();
+    expect(items).toHaveLength(2); // announced twice, stored once
+    expect(items[0]).toMatchObject({ role: 'user', text: 'Hello there' });
+    expect(items[1]).toMatchObject({ role: 'assistant', text: 'Hi!', status: 'completed' });
+  });
+
+  it('records truncation and deletion, and marks cancelled output incomplete', () => {
+    const store = new ConversationStore();
+    feed(
+      store,
+      userAudioItem,
+      { type: 'response.output_item.added', response_id: 'r1', item: assistantItem('in_progress') },
+      { type: 'conversation.item.truncated', item_id: 'a1', content_index: 0, audio_end_ms: 1200 },
+      {
+        type: 'response.done',
+        response: { id: 'r1', status: 'cancelled', output: [assistantItem('incomplete', 'Well')] },
+      }
+    );
+    expect(store.getSnapshot()[1]).toMatchObject({
+      truncatedAtMs: 1200,
+      status: 'incomplete',
+      text: 'Well',
+    });
+
+    feed(store, { type: 'conversation.item.deleted', item_id: 'u1' });
+    expect(store.getSnapshot().map((item) => item.id)).toEqual(['a1']);
+  });
+
+  it('inserts after previous_item_id and joins function outputs with their call', () => {
+    const store = new ConversationStore();
+    feed(
+      store,
+      userAudioItem,
+      {
+        type: 'conversation.item.created',
+        previous_item_id: null,
+        item: {
+          id: 'u2',
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text: 'Later' }],
+        },
+      },
+      {
+        type: 'response.output_item.added',
+        response_id: 'r1',
+        item: {
+          id: 'f1',
+          type: 'function_call',
+          call_id: 'c1',
+          name: 'get_time',
+          status: 'in_progress',
+        },
+      },
+      {
+        type: 'response.function_call_arguments.delta',
+        response_id: 'r1',
+        item_id: 'f1',
+        output_index: 0,
+        call_id: 'c1',
+        delta: '{"tz":',
+      },
+      {
+        type: 'response.function_call_arguments.done',
+        response_id: 'r1',
+        item_id: 'f1',
+        output_index: 0,
+        call_id: 'c1',
+        name: 'get_time',
+        arguments: '{"tz":"UTC"}',
+      },
+      {
+        type: 'conversation.item.created',
+        previous_item_id: 'u1',
+        item: {
+          id: 'm1',
+          type: 'message',
+          role: 'system',
+          content: [{ type: 'input_text', text: 'Hint' }],
+        },
+      },
+      {
+        type: 'conversation.item.created',
+        item: { id: 'o1', type: 'function_call_output', call_id: 'c1', output: '"12:00"' },
+      }
+    );
+    const items = store.getSnapshot();
+    expect(items.map((item) => item.id)).toEqual(['u1', 'm1', 'u2', 'f1']);
+    expect(items[3]).toMatchObject({
+      type: 'function_call',
+      callId: 'c1',
+      arguments: '{"tz":"UTC"}',
+      output: '"12:00"',
+    });
+  });
+
+  it('tracks server-side MCP calls, including failures', () => {
+    const store = new ConversationStore();
+    feed(
+      store,
+      {
+        type: 'response.output_item.added',
+        response_id: 'r1',
+        item: {
+          id: 'mcp1',
+          type: 'mcp_call',
+          server_label: 'docs',
+          name: 'search',
+          status: 'in_progress',
+        },
+      },
+      { type: 'response.mcp_call_arguments.delta', item_id: 'mcp1', delta: '{"q":1}' },
+      { type: 'response.mcp_call.failed', item_id: 'mcp1' }
+    );
+    expect(store.getSnapshot()[0]).toMatchObject({
+      type: 'mcp_call',
+      serverLabel: 'docs',
+      arguments: '{"q":1}',
+      status: 'failed',
+    });
+  });
+
+  it('notifies subscribers with immutable snapshots and ignores unrelated events', () => {
+    const store = new ConversationStore();
+    const listener = vi.fn();
+    const off = store.subscribe(listener);
+    feed(store, userAudioItem);
+    const first = store.getSnapshot();
+    feed(
+      store,
+      { type: 'input_audio_buffer.speech_started' },
+      { type: 'session.updated', session: {} }
+    );
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot()).toBe(first);
+
+    feed(store, {
+      type: 'conversation.item.input_audio_transcription.delta',
+      item_id: 'u1',
+      delta: 'x',
+    });
+    expect(store.getSnapshot()).not.toBe(first);
+    expect(first[0]).toMatchObject({ text: '' }); // the previous snapshot is untouched
+
+    store.clear();
+    expect(store.getSnapshot()).toEqual([]);
+    off();
+    feed(store, userAudioItem);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('conversation restore', () => {
+  const message = (id: string, role: 'user' | 'assistant' | 'system', text: string) =>
+    ({ id, type: 'message', role, text, hasAudio: false, status: 'completed' }) as const;
+  const history: ConversationItem[] = [
+    message('g1', 'assistant', 'Hi, how can I help?'),
+    message('u1', 'user', 'Book a table'),
+    {
+      id: 'f1',
+      type: 'function_call',
+      status: 'completed',
+      callId: 'call_1',
+      name: 'book',
+      arguments: '{}',
+      output: '{"ok":true}',
+    },
+    message('a1', 'assistant', 'Booked.'),
+    // Neither can be replayed: unanswered, and server-side
+    {
+      id: 'f2',
+      type: 'function_call',
+      status: 'completed',
+      callId: 'call_2',
+      name: 'x',
+      arguments: '',
+    },
+    {
+      id: 'm1',
+      type: 'mcp_call',
+      status: 'completed',
+      serverLabel: 'docs',
+      name: 'y',
+      arguments: '',
+    },
+    message('u2', 'user', 'Thanks'),
+    { ...message('a2', 'assistant', 'You are'), status: 'in_progress' },
+  ];
+
+  it('keeps the last turns, and what came before them when every turn fits', () => {
+    const ids = (items: ConversationItem[]) => items.map((item) => item.id);
+    expect(ids(selectRestoredItems(history, 1).kept)).toEqual(['u2']);
+    expect(ids(selectRestoredItems(history, 1).dropped)).toEqual(['g1', 'u1', 'f1', 'a1']);
+    expect(ids(selectRestoredItems(history, 2).kept)).toEqual(['g1', 'u1', 'f1', 'a1', 'u2']);
+    expect(selectRestoredItems(history, 0).kept).toEqual([]);
+  });
+
+  it('recreates messages and answered calls as request items', () => {
+    expect(toRequestItems(history.slice(0, 3))).toEqual([
+      {
+        type: 'message',
+        role: 'assistant',
+        id: 'g1',
+        content: [{ type: 'text', text: 'Hi, how can I help?' }],
+      },
+      {
+        type: 'message',
+        role: 'user',
+        id: 'u1',
+        content: [{ type: 'input_text', text: 'Book a table' }],
+      },
+      { type: 'function_call', id: 'f1', name: 'book', arguments: '{}', call_id: 'call_1' },
+      { type: 'function_call_output', call_id: 'call_1', output: '{"ok":true}' },
+    ]);
+    expect(toRequestItems([history[1]!], { ids: false })).toEqual([
+      { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Book a table' }] },
+    ]);
+  });
+
+  it('is off by default and never applies to a conversation the service resumes', () => {
+    const connection = { resourceName: 'r', apiKey: 'k' };
+    expect(resolveRestoreConversationOptions(undefined, connection)).toBeNull();
+    expect(resolveRestoreConversationOptions(true, connection)).toEqual({ maxTurns: 20 });
+    expect(resolveRestoreConversationOptions({ maxTurns: 4 }, connection)).toEqual({
+      maxTurns: 4,
+    });
+    expect(
+      resolveRestoreConversationOptions(true, { ...connection, conversationId: 'conv-1' })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Conversation history built from server events.
+ *
+ * The service owns the conversation; this store mirrors it from the events that describe it —
+ * `conversation.item.created/truncated/deleted`, `response.output_item.added/done`, input
+ * transcription and assistant transcript deltas, tool-call argument streams — so every app does
+ * not have to rebuild its own turn list from `onTranscript`.
+ *
+ * Snapshots are immutable: every change produces a new array, and only the items that changed
+ * are new objects, so UI bindings can compare by identity.
+ */
+
+import type {
+  ConversationItem,
+  ConversationItemStatus,
+  ConversationMessageItem,
+} from '../types/voiceLive';
+import type { VoiceLiveServerEvent, WireConversationItem } from '../types/events';
+import { TypedEmitter } from './emitter';
+
+interface ConversationEvents {
+  change: [items: readonly ConversationItem[]];
+}
+
+/** Status events of server-side tools (MCP, Foundry agents), which carry only the item id */
+const TOOL_STATUS_EVENTS: Partial<Record<string, ConversationItemStatus>> = {
+  'response.mcp_call.in_progress': 'in_progress',
+  'response.mcp_call.completed': 'completed',
+  'response.mcp_call.failed': 'failed',
+  'response.foundry_agent_call.in_progress': 'in_progress',
+  'response.foundry_agent_call.completed': 'completed',
+  'response.foundry_agent_call.failed': 'failed',
+};
+
+function toStatus(
+  status: WireConversationItem['status'],
+  fallback: ConversationItemStatus
+): ConversationItemStatus {
+  return status === 'in_progress' || status === 'completed' || status === 'incomplete'
+    ? (status as ConversationItemStatus)
+    : fallback;
+}
+
+/** Text of a message: typed text, or the transcript of its audio parts */
+function messageText(item: WireConversationItem): string {
+  return (item.content ?? []).map((part) => part.text ?? part.transcript ?? '').join('');
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (!error) return undefined;
+  if (typeof error === 'string') return error;
+  return (error as { message?: string }).message ?? JSON.stringify(error);
+}
+
+/**
+ * Convert a wire item, merged over what is already known about it. Events describe an item
+ * piecemeal (an audio message is created without its transcript, which streams in afterwards), so
+ * a later, emptier description must not erase what earlier events filled in.
+ */
+function fromWire(
+  wire: WireConversationItem,
+  existing: ConversationItem | undefined,
+  responseId: string | undefined
+): ConversationItem | null {
+  const id = wire.id ?? existing?.id;
+  if (!id) return null;
+  const base = {
+    id,
+    status: toStatus(wire.status, existing?.status ?? 'completed'),
+    responseId: responseId ?? existing?.responseId,
+  };
+  switch (wire.type) {
+    case 'message': {
+      const previous = existing?.type === 'message' ? existing : undefined;
+      const text = messageText(wire);
+      return {
+        ...base,
+        type: 'message',
+        role: wire.role ?? previous?.role ?? 'user',
+        text: text || previous?.text || '',
+        hasAudio:
+          (wire.content ?? []).some(
+            (part) => part.type === 'audio' || part.type === 'input_audio'
+          ) ||
+          (previous?.hasAudio ?? false),
+        truncatedAtMs: previous?.truncatedAtMs,
+      };
+    }
+    case 'function_call': {
+      const previous = existing?.type === 'function_call' ? existing : undefined;
+      return {
+        ...base,
+        type: 'function_call',
+        callId: wire.call_id ?? previous?.callId ?? '',
+        name: wire.name ?? previous?.name ?? '',
+        arguments: wire.arguments || previous?.arguments || '',
+        output: previous?.output,
+      };
+    }
+    case 'mcp_call': {
+      const previous = existing?.type === 'mcp_call' ? existing : undefined;
+      const error = errorMessage(wire.error) ?? previous?.error;
+      return {
+        ...base,
+        status: error ? 'failed' : base.status,
+        type: 'mcp_call',
+        serverLabel: wire.server_label ?? previous?.serverLabel ?? '',
+        name: wire.name ?? previous?.name ?? '',
+        arguments: wire.arguments || previous?.arguments || '',
+        output: wire.output ?? previous?.output,
+        error,
+      };
+    }
+    case 'foundry_agent_call': {
+      const previous = existing?.type === 'foundry_agent_call' ? existing : undefined;
+      const error = errorMessage(wire.error) ?? previous?.error;
+      return {
+        ...base,
+        status: error ? 'failed' : base.status,
+        type: 'foundry_agent_call',
+        name: wire.name ?? previous?.name ?? '',
+        arguments: wire.arguments || previous?.arguments || '',
+        output: wire.output ?? previous?.output,
+        error,
+      };
+    }
+    default:
+      // Approval requests/responses, tool listings, search calls: not part of the turn history
+      return null;
+  }
+}
+
+export class ConversationStore {
+  private items: readonly ConversationItem[] = [];
+  private readonly emitter = new TypedEmitter<ConversationEvents>();
+
+  /** The current items, in conversation order */
+  getSnapshot(): readonly ConversationItem[] {
+    return this.items;
+  }
+
+  /** Subscribe to changes; returns the unsubscribe function */
+  subscribe(listener: (items: readonly ConversationItem[]) => void): () => void {
+    return this.emitter.on('change', listener);
+  }
+
+  /** Forget every item (a new conversation starts) */
+  clear(): void {
+    if (this.items.length === 0) return;
+    this.commit([]);
+  }
+
+  /** Fold one server event into the history. Events that do not describe items are ignored. */
+  apply(event: VoiceLiveServerEvent): void {
+    switch (event.type) {
+      case 'conversation.item.created':
+        if (event.item.type === 'function_call_output') {
+          this.attachOutput(event.item);
+        } else {
+          this.upsert(event.item, { previousItemId: event.previous_item_id });
+        }
+        break;
+
+      case 'response.output_item.added':
+      case 'response.output_item.done':
+        this.upsert(event.item, { responseId: event.response_id });
+        break;
+
+      case 'response.done':
+        // The final word on every item the response produced (cancelled ones are `incomplete`)
+        for (const item of event.response?.output ?? []) {
+          this.upsert(item, { responseId: event.response.id, onlyKnown: true });
+        }
+        break;
+
+      case 'conversation.item.truncated':
+        this.update(event.item_id, (item) =>
+          item.type === 'message' ? { ...item, truncatedAtMs: event.audio_end_ms } : item
+        );
+        break;
+
+      case 'conversation.item.deleted':
+        if (this.items.some((item) => item.id === event.item_id)) {
+          this.commit(this.items.filter((item) => item.id !== event.item_id));
+        }
+        break;
+
+      case 'conversation.item.input_audio_transcription.delta':
+        this.appendText(event.item_id, event.delta);
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed':
+        this.setText(event.item_id, event.transcript);
+        break;
+
+      case 'response.audio_transcript.delta':
+      case 'response.text.delta':
+        this.appendText(event.item_id, event.delta);
+        break;
+
+      case 'response.audio_transcript.done':
+        this.setText(event.item_id, event.transcript);
+        break;
+
+      case 'response.text.done':
+        this.setText(event.item_id, event.text);
+        break;
+
+      case 'response.function_call_arguments.delta':
+        this.appendArguments(event.item_id, event.delta);
+        break;
+
+      case 'response.function_call_arguments.done':
+        this.update(event.item_id, (item) =>
+          item.type === 'function_call' ? { ...item, arguments: event.arguments } : item
+        );
+        break;
+
+      case 'response.mcp_call_arguments.delta':
+      case 'response.foundry_agent_call_arguments.delta':
+        this.appendArguments(event.item_id as string, (event.delta as string | undefined) ?? '');
+        break;
+
+      case 'response.mcp_call_arguments.done':
+      case 'response.foundry_agent_call_arguments.done': {
+        const args = event.arguments as string | undefined;
+        if (args === undefined) break;
+        this.update(event.item_id as string, (item) =>
+          item.type === 'mcp_call' || item.type === 'foundry_agent_call'
+            ? { ...item, arguments: args }
+            : item
+        );
+        break;
+      }
+
+      default: {
+        const status = TOOL_STATUS_EVENTS[event.type];
+        if (status) {
+          this.update(event.item_id as string, (item) =>
+            item.type === 'mcp_call' || item.type === 'foundry_agent_call'
+              ? { ...item, status }
+              : item
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Insert a new item (after `previousItemId` when given, else at the end) or merge into the
+   * existing one. The same item is announced by several events (`conversation.item.created` and
+   * `response.output_item.added`, for instance), so this must be idempotent.
+   */
+  private upsert(
+    wire: WireConversationItem,
+    options: { previousItemId?: string | null; responseId?: string; onlyKnown?: boolean }
+  ): void {
+    const index = wire.id ? this.items.findIndex((item) => item.id === wire.id) : -1;
+    const existing = index >= 0 ? this.items[index] : undefined;
+    if (!existing && options.onlyKnown) return;
+    const next = fromWire(wire, existing, options.responseId);
+    if (!next) return;
+    if (existing) {
+      const items = [...this.items];
+      items[index] = next;
+      this.commit(items);
+      return;
+    }
+    const after = options.previousItemId
+      ? this.items.findIndex((item) => item.id === options.previousItemId)
+      : -1;
+    const items = [...this.items];
+    items.splice(after >= 0 ? after + 1 : items.length, 0, next);
+    this.commit(items);
+  }
+
+  /** Join a `function_call_output` with its call (outputs are not separate history entries) */
+  private attachOutput(wire: WireConversationItem): void {
+    const call = this.items.find(
+      (item) => item.type === 'function_call' && item.callId === wire.call_id
+    );
+    if (!call) return;
+    this.update(call.id, (item) => ({ ...item, output: wire.output ?? '' }));
+  }
+
+  private appendText(itemId: string, delta: string): void {
+    if (!delta) return;
+    this.update(itemId, (item) =>
+      item.type === 'message' ? { ...item, text: item.text + delta } : item
+    );
+  }
+
+  /** Replace the streamed text with the final one (authoritative, may differ from the deltas) */
+  private setText(itemId: string, text: string): void {
+    this.update(itemId, (item) =>
+      item.type === 'message' ? ({ ...item, text } satisfies ConversationMessageItem) : item
+    );
+  }
+
+  private appendArguments(itemId: string, delta: string): void {
+    if (!delta) return;
+    this.update(itemId, (item) =>
+      item.type === 'message' ? item : { ...item, arguments: item.arguments + delta }
+    );
+  }
+
+  /** Apply `change` to a known item; unknown ids and no-op changes are ignored */
+  private update(itemId: string, change: (item: ConversationItem) => ConversationItem): void {
+    const index = this.items.findIndex((item) => item.id === itemId);
+    if (index < 0) return;
+    const current = this.items[index] as ConversationItem;
+    const next = change(current);
+    if (next === current) return;
+    const items = [...this.items];
+    items[index] = next;
+    this.commit(items);
+  }
+
+  private commit(items: readonly ConversationItem[]): void {
+    this.items = items;
+    this.emitter.emit('change', items);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Conversation continuity across auto-reconnect (`reconnect.restoreConversation`), pure part.
+ *
+ * A reconnect opens a new server-side conversation. The client-side history (`ConversationStore`)
+ * survives it, so the messages and answered tool calls in it can be replayed into the new session
+ * as `conversation.item.create` events. Only the last turns are replayed; older ones are dropped,
+ * or handed to a summarizer whose summary goes first.
+ */
+
+import type {
+  ConversationItem,
+  RestoreConversationOptions,
+  VoiceLiveConnectionConfig,
+} from '../types/voiceLive';
+import type { WireConversationRequestItem } from '../types/events';
+
+export type { RestoreConversationOptions };
+
+export const DEFAULT_RESTORED_TURNS = 20;
+
+/** Instructions for the model summary (`summarize: true`) */
+export const RESTORE_SUMMARY_INSTRUCTIONS =
+  'Summarize this conversation in a few sentences for the assistant that continues it. Keep names, facts, decisions and open questions.';
+
+/**
+ * Normalize `reconnect.restoreConversation`: off → null, `true` → defaults. Never applies to a
+ * Foundry agent conversation resumed by id (`connection.conversationId`): the service restores
+ * that one itself.
+ */
+export function resolveRestoreConversationOptions(
+  input: boolean | RestoreConversationOptions | undefined,
+  connection: VoiceLiveConnectionConfig
+): (RestoreConversationOptions & { maxTurns: number }) | null {
+  if (!input || connection.conversationId) return null;
+  return { maxTurns: DEFAULT_RESTORED_TURNS, ...(input === true ? {} : input) };
+}
+
+/** Whether an item can be replayed: finished messages with text, answered function calls */
+function isReplayable(item: ConversationItem): boolean {
+  if (item.status === 'in_progress') return false;
+  if (item.type === 'message') return item.text.length > 0;
+  // Server-side tool calls (MCP, agents) cannot be created by a client; an unanswered function
+  // call would leave the new conversation waiting for its output
+  return item.type === 'function_call' && item.output !== undefined;
+}
+
+function isUserMessage(item: ConversationItem): boolean {
+  return item.type === 'message' && item.role === 'user';
+}
+
+/**
+ * Split the history into the turns to replay (the last `maxTurns`, a turn starting at each user
+ * message) and the older ones.
+ */
+export function selectRestoredItems(
+  items: readonly ConversationItem[],
+  maxTurns: number
+): { kept: ConversationItem[]; dropped: ConversationItem[] } {
+  const replayable = items.filter(isReplayable);
+  let start = replayable.length;
+  let turns = 0;
+  for (let index = replayable.length - 1; index >= 0 && turns < maxTurns; index--) {
+    if (isUserMessage(replayable[index] as ConversationItem)) {
+      turns += 1;
+      start = index;
+    }
+  }
+  // Every turn fits: what came before the first one (a greeting) is kept too
+  if (maxTurns > 0 && !replayable.slice(0, start).some(isUserMessage)) start = 0;
+  return { kept: replayable.slice(start), dropped: replayable.slice(0, start) };
+}
+
+/**
+ * The `conversation.item.create` items that recreate `items`, in order. Messages and calls keep
+ * their ids, so later edits (`deleteItem`, `truncateItem`) still find them; `ids: false` leaves
+ * them out (items given as the `input` of a response, which never enter the conversation).
+ */
+export function toRequestItems(
+  items: readonly ConversationItem[],
+  options: { ids?: boolean } = {}
+): WireConversationRequestItem[] {
+  const withId = (id: string): { id?: string } => (options.ids === false ? {} : { id });
+  return items.flatMap((item): WireConversationRequestItem[] => {
+    if (item.type === 'message') {
+      return [
+        {
+          type: 'message',
+          role: item.role,
+          ...withId(item.id),
+          content: [{ type: item.role === 'assistant' ? 'text' : 'input_text', text: item.text }],
+        },
+      ];
+    }
+    if (item.type === 'function_call') {
+      return [
+        {
+          type: 'function_call',
+          ...withId(item.id),
+          name: item.name,
+          arguments: item.arguments,
+          call_id: item.callId,
+        },
+        { type: 'function_call_output', call_id: item.callId, output: item.output ?? '' },
+      ];
+    }
+    return [];
+  });
+}
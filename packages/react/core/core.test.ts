@@ -7,10 +7,27 @@ import {
   resolveReconnectOptions,
   computeBackoffDelay,
   isReconnectableClose,
+  isAuthFailureClose,
   DEFAULT_RECONNECT_OPTIONS,
 } from './reconnect';
+import {
+  TOKEN_REFRESH_MIN_DELAY_MS,
+  decodeTokenExpiry,
+  isTokenExpiring,
+  tokenRefreshDelay,
+} from './tokenRefresh';
+import {
+  TRANSPORT_STORAGE_KEY,
+  TRANSPORT_MEMORY_TTL_MS,
+  isTransportFallbackClose,
+  readRememberedTransport,
+  rememberTransport,
+  selectAutoTransport,
+} from './transportFallback';
 import { parseServerEvent, SeenEventIds } from './serverEvents';
 import { BoundedMap } from './boundedMap';
+import { PendingRequests, ackMatcherFor } from './pendingRequests';
+import type { VoiceLiveServerEvent } from '../types/events';
 import {
   FakeAudioContext,
   FakeAudioWorkletNode,
@@ -142,6 +159,31 @@ describe('PcmPlayer', () => {
     expect(FakeAudioWorkletNode.instances[0]!.port.postMessage).toHaveBeenCalledTimes(2);
   });
 
+  it('knows whether audio is still playing from what the worklet reports', async () => {
+    const graph = new OutputAudioGraph();
+    graph.ensure();
+    const onPlaybackEnd = vi.fn();
+    const player = new PcmPlayer(graph, { sourceSampleRate: 24000, onPlaybackEnd });
+    expect(player.isPlaying).toBe(false);
+    await player.enqueue(pcm([1, 0]));
+    await player.enqueue(pcm([2, 0]));
+    expect(player.isPlaying).toBe(true);
+    const node = FakeAudioWorkletNode.instances[0]!;
+
+    // A report sent before the second chunk arrived does not end playback
+    node.port.onmessage?.({ data: { type: 'drained', received: 1 } });
+    expect(player.isPlaying).toBe(true);
+    expect(onPlaybackEnd).not.toHaveBeenCalled();
+    node.port.onmessage?.({ data: { type: 'drained', received: 2 } });
+    expect(player.isPlaying).toBe(false);
+    expect(onPlaybackEnd).toHaveBeenCalledTimes(1);
+
+    await player.enqueue(pcm([3, 0]));
+    expect(player.isPlaying).toBe(true);
+    player.stop();
+    expect(player.isPlaying).toBe(false);
+  });
+
   it('stop() flushes the queue and dispose() releases the worklet and blob URL', async () => {
     const graph = new OutputAudioGraph();
     graph.ensure();
@@ -191,6 +233,17 @@ describe('PcmPlayer', () => {
     expect(node.port.postMessage.mock.calls.length).toBe(2);
   });
 
+  it('decodes G.711 chunks to PCM16 and resamples them from 8 kHz', async () => {
+    const graph = new OutputAudioGraph();
+    graph.ensure();
+    const player = new PcmPlayer(graph, { sourceSampleRate: 24000, format: 'g711_ulaw' });
+    await player.enqueue(pcm([0xff, 0x80, 0x00]));
+    const node = FakeAudioWorkletNode.instances[0]!;
+    expect(node.options.processorOptions).toEqual({ sourceSampleRate: 8000 });
+    const [buffer] = node.port.postMessage.mock.calls[0]!;
+    expect([...new Int16Array(buffer)]).toEqual([0, 32124, -32124]);
+  });
+
   it('does nothing without an audio context', async () => {
     const player = new PcmPlayer(new OutputAudioGraph(), { sourceSampleRate: 24000 });
     await player.enqueue(pcm([1]));
@@ -267,6 +320,20 @@ describe('WebRtcMicrophone', () => {
     expect(mic.isActive).toBe(false);
     expect(mic.track).toBeNull();
   });
+
+  it('keeps the push-to-talk gate apart from the mute flag', async () => {
+    const { stream, track } = makeFakeMicStream();
+    const mic = new WebRtcMicrophone({ getUserMedia: async () => stream as any });
+    mic.setGated(true);
+    await mic.start();
+    expect(track.enabled).toBe(false); // gated before start
+    mic.setMuted(true);
+    mic.setGated(false);
+    expect(track.enabled).toBe(false); // a turn does not unmute
+    expect(mic.isMuted).toBe(true);
+    mic.setMuted(false);
+    expect(track.enabled).toBe(true);
+  });
 });
 
 describe('AvatarConnection failures', () => {
@@ -422,6 +489,111 @@ describe('reconnect policy', () => {
       isReconnectableClose({ code: 1010, reason: 'extension required', wasClean: false })
     ).toBe(false);
   });
+
+  it('recognises closes that reject the credentials', () => {
+    expect(isAuthFailureClose({ code: 1008, reason: '', wasClean: true })).toBe(true);
+    expect(isAuthFailureClose({ code: 4001, reason: 'HTTP 401', wasClean: false })).toBe(true);
+    expect(isAuthFailureClose({ code: 1006, reason: 'Unauthorized', wasClean: false })).toBe(true);
+    expect(isAuthFailureClose({ code: 1006, reason: '', wasClean: false })).toBe(false);
+    expect(isAuthFailureClose({ code: 1011, reason: 'error 4011', wasClean: true })).toBe(false);
+  });
+});
+
+describe('token expiry', () => {
+  const jwt = (payload: object) =>
+    ['{"alg":"none"}', JSON.stringify(payload)]
+      .map((part) => btoa(part).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''))
+      .join('.') + '.sig';
+
+  it('reads the exp claim of a JWT only', () => {
+    expect(decodeTokenExpiry(jwt({ exp: 1_700_000_000, name: '>>>???' }))).toBe(1_700_000_000_000);
+    expect(decodeTokenExpiry(jwt({ sub: 'no expiry' }))).toBeNull();
+    expect(decodeTokenExpiry('opaque-token')).toBeNull();
+    expect(decodeTokenExpiry('a.%%%.c')).toBeNull();
+    expect(decodeTokenExpiry(undefined)).toBeNull();
+  });
+
+  it('refreshes ahead of the expiry, and halfway through a short lifetime', () => {
+    expect(tokenRefreshDelay(60 * 60_000, 0)).toBe(55 * 60_000);
+    expect(tokenRefreshDelay(4 * 60_000, 0)).toBe(2 * 60_000);
+    expect(tokenRefreshDelay(40_000, 0)).toBe(TOKEN_REFRESH_MIN_DELAY_MS);
+    expect(tokenRefreshDelay(0, 1000)).toBe(TOKEN_REFRESH_MIN_DELAY_MS);
+    expect(isTokenExpiring(30_000, 0)).toBe(true);
+    expect(isTokenExpiring(120_000, 0)).toBe(false);
+    expect(isTokenExpiring(null, 0)).toBe(false);
+  });
+});
+
+describe("transport: 'auto'", () => {
+  const connection = { resourceName: 'r', apiKey: 'k' };
+
+  it('falls back for WebRTC negotiation and media failures only', () => {
+    for (const code of [4008, 4009, 4010, 4011, 4012]) {
+      expect(isTransportFallbackClose({ code, reason: '', wasClean: false })).toBe(true);
+    }
+    for (const code of [1006, 1008, 4001, 4002]) {
+      expect(isTransportFallbackClose({ code, reason: '', wasClean: false })).toBe(false);
+    }
+  });
+
+  it('starts with WebRTC, the remembered transport, or WebSocket where WebRTC cannot work', () => {
+    expect(selectAutoTransport(connection, undefined, null, true)).toEqual({
+      transport: 'webrtc',
+      reason: 'preferred',
+    });
+    expect(selectAutoTransport(connection, undefined, 'websocket', true)).toEqual({
+      transport: 'websocket',
+      reason: 'remembered',
+    });
+    const unsupported = { transport: 'websocket', reason: 'unsupported' };
+    expect(selectAutoTransport(connection, undefined, 'webrtc', false)).toEqual(unsupported);
+    expect(
+      selectAutoTransport(
+        connection,
+        { avatar: { character: 'lisa', style: 'casual-sitting' } },
+        null,
+        true
+      )
+    ).toEqual(unsupported);
+  });
+
+  it('remembers the transport in storage and survives a storage that throws', () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    } as unknown as Storage;
+    expect(readRememberedTransport(storage)).toBeNull();
+    rememberTransport('websocket', storage);
+    expect(JSON.parse(items.get(TRANSPORT_STORAGE_KEY)!)).toMatchObject({ transport: 'websocket' });
+    expect(readRememberedTransport(storage)).toBe('websocket');
+    items.set(TRANSPORT_STORAGE_KEY, JSON.stringify({ transport: 'carrier-pigeon', at: 0 }));
+    expect(readRememberedTransport(storage, 0)).toBeNull();
+    items.set(TRANSPORT_STORAGE_KEY, 'websocket'); // not JSON
+    expect(readRememberedTransport(storage)).toBeNull();
+
+    const blocked = {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    } as unknown as Storage;
+    expect(readRememberedTransport(blocked)).toBeNull();
+    expect(() => rememberTransport('webrtc', blocked)).not.toThrow();
+  });
+
+  it('forgets the remembered transport after a day', () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    } as unknown as Storage;
+    rememberTransport('websocket', storage, 1_000);
+    expect(readRememberedTransport(storage, 1_000 + TRANSPORT_MEMORY_TTL_MS - 1)).toBe('websocket');
+    expect(readRememberedTransport(storage, 1_000 + TRANSPORT_MEMORY_TTL_MS)).toBeNull();
+  });
 });
 
 describe('server event parsing', () => {
@@ -446,3 +618,64 @@ describe('server event parsing', () => {
     expect(seen.size).toBe(0);
   });
 });
+
+describe('PendingRequests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves the oldest matching request, rejects on a correlated error or timeout', async () => {
+    vi.useFakeTimers();
+    const requests = new PendingRequests(1000);
+    const isDeleted = (event: VoiceLiveServerEvent) =>
+      event.type === 'conversation.item.deleted' ? event.item_id : undefined;
+    const first = requests.track('evt_1', 'conversation.item.delete', isDeleted);
+    const second = requests.track('evt_2', 'conversation.item.delete', isDeleted);
+    const third = requests.track('evt_3', 'conversation.item.retrieve', () => undefined);
+
+    expect(requests.handle({ type: 'conversation.item.deleted', item_id: 'a' })).toBe(true);
+    await expect(first).resolves.toBe('a');
+    expect(
+      requests.handle({ type: 'error', error: { type: 'x', message: 'Nope', event_id: 'evt_2' } })
+    ).toBe(true);
+    await expect(second).rejects.toThrow('Nope');
+    // errors for other client events are not ours
+    expect(
+      requests.handle({ type: 'error', error: { type: 'x', message: 'Other', event_id: 'evt_9' } })
+    ).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    await expect(third).rejects.toThrow('No acknowledgement for conversation.item.retrieve');
+    expect(requests.size).toBe(0);
+  });
+
+  it('does not take a server VAD commit for the acknowledgement of a manual commit', async () => {
+    const requests = new PendingRequests(0);
+    const commit = ackMatcherFor({ type: 'input_audio_buffer.commit' })!;
+    let settled = false;
+    const pending = requests.track('evt_1', 'input_audio_buffer.commit', commit).then((ack) => {
+      settled = true;
+      return ack;
+    });
+
+    requests.handle({ type: 'input_audio_buffer.speech_stopped', item_id: 'vad' });
+    expect(
+      requests.handle({
+        type: 'input_audio_buffer.committed',
+        item_id: 'vad',
+        previous_item_id: null,
+      })
+    ).toBe(false);
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    expect(
+      requests.handle({
+        type: 'input_audio_buffer.committed',
+        item_id: 'manual',
+        previous_item_id: 'vad',
+      })
+    ).toBe(true);
+    await expect(pending).resolves.toMatchObject({ item_id: 'manual' });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Minimal typed event emitter for the framework-agnostic core (no Node or DOM dependency).
+ *
+ * Listeners are consumer code: one that throws must not stop the others, nor the state machine
+ * that emitted the event, so errors are reported to `onListenerError` and otherwise swallowed.
+ */
+
+/** Map of event name → listener arguments */
+export type EventMap<T> = { [K in keyof T]: unknown[] };
+
+export type Listener<TArgs extends unknown[]> = (...args: TArgs) => void;
+
+export class TypedEmitter<TEvents extends EventMap<TEvents>> {
+  private readonly listeners = new Map<keyof TEvents, Set<unknown>>();
+
+  constructor(private readonly onListenerError?: (event: keyof TEvents, error: unknown) => void) {}
+
+  /** Subscribe; returns the unsubscribe function */
+  on<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /** Subscribe for the next emission only */
+  once<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): () => void {
+    const off = this.on(event, ((...args: TEvents[K]) => {
+      off();
+      listener(...args);
+    }) as Listener<TEvents[K]>);
+    return off;
+  }
+
+  off<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /** Whether anyone listens to `event` (lets callers skip building expensive payloads) */
+  has<K extends keyof TEvents>(event: K): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  emit<K extends keyof TEvents>(event: K, ...args: TEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set || set.size === 0) return;
+    // Snapshot: a listener may unsubscribe (itself or another) while we iterate
+    for (const listener of [...set]) {
+      try {
+        (listener as Listener<TEvents[K]>)(...args);
+      } catch (err) {
+        this.onListenerError?.(event, err);
+      }
+    }
+  }
+
+  /** Drop every listener */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
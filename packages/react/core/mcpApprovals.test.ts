@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { McpApprovals, evaluateMcpApprovalPolicy } from './mcpApprovals';
+import type {
+  McpApprovalDecision,
+  McpApprovalPolicy,
+  McpApprovalRequest,
+} from '../types/voiceLive';
+
+const request = (overrides: Partial<McpApprovalRequest> = {}): McpApprovalRequest => ({
+  approvalRequestId: 'apr_1',
+  serverLabel: 'mslearn',
+  name: 'search_docs',
+  arguments: '{"query":"vnet"}',
+  ...overrides,
+});
+
+const POLICY: McpApprovalPolicy = {
+  rules: [
+    { tool: 'delete_page', action: 'deny' },
+    { name: 'learn reads', serverLabel: 'mslearn', tool: /^(search|fetch)_/, action: 'approve' },
+    {
+      tool: 'refund',
+      arguments: (args) => (args as { amount: number }).amount <= 50,
+      action: 'approve',
+    },
+  ],
+};
+
+describe('evaluateMcpApprovalPolicy', () => {
+  it('lets the first matching rule decide and falls back to the default', () => {
+    expect(evaluateMcpApprovalPolicy(POLICY, request())).toEqual({
+      action: 'approve',
+      rule: 'learn reads',
+    });
+    expect(evaluateMcpApprovalPolicy(POLICY, request({ name: 'delete_page' }))).toEqual({
+      action: 'deny',
+      rule: 'rules[0]',
+    });
+    expect(evaluateMcpApprovalPolicy(POLICY, request({ serverLabel: 'github' }))).toEqual({
+      action: 'ask',
+    });
+    expect(
+      evaluateMcpApprovalPolicy({ ...POLICY, default: 'deny' }, request({ name: 'other' }))
+    ).toEqual({ action: 'deny' });
+  });
+
+  it('matches argument predicates, never on a predicate that throws', () => {
+    const refund = (args: string): McpApprovalRequest =>
+      request({ name: 'refund', arguments: args });
+    expect(evaluateMcpApprovalPolicy(POLICY, refund('{"amount":20}')).action).toBe('approve');
+    expect(evaluateMcpApprovalPolicy(POLICY, refund('{"amount":500}')).action).toBe('ask');
+    // Not JSON: the predicate sees `undefined` and throws reading `.amount`
+    expect(evaluateMcpApprovalPolicy(POLICY, refund('{"amount":')).action).toBe('ask');
+  });
+});
+
+describe('McpApprovals', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers by policy, leaves asks to the user and records who decided', () => {
+    const sent: McpApprovalDecision[] = [];
+    const approvals = new McpApprovals((decision) => sent.push(decision));
+    expect(approvals.handleRequest(request(), POLICY)).toBe(false);
+    expect(
+      approvals.handleRequest(request({ approvalRequestId: 'apr_2', name: 'x' }), POLICY)
+    ).toBe(true);
+    expect(approvals.answer('apr_2', true)).toBe(true);
+    // Decided already: not answered twice
+    expect(approvals.answer('apr_1', false)).toBe(false);
+    expect(
+      sent.map(({ request, approve, decidedBy, rule }) => [
+        request.approvalRequestId,
+        approve,
+        decidedBy,
+        rule,
+      ])
+    ).toEqual([
+      ['apr_1', true, 'policy', 'learn reads'],
+      ['apr_2', true, 'user', undefined],
+    ]);
+    expect(approvals.audit).toEqual(sent);
+  });
+
+  it('denies a request nobody answered in time', () => {
+    vi.useFakeTimers();
+    const sent: McpApprovalDecision[] = [];
+    const approvals = new McpApprovals((decision) => sent.push(decision));
+    approvals.handleRequest(request({ name: 'other' }), { ...POLICY, timeoutMs: 1000 });
+    vi.advanceTimersByTime(999);
+    expect(sent).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(sent).toEqual([expect.objectContaining({ approve: false, decidedBy: 'expiry' })]);
+    expect(approvals.answer('apr_1', true)).toBe(false);
+
+    // Without a policy, requests wait for the user indefinitely
+    approvals.handleRequest(request({ approvalRequestId: 'apr_2' }), undefined);
+    vi.advanceTimersByTime(600_000);
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * MCP approval decisions.
+ *
+ * With `requireApproval`, the service pauses every MCP call on an `mcp_approval_request` item
+ * until the client answers with an `mcp_approval_response`. An `McpApprovalPolicy` answers the
+ * obvious cases itself — rules by server label, tool name and arguments — and leaves the rest to
+ * the user (`onMcpApprovalRequest` + `approveMcpCall()`), denying a request nobody answered in
+ * time. Every answer, whoever gave it, is kept in the audit trail.
+ */
+
+import type {
+  McpApprovalAction,
+  McpApprovalDecision,
+  McpApprovalPolicy,
+  McpApprovalRequest,
+  McpApprovalRule,
+} from '../types/voiceLive';
+
+/** How long a request left to the user may stay unanswered before it is denied */
+export const DEFAULT_MCP_APPROVAL_TIMEOUT_MS = 60_000;
+
+/** What the policy says about a request, and which rule said it (none: the default action) */
+export interface McpApprovalVerdict {
+  action: McpApprovalAction;
+  rule?: string;
+}
+
+function matches(pattern: string | RegExp | undefined, value: string): boolean {
+  if (pattern === undefined) return true;
+  return typeof pattern === 'string' ? pattern === value : pattern.test(value);
+}
+
+function parseArguments(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+const ruleName = (rule: McpApprovalRule, index: number): string => rule.name ?? `rules[${index}]`;
+
+/**
+ * Evaluate a policy: the first rule whose server label, tool name and argument predicate all
+ * match decides, otherwise the policy's default (`'ask'`). A predicate that throws does not
+ * match — an error must never be what approves a call.
+ */
+export function evaluateMcpApprovalPolicy(
+  policy: McpApprovalPolicy,
+  request: McpApprovalRequest
+): McpApprovalVerdict {
+  const rules = policy.rules ?? [];
+  let args: unknown;
+  let parsed = false;
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index]!;
+    if (!matches(rule.serverLabel, request.serverLabel) || !matches(rule.tool, request.name)) {
+      continue;
+    }
+    if (rule.arguments) {
+      if (!parsed) {
+        args = parseArguments(request.arguments);
+        parsed = true;
+      }
+      let accepted = false;
+      try {
+        accepted = rule.arguments(args, request);
+      } catch {
+        accepted = false;
+      }
+      if (!accepted) continue;
+    }
+    return { action: rule.action, rule: ruleName(rule, index) };
+  }
+  return { action: policy.default ?? 'ask' };
+}
+
+interface PendingApproval {
+  request: McpApprovalRequest;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Approval requests of a session: decides them by policy, expires the ones left to the user and
+ * records every decision. `respond` puts a decision on the wire.
+ */
+export class McpApprovals {
+  private readonly pending = new Map<string, PendingApproval>();
+  private readonly decided = new Set<string>();
+  private readonly decisions: McpApprovalDecision[] = [];
+
+  constructor(private readonly respond: (decision: McpApprovalDecision) => void) {}
+
+  /** Whether a request is still waiting for the user */
+  get hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+
+  /** Every decision so far, oldest first */
+  get audit(): readonly McpApprovalDecision[] {
+    return this.decisions;
+  }
+
+  /**
+   * Decide a new request by policy.
+   *
+   * @returns true when the request is left to the user
+   */
+  handleRequest(request: McpApprovalRequest, policy: McpApprovalPolicy | undefined): boolean {
+    const id = request.approvalRequestId;
+    if (this.pending.has(id) || this.decided.has(id)) return false;
+    if (!policy) {
+      // No policy: every request is the user's, for as long as they take (as before policies)
+      this.pending.set(id, { request });
+      return true;
+    }
+    const verdict = evaluateMcpApprovalPolicy(policy, request);
+    if (verdict.action !== 'ask') {
+      this.decide(request, verdict.action === 'approve', 'policy', verdict.rule);
+      return false;
+    }
+    const pending: PendingApproval = { request };
+    const timeoutMs = policy.timeoutMs ?? DEFAULT_MCP_APPROVAL_TIMEOUT_MS;
+    if (timeoutMs > 0) {
+      pending.timer = setTimeout(() => {
+        if (this.pending.get(id) !== pending) return;
+        this.pending.delete(id);
+        this.decide(request, false, 'expiry');
+      }, timeoutMs);
+    }
+    this.pending.set(id, pending);
+    return true;
+  }
+
+  /**
+   * The user's answer. A request the client never saw is still answered (the caller knows its
+   * id from somewhere); one that was already decided — by the policy or its expiry — is not.
+   *
+   * @returns false when the request had already been decided
+   */
+  answer(approvalRequestId: string, approve: boolean): boolean {
+    if (this.decided.has(approvalRequestId)) return false;
+    const pending = this.pending.get(approvalRequestId);
+    this.pending.delete(approvalRequestId);
+    if (pending?.timer) clearTimeout(pending.timer);
+    const request = pending?.request ?? {
+      approvalRequestId,
+      serverLabel: '',
+      name: '',
+      arguments: '',
+    };
+    this.decide(request, approve, 'user');
+    return true;
+  }
+
+  /** Forget the open requests (their session ended); the audit trail is kept */
+  dropPending(): void {
+    for (const pending of this.pending.values()) {
+      if (pending.timer) clearTimeout(pending.timer);
+    }
+    this.pending.clear();
+  }
+
+  /** Start over for a new conversation */
+  reset(): void {
+    this.dropPending();
+    this.decided.clear();
+    this.decisions.length = 0;
+  }
+
+  private decide(
+    request: McpApprovalRequest,
+    approve: boolean,
+    decidedBy: McpApprovalDecision['decidedBy'],
+    rule?: string
+  ): void {
+    const decision: McpApprovalDecision = {
+      request,
+      approve,
+      decidedBy,
+      ...(rule !== undefined && { rule }),
+      decidedAt: Date.now(),
+    };
+    this.decided.add(request.approvalRequestId);
+    this.decisions.push(decision);
+    this.respond(decision);
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Microphone track for the WebRTC transport (the WebSocket transport captures PCM through
- * `useAudioCapture` instead). Owns the `getUserMedia` stream and the mute flag.
+ * `PcmCapture` instead). Owns the `getUserMedia` stream, the mute flag and the push-to-talk gate.
  */
 
 import { buildMicConstraints } from '../utils/audioHelpers';
@@ -13,6 +13,8 @@ export interface WebRtcMicrophoneOptions {
 export class WebRtcMicrophone {
   private stream: MediaStream | null = null;
   private mutedFlag = false;
+  /** Closed between push-to-talk turns; kept apart from the user's mute */
+  private gatedFlag = false;
   /**
    * Incremented by `stop()`. A `stop()` that lands while `getUserMedia` is still pending would
    * otherwise be a no-op (there is no stream yet) and the resolved track would keep the
@@ -41,9 +43,13 @@ export class WebRtcMicrophone {
     return this.stream?.getAudioTracks()[0] ?? null;
   }
 
+  get isGated(): boolean {
+    return this.gatedFlag;
+  }
+
   /**
    * Acquire the microphone (idempotent) and return its audio track. The track honours the
-   * current mute flag.
+   * current mute flag and gate.
    */
   async start(constraints?: MediaTrackConstraints | boolean): Promise<MediaStreamTrack | null> {
     if (this.stream) return this.track;
@@ -61,7 +67,7 @@ export class WebRtcMicrophone {
       }
       this.stream = stream;
       const track = this.track;
-      if (track) track.enabled = !this.mutedFlag;
+      if (track) track.enabled = this.isSending;
       return track;
     })();
     this.pendingStart = attempt;
@@ -83,8 +89,25 @@ export class WebRtcMicrophone {
   /** Mute/unmute by toggling `track.enabled` (keeps the RTP sender alive) */
   setMuted(muted: boolean): void {
     this.mutedFlag = muted;
+    this.applyEnabled();
+  }
+
+  /**
+   * Stop (true) or resume (false) sending without touching the mute flag — push-to-talk closes
+   * the gate between turns, and a user who muted stays muted when a turn opens it
+   */
+  setGated(gated: boolean): void {
+    this.gatedFlag = gated;
+    this.applyEnabled();
+  }
+
+  private get isSending(): boolean {
+    return !this.mutedFlag && !this.gatedFlag;
+  }
+
+  private applyEnabled(): void {
     this.stream?.getAudioTracks().forEach((t) => {
-      t.enabled = !muted;
+      t.enabled = this.isSending;
     });
   }
 }
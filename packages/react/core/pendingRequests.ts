@@ -0,0 +1,168 @@
+/**
+ * Client requests waiting for the server's acknowledgement.
+ *
+ * Voice Live answers most client events with a matching server event (`session.update` →
+ * `session.updated`, `conversation.item.delete` → `conversation.item.deleted`, ...) and reports a
+ * failure as an `error` event that names the offending client event in `error.event_id`. Each
+ * tracked request carries its own `event_id`, so the failure reaches exactly the caller that
+ * caused it; the acknowledgement is recognised by a per-request matcher, since the service does
+ * not echo the id on success.
+ */
+
+import type { VoiceLiveClientEvent, VoiceLiveServerEvent } from '../types/events';
+
+/** How long a request may wait for its acknowledgement before its promise rejects */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+/** Returns the value to resolve with when `event` acknowledges the request, else undefined */
+export type AckMatcher<T> = (event: VoiceLiveServerEvent) => T | undefined;
+
+/**
+ * The matcher for the server event that acknowledges `event`, or undefined when the client event
+ * has no dedicated acknowledgement (`response.create` answers with a whole response, audio appends
+ * with nothing). Item events match on the item id, so concurrent edits cannot be confused — a
+ * `conversation.item.create` therefore needs an `item.id` to be matched reliably.
+ *
+ * `session.update`, `input_audio_buffer.commit` and `.clear` carry nothing the acknowledgement
+ * echoes back, so those are correlated by type and send order only. A commit is the one the
+ * service also acknowledges unprompted: server VAD commits each turn after its `speech_stopped`,
+ * naming the same item, so commits of items announced that way are skipped. A commit sent after
+ * `speech_stopped` but before the automatic `committed` can still take the latter.
+ */
+export function ackMatcherFor(
+  event: VoiceLiveClientEvent
+): AckMatcher<VoiceLiveServerEvent> | undefined {
+  switch (event.type) {
+    case 'session.update':
+      return (ack) => (ack.type === 'session.updated' ? ack : undefined);
+    case 'session.avatar.connect':
+      return (ack) => (ack.type === 'session.avatar.connecting' ? ack : undefined);
+    case 'input_audio_buffer.commit': {
+      const vadItemIds = new Set<unknown>();
+      return (ack) => {
+        if (ack.type === 'input_audio_buffer.speech_stopped') {
+          if (ack.item_id) vadItemIds.add(ack.item_id);
+          return undefined;
+        }
+        return ack.type === 'input_audio_buffer.committed' && !vadItemIds.has(ack.item_id)
+          ? ack
+          : undefined;
+      };
+    }
+    case 'input_audio_buffer.clear':
+      return (ack) => (ack.type === 'input_audio_buffer.cleared' ? ack : undefined);
+    case 'conversation.item.create': {
+      const itemId = event.item.id;
+      return (ack) =>
+        ack.type === 'conversation.item.created' && (!itemId || ack.item.id === itemId)
+          ? ack
+          : undefined;
+    }
+    case 'conversation.item.retrieve': {
+      const itemId = event.item_id;
+      return (ack) =>
+        ack.type === 'conversation.item.retrieved' && ack.item.id === itemId ? ack : undefined;
+    }
+    case 'conversation.item.truncate': {
+      const itemId = event.item_id;
+      return (ack) =>
+        ack.type === 'conversation.item.truncated' && ack.item_id === itemId ? ack : undefined;
+    }
+    case 'conversation.item.delete': {
+      const itemId = event.item_id;
+      return (ack) =>
+        ack.type === 'conversation.item.deleted' && ack.item_id === itemId ? ack : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+interface PendingRequest {
+  match: AckMatcher<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class PendingRequests {
+  /** Keyed by client `event_id`; Map order is send order, so the oldest match wins */
+  private readonly pending = new Map<string, PendingRequest>();
+
+  constructor(private readonly timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS) {}
+
+  /** Number of requests still waiting */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Wait for the acknowledgement of the client event `eventId` (of type `type`). Register before
+   * sending, so an acknowledgement can never arrive first.
+   */
+  track<T>(
+    eventId: string,
+    type: string,
+    match: AckMatcher<T>,
+    timeoutMs: number = this.timeoutMs
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const entry: PendingRequest = {
+        match,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer: null,
+      };
+      if (timeoutMs > 0) {
+        entry.timer = setTimeout(() => {
+          this.fail(eventId, new Error(`No acknowledgement for ${type} within ${timeoutMs} ms`));
+        }, timeoutMs);
+      }
+      this.pending.set(eventId, entry);
+    });
+  }
+
+  /**
+   * Settle the request a server event belongs to: an `error` naming its `event_id` rejects it,
+   * the first request whose matcher accepts the event resolves.
+   *
+   * @returns true when the event settled a request
+   */
+  handle(event: VoiceLiveServerEvent): boolean {
+    if (event.type === 'error') {
+      const eventId = event.error?.event_id;
+      if (!eventId || !this.pending.has(eventId)) return false;
+      return this.fail(eventId, new Error(event.error.message || 'Request failed'));
+    }
+    for (const [eventId, entry] of this.pending) {
+      const value = entry.match(event);
+      if (value === undefined) continue;
+      this.remove(eventId, entry);
+      entry.resolve(value);
+      return true;
+    }
+    return false;
+  }
+
+  /** Reject one request (it could not be sent, or failed locally) */
+  fail(eventId: string, error: Error): boolean {
+    const entry = this.pending.get(eventId);
+    if (!entry) return false;
+    this.remove(eventId, entry);
+    entry.reject(error);
+    return true;
+  }
+
+  /** Reject everything still waiting — the session that would have answered is gone */
+  rejectAll(error: Error): void {
+    for (const [eventId, entry] of [...this.pending]) {
+      this.remove(eventId, entry);
+      entry.reject(error);
+    }
+  }
+
+  private remove(eventId: string, entry: PendingRequest): void {
+    if (entry.timer) clearTimeout(entry.timer);
+    this.pending.delete(eventId);
+  }
+}
@@ -22,6 +22,9 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
     this.currentOffset = 0;
     this.sourceSampleRate = (options && options.processorOptions && options.processorOptions.sourceSampleRate) || 24000;
     this.ratio = sampleRate / this.sourceSampleRate;
+    // Buffers received so far, reported when the queue runs dry (the host knows what it sent)
+    this.received = 0;
+    this.playing = false;
 
     this.port.onmessage = (event) => {
       if (event.data === null) {
@@ -29,11 +32,13 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
         this.bufferQueue = [];
         this.currentBuffer = null;
         this.currentOffset = 0;
+        this.playing = false;
       } else {
         // Receive Int16Array buffer, convert and resample
         const int16 = new Int16Array(event.data);
         const resampled = this.resample(int16);
         this.bufferQueue.push(resampled);
+        this.received++;
       }
     };
   }
@@ -79,7 +84,12 @@ class AudioPlaybackProcessor extends AudioWorkletProcessor {
         if (this.bufferQueue.length > 0) {
           this.currentBuffer = this.bufferQueue.shift();
           this.currentOffset = 0;
+          this.playing = true;
         } else {
+          if (this.playing) {
+            this.playing = false;
+            this.port.postMessage({ type: 'drained', received: this.received });
+          }
           channel[i] = 0;
           continue;
         }
@@ -73,3 +73,12 @@ export function isReconnectableClose(info: TransportCloseInfo): boolean {
   if (FATAL_CLOSE_CODES.has(info.code)) return false;
   return true;
 }
+
+/**
+ * Whether a close says the credentials were rejected: `1008` (how the service and the proxy
+ * refuse a connection), or a close that reports an HTTP `401`. A fresh token may succeed where
+ * the same URL would fail identically, so these get one retry with a forced token refresh.
+ */
+export function isAuthFailureClose(info: TransportCloseInfo): boolean {
+  return info.code === 1008 || /\b401\b|unauthori[sz]ed/i.test(info.reason);
+}
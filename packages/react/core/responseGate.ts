@@ -13,9 +13,12 @@
  *     └────────┴── request() while requested/active → queue one ──────┘
  * ```
  *
- * Only one request is ever queued: several turns arriving during one response collapse into a
- * single follow-up, which is what the service expects.
+ * The gate itself holds at most one queued request: several turns arriving during one response
+ * collapse into a single follow-up, which is what the service expects. Requests that cannot share
+ * a response (see `ResponseRequestQueue`) are sent one after another, each re-queueing the next.
  */
+import type { ResponseCreateClientEvent, VoiceLiveClientEvent } from '../types/events';
+
 export type ResponseGateState = 'idle' | 'requested' | 'active';
 
 /**
@@ -258,3 +261,62 @@ export class ResponseGate {
     this.pendingEventId = null;
   }
 }
+
+/** A requested response, from the queue to the wire */
+export interface ResponseRequest {
+  /** Its `response.create` (null for a plain request) */
+  event: VoiceLiveClientEvent | null;
+  /** The `event_id` it went out with, once sent */
+  eventId: string | null;
+  /** Why it never reached the service, if it did not */
+  failure: Error | null;
+}
+
+/** An out-of-band response (`conversation: 'none'`) answers no turn of the conversation */
+function isOutOfBand(event: VoiceLiveClientEvent | null): boolean {
+  return (event as ResponseCreateClientEvent | null)?.response?.conversation === 'none';
+}
+
+/**
+ * The requests waiting behind the gate, in order. Turns of the conversation collapse into one
+ * follow-up as before: a plain request joins the first queued one, and a custom payload takes
+ * over a queued plain request. What cannot be merged without losing it — a second custom payload,
+ * an out-of-band response — waits for a response of its own.
+ */
+export class ResponseRequestQueue {
+  private requests: ResponseRequest[] = [];
+
+  get size(): number {
+    return this.requests.length;
+  }
+
+  /** Whether a plain request — a turn of the conversation without a payload of its own — waits */
+  get hasPlainRequest(): boolean {
+    return this.requests.some((request) => request.event === null);
+  }
+
+  /** Queue `event` (null: a plain request); returns the request that will carry it */
+  add(event: VoiceLiveClientEvent | null): ResponseRequest {
+    if (!isOutOfBand(event)) {
+      const turn = this.requests.find(
+        (request) => !isOutOfBand(request.event) && (event === null || request.event === null)
+      );
+      if (turn) {
+        if (event) turn.event = event;
+        return turn;
+      }
+    }
+    const request: ResponseRequest = { event, eventId: null, failure: null };
+    this.requests.push(request);
+    return request;
+  }
+
+  /** The next request to send */
+  shift(): ResponseRequest | undefined {
+    return this.requests.shift();
+  }
+
+  clear(): void {
+    this.requests = [];
+  }
+}
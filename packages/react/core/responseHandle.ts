@@ -0,0 +1,290 @@
+/**
+ * Response handles: what `createResponse()` and `sendText()` return, to follow the one response
+ * they asked for instead of filtering the global event stream.
+ *
+ * A request is matched to its response by the response gate's ordering. The gate puts one
+ * `response.create` on the wire at a time and treats the next `response.created` as its answer,
+ * so a handle follows the queued request it was made with, then the `event_id` that request was
+ * sent with, then the response id the service acknowledges it as. Requests collapsed into one
+ * `response.create` (several turns while a response ran) share that response, and their handles
+ * see the same output. A generation (`generate()`) names itself in its response's metadata, and
+ * is bound by that name alone.
+ */
+
+import type { ResponseHandle } from '../types/voiceLive';
+import type { ResponseRequest } from './responseGate';
+import type {
+  ResponseCreateClientEvent,
+  VoiceLiveServerEvent,
+  WireResponse,
+} from '../types/events';
+import { base64ToBytes } from '../utils/audioHelpers';
+import { GENERATION_METADATA_KEY } from '../utils/generate';
+
+/** The response a server event belongs to, if it belongs to one */
+export function responseIdOf(event: VoiceLiveServerEvent): string | undefined {
+  if (event.type === 'response.created' || event.type === 'response.done') {
+    return event.response?.id;
+  }
+  return typeof event.response_id === 'string' ? event.response_id : undefined;
+}
+
+/** Chunks of one output stream, replayed from the start to every iterator */
+class ChunkStream<T> {
+  private readonly chunks: T[] = [];
+  private ended = false;
+  private failure: Error | null = null;
+  private wakers: Array<() => void> = [];
+
+  push(chunk: T): void {
+    if (this.ended) return;
+    this.chunks.push(chunk);
+    this.wake();
+  }
+
+  end(failure: Error | null = null): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.failure = failure;
+    this.wake();
+  }
+
+  async *iterate(): AsyncGenerator<T, void, undefined> {
+    let index = 0;
+    for (;;) {
+      if (index < this.chunks.length) {
+        yield this.chunks[index++] as T;
+        continue;
+      }
+      if (this.failure) throw this.failure;
+      if (this.ended) return;
+      await new Promise<void>((resolve) => this.wakers.push(resolve));
+    }
+  }
+
+  private wake(): void {
+    const wakers = this.wakers;
+    this.wakers = [];
+    wakers.forEach((wake) => wake());
+  }
+}
+
+/** A promise with its settle functions, whose rejection is never reported as unhandled */
+function deferred<T>(): {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+} {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // A caller that only iterates (or ignores the handle) must not get unhandled rejections
+  promise.catch(() => undefined);
+  return { promise, resolve, reject };
+}
+
+class TrackedResponse implements ResponseHandle {
+  private responseId: string | null = null;
+  private cancelRequested = false;
+  private settled = false;
+  private readonly sentSignal = deferred<void>();
+  private readonly createdSignal = deferred<string>();
+  private readonly doneSignal = deferred<WireResponse>();
+  private readonly text = new ChunkStream<string>();
+  private readonly transcript = new ChunkStream<string>();
+  private readonly audio = new ChunkStream<Uint8Array>();
+
+  readonly sent = this.sentSignal.promise;
+  readonly created = this.createdSignal.promise;
+  readonly done = this.doneSignal.promise;
+
+  constructor(private readonly cancelResponse: (responseId: string) => void) {}
+
+  get id(): string | null {
+    return this.responseId;
+  }
+
+  textDeltas(): AsyncIterable<string> {
+    return { [Symbol.asyncIterator]: () => this.text.iterate() };
+  }
+
+  transcriptDeltas(): AsyncIterable<string> {
+    return { [Symbol.asyncIterator]: () => this.transcript.iterate() };
+  }
+
+  audioChunks(): AsyncIterable<Uint8Array> {
+    return { [Symbol.asyncIterator]: () => this.audio.iterate() };
+  }
+
+  cancel(): void {
+    if (this.settled) return;
+    if (this.responseId) this.cancelResponse(this.responseId);
+    else this.cancelRequested = true;
+  }
+
+  markSent(): void {
+    this.sentSignal.resolve();
+  }
+
+  bind(responseId: string): void {
+    this.responseId = responseId;
+    this.createdSignal.resolve(responseId);
+    // Cancelled before the service knew its id: stop it as soon as it exists
+    if (this.cancelRequested) this.cancelResponse(responseId);
+  }
+
+  apply(event: VoiceLiveServerEvent, decodeAudio: (delta: string) => Uint8Array): void {
+    switch (event.type) {
+      case 'response.text.delta':
+        this.text.push(event.delta);
+        break;
+      case 'response.audio_transcript.delta':
+        this.transcript.push(event.delta);
+        break;
+      case 'response.audio.delta':
+        this.audio.push(decodeAudio(event.delta));
+        break;
+      case 'response.done':
+        this.settled = true;
+        this.text.end();
+        this.transcript.end();
+        this.audio.end();
+        this.doneSignal.resolve(event.response);
+        break;
+      default:
+        break;
+    }
+  }
+
+  fail(error: Error): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.sentSignal.reject(error);
+    this.createdSignal.reject(error);
+    this.doneSignal.reject(error);
+    this.text.end(error);
+    this.transcript.end(error);
+    this.audio.end(error);
+  }
+}
+
+export class ResponseHandles {
+  /** Requested, but not on the wire yet (queued behind a running response or a tool batch) */
+  private readonly waiting = new Map<ResponseRequest, TrackedResponse[]>();
+  /** On the wire, by the `event_id` of their `response.create` */
+  private readonly sent = new Map<string, TrackedResponse[]>();
+  /** `event_id`s of the generations on the wire, by generation id */
+  private readonly generations = new Map<string, string>();
+  /** Acknowledged, by response id, until `response.done` */
+  private readonly running = new Map<string, TrackedResponse[]>();
+
+  /** @param cancelResponse Stops a response the service is running (a handle's `cancel()`) */
+  constructor(private readonly cancelResponse: (responseId: string) => void) {}
+
+  /**
+   * A handle following `request`, as the gate returned it. The gate may already have tried to
+   * send it (nothing was running), in which case the handle starts out sent — or failed.
+   */
+  create(request: ResponseRequest): ResponseHandle {
+    const handle = new TrackedResponse(this.cancelResponse);
+    if (request.failure) {
+      handle.fail(request.failure);
+    } else if (request.eventId) {
+      this.sent.set(request.eventId, [...(this.sent.get(request.eventId) ?? []), handle]);
+      handle.markSent();
+    } else {
+      this.waiting.set(request, [...(this.waiting.get(request) ?? []), handle]);
+    }
+    return handle;
+  }
+
+  /** `request` reached the wire (as `request.eventId`) */
+  onSent(request: ResponseRequest): void {
+    const handles = this.waiting.get(request);
+    if (!handles || !request.eventId) return;
+    this.waiting.delete(request);
+    this.sent.set(request.eventId, handles);
+    const generationId = (request.event as ResponseCreateClientEvent | null)?.response?.metadata?.[
+      GENERATION_METADATA_KEY
+    ];
+    if (generationId) this.generations.set(generationId, request.eventId);
+    handles.forEach((handle) => handle.markSent());
+  }
+
+  /** `request` could not be sent (`request.failure`): the handles following it are lost */
+  onNotSent(request: ResponseRequest): void {
+    const handles = this.waiting.get(request);
+    const error = request.failure;
+    if (!handles || !error) return;
+    this.waiting.delete(request);
+    handles.forEach((handle) => handle.fail(error));
+  }
+
+  /**
+   * `response.created` for the request sent as `eventId` (the gate's outstanding request; null
+   * when the service started the response on its own). A generation's response is matched by its
+   * metadata instead, and a generation is never bound to a response that does not name it.
+   */
+  onCreated(response: WireResponse, eventId: string | null): void {
+    const generationId = response.metadata?.[GENERATION_METADATA_KEY];
+    const key = generationId ? this.generations.get(generationId) : eventId;
+    if (!key || (!generationId && this.generationSentAs(key))) return;
+    const handles = this.sent.get(key);
+    if (!handles) return;
+    this.sent.delete(key);
+    if (generationId) this.generations.delete(generationId);
+    this.running.set(response.id, handles);
+    handles.forEach((handle) => handle.bind(response.id));
+  }
+
+  /** The service refused the request sent as `eventId` */
+  onRejected(eventId: string | undefined, message: string): void {
+    const handles = eventId ? this.sent.get(eventId) : undefined;
+    if (!handles) return;
+    this.sent.delete(eventId as string);
+    const generationId = this.generationSentAs(eventId as string);
+    if (generationId) this.generations.delete(generationId);
+    const error = new Error(message);
+    handles.forEach((handle) => handle.fail(error));
+  }
+
+  /** Route a response's output (and its end) to the handles following it */
+  apply(event: VoiceLiveServerEvent): void {
+    const responseId = responseIdOf(event);
+    const handles = responseId ? this.running.get(responseId) : undefined;
+    if (!handles) return;
+    // Decoded once, and only for a response somebody follows
+    let audio: Uint8Array | null = null;
+    const decodeAudio = (delta: string): Uint8Array => {
+      if (!audio) audio = base64ToBytes(delta);
+      return audio;
+    };
+    handles.forEach((handle) => handle.apply(event, decodeAudio));
+    if (event.type === 'response.done') this.running.delete(responseId as string);
+  }
+
+  /** The session ended: nothing tracked will be answered */
+  failAll(error: Error): void {
+    const handles = [
+      ...this.waiting.values(),
+      ...this.sent.values(),
+      ...this.running.values(),
+    ].flat();
+    this.waiting.clear();
+    this.sent.clear();
+    this.generations.clear();
+    this.running.clear();
+    handles.forEach((handle) => handle.fail(error));
+  }
+
+  /** The generation sent as `eventId`, if that request was one */
+  private generationSentAs(eventId: string): string | undefined {
+    for (const [generationId, sentAs] of this.generations) {
+      if (sentAs === eventId) return generationId;
+    }
+    return undefined;
+  }
+}
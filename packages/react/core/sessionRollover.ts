@@ -0,0 +1,29 @@
+/**
+ * Session rollover (`sessionRollover`), pure part.
+ *
+ * A service session ends at its `expires_at`. Ahead of that the client opens a second one and
+ * moves over to it at a quiet moment; this module only decides when and with what.
+ */
+
+import type { SessionRolloverOptions } from '../types/voiceLive';
+
+export type { SessionRolloverOptions };
+
+export const DEFAULT_ROLLOVER_LEAD_TIME_MS = 60_000;
+
+/** Normalize the `sessionRollover` option: off → null, `true` → defaults */
+export function resolveSessionRolloverOptions(
+  input: boolean | SessionRolloverOptions | undefined
+): Required<SessionRolloverOptions> | null {
+  if (!input) return null;
+  return {
+    leadTimeMs: DEFAULT_ROLLOVER_LEAD_TIME_MS,
+    conversation: true,
+    ...(input === true ? {} : input),
+  };
+}
+
+/** Milliseconds until the rollover of a session expiring at `expiresAt` is due (0: now) */
+export function rolloverDelay(expiresAt: number, leadTimeMs: number, now = Date.now()): number {
+  return Math.max(0, expiresAt - leadTimeMs - now);
+}
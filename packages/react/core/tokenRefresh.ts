@@ -0,0 +1,51 @@
+/**
+ * Token expiry (pure): when an Entra ID access token runs out, and when to fetch the next one.
+ *
+ * Only JWTs say when they expire (`exp`); any other token is treated as valid for as long as the
+ * service accepts it.
+ */
+
+import { base64ToBytes } from '../utils/audioHelpers';
+
+/** How long before a token expires its successor is fetched, at most */
+export const TOKEN_REFRESH_LEAD_MS = 5 * 60_000;
+
+/** A token with less validity than this left is not used for a new connection */
+export const TOKEN_MIN_VALIDITY_MS = 60_000;
+
+/** The soonest a refresh is attempted, however close the token is to its end */
+export const TOKEN_REFRESH_MIN_DELAY_MS = 30_000;
+
+/** Expiry of a JWT as epoch milliseconds (its `exp` claim), or null when it is not a JWT */
+export function decodeTokenExpiry(token: string | undefined): number | null {
+  const payload = token?.split('.')[1];
+  if (!payload || token?.split('.').length !== 3) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = new TextDecoder().decode(
+      base64ToBytes(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+    );
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Milliseconds until the successor of a token expiring at `expiresAt` is fetched:
+ * `TOKEN_REFRESH_LEAD_MS` ahead, or halfway through a shorter remaining lifetime — but never
+ * sooner than `TOKEN_REFRESH_MIN_DELAY_MS`.
+ */
+export function tokenRefreshDelay(expiresAt: number, now = Date.now()): number {
+  const remaining = expiresAt - now;
+  return Math.max(
+    TOKEN_REFRESH_MIN_DELAY_MS,
+    remaining - Math.min(TOKEN_REFRESH_LEAD_MS, remaining / 2)
+  );
+}
+
+/** Whether a token expiring at `expiresAt` is too close to its end for a new connection */
+export function isTokenExpiring(expiresAt: number | null, now = Date.now()): boolean {
+  return expiresAt !== null && expiresAt - now < TOKEN_MIN_VALIDITY_MS;
+}
@@ -0,0 +1,91 @@
+/**
+ * Transport selection for `connection.transport: 'auto'`.
+ *
+ * WebRTC is tried first. When it cannot negotiate or carry media — typically UDP blocked by a
+ * corporate network — the same session continues over WebSocket, and the transport that worked
+ * is remembered in `localStorage` (per browser origin) so the next connects start with it — for a
+ * day, as the network that blocked WebRTC may be gone by then.
+ */
+
+import type {
+  TransportSelectedEvent,
+  VoiceLiveConnectionConfig,
+  VoiceLiveSessionConfig,
+} from '../types/voiceLive';
+import type { TransportCloseInfo, TransportKind } from './transports/types';
+import {
+  CONTROL_CHANNEL_SETUP_FAILED_CLOSE_CODE,
+  RTC_NEGOTIATION_TIMEOUT_CLOSE_CODE,
+} from './transports/webrtcTransport';
+import { validateTransport } from '../utils/connectionUrl';
+
+export type { TransportSelectedEvent };
+
+/** `localStorage` key of the transport that last worked */
+export const TRANSPORT_STORAGE_KEY = 'foundry-voice-live:transport';
+
+/** How long a remembered transport is used before WebRTC is tried again (24 hours) */
+export const TRANSPORT_MEMORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Whether a WebRTC attempt closed because WebRTC itself failed (4008–4012): worth a WebSocket try */
+export function isTransportFallbackClose(info: TransportCloseInfo): boolean {
+  return (
+    info.code >= RTC_NEGOTIATION_TIMEOUT_CLOSE_CODE &&
+    info.code <= CONTROL_CHANNEL_SETUP_FAILED_CLOSE_CODE
+  );
+}
+
+/** `localStorage`, where it exists and may be used (not in Node, nor with storage disabled) */
+function defaultStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/** The transport that last worked in this origin, if any and not older than the TTL */
+export function readRememberedTransport(
+  storage: Storage | null = defaultStorage(),
+  now: number = Date.now()
+): TransportKind | null {
+  try {
+    const value = storage?.getItem(TRANSPORT_STORAGE_KEY);
+    if (!value) return null;
+    const { transport, at } = JSON.parse(value) as { transport?: unknown; at?: unknown };
+    if (transport !== 'websocket' && transport !== 'webrtc') return null;
+    if (typeof at !== 'number' || now - at >= TRANSPORT_MEMORY_TTL_MS) return null;
+    return transport;
+  } catch {
+    return null;
+  }
+}
+
+/** Remember the transport a session became ready on, and when (storage errors are ignored) */
+export function rememberTransport(
+  transport: TransportKind,
+  storage: Storage | null = defaultStorage(),
+  now: number = Date.now()
+): void {
+  try {
+    storage?.setItem(TRANSPORT_STORAGE_KEY, JSON.stringify({ transport, at: now }));
+  } catch {
+    // Quota exceeded or storage blocked: the next connect simply tries WebRTC again
+  }
+}
+
+/** The transport a new `'auto'` connection starts with, and why */
+export function selectAutoTransport(
+  connection: VoiceLiveConnectionConfig,
+  session: VoiceLiveSessionConfig | undefined,
+  remembered: TransportKind | null,
+  hasRtcPeerConnection: boolean = typeof RTCPeerConnection !== 'undefined'
+): TransportSelectedEvent {
+  try {
+    validateTransport({ ...connection, transport: 'webrtc' }, session, hasRtcPeerConnection);
+  } catch {
+    return { transport: 'websocket', reason: 'unsupported' };
+  }
+  if (remembered) return { transport: remembered, reason: 'remembered' };
+  return { transport: 'webrtc', reason: 'preferred' };
+}
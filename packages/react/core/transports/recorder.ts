@@ -0,0 +1,223 @@
+/**
+ * Session recording: every client and server event that crosses a transport, with timestamps,
+ * as JSON Lines.
+ *
+ * A recording is what `ReplayTransport` plays back, so a customer's session (late WebRTC tool
+ * calls, overlapping responses) can be reproduced deterministically in a test. Credentials are
+ * masked before anything is stored: the URL through `redactUrl`, and every `api-key`,
+ * `authorization` or `token` field inside events (MCP tool headers, for instance). Audio payloads
+ * are blanked unless `includeAudio` is set.
+ */
+
+import type { VoiceLiveClientEvent, VoiceLiveServerEvent } from '../../types/events';
+import { isSecretName, redactUrl } from '../../utils/connectionUrl';
+import type {
+  TransportCallbacks,
+  TransportConnectOptions,
+  TransportKind,
+  TransportState,
+  VoiceLiveTransport,
+} from './types';
+
+/** One line of a recording. `t` is milliseconds since the recorder started. */
+export type RecordingEntry =
+  | { t: number; kind: 'connect'; transport: TransportKind; url: string; at: string }
+  | { t: number; kind: 'open' }
+  | { t: number; kind: 'ready'; reason: string }
+  | { t: number; kind: 'client'; event: VoiceLiveClientEvent }
+  | { t: number; kind: 'server'; event: VoiceLiveServerEvent }
+  | { t: number; kind: 'error'; message: string }
+  /** The service (or network) closed the control channel */
+  | { t: number; kind: 'close'; code: number; reason: string; wasClean: boolean }
+  /** The client closed the transport itself */
+  | { t: number; kind: 'disconnect' };
+
+export interface SessionRecorderOptions {
+  /**
+   * Keep the PCM of `input_audio_buffer.append` and `response.audio.delta` (base64, as sent).
+   * Off by default: recordings stay small and hold no voice data.
+   * @default false
+   */
+  includeAudio?: boolean;
+  /**
+   * Receive each JSONL line as it is recorded (e.g. append it to a file in Node). When set,
+   * entries are not kept in memory.
+   */
+  write?: (line: string) => void;
+  /** Clock (test seam) @default Date.now */
+  now?: () => number;
+}
+
+/** Audio payload fields, per event type */
+const AUDIO_FIELDS: Partial<Record<string, string>> = {
+  'input_audio_buffer.append': 'audio',
+  'response.audio.delta': 'delta',
+};
+
+/** Deep copy with every credential-named field masked */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value !== 'object' || value === null) return value;
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = isSecretName(key) && field !== null && field !== undefined ? '***' : redact(field);
+  }
+  return copy;
+}
+
+/**
+ * Parse a JSONL recording (blank lines are skipped).
+ *
+ * @throws Error naming the line that is not a recording entry
+ */
+export function parseRecording(jsonl: string): RecordingEntry[] {
+  const entries: RecordingEntry[] = [];
+  jsonl.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Recording line ${index + 1} is not valid JSON`);
+    }
+    const candidate = entry as Partial<RecordingEntry> | null;
+    if (typeof candidate?.t !== 'number' || typeof candidate.kind !== 'string') {
+      throw new Error(`Recording line ${index + 1} is not a recording entry`);
+    }
+    entries.push(candidate as RecordingEntry);
+  });
+  return entries;
+}
+
+export class SessionRecorder {
+  private readonly recorded: RecordingEntry[] = [];
+  private startedAt: number | null = null;
+
+  constructor(private readonly options: SessionRecorderOptions = {}) {}
+
+  /** Everything recorded so far (empty when lines go to `write`) */
+  get entries(): readonly RecordingEntry[] {
+    return this.recorded;
+  }
+
+  /** The recording as JSON Lines, ready to save or to hand to `ReplayTransport` */
+  toJSONL(): string {
+    return this.recorded.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  /** Forget what was recorded; the next entry starts the clock again */
+  clear(): void {
+    this.recorded.length = 0;
+    this.startedAt = null;
+  }
+
+  /**
+   * Record the transport `create` builds: its callbacks are observed on the way in, `connect`,
+   * `send` and `close` on the way out. The returned transport behaves exactly like the wrapped one.
+   */
+  wrap(
+    callbacks: TransportCallbacks,
+    create: (callbacks: TransportCallbacks) => VoiceLiveTransport
+  ): VoiceLiveTransport {
+    const observed: TransportCallbacks = {
+      ...callbacks,
+      onOpen: () => {
+        this.record({ kind: 'open' });
+        callbacks.onOpen();
+      },
+      onEvent: (event) => {
+        this.record({ kind: 'server', event: this.scrub(event) });
+        callbacks.onEvent(event);
+      },
+      onClose: (info) => {
+        this.record({ kind: 'close', ...info });
+        callbacks.onClose(info);
+      },
+      onError: (message, cause) => {
+        this.record({ kind: 'error', message });
+        callbacks.onError(message, cause);
+      },
+      onReady: callbacks.onReady
+        ? (reason): void => {
+            this.record({ kind: 'ready', reason });
+            callbacks.onReady?.(reason);
+          }
+        : undefined,
+    };
+    return new RecordingTransport(create(observed), this);
+  }
+
+  /** @internal */
+  record(entry: DistributiveOmit<RecordingEntry, 't'>): void {
+    const now = (this.options.now ?? Date.now)();
+    this.startedAt ??= now;
+    const stamped = { t: now - this.startedAt, ...entry } as RecordingEntry;
+    if (this.options.write) {
+      this.options.write(`${JSON.stringify(stamped)}\n`);
+    } else {
+      this.recorded.push(stamped);
+    }
+  }
+
+  /** @internal Redacted copy of an event, audio blanked unless `includeAudio` */
+  scrub<T extends { type: string }>(event: T): T {
+    const copy = redact(event) as Record<string, unknown>;
+    const audioField = AUDIO_FIELDS[event.type];
+    if (audioField && !this.options.includeAudio && typeof copy[audioField] === 'string') {
+      copy[audioField] = '';
+    }
+    return copy as T;
+  }
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** Delegates to the real transport and records what the client does with it */
+class RecordingTransport implements VoiceLiveTransport {
+  constructor(
+    private readonly inner: VoiceLiveTransport,
+    private readonly recorder: SessionRecorder
+  ) {}
+
+  get kind(): TransportKind {
+    return this.inner.kind;
+  }
+
+  get state(): TransportState {
+    return this.inner.state;
+  }
+
+  connect(url: string, session: Record<string, unknown>, options?: TransportConnectOptions): void {
+    this.recorder.record({
+      kind: 'connect',
+      transport: this.inner.kind,
+      url: redactUrl(url),
+      at: new Date().toISOString(),
+    });
+    this.inner.connect(url, session, options);
+  }
+
+  send(json: string): boolean {
+    const sent = this.inner.send(json);
+    if (sent) {
+      try {
+        this.recorder.record({
+          kind: 'client',
+          event: this.recorder.scrub(JSON.parse(json) as VoiceLiveClientEvent),
+        });
+      } catch {
+        // Not JSON: nothing a replay could use
+      }
+    }
+    return sent;
+  }
+
+  close(): void {
+    if (this.inner.state !== 'closed') this.recorder.record({ kind: 'disconnect' });
+    this.inner.close();
+  }
+
+  setMicrophoneTrack(track: MediaStreamTrack | null): Promise<void> {
+    return this.inner.setMicrophoneTrack(track);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Replay transport: plays a `SessionRecorder` recording back into a session.
+ *
+ * The recorded server events, opens, errors and closes are delivered with their original
+ * spacing (scaled by `speed`), whatever the client sends — which is what makes a reproduction
+ * deterministic. Client events are collected in `sent`, so a test can compare them with the
+ * recorded ones. Media cannot be replayed: a WebRTC recording reproduces the control channel and
+ * the data-channel events, not the remote audio stream.
+ */
+
+import type { Logger } from '../../utils/logger';
+import { parseRecording, type RecordingEntry } from './recorder';
+import type {
+  TransportCallbacks,
+  TransportKind,
+  TransportState,
+  VoiceLiveTransport,
+} from './types';
+
+export interface ReplayTransportOptions {
+  /** A recording: JSONL text (`SessionRecorder.toJSONL()`, a saved file) or parsed entries */
+  recording: string | readonly RecordingEntry[];
+  /**
+   * Playback speed: `1` keeps the recorded timing, `10` plays ten times faster, `Infinity`
+   * delivers everything without waiting (still asynchronously, in order).
+   * @default 1
+   */
+  speed?: number;
+  /** Which recorded connection to play when the recording spans reconnects (0 = first) @default 0 */
+  connection?: number;
+  log?: Logger;
+}
+
+export class ReplayTransport implements VoiceLiveTransport {
+  readonly kind: TransportKind;
+  /** Client events sent through this transport, parsed, in order */
+  readonly sent: Array<{ type: string; [key: string]: unknown }> = [];
+  private readonly entries: readonly RecordingEntry[];
+  /** Recording time of the connect, from which the first entry is timed */
+  private readonly startedAt: number;
+  private currentState: TransportState = 'idle';
+  private cursor = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly callbacks: TransportCallbacks,
+    private readonly options: ReplayTransportOptions
+  ) {
+    const all =
+      typeof options.recording === 'string' ? parseRecording(options.recording) : options.recording;
+    const index = options.connection ?? 0;
+    const starts = all.flatMap((entry, i) => (entry.kind === 'connect' ? [i] : []));
+    if (starts.length === 0) {
+      // A hand-written recording without connect entries is a single connection
+      if (index !== 0) throw new Error(`The recording has no connection ${index}`);
+      this.entries = all;
+      this.kind = 'websocket';
+      this.startedAt = all[0]?.t ?? 0;
+      return;
+    }
+    const start = starts[index];
+    if (start === undefined) {
+      throw new Error(
+        `The recording has no connection ${index} (it holds ${starts.length} connection(s))`
+      );
+    }
+    const first = all[start] as Extract<RecordingEntry, { kind: 'connect' }>;
+    this.kind = first.transport;
+    this.startedAt = first.t;
+    this.entries = all.slice(start + 1, starts[index + 1] ?? all.length);
+  }
+
+  get state(): TransportState {
+    return this.currentState;
+  }
+
+  /** Consumer callbacks never affect our control flow (see `WebRtcTransport.notify`) */
+  private notify<TArgs extends unknown[]>(
+    name: string,
+    fn: ((...args: TArgs) => void) | undefined,
+    ...args: TArgs
+  ): void {
+    if (!fn) return;
+    try {
+      fn(...args);
+    } catch (err) {
+      this.options.log?.error(`${name} callback threw:`, err);
+    }
+  }
+
+  connect(): void {
+    if (this.currentState !== 'idle') {
+      throw new Error(
+        'ReplayTransport.connect() called twice — create a new transport per connection'
+      );
+    }
+    this.currentState = 'connecting';
+    this.schedule(this.startedAt);
+  }
+
+  send(json: string): boolean {
+    if (this.currentState !== 'open') return false;
+    try {
+      this.sent.push(JSON.parse(json) as { type: string });
+    } catch {
+      this.options.log?.warn('Replay: ignoring a client message that is not JSON');
+    }
+    return true;
+  }
+
+  close(): void {
+    this.currentState = 'closed';
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  async setMicrophoneTrack(): Promise<void> {
+    // Nothing is sent anywhere during a replay
+  }
+
+  /** Wait until the entry at `cursor` is due (`since` = the previous entry's time) */
+  private schedule(since: number): void {
+    const next = this.entries[this.cursor];
+    if (!next) return; // the recording ends; the session stays as it is
+    const speed = this.options.speed ?? 1;
+    const delay = speed > 0 && Number.isFinite(speed) ? Math.max(0, next.t - since) / speed : 0;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Entries recorded at the same instant are delivered together, as they arrived
+      while (this.entries[this.cursor]?.t === next.t && this.currentState !== 'closed') {
+        this.deliver(this.entries[this.cursor] as RecordingEntry);
+        this.cursor += 1;
+      }
+      if (this.currentState !== 'closed') this.schedule(next.t);
+    }, delay);
+  }
+
+  private deliver(entry: RecordingEntry): void {
+    switch (entry.kind) {
+      case 'open':
+        this.currentState = 'open';
+        this.notify('onOpen', this.callbacks.onOpen);
+        break;
+      case 'ready':
+        this.notify('onReady', this.callbacks.onReady, entry.reason);
+        break;
+      case 'server':
+        this.notify('onEvent', this.callbacks.onEvent, entry.event);
+        break;
+      case 'error':
+        this.notify('onError', this.callbacks.onError, entry.message);
+        break;
+      case 'close':
+        this.currentState = 'closed';
+        this.notify('onClose', this.callbacks.onClose, {
+          code: entry.code,
+          reason: entry.reason,
+          wasClean: entry.wasClean,
+        });
+        break;
+      default:
+        // `client` events are what the live session sends now; `disconnect` was the client's call
+        break;
+    }
+  }
+}
@@ -9,6 +9,8 @@ import {
   RTC_MEDIA_FAILED_CLOSE_CODE,
   CONTROL_CHANNEL_SETUP_FAILED_CLOSE_CODE,
 } from './webrtcTransport';
+import { SessionRecorder, parseRecording } from './recorder';
+import { ReplayTransport } from './replayTransport';
 import type { TransportCallbacks } from './types';
 import { FakeWebSocket, FakePeerConnection, installBrowserFakes } from '../../hooks/testFakes';
 
@@ -570,3 +572,121 @@ describe('WebRtcTransport', () => {
     expect(t.state).toBe('closed');
   });
 });
+
+describe('SessionRecorder / ReplayTransport', () => {
+  it('records both directions with timestamps, redacting credentials and audio', () => {
+    let now = 1000;
+    const recorder = new SessionRecorder({ now: () => now });
+    const cb = makeCallbacks();
+    const t = recorder.wrap(cb, (wired) => new WebSocketTransport(wired));
+    t.connect('wss://x/voice-live/realtime?api-key=SECRET&model=gpt-realtime', {});
+    const ws = FakeWebSocket.instances[0]!;
+    now = 1010;
+    ws.open();
+    t.send(
+      JSON.stringify({
+        type: 'session.update',
+        session: { tools: [{ type: 'mcp', headers: { Authorization: 'Bearer SECRET' } }] },
+      })
+    );
+    t.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: 'AAAA' }));
+    now = 1250;
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: 'BBBB' });
+    ws.drop(1006);
+
+    expect(cb.onOpen).toHaveBeenCalledTimes(1);
+    expect(cb.onEvent).toHaveBeenCalledWith(expect.objectContaining({ delta: 'BBBB' }));
+    const jsonl = recorder.toJSONL();
+    expect(jsonl).not.toContain('SECRET');
+    expect(recorder.entries.map((entry) => `${entry.t}:${entry.kind}`)).toEqual([
+      '0:connect',
+      '10:open',
+      '10:client',
+      '10:client',
+      '250:server',
+      '250:close',
+    ]);
+    expect(parseRecording(jsonl)).toEqual(recorder.entries);
+    expect(recorder.entries[0]).toMatchObject({ transport: 'websocket' });
+    expect(recorder.entries[3]).toMatchObject({ event: { audio: '' } });
+    expect(recorder.entries[4]).toMatchObject({ event: { delta: '' } });
+    expect(recorder.entries[5]).toMatchObject({ code: 1006, wasClean: false });
+  });
+
+  it('keeps audio on request and streams lines to a sink', () => {
+    const lines: string[] = [];
+    const recorder = new SessionRecorder({ includeAudio: true, write: (line) => lines.push(line) });
+    const t = recorder.wrap(makeCallbacks(), (wired) => new WebSocketTransport(wired));
+    t.connect('wss://x', {});
+    FakeWebSocket.instances[0]!.open();
+    t.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: 'AAAA' }));
+    t.close();
+
+    expect(recorder.entries).toEqual([]);
+    expect(parseRecording(lines.join('')).map((entry) => entry.kind)).toEqual([
+      'connect',
+      'open',
+      'client',
+      'disconnect',
+    ]);
+    expect(lines[2]).toContain('"audio":"AAAA"');
+  });
+
+  it('replays a recorded connection with its timing, scaled by speed', () => {
+    vi.useFakeTimers();
+    const recording = [
+      { t: 0, kind: 'connect', transport: 'webrtc', url: 'wss://x', at: '' },
+      { t: 100, kind: 'open' },
+      { t: 100, kind: 'client', event: { type: 'session.update', session: {} } },
+      { t: 300, kind: 'server', event: { type: 'session.updated', session: {} } },
+      { t: 300, kind: 'ready', reason: 'media connected' },
+      { t: 1300, kind: 'close', code: 1011, reason: 'gone', wasClean: false },
+      { t: 1400, kind: 'connect', transport: 'webrtc', url: 'wss://x', at: '' },
+      { t: 1500, kind: 'open' },
+    ]
+      .map((entry) => JSON.stringify(entry))
+      .join('\n');
+    const cb = makeCallbacks();
+    const t = new ReplayTransport(cb, { recording, speed: 2 });
+    expect(t.kind).toBe('webrtc');
+    t.connect();
+    expect(t.send('{"type":"x"}')).toBe(false);
+
+    vi.advanceTimersByTime(50);
+    expect(cb.onOpen).toHaveBeenCalledTimes(1);
+    expect(t.send(JSON.stringify({ type: 'session.update' }))).toBe(true);
+    expect(t.sent).toEqual([{ type: 'session.update' }]);
+    vi.advanceTimersByTime(99);
+    expect(cb.onEvent).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(cb.onEvent).toHaveBeenCalledWith({ type: 'session.updated', session: {} });
+    expect(cb.onReady).toHaveBeenCalledWith('media connected');
+    vi.advanceTimersByTime(500);
+    expect(cb.onClose).toHaveBeenCalledWith({ code: 1011, reason: 'gone', wasClean: false });
+    expect(t.state).toBe('closed');
+    vi.advanceTimersByTime(1000);
+    expect(cb.onOpen).toHaveBeenCalledTimes(1); // the next connection is not part of this one
+
+    const second = new ReplayTransport(makeCallbacks(), { recording, connection: 1 });
+    expect(second.kind).toBe('webrtc');
+    expect(() => new ReplayTransport(cb, { recording, connection: 2 })).toThrow(/no connection 2/);
+    expect(() => parseRecording('{"t":0}\nnot json')).toThrow(/line 1 is not a recording entry/);
+  });
+
+  it('stops delivering once closed by the consumer', () => {
+    vi.useFakeTimers();
+    const cb = makeCallbacks();
+    const t = new ReplayTransport(cb, {
+      recording: [
+        { t: 0, kind: 'open' },
+        { t: 10, kind: 'server', event: { type: 'session.created', session: {} } },
+      ],
+      speed: Infinity,
+    });
+    t.connect();
+    vi.advanceTimersByTime(0);
+    t.close();
+    vi.runAllTimers();
+    expect(cb.onEvent).not.toHaveBeenCalled();
+  });
+});
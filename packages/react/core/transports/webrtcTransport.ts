@@ -188,7 +188,7 @@ export class WebRtcTransport implements VoiceLiveTransport {
           // — a network change or NAT rebind — so close instead of only reporting: otherwise the
           // media is dead while the control channel still looks 'open', blocking reconnect.
           const message =
-            "WebRTC connection failed. UDP may be blocked on this network — configure rtcConfiguration (TURN) or use transport: 'websocket'.";
+            "WebRTC connection failed. UDP may be blocked on this network — configure rtcConfiguration (TURN) or use transport: 'websocket' (or 'auto', which falls back by itself).";
           this.failTerminally(message, RTC_MEDIA_FAILED_CLOSE_CODE);
         }
       },
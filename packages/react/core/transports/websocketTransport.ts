@@ -7,6 +7,9 @@ import { parseServerEvent } from '../serverEvents';
 import { CONTROL_CHANNEL_SETUP_FAILED_CLOSE_CODE } from './webrtcTransport';
 import type { TransportCallbacks, TransportState, VoiceLiveTransport } from './types';
 
+/** `WebSocket.OPEN`, spelled out: Node before 22 has no global `WebSocket` to read it from */
+const WS_OPEN = 1;
+
 export interface WebSocketTransportOptions {
   log?: Logger;
   /** Factory for the socket (test seam) */
@@ -96,7 +99,7 @@ export class WebSocketTransport implements VoiceLiveTransport {
   }
 
   send(json: string): boolean {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    if (!this.ws || this.ws.readyState !== WS_OPEN) return false;
     this.ws.send(json);
     return true;
   }
@@ -0,0 +1,643 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+/**
+ * VoiceLiveSession — the framework-agnostic client without React (fake WebSocket / AudioContext)
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { VoiceLiveSession } from './voiceLiveSession';
+import { TypedEmitter } from './emitter';
+import {
+  FakeAudioContext,
+  FakeAudioWorkletNode,
+  FakeWebSocket,
+  installBrowserFakes,
+} from '../hooks/testFakes';
+import { SessionRecorder } from './transports/recorder';
+import { ReplayTransport } from './transports/replayTransport';
+import type { VoiceLiveSessionOptions } from '../types/voiceLive';
+
+let restore: () => void;
+beforeEach(() => {
+  restore = installBrowserFakes();
+});
+afterEach(() => {
+  restore();
+});
+
+const baseOptions: VoiceLiveSessionOptions = {
+  connection: { resourceName: 'my-res', apiKey: 'secret' },
+  session: { instructions: 'Be nice.' },
+  autoStartMic: false,
+  logLevel: 'none',
+};
+
+async function connectReady(options: VoiceLiveSessionOptions = baseOptions) {
+  const session = new VoiceLiveSession(options);
+  await session.connect();
+  const ws = FakeWebSocket.instances[0]!;
+  ws.open();
+  ws.receive({ type: 'session.created', session: {} });
+  ws.receive({ type: 'session.updated', session: {} });
+  await Promise.resolve();
+  return { session, ws };
+}
+
+describe('TypedEmitter', () => {
+  it('delivers to every listener, isolates throwing ones and supports once/off', () => {
+    const onListenerError = vi.fn();
+    const emitter = new TypedEmitter<{ ping: [n: number] }>(onListenerError);
+    const seen: number[] = [];
+    emitter.on('ping', () => {
+      throw new Error('consumer bug');
+    });
+    const off = emitter.on('ping', (n) => seen.push(n));
+    emitter.once('ping', (n) => seen.push(n * 10));
+
+    emitter.emit('ping', 1);
+    emitter.emit('ping', 2);
+    off();
+    emitter.emit('ping', 3);
+
+    expect(seen).toEqual([1, 10, 2]);
+    expect(onListenerError).toHaveBeenCalledTimes(3);
+    expect(emitter.has('ping')).toBe(true);
+    emitter.clear();
+    expect(emitter.has('ping')).toBe(false);
+  });
+});
+
+describe('VoiceLiveSession', () => {
+  it('publishes state changes and reaches ready without React', async () => {
+    const changes: string[] = [];
+    const session = new VoiceLiveSession(baseOptions);
+    session.on('change', (state) => changes.push(state.connectionState));
+    expect(session.getSnapshot().connectionState).toBe('disconnected');
+
+    await session.connect();
+    const ws = FakeWebSocket.instances[0]!;
+    ws.open();
+    ws.receive({ type: 'session.created', session: {} });
+    expect(ws.lastSent('session.update').session.instructions).toBe('Be nice.');
+    ws.receive({ type: 'session.updated', session: {} });
+
+    const snapshot = session.getSnapshot();
+    expect(snapshot.isReady).toBe(true);
+    expect(snapshot.sessionState).toBe('listening');
+    expect(changes).toContain('connecting');
+    expect(changes).toContain('connected');
+    // unchanged state is the same object, so it can back `useSyncExternalStore`-style bindings
+    expect(session.getSnapshot()).toBe(snapshot);
+
+    session.disconnect();
+    expect(session.getSnapshot().connectionState).toBe('disconnected');
+  });
+
+  it('delivers events to both the config callbacks and the listeners', async () => {
+    const onTranscript = vi.fn();
+    const { session, ws } = await connectReady({ ...baseOptions, onTranscript });
+    const listener = vi.fn();
+    session.on('transcript', listener);
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({ type: 'response.audio_transcript.delta', response_id: 'r1', delta: 'Hi' });
+    ws.receive({ type: 'response.done', response: { id: 'r1' } });
+
+    expect(onTranscript).toHaveBeenLastCalledWith('assistant', 'Hi', true);
+    expect(listener).toHaveBeenLastCalledWith('assistant', 'Hi', true);
+    session.disconnect();
+  });
+
+  it('keeps processing an event when a listener throws', async () => {
+    const { session, ws } = await connectReady();
+    const errors = vi.fn();
+    session.on('event', () => {
+      throw new Error('consumer bug');
+    });
+    session.on('error', errors);
+
+    ws.receive({ type: 'error', error: { code: 'bad', message: 'Boom' } });
+
+    expect(session.getSnapshot().error).toBe('Boom');
+    expect(errors).toHaveBeenCalledWith('Boom');
+    session.disconnect();
+  });
+
+  it('reads the latest options at the moment it needs them', async () => {
+    const { session, ws } = await connectReady();
+    session.setConfig({ ...baseOptions, session: { instructions: 'Be brief.' } });
+
+    session.updateSession({});
+
+    expect(ws.lastSent('session.update').session.instructions).toBe('Be brief.');
+    session.disconnect();
+  });
+
+  it('settles conversation edits on their acknowledgement or correlated error', async () => {
+    const { session, ws } = await connectReady();
+    const errors = vi.fn();
+    session.on('error', errors);
+
+    const deleted = session.deleteItem('item_1');
+    const deleteEvent = ws.lastSent('conversation.item.delete');
+    expect(deleteEvent).toMatchObject({ item_id: 'item_1', event_id: expect.any(String) });
+    ws.receive({ type: 'conversation.item.deleted', item_id: 'item_1' });
+    await expect(deleted).resolves.toBeUndefined();
+
+    const inserted = session.insertItem(
+      { type: 'message', role: 'system', content: [{ type: 'input_text', text: 'Note' }] },
+      { previousItemId: 'item_0' }
+    );
+    const createEvent = ws.lastSent('conversation.item.create');
+    expect(createEvent.previous_item_id).toBe('item_0');
+    const item = { ...createEvent.item, status: 'completed' };
+    ws.receive({ type: 'conversation.item.created', previous_item_id: 'item_0', item });
+    await expect(inserted).resolves.toEqual(item);
+
+    const truncated = session.truncateItem('item_9', 1500);
+    expect(ws.lastSent('conversation.item.truncate')).toMatchObject({
+      content_index: 0,
+      audio_end_ms: 1500,
+    });
+    ws.receive({
+      type: 'error',
+      error: {
+        message: 'Item not found',
+        event_id: ws.lastSent('conversation.item.truncate').event_id,
+      },
+    });
+    await expect(truncated).rejects.toThrow('Item not found');
+    // The failure belongs to the caller, not to the session
+    expect(errors).not.toHaveBeenCalled();
+    expect(session.getSnapshot().error).toBeNull();
+
+    const retrieved = session.retrieveItem('item_1');
+    session.disconnect();
+    await expect(retrieved).rejects.toThrow('Session ended');
+    await expect(session.deleteItem('item_1')).rejects.toThrow('Not connected');
+  });
+
+  it('correlates requests with their acknowledgement, and updateSession() is awaitable', async () => {
+    const { session, ws } = await connectReady();
+
+    let live = false;
+    const updated = session.updateSession({ instructions: 'Be brief.' }).then(() => {
+      live = true;
+    });
+    await Promise.resolve();
+    expect(live).toBe(false);
+    ws.receive({ type: 'session.updated', session: { instructions: 'Be brief.' } });
+    await updated;
+    expect(live).toBe(true);
+
+    const committed = session.sendRequest({ type: 'input_audio_buffer.commit' });
+    ws.receive({ type: 'input_audio_buffer.committed', item_id: 'u1' });
+    await expect(committed).resolves.toMatchObject({ item_id: 'u1' });
+
+    // Client events without a known acknowledgement need `until`
+    await expect(session.sendRequest({ type: 'input_text.done' })).rejects.toThrow('until');
+    const typed = session.sendRequest(
+      { type: 'input_text.done' },
+      { until: (event) => (event.type === 'conversation.item.created' ? event.item.id : undefined) }
+    );
+    ws.receive({ type: 'conversation.item.created', item: { id: 'u2', type: 'message' } });
+    await expect(typed).resolves.toBe('u2');
+
+    const refused = session.updateSession({ voice: { name: 'nope', type: 'azure-standard' } });
+    ws.receive({
+      type: 'error',
+      error: { message: 'Invalid voice', event_id: ws.lastSent('session.update').event_id },
+    });
+    await expect(refused).rejects.toThrow('Invalid voice');
+    expect(session.getSnapshot().error).toBeNull();
+    session.disconnect();
+  });
+
+  it('uses the played audio as the echo reference with client-reference AEC', async () => {
+    const { session } = await connectReady({
+      ...baseOptions,
+      session: {
+        inputAudioEchoCancellation: {
+          type: 'server_echo_cancellation',
+          referenceSource: 'client',
+          channels: 2,
+        },
+      },
+    });
+    await session.startMic();
+
+    const audioStream = session.getSnapshot().audioStream;
+    expect(audioStream).not.toBeNull();
+    const node = FakeAudioWorkletNode.instances[0]!;
+    expect(node.options).toMatchObject({ numberOfInputs: 2 });
+    const captureContext = node.context as FakeAudioContext;
+    expect(captureContext.mediaStreamSources.map((source) => source.stream)).toContain(audioStream);
+    session.disconnect();
+  });
+
+  it('plays G.711 output and follows the format the service confirms', async () => {
+    const { session, ws } = await connectReady({
+      ...baseOptions,
+      session: { outputAudioFormat: 'g711_ulaw' },
+    });
+    expect(ws.lastSent('session.update').session.output_audio_format).toBe('g711_ulaw');
+    const heard: Array<[number[], string]> = [];
+    session.on('audio', (audio, _responseId, format) => heard.push([[...audio], format]));
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\xff\x80') });
+    await vi.waitFor(() => expect(FakeAudioWorkletNode.instances).toHaveLength(1));
+    const g711 = FakeAudioWorkletNode.instances[0]!;
+    expect(g711.options.processorOptions).toEqual({ sourceSampleRate: 8000 });
+    await vi.waitFor(() => expect(g711.port.postMessage).toHaveBeenCalled());
+    expect([...new Int16Array(g711.port.postMessage.mock.calls[0]![0])]).toEqual([0, 32124]);
+
+    // updateSession() switched the output back to PCM16: the next chunk gets a new player
+    ws.receive({ type: 'session.updated', session: { output_audio_format: 'pcm16' } });
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x01\x00') });
+    await vi.waitFor(() => expect(FakeAudioWorkletNode.instances).toHaveLength(2));
+    expect(FakeAudioWorkletNode.instances[1]!.options.processorOptions).toEqual({
+      sourceSampleRate: 24000,
+    });
+    expect(heard).toEqual([
+      [[0xff, 0x80], 'g711_ulaw'],
+      [[1, 0], 'pcm16'],
+    ]);
+    session.disconnect();
+  });
+
+  it('stops the assistant as soon as client VAD hears the user', async () => {
+    const { session, ws } = await connectReady({ ...baseOptions, clientVad: true });
+    await session.startMic();
+    const capture = FakeAudioWorkletNode.instances[0]!;
+    expect(capture.options.processorOptions.vad).toMatchObject({ hangoverMs: 800 });
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x01\x00') });
+    await vi.waitFor(() => expect(FakeAudioWorkletNode.instances).toHaveLength(2));
+    const player = FakeAudioWorkletNode.instances[1]!;
+    await vi.waitFor(() => expect(player.port.postMessage).toHaveBeenCalledTimes(1));
+
+    capture.port.onmessage?.({ data: { type: 'vad', speaking: true } });
+    // Flushed before the service's speech_started, and the rest of r1 is not played
+    expect(player.port.postMessage).toHaveBeenLastCalledWith(null);
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x02\x00') });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(player.port.postMessage).toHaveBeenCalledTimes(2);
+    session.disconnect();
+  });
+
+  it('resumes the response when the service never confirms a client VAD interruption', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    try {
+      const { session, ws } = await connectReady({ ...baseOptions, clientVad: true });
+      await session.startMic();
+      const capture = FakeAudioWorkletNode.instances[0]!;
+      ws.receive({ type: 'response.created', response: { id: 'r1' } });
+      ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x01\x00') });
+      await vi.waitFor(() => expect(FakeAudioWorkletNode.instances).toHaveLength(2));
+      const player = FakeAudioWorkletNode.instances[1]!;
+      await vi.waitFor(() => expect(player.port.postMessage).toHaveBeenCalledTimes(1));
+
+      // A cough: playback stops, the next chunk is held back
+      capture.port.onmessage?.({ data: { type: 'vad', speaking: true } });
+      ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x02\x00') });
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(player.port.postMessage).toHaveBeenCalledTimes(2);
+
+      // No speech_started from the service: the held chunk and the rest of r1 play
+      await vi.advanceTimersByTimeAsync(500);
+      await vi.waitFor(() => expect(player.port.postMessage).toHaveBeenCalledTimes(3));
+      ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x03\x00') });
+      await vi.waitFor(() => expect(player.port.postMessage).toHaveBeenCalledTimes(4));
+
+      // Confirmed in time, the interruption stays
+      capture.port.onmessage?.({ data: { type: 'vad', speaking: true } });
+      ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x04\x00') });
+      ws.receive({ type: 'input_audio_buffer.speech_started', audio_start_ms: 0, item_id: 'u1' });
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(player.port.postMessage).toHaveBeenCalledTimes(5);
+      expect(player.port.postMessage).toHaveBeenLastCalledWith(null);
+      session.disconnect();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('runs a text-only session without microphone or audio graph, and switches to voice', async () => {
+    const { session, ws } = await connectReady({
+      ...baseOptions,
+      autoStartMic: undefined,
+      session: { modalities: ['text'] },
+    });
+    const sent = ws.lastSent('session.update').session;
+    expect(sent.modalities).toEqual(['text']);
+    expect(sent).not.toHaveProperty('input_audio_format');
+    expect(sent).not.toHaveProperty('voice');
+    expect(sent).not.toHaveProperty('turn_detection');
+    expect(session.getSnapshot()).toMatchObject({
+      isReady: true,
+      isTextOnly: true,
+      isMicActive: false,
+      audioContext: null,
+    });
+    expect(FakeAudioContext.instances).toHaveLength(0);
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({ type: 'response.text.delta', response_id: 'r1', item_id: 'a1', delta: 'Hel' });
+    ws.receive({ type: 'response.text.delta', response_id: 'r1', item_id: 'a1', delta: 'lo' });
+    expect(session.getSnapshot().responseText).toEqual({
+      responseId: 'r1',
+      itemId: 'a1',
+      text: 'Hello',
+      isFinal: false,
+    });
+    ws.receive({ type: 'response.text.done', response_id: 'r1', item_id: 'a1', text: 'Hello!' });
+    expect(session.getSnapshot().responseText).toMatchObject({ text: 'Hello!', isFinal: true });
+    ws.receive({ type: 'response.done', response: { id: 'r1', output: [] } });
+    ws.receive({ type: 'response.created', response: { id: 'r2' } });
+    ws.receive({ type: 'response.text.delta', response_id: 'r2', item_id: 'a2', delta: 'Hi' });
+    expect(session.getSnapshot().responseText).toMatchObject({ responseId: 'r2', text: 'Hi' });
+    ws.receive({ type: 'response.done', response: { id: 'r2', output: [] } });
+
+    // The same session turns into a voice session: graph, audio fields and microphone come back
+    void session.updateSession({ modalities: ['text', 'audio'] });
+    expect(ws.lastSent('session.update').session).toMatchObject({
+      modalities: ['text', 'audio'],
+      input_audio_format: 'pcm16',
+    });
+    expect(session.getSnapshot().isTextOnly).toBe(false);
+    expect(session.getSnapshot().audioContext).not.toBeNull();
+    await vi.waitFor(() => expect(session.getSnapshot().isMicActive).toBe(true));
+
+    // ...and back; later updates keep the switched modalities
+    void session.updateSession({ modalities: ['text'] });
+    expect(session.getSnapshot()).toMatchObject({ isTextOnly: true, isMicActive: false });
+    void session.updateSession({ instructions: 'Be brief.' });
+    expect(ws.lastSent('session.update').session.modalities).toEqual(['text']);
+    await session.startMic();
+    expect(session.getSnapshot().isMicActive).toBe(false);
+    session.disconnect();
+  });
+
+  it('follows each requested response through its handle, in gate order', async () => {
+    const { session, ws } = await connectReady({ ...baseOptions, playAudio: false });
+    const collect = async <T>(stream: AsyncIterable<T>) => {
+      const chunks: T[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      return chunks;
+    };
+    const responseCreates = () => ws.sent.filter((event) => event.type === 'response.create');
+
+    const first = session.createResponse();
+    await first.sent;
+    expect(responseCreates()).toHaveLength(1);
+    // Requested while the first runs: queued by the gate, not on the wire yet
+    const second = session.sendText('And tomorrow?')!;
+    let secondSent = false;
+    void second.sent.then(() => (secondSent = true));
+    const transcript = collect(first.transcriptDeltas());
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    await expect(first.created).resolves.toBe('r1');
+    ws.receive({ type: 'response.audio_transcript.delta', response_id: 'r1', delta: 'Sun' });
+    ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x01\x00') });
+    ws.receive({ type: 'response.audio_transcript.delta', response_id: 'r1', delta: 'ny' });
+    await Promise.resolve();
+    expect(secondSent).toBe(false);
+    ws.receive({
+      type: 'response.done',
+      response: { id: 'r1', status: 'completed', usage: { total_tokens: 42 }, output: [] },
+    });
+    await expect(first.done).resolves.toMatchObject({
+      status: 'completed',
+      usage: { total_tokens: 42 },
+    });
+    expect(await transcript).toEqual(['Sun', 'ny']);
+    // Started after the response ended: replayed from its start
+    expect((await collect(first.audioChunks())).map((chunk) => [...chunk])).toEqual([[1, 0]]);
+
+    // The queued request went out at response.done; cancelled before the service started it
+    await second.sent;
+    expect(responseCreates()).toHaveLength(2);
+    expect(second.id).toBeNull();
+    second.cancel();
+    ws.receive({ type: 'response.created', response: { id: 'r2' } });
+    expect(second.id).toBe('r2');
+    expect(ws.lastSent('response.cancel')).toBeDefined();
+    ws.receive({ type: 'response.done', response: { id: 'r2', status: 'cancelled', output: [] } });
+    await expect(second.done).resolves.toMatchObject({ status: 'cancelled' });
+
+    // A refused request rejects its handle, iterators included
+    const refused = session.createResponse();
+    ws.receive({
+      type: 'error',
+      error: { message: 'Too many tokens', event_id: responseCreates()[2].event_id },
+    });
+    await expect(refused.done).rejects.toThrow('Too many tokens');
+    await expect(collect(refused.textDeltas())).rejects.toThrow('Too many tokens');
+
+    const pending = session.createResponse();
+    session.disconnect();
+    await expect(pending.done).rejects.toThrow('Session ended');
+    expect(session.sendText('Hi', { triggerResponse: false })).toBeNull();
+  });
+
+  it('gives every queued request with its own options a response of its own', async () => {
+    const { session, ws } = await connectReady({ ...baseOptions, playAudio: false });
+    const responseCreates = () => ws.sent.filter((event) => event.type === 'response.create');
+
+    session.createResponse();
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    // Queued while r1 runs: plain requests collapse, custom ones keep their payloads
+    const plain = session.sendText('And tomorrow?')!;
+    const short = session.createResponse({ maxOutputTokens: 20, instructions: 'One word.' });
+    const again = session.createResponse();
+    const summary = session.createResponse({ modalities: ['text'], conversation: 'none' });
+    const other = session.createResponse({ temperature: 0.6 });
+
+    const flush = async (id: string) => {
+      ws.receive({ type: 'response.done', response: { id, status: 'completed', output: [] } });
+      await Promise.resolve();
+    };
+    await flush('r1');
+    // The first custom payload took over the plain turn: one response answers all three
+    expect(responseCreates()[1].response).toEqual({
+      max_output_tokens: 20,
+      instructions: 'One word.',
+    });
+    expect(responseCreates()).toHaveLength(2);
+    ws.receive({ type: 'response.created', response: { id: 'r2' } });
+    await expect(Promise.all([plain.created, short.created, again.created])).resolves.toEqual([
+      'r2',
+      'r2',
+      'r2',
+    ]);
+
+    await flush('r2');
+    expect(responseCreates()[2].response).toEqual({ modalities: ['text'], conversation: 'none' });
+    ws.receive({ type: 'response.created', response: { id: 'r3' } });
+    await expect(summary.created).resolves.toBe('r3');
+
+    await flush('r3');
+    expect(responseCreates()[3].response).toEqual({ temperature: 0.6 });
+    ws.receive({ type: 'response.created', response: { id: 'r4' } });
+    await expect(other.created).resolves.toBe('r4');
+    await flush('r4');
+    expect(responseCreates()).toHaveLength(4);
+    session.disconnect();
+  });
+
+  it('runs a generation beside the conversation, queued behind the spoken response', async () => {
+    const toolExecutor = vi.fn(() => ({ ok: true }));
+    const { session, ws } = await connectReady({ ...baseOptions, playAudio: false, toolExecutor });
+    const responseCreates = () => ws.sent.filter((event) => event.type === 'response.create');
+
+    session.sendText('What is the weather?');
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    const result = session.generate({
+      instructions: 'Classify the intent.',
+      input: 'What is the weather?',
+      schema: {
+        type: 'object',
+        properties: { intent: { type: 'string' } },
+        required: ['intent'],
+      } as const,
+    });
+    // Never sent into the running response
+    expect(responseCreates()).toHaveLength(1);
+    ws.receive({ type: 'response.done', response: { id: 'r1', status: 'completed', output: [] } });
+    await Promise.resolve();
+    const generation = responseCreates()[1];
+    expect(generation.response).toMatchObject({ conversation: 'none', modalities: ['text'] });
+    const metadata = generation.response.metadata;
+
+    // The service starts its own response first: the generation is not taken for it
+    ws.receive({ type: 'response.created', response: { id: 'r2' } });
+    ws.receive({ type: 'response.done', response: { id: 'r2', status: 'completed', output: [] } });
+    const conversation = session.getSnapshot().conversation;
+    ws.receive({ type: 'response.created', response: { id: 'g1', metadata } });
+    ws.receive({
+      type: 'response.output_item.added',
+      response_id: 'g1',
+      item: { id: 'gi1', type: 'message', role: 'assistant', status: 'in_progress' },
+    });
+    ws.receive({ type: 'response.text.delta', response_id: 'g1', item_id: 'gi1', delta: '{' });
+    ws.receive({
+      type: 'response.function_call_arguments.done',
+      response_id: 'g1',
+      item_id: 'gi2',
+      call_id: 'call_1',
+      name: 'get_weather',
+      arguments: '{}',
+    });
+    ws.receive({
+      type: 'response.done',
+      response: {
+        id: 'g1',
+        status: 'completed',
+        metadata,
+        output: [
+          {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'text', text: '{"intent":"weather"}' }],
+          },
+        ],
+      },
+    });
+    await expect(result).resolves.toMatchObject({ json: { intent: 'weather' } });
+    // Nothing of it reached the conversation, the response text or the tools
+    expect(session.getSnapshot().conversation).toBe(conversation);
+    expect(session.getSnapshot().responseText).toBeNull();
+    expect(toolExecutor).not.toHaveBeenCalled();
+
+    // The gate is free again
+    session.createResponse();
+    expect(responseCreates()).toHaveLength(3);
+    session.disconnect();
+    await expect(session.generate({ instructions: 'Summarize.', input: 'Hello' })).rejects.toThrow(
+      'Not connected'
+    );
+  });
+
+  it('sends only the generation after a tool batch whose executors return void', async () => {
+    let finish: () => void = () => undefined;
+    const toolExecutor = vi.fn(
+      () => new Promise<undefined>((resolve) => (finish = () => resolve(undefined)))
+    );
+    const { session, ws } = await connectReady({ ...baseOptions, playAudio: false, toolExecutor });
+    const responseCreates = () => ws.sent.filter((event) => event.type === 'response.create');
+
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({
+      type: 'response.function_call_arguments.done',
+      response_id: 'r1',
+      item_id: 'fc1',
+      call_id: 'call_1',
+      name: 'log_event',
+      arguments: '{}',
+    });
+    ws.receive({ type: 'response.done', response: { id: 'r1', status: 'completed', output: [] } });
+    const result = session.generate({ instructions: 'Summarize.', input: 'Hello' });
+    await vi.waitFor(() => expect(toolExecutor).toHaveBeenCalled());
+    // Held behind the tool batch
+    expect(responseCreates()).toHaveLength(0);
+
+    finish();
+    await vi.waitFor(() => expect(responseCreates()).toHaveLength(1));
+    const { metadata } = responseCreates()[0].response;
+    expect(responseCreates()[0].response).toMatchObject({ conversation: 'none' });
+    ws.receive({ type: 'response.created', response: { id: 'g1', metadata } });
+    ws.receive({
+      type: 'response.done',
+      response: { id: 'g1', status: 'completed', metadata, output: [] },
+    });
+    await expect(result).resolves.toBeTruthy();
+    // No spoken turn follows: nobody asked for one
+    expect(responseCreates()).toHaveLength(1);
+    session.disconnect();
+  });
+
+  it('records a session and replays it deterministically into a new one', async () => {
+    const recorder = new SessionRecorder();
+    const { session, ws } = await connectReady({ ...baseOptions, recorder });
+    ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    ws.receive({
+      type: 'response.output_item.added',
+      response_id: 'r1',
+      item: { id: 'a1', type: 'message', role: 'assistant', status: 'in_progress' },
+    });
+    ws.receive({
+      type: 'response.audio_transcript.delta',
+      response_id: 'r1',
+      item_id: 'a1',
+      delta: 'Hi',
+    });
+    ws.receive({ type: 'response.done', response: { id: 'r1', status: 'completed', output: [] } });
+    const recorded = session.getSnapshot().conversation;
+    session.disconnect();
+
+    const jsonl = recorder.toJSONL();
+    expect(jsonl).not.toContain('secret'); // the API key in the URL
+    vi.useFakeTimers();
+    try {
+      let replay: ReplayTransport | null = null;
+      const replayed = new VoiceLiveSession({
+        ...baseOptions,
+        createTransport: (callbacks) => {
+          replay = new ReplayTransport(callbacks, { recording: jsonl, speed: Infinity });
+          return replay;
+        },
+      });
+      await replayed.connect();
+      await vi.runAllTimersAsync();
+
+      expect(FakeWebSocket.instances).toHaveLength(1); // nothing went to the network
+      expect(replayed.getSnapshot().isReady).toBe(true);
+      expect(replayed.getSnapshot().conversation).toEqual(recorded);
+      expect(replay!.sent.map((event) => event.type)).toContain('session.update');
+      replayed.disconnect();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
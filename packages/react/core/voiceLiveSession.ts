@@ -0,0 +1,3213 @@
+/**
+ * VoiceLiveSession — the framework-agnostic Voice Live client.
+ *
+ * Owns everything a live conversation needs: the transport (WebSocket or WebRTC), session
+ * configuration, `response.create` serialization (`ResponseGate`), automatic tool batches,
+ * auto-reconnect, session rollover, avatar negotiation, the proactive greeting, microphone capture
+ * and assistant playback. `useVoiceLive` is a thin React binding over this class; other frameworks
+ * (or plain scripts) use it directly:
+ *
+ * @example
+ * ```ts
+ * const session = new VoiceLiveSession({
+ *   connection: { resourceName: 'my-resource', apiKey: 'xxx' },
+ *   session: { instructions: 'You are helpful' },
+ *   toolExecutor: async (name, args) => ({ ok: true }),
+ * });
+ * session.on('change', (state) => render(state));
+ * session.on('transcript', (role, text, isFinal) => console.log(role, text, isFinal));
+ * await session.connect();
+ * session.sendText('Hello!');
+ * // ...
+ * session.disconnect();
+ * ```
+ */
+
+import type {
+  AudioFormat,
+  ConnectionState,
+  ConversationItem,
+  McpApprovalDecision,
+  Modality,
+  SendRequestOptions,
+  ServerToolCallFailure,
+  PendingToolConfirmation,
+  GenerateOptions,
+  GenerateResult,
+  ResponseCreateOptions,
+  ResponseHandle,
+  ResponseText,
+  SessionState,
+  ToolExecutor,
+  ToolResult,
+  TransportSelectedEvent,
+  VoiceLiveEvent,
+  VoiceLiveSessionConfig,
+  VoiceLiveSessionEvents,
+  VoiceLiveSessionOptions,
+  VoiceLiveSessionSnapshot,
+} from '../types/voiceLive';
+import type {
+  ConversationItemCreatedEvent,
+  ConversationItemRetrievedEvent,
+  VoiceLiveClientEvent,
+  VoiceLiveServerEvent,
+  WireConversationItem,
+  WireConversationRequestItem,
+  WireResponse,
+} from '../types/events';
+import {
+  buildAgentSessionConfig,
+  buildSessionConfig,
+  convertResponseOptions,
+  isTextOnlySession,
+  validateConfig,
+} from '../utils/sessionBuilder';
+import { buildGreetingEvents } from '../utils/greeting';
+import { GENERATION_METADATA_KEY, buildGenerateEvent, readGenerateResult } from '../utils/generate';
+import type { InferSchema, JsonSchema } from '../utils/jsonSchema';
+import { buildVoiceLiveUrl, redactUrl, validateTransport } from '../utils/connectionUrl';
+import { DEFAULT_CONNECT_TIMEOUT_MS, DEFAULT_MIN_TURN_DURATION_MS } from '../utils/constants';
+import { createLogger, type Logger } from '../utils/logger';
+import { arrayBufferToBase64, base64ToBytes } from '../utils/audioHelpers';
+import { WebSocketTransport } from './transports/websocketTransport';
+import { WebRtcTransport } from './transports/webrtcTransport';
+import type {
+  TransportCallbacks,
+  TransportCloseInfo,
+  TransportKind,
+  VoiceLiveTransport,
+} from './transports/types';
+import { OutputAudioGraph, PcmPlayer } from './audioOutput';
+import { AvatarConnection } from './avatarConnection';
+import { WebRtcMicrophone } from './microphone';
+import { PcmCapture, type PcmCaptureOptions } from './audioCapture';
+import {
+  computeBackoffDelay,
+  isAuthFailureClose,
+  isReconnectableClose,
+  resolveReconnectOptions,
+} from './reconnect';
+import {
+  RESTORE_SUMMARY_INSTRUCTIONS,
+  resolveRestoreConversationOptions,
+  selectRestoredItems,
+  toRequestItems,
+} from './conversationRestore';
+import { resolveSessionRolloverOptions, rolloverDelay } from './sessionRollover';
+import { decodeTokenExpiry, isTokenExpiring, tokenRefreshDelay } from './tokenRefresh';
+import {
+  isTransportFallbackClose,
+  readRememberedTransport,
+  rememberTransport,
+  selectAutoTransport,
+} from './transportFallback';
+import { BoundedMap } from './boundedMap';
+import { PendingRequests, ackMatcherFor, type AckMatcher } from './pendingRequests';
+import { Scope } from './lifecycle';
+import { ResponseGate, ResponseRequestQueue, type ResponseRequest } from './responseGate';
+import { TypedEmitter } from './emitter';
+import { ConversationStore } from './conversation';
+import { McpApprovals } from './mcpApprovals';
+import { ResponseHandles, responseIdOf } from './responseHandle';
+
+/** High-frequency events that are not logged even at debug level */
+const VERBOSE_SERVER_EVENTS = new Set<string>([
+  'response.audio.delta',
+  'response.audio_transcript.delta',
+  'response.text.delta',
+  'conversation.item.input_audio_transcription.delta',
+  'response.function_call_arguments.delta',
+  'response.mcp_call_arguments.delta',
+  'response.foundry_agent_call_arguments.delta',
+  'response.animation_viseme.delta',
+  'response.animation_blendshapes.delta',
+  'response.audio_timestamp.delta',
+]);
+
+const VERBOSE_CLIENT_EVENTS = new Set<string>(['input_audio_buffer.append']);
+
+/**
+ * The transport and derived state of one service session. Async continuations compare identity
+ * (`this.live === session`) and readiness, so a late result can never reach a newer session.
+ */
+interface LiveSession {
+  scope: Scope;
+  transport: VoiceLiveTransport;
+  /** True once `session.updated` (or avatar/WebRTC readiness) configured this session */
+  ready: boolean;
+  /** True while a reconnect replays the conversation into it (not ready until done) */
+  restoring?: boolean;
+}
+
+/**
+ * A rollover to the next service session (`sessionRollover`): due, then the next session is
+ * opened (`preparing`) and configured (`ready`), then the conversation moves over (`switching`).
+ * The next session is not `live` until then, and only its setup events are handled.
+ */
+interface Rollover {
+  phase: 'due' | 'preparing' | 'ready' | 'switching';
+  standby: LiveSession | null;
+  /** Expiry of the next session (epoch ms), from its `session.created` / `session.updated` */
+  expiresAt: number | null;
+  /** WebRTC: the next session's assistant audio, exposed once it takes over */
+  remoteStream: MediaStream | null;
+}
+
+/** Synthetic close code used when a reconnect attempt fails before the transport exists */
+const RECONNECT_SETUP_FAILED_CLOSE_CODE = 4001;
+
+/** Synthetic close code used when the control channel never opened in time */
+const CONNECT_TIMEOUT_CLOSE_CODE = 4002;
+
+/**
+ * How long a client VAD interruption waits for the service's `speech_started` before it is taken
+ * for a false alarm (a cough, a door) and the response plays on
+ */
+const LOCAL_INTERRUPT_CONFIRM_MS = 1500;
+
+/** How often a due session rollover looks again whether the session has become quiet */
+const ROLLOVER_RECHECK_MS = 500;
+
+/**
+ * How long to wait for a tool call that `response.done` declared but whose event has not arrived
+ * (WebRTC delivers them on a separate channel), before answering with what did arrive.
+ */
+const LATE_TOOL_CALL_TIMEOUT_MS = 5000;
+
+/**
+ * How long a speculative response reservation (server VAD is about to create a response) may wait
+ * for `response.created` before it is released, so a service that decides not to answer cannot
+ * block later turns.
+ */
+const SPECULATIVE_RESPONSE_TIMEOUT_MS = 5000;
+
+/**
+ * `code` on warnings the SDK raises itself (session options the chosen mode/model ignores), so a
+ * consumer can tell them apart from the service's `warning` events.
+ */
+export const CLIENT_CONFIG_WARNING_CODE = 'client_config';
+
+/**
+ * Whether a batch still owes `function_call_output`s: executors are running, or the response
+ * declared calls that have not arrived yet. A turn must not be answered while this is true.
+ */
+function batchOwesOutputs(batch: ToolBatch): boolean {
+  return batch.pending > 0 || batch.seenCalls < batch.expectedCalls;
+}
+
+/**
+ * What is known about a finished response, kept for a while after it ended.
+ *
+ * Over WebRTC a response's tool calls can arrive *after* its `response.done` (independent
+ * channels), so a batch created later needs both facts: how many calls that response declared,
+ * and whether it has already been answered — a call arriving after the answer still needs its
+ * `function_call_output`, but must not trigger a second answer for the same turn.
+ */
+interface ResponseCompletion {
+  /** Tool calls the response declared that a later batch still has to wait for */
+  outstandingToolCalls: number;
+  /** A follow-up `response.create` was already sent for this response */
+  answered: boolean;
+}
+
+/**
+ * Automatic tool executors of one response. The follow-up `response.create` may only be sent
+ * once the response has emitted **all** its tool calls (`response.done`) *and* every executor
+ * has settled — otherwise a fast first result would answer without the pending ones.
+ */
+interface ToolBatch {
+  /** Executors still running */
+  pending: number;
+  /** At least one `function_call_output` was sent, so a follow-up response is warranted */
+  sentOutput: boolean;
+  /** `response.done` was observed, i.e. no further tool calls can arrive for this response */
+  responseDone: boolean;
+  /**
+   * A user turn was queued while this batch was running and handed over to it: the follow-up must
+   * happen even if every executor returned void, otherwise that turn would never be answered.
+   * Requests with a payload of their own (out-of-band, per-response options) are not handed
+   * over: they wait in the queue and are sent once the batch finished.
+   */
+  followUpOwed: boolean;
+  /** Tool calls seen for this response so far */
+  seenCalls: number;
+  /**
+   * Calls whose `function_call_output` has not been sent yet. An executor that returns a value
+   * clears its own entry; a consumer sending the output themselves (`sendToolResult`) clears it
+   * too. An executor returning `undefined` means "no output for this call" — see AGENTS.md.
+   */
+  pendingCallIds: Set<string>;
+  /**
+   * The response this batch belongs to was already answered (a very late tool call). Its output
+   * is still sent — the service waits for one per `call_id` — but asking for a second answer
+   * would make the assistant speak twice for the same turn.
+   */
+  followUpSuppressed?: boolean;
+  /**
+   * Guard for declared calls that never arrive: without it a dropped control-channel event would
+   * hold every later turn forever, which is worse than answering slightly early.
+   */
+  lateCallTimer?: ReturnType<typeof setTimeout>;
+  /**
+   * Tool calls the response actually contains, taken from `response.done`'s output list. Over
+   * WebRTC the tool events can arrive *after* `response.done` and one at a time, so arrival order
+   * cannot tell us whether more are coming — the completed response can.
+   */
+  expectedCalls: number;
+  /**
+   * Executors that have not settled, by call id. A call leaves this map exactly once — its
+   * executor settled, it timed out, or it was aborted — so whichever comes first decides its
+   * output, and anything the executor produces afterwards is discarded.
+   */
+  running: Map<string, RunningToolCall>;
+}
+
+/** Item types of the tools the service runs itself */
+type ServerToolCallType = ServerToolCallFailure['type'];
+
+const SERVER_TOOL_CALL_TYPES: ReadonlySet<string> = new Set<ServerToolCallType>([
+  'mcp_call',
+  'foundry_agent_call',
+]);
+
+/**
+ * Server-side tool calls (MCP, Foundry agent) of one response. The service runs them within the
+ * response, but does not always go on to present the result: a response that ends on the call
+ * rather than on a message leaves the user waiting, so the session asks for the answer — once,
+ * after the response is done and every call settled.
+ */
+interface ServerToolCalls {
+  /** Every call item of the response, for the failure report */
+  calls: Map<string, { type: ServerToolCallType; name?: string; serverLabel?: string }>;
+  /** Calls that have neither completed nor failed */
+  running: Set<string>;
+  responseDone: boolean;
+  /** The response ended on a call: nobody presented its result */
+  needsAnswer: boolean;
+}
+
+/** An automatic tool executor that has not settled yet */
+interface RunningToolCall {
+  name: string;
+  /** Aborts the executor's `signal` */
+  controller: AbortController;
+  /** `toolTimeoutMs` watchdog */
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** A tool call waiting for `confirmToolCall()` / `rejectToolCall()`, with the batch it counts in */
+interface HeldToolCall {
+  key: string;
+  batch: ToolBatch;
+  session: LiveSession | null;
+  name: string;
+  args: string;
+  callId: string;
+}
+
+/** `signal.reason` for an aborted tool call, as the platform names it (`AbortSignal.timeout`) */
+function toolAbortReason(message: string, name: 'AbortError' | 'TimeoutError'): DOMException {
+  return new DOMException(message, name);
+}
+
+/** The state fields behind the snapshot (the mic fields are derived, see `getSnapshot`) */
+interface SessionFields {
+  connectionState: ConnectionState;
+  sessionState: SessionState;
+  isReady: boolean;
+  error: string | null;
+  videoStream: MediaStream | null;
+  audioStream: MediaStream | null;
+  sessionExpiresAt: number | null;
+  tokenExpiresAt: number | null;
+  reconnectAttempt: number;
+  rtcMicActive: boolean;
+  rtcMuted: boolean;
+  pendingConfirmations: readonly PendingToolConfirmation[];
+  turnActive: boolean;
+  responseText: ResponseText | null;
+}
+
+/** Option → callback name, so every notification reaches both the option and the emitter */
+const CALLBACKS = {
+  event: 'onEvent',
+  transcript: 'onTranscript',
+  warning: 'onWarning',
+  mcpApprovalRequest: 'onMcpApprovalRequest',
+  mcpApprovalDecision: 'onMcpApprovalDecision',
+  serverToolCallFailed: 'onServerToolCallFailed',
+  sessionUpdated: 'onSessionUpdated',
+  reconnecting: 'onReconnecting',
+  reconnected: 'onReconnected',
+  sessionRollover: 'onSessionRollover',
+  authError: 'onAuthError',
+  transportSelected: 'onTransportSelected',
+} as const satisfies Partial<Record<keyof VoiceLiveSessionEvents, keyof VoiceLiveSessionOptions>>;
+
+type NotifiedEvent = keyof typeof CALLBACKS;
+
+/**
+ * Framework-agnostic Voice Live client. See the module comment for usage; the option and
+ * method semantics are documented on `UseVoiceLiveConfig` / `UseVoiceLiveReturn`.
+ */
+export class VoiceLiveSession {
+  private config: VoiceLiveSessionOptions;
+  private readonly log: Logger;
+  private readonly emitter: TypedEmitter<VoiceLiveSessionEvents>;
+  private readonly fields: SessionFields = {
+    connectionState: 'disconnected',
+    sessionState: 'idle',
+    isReady: false,
+    error: null,
+    videoStream: null,
+    audioStream: null,
+    sessionExpiresAt: null,
+    tokenExpiresAt: null,
+    reconnectAttempt: 0,
+    rtcMicActive: false,
+    rtcMuted: false,
+    pendingConfirmations: [],
+    turnActive: false,
+    responseText: null,
+  };
+  private lastSnapshot: VoiceLiveSessionSnapshot | null = null;
+  /** The inputs of the last auto-start decision (see `maybeAutoStartMic`) */
+  private autoStartKey = '';
+
+  // ===== Core objects =====
+  private transportKind: TransportKind;
+  private graph: OutputAudioGraph | null = null;
+  private player: PcmPlayer | null = null;
+  private avatar: AvatarConnection | null = null;
+  private readonly mic = new WebRtcMicrophone();
+  private readonly capture: PcmCapture;
+
+  /**
+   * The conversation history (also in the snapshot as `conversation`). Subscribe to it directly
+   * when only the history matters — it changes far more often than the rest of the state.
+   */
+  readonly conversation = new ConversationStore();
+  private readonly mcpApprovals = new McpApprovals((decision) =>
+    this.sendMcpApprovalDecision(decision)
+  );
+
+  // ===== Protocol state =====
+  private isAgentMode = false;
+  /** Effective `turn_detection.create_response` as last reported by the service (default: on) */
+  private autoCreateResponse = true;
+  /** When the open push-to-talk turn began (`Date.now()`) */
+  private turnStartedAt = 0;
+  private currentResponseId: string | null = null;
+  /** A response whose audio is no longer played: client VAD heard the user interrupt it */
+  private locallyInterruptedResponseId: string | null = null;
+  /** Until the service confirms that interruption: its deadline, and the audio held meanwhile */
+  private localInterruptTimer: ReturnType<typeof setTimeout> | null = null;
+  private heldAudio: string[] = [];
+  /** Modalities switched to with `updateSession()`, over the configured ones until `connect()` */
+  private modalities: Modality[] | null = null;
+  /** Wire audio formats as the service last confirmed them (`session.updated`), per connection */
+  private confirmedFormats: { input?: AudioFormat; output?: AudioFormat } = {};
+  /** Serializes `response.create` against the service (see `responseGate.ts`) */
+  private readonly gate = new ResponseGate();
+  /** Handles of requested responses, matched to them in gate order (see `responseHandle.ts`) */
+  private readonly responseHandles = new ResponseHandles((responseId) => {
+    // Only the running response can be cancelled; a finished one has nothing left to stop
+    if (responseId === this.currentResponseId) this.cancelResponse();
+  });
+  private assistantTranscript = '';
+  private userTranscript = '';
+  private greetingSent = false;
+  /**
+   * In-flight automatic tool executors, keyed by response id and scoped to the session record, so
+   * a batch can never be adopted by a later session (executors are user code and may settle at
+   * any time).
+   */
+  private readonly toolBatches = new Map<string, ToolBatch>();
+  /**
+   * Response ids whose `response.done` has been seen. Over WebRTC the lifecycle events (data
+   * channel) and function-call events (control channel) are independent, so `response.done` can
+   * arrive *before* a tool call of that response — a batch created afterwards would otherwise wait
+   * forever for a completion signal that already happened.
+   */
+  private readonly completedResponses = new BoundedMap<string, ResponseCompletion>(64);
+  /** MCP / Foundry agent calls by response id, until that response's follow-up is decided */
+  private readonly serverToolCalls = new BoundedMap<string, ServerToolCalls>(64);
+  /** Tool calls awaiting the user's confirmation, by call id (mirrored in `pendingConfirmations`) */
+  private readonly heldToolCalls = new Map<string, HeldToolCall>();
+  /** Monotonic id for client events we need to correlate errors with */
+  private clientEventSeq = 0;
+  /** Client events waiting for their acknowledgement (see `sendRequest`) */
+  private readonly requests = new PendingRequests();
+  /** Requested responses not on the wire yet, so a custom request survives being deferred */
+  private readonly responseRequests = new ResponseRequestQueue();
+  /** Items replayed into a reconnected session: already in the history, so their echo is not */
+  private readonly restoredItemIds = new Set<string>();
+  /** Ids of the running responses that are generations (`generate()`) */
+  private readonly generationResponses = new Set<string>();
+  /** Monotonic id tagging each generation's response */
+  private generationSeq = 0;
+  /** Server VAD heard the user start speaking and not stop yet */
+  private userSpeaking = false;
+  /** WebRTC: the service is still streaming assistant audio (`output_audio_buffer.*`) */
+  private remoteAudioPlaying = false;
+
+  // ===== Lifetimes (see `lifecycle.ts`) =====
+  /**
+   * The `connect()` → `disconnect()` lifetime. Survives reconnect attempts, so work the user owns
+   * across a hiccup (microphone acquisition, the audio graph) is scoped to it.
+   */
+  private connectionScope: Scope | null = null;
+  /**
+   * The live service session: one control channel and one server-side conversation. Replaced on
+   * every (re)connect attempt, so anything naming conversation state (response/tool-call ids,
+   * readiness) is scoped to it.
+   */
+  private live: LiveSession | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private speculativeTimer: ReturnType<typeof setTimeout> | null = null;
+  private rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+  private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The next token must not come from the provider's cache: the service rejected the last one */
+  private forceTokenRefresh = false;
+  /** The token fetched ahead of the last one's expiry, for the next connection attempt */
+  private refreshedToken: string | null = null;
+  /** The one retry a rejected credential gets was used, and no session became ready since */
+  private authRetried = false;
+  /** The rollover under way, from the moment it is due */
+  private rollover: Rollover | null = null;
+  /** What `transport: 'auto'` chose for this connection, and what was last reported of it */
+  private autoTransport: TransportSelectedEvent | null = null;
+  private reportedTransport: TransportSelectedEvent | null = null;
+
+  constructor(config: VoiceLiveSessionOptions) {
+    this.config = config;
+    this.transportKind = this.plannedTransport();
+    this.log = createLogger(() => this.config.logLevel ?? 'warn');
+    this.emitter = new TypedEmitter((event, err) =>
+      this.log.error(`${event} listener threw:`, err)
+    );
+    this.capture = new PcmCapture({ onStateChange: () => this.publish() });
+    this.conversation.subscribe(() => this.publish());
+  }
+
+  /**
+   * Replace the options. The latest config (session, connection, callbacks) is read at the moment
+   * it is needed, so passing new objects or closures never restarts anything; connection changes
+   * apply to the next (re)connect attempt.
+   */
+  setConfig(config: VoiceLiveSessionOptions): void {
+    this.config = config;
+  }
+
+  /** Subscribe to a session event; returns the unsubscribe function */
+  on<K extends keyof VoiceLiveSessionEvents>(
+    event: K,
+    listener: (...args: VoiceLiveSessionEvents[K]) => void
+  ): () => void {
+    return this.emitter.on(event, listener);
+  }
+
+  /** Remove a listener added with `on()` */
+  off<K extends keyof VoiceLiveSessionEvents>(
+    event: K,
+    listener: (...args: VoiceLiveSessionEvents[K]) => void
+  ): void {
+    this.emitter.off(event, listener);
+  }
+
+  // ===== Observable state =====
+
+  /**
+   * The transport of the *live* session. Changing `connection.transport` while connected only
+   * takes effect on the next attempt, so the microphone controls keep operating on the
+   * microphone that is actually running until then.
+   */
+  get transport(): TransportKind {
+    return this.live?.transport.kind ?? this.plannedTransport();
+  }
+
+  /**
+   * The transport the next attempt is expected to use, without choosing one: `'auto'` reports
+   * its choice once made, and WebRTC (where supported) until then — what was remembered is only
+   * read when connecting or starting the microphone, not to render a snapshot
+   */
+  private plannedTransport(): TransportKind {
+    const { connection, session } = this.config;
+    if (connection.transport !== 'auto') return connection.transport ?? 'websocket';
+    return (
+      this.autoTransport?.transport ?? selectAutoTransport(connection, session, null).transport
+    );
+  }
+
+  /**
+   * The transport of the next attempt: `connection.transport`, or for `'auto'` the one chosen
+   * for this connection (remembered, or WebRTC first, until it falls back)
+   */
+  private selectTransport(): TransportKind {
+    const { connection, session } = this.config;
+    if (connection.transport !== 'auto') return connection.transport ?? 'websocket';
+    this.autoTransport ??= selectAutoTransport(connection, session, readRememberedTransport());
+    return this.autoTransport.transport;
+  }
+
+  /** Current state. A new object whenever something changed (safe for identity comparisons). */
+  getSnapshot(): VoiceLiveSessionSnapshot {
+    const f = this.fields;
+    const webrtc = this.transport === 'webrtc';
+    const next: VoiceLiveSessionSnapshot = {
+      connectionState: f.connectionState,
+      reconnectAttempt: f.reconnectAttempt,
+      sessionState: f.sessionState,
+      transport: this.transport,
+      videoStream: f.videoStream,
+      audioStream: f.audioStream,
+      sessionExpiresAt: f.sessionExpiresAt,
+      tokenExpiresAt: f.tokenExpiresAt,
+      audioContext: this.graph?.context ?? null,
+      audioAnalyser: this.graph?.analyser ?? null,
+      isReady: f.isReady,
+      isMicActive: webrtc ? f.rtcMicActive : this.capture.isCapturing,
+      isMuted: webrtc ? f.rtcMuted : this.capture.isMuted,
+      error: f.error,
+      conversation: this.conversation.getSnapshot(),
+      pendingConfirmations: f.pendingConfirmations,
+      isTurnActive: f.turnActive,
+      isTextOnly: this.isTextOnly,
+      responseText: f.responseText,
+    };
+    const last = this.lastSnapshot;
+    if (last && (Object.keys(next) as Array<keyof typeof next>).every((k) => last[k] === next[k])) {
+      return last;
+    }
+    this.lastSnapshot = next;
+    return next;
+  }
+
+  /** Apply state changes and notify `change` listeners if the snapshot differs */
+  private set(changes: Partial<SessionFields>): void {
+    Object.assign(this.fields, changes);
+    if (changes.error) this.emitter.emit('error', changes.error);
+    this.publish();
+  }
+
+  private publish(): void {
+    const before = this.lastSnapshot;
+    const snapshot = this.getSnapshot();
+    if (snapshot !== before) this.emitter.emit('change', snapshot);
+    this.maybeAutoStartMic(snapshot);
+  }
+
+  /**
+   * Start the microphone once the session is ready (`autoStartMic`, default on). Re-evaluated only
+   * when one of its inputs changes, so a failed start is not retried in a loop — but a microphone
+   * stopped while the session stays ready (e.g. on a transport switch) is started again.
+   */
+  private maybeAutoStartMic(snapshot: VoiceLiveSessionSnapshot): void {
+    const autoStartMic = this.config.autoStartMic ?? true;
+    const key = `${snapshot.isReady}|${autoStartMic}|${snapshot.isMicActive}|${snapshot.transport}|${snapshot.isTextOnly}`;
+    if (key === this.autoStartKey) return;
+    this.autoStartKey = key;
+    if (snapshot.isReady && autoStartMic && !snapshot.isMicActive && !snapshot.isTextOnly) {
+      this.log.debug('Starting microphone...');
+      this.startMic().catch((err) => {
+        this.log.error('Microphone error:', err);
+      });
+    }
+  }
+
+  /**
+   * Invoke a consumer callback (the option and every emitter listener) without letting an
+   * exception in it break the session: a throwing `onEvent`/`onTranscript` must not abort event
+   * handling, and a throwing `onReconnecting` must not leave the reconnect state machine
+   * half-updated.
+   *
+   * @returns false when the consumer ended or replaced the session from inside the callback
+   */
+  private notify<K extends NotifiedEvent>(event: K, ...args: VoiceLiveSessionEvents[K]): boolean {
+    const sessionBefore = this.live;
+    const name = CALLBACKS[event];
+    const fn = this.config[name] as ((...a: VoiceLiveSessionEvents[K]) => void) | undefined;
+    if (fn) {
+      try {
+        fn(...args);
+      } catch (err) {
+        this.log.error(`${name} callback threw:`, err);
+      }
+    }
+    this.emitter.emit(event, ...args);
+    // A consumer may call disconnect()/connect() from its callback: the caller must not keep
+    // applying an event to a session that no longer exists
+    const stillCurrent = this.live === sessionBefore && sessionBefore?.scope.isActive !== false;
+    if (!stillCurrent) {
+      this.log.debug(`Session changed inside ${name} — stopping work for this event`);
+    }
+    return stillCurrent;
+  }
+
+  /** Whether anyone listens for `event`, through the option or the emitter */
+  private hasListener(event: NotifiedEvent): boolean {
+    return !!this.config[CALLBACKS[event]] || this.emitter.has(event);
+  }
+
+  // ===== Timers =====
+
+  private clearSpeculativeTimer(): void {
+    if (this.speculativeTimer) {
+      clearTimeout(this.speculativeTimer);
+      this.speculativeTimer = null;
+    }
+  }
+
+  /**
+   * Free a speculative reservation the service never acknowledged, so a conversation whose
+   * automatic response never arrives is not blocked. Armed wherever a reservation is taken.
+   */
+  private armSpeculativeRelease(): void {
+    if (!this.gate.isSpeculative) return;
+    this.clearSpeculativeTimer();
+    this.speculativeTimer = setTimeout(() => {
+      this.speculativeTimer = null;
+      if (this.gate.releaseSpeculative()) {
+        this.sendGatedResponseCreate();
+      } else if (this.gate.isSpeculative) {
+        // The slot passed to another announced response — it needs its own watchdog
+        this.armSpeculativeRelease();
+      }
+    }, SPECULATIVE_RESPONSE_TIMEOUT_MS);
+  }
+
+  private clearRolloverTimer(): void {
+    if (this.rolloverTimer) {
+      clearTimeout(this.rolloverTimer);
+      this.rolloverTimer = null;
+    }
+  }
+
+  private clearTokenRefreshTimer(): void {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+  }
+
+  private clearConnectTimer(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  // ===== Sending =====
+
+  /**
+   * Feed microphone audio (PCM16 at `audioSampleRate`, or G.711 bytes for a G.711
+   * `inputAudioFormat`) to the session (WebSocket transport).
+   * The built-in capture calls this itself; custom capture pipelines can call it directly.
+   */
+  appendInputAudio(audioData: ArrayBuffer): void {
+    // Only stream while the session is configured: during a reconnect (and between socket-open and
+    // session.updated) the audio would either be dropped with a warning per 100 ms chunk, or worse,
+    // be processed by a session that has not received our session.update yet.
+    if (!this.live?.ready) return;
+    // Push-to-talk: the microphone only reaches the service during a turn
+    if (this.isPushToTalk && !this.fields.turnActive) return;
+    this.sendEvent({
+      type: 'input_audio_buffer.append',
+      audio: arrayBufferToBase64(audioData),
+    });
+  }
+
+  /**
+   * Build the wire session object for the current mode (standard vs Foundry agent)
+   */
+  private buildSession(sessionConfig?: VoiceLiveSessionConfig): Record<string, unknown> {
+    // Push-to-talk turns are delimited by the user: server VAD would commit on its own
+    if (this.isPushToTalk) sessionConfig = { ...sessionConfig, turnDetection: null };
+    if (this.modalities) sessionConfig = { ...sessionConfig, modalities: this.modalities };
+    return this.isAgentMode
+      ? buildAgentSessionConfig(sessionConfig)
+      : buildSessionConfig(sessionConfig);
+  }
+
+  /** Put an event on the wire as-is. Internal: bypasses the response gate by design. */
+  private sendRaw(event: VoiceLiveClientEvent | VoiceLiveEvent): boolean {
+    const active = this.live?.transport;
+    if (!active || active.state !== 'open') {
+      this.log.warn('Not connected, cannot send event:', event.type);
+      return false;
+    }
+    if (!VERBOSE_CLIENT_EVENTS.has(event.type)) {
+      this.log.debug('Sending:', event.type);
+    }
+    // Every event carries an id, so any `error` the service reports can be traced back to it
+    const stamped = event.event_id ? event : { ...event, event_id: this.nextEventId() };
+    return active.send(JSON.stringify(stamped));
+  }
+
+  /**
+   * Send an event to the Voice Live API (WebSocket / WebRTC control channel). A raw
+   * `response.create` is routed through the response gate.
+   */
+  sendEvent(event: VoiceLiveClientEvent | VoiceLiveEvent): boolean {
+    if (event.type === 'response.create') {
+      // A raw `response.create` would bypass the serialization every other turn goes through and
+      // could overlap a running response, which the service rejects. The consumer's payload is
+      // kept — only the timing is taken over, so it may be sent after the current response.
+      this.log.debug('Routing a raw response.create through the response gate');
+      this.requestResponse({ event: event as VoiceLiveClientEvent });
+      return true;
+    }
+    return this.sendRaw(event);
+  }
+
+  /**
+   * Send a client event and wait for the server's answer: resolves with the acknowledging event
+   * (or what `options.until` extracts from it), rejects on an `error` naming this event's id, on
+   * a timeout, or when the session ends first.
+   */
+  sendRequest<T = VoiceLiveServerEvent>(
+    event: VoiceLiveClientEvent,
+    options: SendRequestOptions<T> = {}
+  ): Promise<T> {
+    if (event.type === 'response.create') {
+      return Promise.reject(
+        new Error('response.create is serialized by the response gate; use createResponse()')
+      );
+    }
+    if (event.type === 'conversation.item.create' && !event.item.id) {
+      // `conversation.item.created` is also sent for items the service creates itself; only the
+      // item id tells our acknowledgement apart
+      event = { ...event, item: { ...event.item, id: this.nextItemId() } };
+    }
+    const match = (options.until ?? ackMatcherFor(event)) as AckMatcher<T> | undefined;
+    if (!match) {
+      return Promise.reject(
+        new Error(`No acknowledgement is known for ${event.type}; pass options.until`)
+      );
+    }
+    const eventId = (event.event_id as string | undefined) ?? this.nextEventId();
+    const result = this.requests.track(eventId, event.type, match, options.timeoutMs);
+    if (!this.sendRaw({ ...event, event_id: eventId })) {
+      this.requests.fail(eventId, new Error(`Not connected, cannot send ${event.type}`));
+    }
+    return result;
+  }
+
+  /** Id for the next client event, so the service can name it in an `error` */
+  private nextEventId(): string {
+    return `evt_${++this.clientEventSeq}`;
+  }
+
+  /** Client-assigned item id (the service accepts its own ids of up to 32 characters) */
+  private nextItemId(): string {
+    return `item_${Date.now().toString(36)}_${++this.clientEventSeq}`;
+  }
+
+  // ===== Tool batches & response serialization =====
+
+  /**
+   * Complete a tool batch once the response emitted all its calls and every executor settled.
+   */
+  private finishToolBatchIfReady(key: string, batch: ToolBatch, session: LiveSession): void {
+    // Nothing a batch from a dead or superseded session does may touch live state — its own
+    // teardown already cleared the map and its timers
+    if (this.live !== session || !session.scope.isActive) return;
+    // Not finished until: every executor settled, the response is known to be complete, and
+    // every tool call that response contains has actually arrived
+    if (!batch.responseDone || batchOwesOutputs(batch)) return;
+    if (batch.lateCallTimer) {
+      clearTimeout(batch.lateCallTimer);
+      batch.lateCallTimer = undefined;
+    }
+    // A stale executor must not evict the live session's batch stored under the same
+    // (service-assigned, per-session) response id — delete only our own entry
+    if (this.toolBatches.get(key) === batch) {
+      this.toolBatches.delete(key);
+    }
+    // A call arriving after this point must not resurrect a batch that waits for calls this one
+    // already accounted for (that would hold every later turn forever), but whether it may ask
+    // for an answer depends on whether *this* batch asked for one: `answered` records what
+    // actually happened, not merely that the batch finished.
+    const answerRequested =
+      (batch.sentOutput || batch.followUpOwed) &&
+      !(batch.followUpSuppressed && !batch.followUpOwed);
+    this.completedResponses.set(key, {
+      outstandingToolCalls: 0,
+      // Sticky: a suppressed late batch asks for nothing *because* the response was already
+      // answered — recording that as `answered: false` would let the next late call ask again
+      answered: answerRequested || this.completedResponses.get(key)?.answered === true,
+    });
+    if (batch.followUpSuppressed && !batch.followUpOwed) {
+      // This response was already answered: the late call's output is on the wire, and a second
+      // response.create would answer the same turn twice. A user turn handed to this batch
+      // (`followUpOwed`) still has to be answered, so it takes precedence.
+      this.log.debug(
+        `Response ${key} was already answered — not asking again for a late tool call`
+      );
+      this.flushResponseRequests();
+      return;
+    }
+    if (batch.sentOutput || batch.followUpOwed) {
+      // Every output of this response is on the wire — ask for the answer. This goes through
+      // the same deferral as sendText(), so a user turn and a tool batch completing in the
+      // same tick produce ONE response.create (the service rejects overlapping responses).
+      this.requestResponse();
+    } else {
+      this.flushResponseRequests();
+    }
+  }
+
+  /** Send the requests that waited for tool batches, without asking for an answer of its own */
+  private flushResponseRequests(): void {
+    if (this.responseRequests.size === 0 || this.pendingToolBatch()) return;
+    if (this.gate.request()) this.sendGatedResponseCreate();
+  }
+
+  /**
+   * The single place a `response.create` reaches the wire. Everything else — user turns, the
+   * greeting, tool follow-ups, queued flushes — goes through here, so the gate can never be
+   * bypassed and every request carries an id the service can name in an `error`.
+   */
+  private sendGatedResponseCreate(): void {
+    // A queued request may carry a custom payload (a consumer's raw `response.create`, the
+    // greeting, per-response options): flushing it as a bare request would silently drop what
+    // they asked for
+    const request = this.responseRequests.shift() ?? { event: null, eventId: null, failure: null };
+    const event = request.event ?? { type: 'response.create' };
+    const eventId = this.nextEventId();
+    this.gate.trackRequest(eventId);
+    // `sendRaw`, not `sendEvent`: this IS the gated path, and going through the public wrapper
+    // would route it straight back into the gate
+    if (!this.sendRaw({ ...event, event_id: eventId })) {
+      // Nothing reached the service (disconnected, or mid-reconnect): the gate must not stay busy
+      this.gate.onRequestNotSent();
+      this.armSpeculativeRelease();
+      request.failure = new Error('Not connected: the response was not requested');
+      this.responseHandles.onNotSent(request);
+      return;
+    }
+    request.eventId = eventId;
+    this.responseHandles.onSent(request);
+    // Requests that could not share this response go next, at its response.done
+    if (this.responseRequests.size > 0) this.gate.request();
+  }
+
+  /**
+   * Watchdog for a tool batch that depends on an event which may never arrive: a declared tool
+   * call still in flight, or the `response.done` that says no more are coming. Without it a
+   * dropped control-channel event would leave the batch owing a follow-up forever — and a user
+   * turn handed to that batch would never be answered.
+   *
+   * The batch is only *unblocked*, never answered early: `finishToolBatchIfReady` still waits for
+   * every executor, and the follow-up still goes through the response gate, so a `response.done`
+   * that merely arrives late results in a queued turn rather than an overlapping response.
+   */
+  private armToolBatchTimeout(key: string, batch: ToolBatch, session: LiveSession): void {
+    if (batch.lateCallTimer) clearTimeout(batch.lateCallTimer);
+    batch.lateCallTimer = setTimeout(() => {
+      batch.lateCallTimer = undefined;
+      if (this.toolBatches.get(key) !== batch) return;
+      if (!batch.responseDone) {
+        this.log.warn(`No response.done for response ${key} — completing its tool batch anyway`);
+        batch.responseDone = true;
+      }
+      if (batch.seenCalls < batch.expectedCalls) {
+        this.log.warn(
+          `Tool call(s) declared by response ${key} never arrived — answering with ${batch.seenCalls}/${batch.expectedCalls}`
+        );
+        batch.expectedCalls = batch.seenCalls;
+      }
+      this.finishToolBatchIfReady(key, batch, session);
+    }, LATE_TOOL_CALL_TIMEOUT_MS);
+  }
+
+  /**
+   * Run an automatic tool call that the batch already counts as pending, under its abort signal
+   * and `toolTimeoutMs`.
+   */
+  private runToolCall(
+    key: string,
+    batch: ToolBatch,
+    session: LiveSession | null,
+    toolExecutor: ToolExecutor,
+    name: string,
+    args: string,
+    callId: string
+  ): void {
+    const controller = new AbortController();
+    const call: RunningToolCall = { name, controller };
+    batch.running.set(callId, call);
+    const { toolTimeoutMs } = this.config;
+    if (toolTimeoutMs !== undefined && toolTimeoutMs > 0) {
+      call.timer = setTimeout(() => {
+        const message = `Tool "${name}" did not finish within ${toolTimeoutMs} ms`;
+        this.log.warn(message);
+        controller.abort(toolAbortReason(message, 'TimeoutError'));
+        // Answered like a failure, so the model can tell the user instead of waiting
+        this.settleToolCall(key, batch, callId, session, {
+          error: { type: 'timeout', tool: name, message },
+        });
+      }, toolTimeoutMs);
+    }
+    // Why a settled call's late result is dropped: the session that asked for it is gone (its
+    // output belongs to a conversation the service no longer has), or the call was already
+    // answered by its timeout or a cancellation
+    const discardReason = (): string =>
+      this.live !== session || !session?.scope.isActive
+        ? 'session ended before the executor settled'
+        : 'the call was already answered';
+    Promise.resolve()
+      .then(() => toolExecutor(name, args, callId, { signal: controller.signal }))
+      .then(
+        (result) => {
+          if (!this.settleToolCall(key, batch, callId, session, result)) {
+            if (result !== undefined)
+              this.log.debug(`Discarding ${name} result: ${discardReason()}`);
+          }
+        },
+        (err: unknown) => {
+          if (!batch.running.has(callId)) {
+            // Typically the AbortError of a cancelled or timed-out call
+            this.log.debug(`Discarding ${name} failure: ${discardReason()}`);
+            return;
+          }
+          this.log.error(`toolExecutor failed for ${name}:`, err);
+          // The service waits for an output for this call_id: without one the conversation stalls
+          // forever. Report the failure so the model can react to it instead.
+          this.settleToolCall(key, batch, callId, session, {
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      );
+  }
+
+  /** `toolRequiresConfirmation`, failing safe: a predicate that throws holds the call */
+  private toolCallNeedsConfirmation(name: string, args: string, callId: string): boolean {
+    const predicate = this.config.toolRequiresConfirmation;
+    if (!predicate) return false;
+    try {
+      return predicate(name, args, callId);
+    } catch (err) {
+      this.log.error(`toolRequiresConfirmation threw for ${name} — holding the call:`, err);
+      return true;
+    }
+  }
+
+  private holdToolCall(held: HeldToolCall): void {
+    this.log.debug(`Holding ${held.name} (${held.callId}) until it is confirmed or rejected`);
+    this.heldToolCalls.set(held.callId, held);
+    this.set({
+      pendingConfirmations: [
+        ...this.fields.pendingConfirmations,
+        { callId: held.callId, name: held.name, arguments: held.args },
+      ],
+    });
+  }
+
+  /** Remove a held call from `pendingConfirmations`; undefined when it is not (or no longer) held */
+  private takeHeldToolCall(callId: string): HeldToolCall | undefined {
+    const held = this.heldToolCalls.get(callId);
+    if (!held) {
+      this.log.warn(`No tool call ${callId} is awaiting confirmation`);
+      return undefined;
+    }
+    this.heldToolCalls.delete(callId);
+    this.set({
+      pendingConfirmations: this.fields.pendingConfirmations.filter(
+        (pending) => pending.callId !== callId
+      ),
+    });
+    return held;
+  }
+
+  /**
+   * Settle one automatic tool call: send its output (if any, and if the session is still the one
+   * that issued the call) and let its batch move on. Returns false when the call had already
+   * been settled — by a timeout, an abort or a session teardown — so a late executor result can
+   * be discarded instead of answering the same `call_id` twice.
+   */
+  private settleToolCall(
+    key: string,
+    batch: ToolBatch,
+    callId: string,
+    session: LiveSession | null,
+    output: void | ToolResult
+  ): boolean {
+    const call = batch.running.get(callId);
+    if (!call) return false;
+    batch.running.delete(callId);
+    if (call.timer) clearTimeout(call.timer);
+    this.completeToolCall(key, batch, callId, session, output);
+    return true;
+  }
+
+  /** Send a pending call's output (if any, while its session is live) and release it from its batch */
+  private completeToolCall(
+    key: string,
+    batch: ToolBatch,
+    callId: string,
+    session: LiveSession | null,
+    output: void | ToolResult
+  ): void {
+    if (output !== undefined && this.live === session && session?.scope.isActive) {
+      this.sendToolResult(callId, output, { triggerResponse: false });
+      batch.sentOutput = true;
+    }
+    // A void executor means "no automatic output for this call": stop waiting for one
+    batch.pendingCallIds.delete(callId);
+    batch.pending -= 1;
+    if (session) this.finishToolBatchIfReady(key, batch, session);
+  }
+
+  /**
+   * Abort every running tool executor of this session and answer its call with a `cancelled`
+   * error. The turn those calls served was abandoned (barge-in, `cancelResponse()`), so their
+   * batches do not ask for a follow-up — unless a user turn was handed to one, which still has to
+   * be answered.
+   */
+  private cancelRunningToolCalls(message: string): void {
+    const session = this.live;
+    for (const [key, batch] of [...this.toolBatches]) {
+      if (batch.running.size === 0) continue;
+      batch.followUpSuppressed = true;
+      for (const [callId, call] of [...batch.running]) {
+        this.log.debug(`Cancelling ${call.name} (${callId}): ${message}`);
+        call.controller.abort(toolAbortReason(message, 'AbortError'));
+        this.settleToolCall(key, batch, callId, session, {
+          error: { type: 'cancelled', tool: call.name, message },
+        });
+      }
+    }
+  }
+
+  private serverToolCallsOf(responseId: string): ServerToolCalls {
+    let entry = this.serverToolCalls.get(responseId);
+    if (!entry) {
+      entry = { calls: new Map(), running: new Set(), responseDone: false, needsAnswer: false };
+      this.serverToolCalls.set(responseId, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Record what `response.done` says about the server-side tool calls of a response: whether it
+   * already presented their result (a message after the last call), and which are still running.
+   */
+  private completeServerToolCalls(response: WireResponse): void {
+    const output = response.output ?? [];
+    let lastCall = -1;
+    let lastMessage = -1;
+    output.forEach((item, index) => {
+      if (SERVER_TOOL_CALL_TYPES.has(item.type)) lastCall = index;
+      else if (item.type === 'message') lastMessage = index;
+    });
+    if (lastCall < 0 && !this.serverToolCalls.has(response.id)) return;
+    const entry = this.serverToolCallsOf(response.id);
+    for (const item of output) {
+      if (item.id && SERVER_TOOL_CALL_TYPES.has(item.type) && !entry.calls.has(item.id)) {
+        entry.calls.set(item.id, {
+          type: item.type as ServerToolCallType,
+          name: item.name,
+          serverLabel: item.server_label,
+        });
+      }
+    }
+    entry.responseDone = true;
+    entry.needsAnswer =
+      lastCall > lastMessage &&
+      // Function calls get their follow-up from the tool batch (or the consumer's sendToolResult)
+      !output.some((item) => item.type === 'function_call') &&
+      // An interrupted response is answered by whatever interrupted it
+      response.status !== 'cancelled' &&
+      response.status !== 'failed';
+    this.finishServerToolCallsIfReady(response.id, entry, true);
+  }
+
+  /**
+   * Ask for the answer to a response that ended on server-side tool calls once they all settled.
+   * At `response.done` the request joins that response's single flush; a call settling later
+   * only asks when nothing else is running — a response in progress means the service (or the
+   * user) already moved the conversation on.
+   */
+  private finishServerToolCallsIfReady(
+    responseId: string,
+    entry: ServerToolCalls,
+    atResponseDone: boolean
+  ): void {
+    if (!entry.responseDone || entry.running.size > 0) return;
+    this.serverToolCalls.delete(responseId);
+    if (!entry.needsAnswer) return;
+    this.log.debug(
+      `Response ${responseId} ended on a server-side tool call — asking for the answer`
+    );
+    this.requestResponse({ dropIfBusy: !atResponseDone });
+  }
+
+  /** The tool batch of this session that still owes a follow-up, if any */
+  private pendingToolBatch(): ToolBatch | null {
+    for (const batch of this.toolBatches.values()) {
+      if (batchOwesOutputs(batch)) return batch;
+    }
+    return null;
+  }
+
+  /**
+   * Ask the model for a response. If a response is still in progress the request is deferred
+   * until `response.done` (Voice Live rejects overlapping responses).
+   *
+   * @returns The request that will carry this one (null when it was dropped)
+   */
+  private requestResponse(
+    options: { event?: VoiceLiveClientEvent; dropIfBusy?: boolean } = {}
+  ): ResponseRequest | null {
+    // A response is owed by a tool batch that has not put all its outputs on the wire yet.
+    // Answering now would make the model reply to a conversation with an unanswered tool call,
+    // so the turn is handed to that batch — its single follow-up covers both, carrying a custom
+    // payload if one was given.
+    const batch = this.pendingToolBatch();
+    if (batch) {
+      if (options.dropIfBusy) {
+        this.log.debug('Tool outputs still pending — dropping the proactive request');
+        return null;
+      }
+      if (options.event) {
+        // Not a turn for the follow-up to answer: an out-of-band response, or one with options
+        // of its own. It is sent after the batch, and asks for no spoken answer by itself.
+        this.log.debug('Tool outputs still pending — queueing the request behind them');
+        return this.responseRequests.add(options.event);
+      }
+      batch.followUpOwed = true;
+      this.log.debug('Tool outputs still pending — the follow-up will answer this turn too');
+      return this.responseRequests.add(null);
+    }
+    if (options.dropIfBusy && this.gate.isBusy) {
+      // A proactive greeting only makes sense as the first turn: if the conversation already
+      // started, dropping it is right — queueing would greet after the user has spoken
+      this.log.debug('Response already in progress — dropping the proactive request');
+      return null;
+    }
+    // Plain requests collapse into the queued turn; a custom payload keeps its own
+    const request = this.responseRequests.add(options.event ?? null);
+    if (!this.gate.request()) {
+      this.log.debug(
+        `Response ${this.gate.currentState} — queued a response.create for response.done`
+      );
+      return request;
+    }
+    this.sendGatedResponseCreate();
+    return request;
+  }
+
+  /**
+   * Stop local audio playback immediately (barge-in / cancel; WebSocket transport)
+   */
+  private stopAudioPlayback(): void {
+    if (this.player) {
+      this.player.stop();
+      this.log.debug('Audio playback stopped');
+    }
+  }
+
+  // ===== Conversation API =====
+
+  /**
+   * Send a user text message and (by default) trigger a response
+   */
+  sendText(text: string, options: { triggerResponse?: boolean } = {}): ResponseHandle | null {
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'user', content: [{ type: 'input_text', text }] },
+    });
+    return options.triggerResponse === false ? null : this.createResponse();
+  }
+
+  /**
+   * Send a function-call result and (by default) trigger a response
+   */
+  sendToolResult(
+    callId: string,
+    output: ToolResult,
+    options: { triggerResponse?: boolean } = {}
+  ): void {
+    // A result the consumer sends themselves counts towards the batch that is coordinating this
+    // response, so the follow-up covers it instead of racing a second one
+    for (const batch of this.toolBatches.values()) {
+      if (batch.pendingCallIds.delete(callId)) {
+        batch.sentOutput = true;
+        break;
+      }
+    }
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output: typeof output === 'string' ? output : JSON.stringify(output),
+      },
+    });
+    if (options.triggerResponse !== false) {
+      this.requestResponse();
+    }
+  }
+
+  /** Run a held tool call (see `toolRequiresConfirmation`) */
+  confirmToolCall(callId: string): void {
+    const held = this.takeHeldToolCall(callId);
+    if (!held) return;
+    const { key, batch, session, name, args } = held;
+    const { toolExecutor } = this.config;
+    if (!toolExecutor) {
+      // The executor was removed from the options while the call waited
+      this.completeToolCall(key, batch, callId, session, {
+        error: `No executor is configured for "${name}"`,
+      });
+      return;
+    }
+    this.runToolCall(key, batch, session, toolExecutor, name, args, callId);
+  }
+
+  /** Answer a held tool call with a refusal instead of running it */
+  rejectToolCall(callId: string, reason?: string): void {
+    const held = this.takeHeldToolCall(callId);
+    if (!held) return;
+    const message = reason ?? `The user declined to run "${held.name}"`;
+    this.completeToolCall(held.key, held.batch, callId, held.session, {
+      error: { type: 'rejected', tool: held.name, message },
+    });
+  }
+
+  /**
+   * Cancel the in-progress response and flush local playback
+   */
+  cancelResponse(): void {
+    this.sendEvent({ type: 'response.cancel' });
+    this.stopAudioPlayback();
+    this.cancelRunningToolCalls('The response was cancelled');
+  }
+
+  /** Clear the server-side input audio buffer */
+  clearInputAudio(): void {
+    this.sendEvent({ type: 'input_audio_buffer.clear' });
+  }
+
+  /** Commit the input audio buffer as a user turn (manual turn detection) */
+  commitInputAudio(): void {
+    this.sendEvent({ type: 'input_audio_buffer.commit' });
+  }
+
+  /**
+   * Ask the model to respond now (manual turn control, or continuing after a server-side tool).
+   * Goes through the same gate as `sendText()`, so it can never overlap another response.
+   * `options` apply to this response only; a request carrying them is never merged with another
+   * one that has its own.
+   */
+  createResponse(options?: ResponseCreateOptions): ResponseHandle {
+    const request = this.requestResponse({
+      event: options
+        ? { type: 'response.create', response: convertResponseOptions(options) }
+        : undefined,
+    });
+    // Only proactive requests (`dropIfBusy`) are ever dropped
+    return this.responseHandles.create(request as ResponseRequest);
+  }
+
+  /**
+   * Run a side task outside the conversation: an out-of-band text response, queued by the gate
+   * like any other request. Its events reach `onEvent` but nothing else — no playback, no
+   * transcript, no conversation item, no tool execution.
+   */
+  async generate<const S extends JsonSchema = JsonSchema>(
+    options: GenerateOptions<S>
+  ): Promise<GenerateResult<InferSchema<S>>> {
+    const event = buildGenerateEvent(options, `gen_${++this.generationSeq}`);
+    const request = this.requestResponse({ event });
+    const response = await this.responseHandles.create(request as ResponseRequest).done;
+    return readGenerateResult(response, options.schema);
+  }
+
+  /** Push-to-talk: interrupt the assistant and start sending the microphone as a new turn */
+  beginTurn(): void {
+    if (!this.isPushToTalk) {
+      this.log.warn("beginTurn() requires interactionMode: 'push-to-talk'");
+      return;
+    }
+    if (!this.live?.ready) {
+      this.log.warn('Not connected, cannot begin a turn');
+      return;
+    }
+    if (this.fields.turnActive) return;
+    // The same as a barge-in under server VAD, except that the user pressed a button to say so
+    if (this.gate.isBusy) this.sendEvent({ type: 'response.cancel' });
+    this.stopAudioPlayback();
+    this.cancelRunningToolCalls('The user interrupted the response');
+    // Whatever reached the buffer before the press (mic noise, a discarded turn) is not the turn
+    this.clearInputAudio();
+    this.userTranscript = '';
+    this.turnStartedAt = Date.now();
+    this.set({ turnActive: true, sessionState: 'listening' });
+    this.syncMicGate();
+  }
+
+  /**
+   * Push-to-talk: stop sending the microphone and submit the turn (commit + response through the
+   * gate). A turn shorter than `minTurnDurationMs` is cleared instead.
+   *
+   * @returns true when the turn was submitted
+   */
+  endTurn(): boolean {
+    if (!this.fields.turnActive) return false;
+    const durationMs = Date.now() - this.turnStartedAt;
+    const minDurationMs = this.config.minTurnDurationMs ?? DEFAULT_MIN_TURN_DURATION_MS;
+    const submitted = durationMs >= minDurationMs;
+    this.set({ turnActive: false, sessionState: submitted ? 'thinking' : 'listening' });
+    this.syncMicGate();
+    if (!submitted) {
+      this.log.debug(`Turn of ${durationMs} ms is shorter than ${minDurationMs} ms — discarded`);
+      this.clearInputAudio();
+      return false;
+    }
+    this.commitInputAudio();
+    this.requestResponse();
+    return true;
+  }
+
+  private get isPushToTalk(): boolean {
+    return this.config.interactionMode === 'push-to-talk';
+  }
+
+  /** WebRTC: let the microphone track through only during a push-to-talk turn */
+  private syncMicGate(): void {
+    this.mic.setGated(this.isPushToTalk && !this.fields.turnActive);
+  }
+
+  /** Approve or deny a pending MCP tool call */
+  approveMcpCall(approvalRequestId: string, approve: boolean): void {
+    if (!this.mcpApprovals.answer(approvalRequestId, approve)) {
+      this.log.warn(
+        `MCP approval request ${approvalRequestId} was already decided — not answering it again`
+      );
+    }
+  }
+
+  /** Every MCP approval decision of the current conversation, oldest first */
+  getMcpApprovalAudit(): readonly McpApprovalDecision[] {
+    return [...this.mcpApprovals.audit];
+  }
+
+  /** Put an approval decision on the wire and report it */
+  private sendMcpApprovalDecision(decision: McpApprovalDecision): void {
+    const { request, approve, decidedBy, rule } = decision;
+    this.log.info(
+      `MCP call ${request.serverLabel}/${request.name} ${approve ? 'approved' : 'denied'} (${rule ?? decidedBy})`
+    );
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: {
+        type: 'mcp_approval_response',
+        approval_request_id: request.approvalRequestId,
+        approve,
+      },
+    });
+    this.notify('mcpApprovalDecision', decision);
+  }
+
+  /** Fetch an item as the service stores it (e.g. to read a transcript the history lacks) */
+  retrieveItem(itemId: string): Promise<WireConversationItem> {
+    return this.sendRequest({ type: 'conversation.item.retrieve', item_id: itemId }).then(
+      (ack) => (ack as ConversationItemRetrievedEvent).item
+    );
+  }
+
+  /** Remove an item from the server-side conversation (and from `conversation`) */
+  deleteItem(itemId: string): Promise<void> {
+    return this.sendRequest({ type: 'conversation.item.delete', item_id: itemId }).then(
+      () => undefined
+    );
+  }
+
+  /**
+   * Cut an assistant audio message at `audioEndMs`, dropping the transcript of the audio the
+   * user never heard — so the model does not assume it said more than was played.
+   */
+  truncateItem(itemId: string, audioEndMs: number): Promise<void> {
+    return this.sendRequest({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: 0,
+      audio_end_ms: Math.max(0, Math.round(audioEndMs)),
+    }).then(() => undefined);
+  }
+
+  /**
+   * Add an item to the conversation without triggering a response — after `previousItemId` when
+   * given, else at the end. Resolves with the created item.
+   */
+  insertItem(
+    item: WireConversationRequestItem,
+    options: { previousItemId?: string } = {}
+  ): Promise<WireConversationItem> {
+    return this.sendRequest({
+      type: 'conversation.item.create',
+      ...(options.previousItemId ? { previous_item_id: options.previousItemId } : {}),
+      item,
+    }).then((ack) => (ack as ConversationItemCreatedEvent).item);
+  }
+
+  /**
+   * Update session configuration (agent-mode aware). Resolves once `session.updated` confirms it.
+   */
+  updateSession(partialSession: Partial<VoiceLiveSessionConfig>): Promise<void> {
+    if (partialSession.modalities) this.switchModalities(partialSession.modalities);
+    const applied = this.sendRequest({
+      type: 'session.update',
+      session: this.buildSession({ ...this.config.session, ...partialSession }),
+    }).then(() => undefined);
+    // Callers written against the fire-and-forget version do not await it; a refused update is
+    // logged either way, so an ignored promise must not surface as an unhandled rejection
+    applied.catch(() => undefined);
+    return applied;
+  }
+
+  /** Whether the effective modalities leave out audio (see `isTextOnly` in the snapshot) */
+  private get isTextOnly(): boolean {
+    return isTextOnlySession({ modalities: this.modalities ?? this.config.session?.modalities });
+  }
+
+  /**
+   * Switch between voice and text locally, ahead of the service's confirmation: the user asked
+   * for it now. Text stops the microphone and what is playing; voice sets the output audio up
+   * again, and the next publish auto-starts the microphone.
+   */
+  private switchModalities(modalities: Modality[]): void {
+    const wasTextOnly = this.isTextOnly;
+    this.modalities = [...modalities];
+    if (this.isTextOnly === wasTextOnly) return;
+    if (this.isTextOnly) {
+      this.log.debug('Switching to text: stopping the microphone and playback');
+      if (this.getSnapshot().isMicActive) this.stopMic();
+      this.stopAudioPlayback();
+    } else {
+      this.log.debug('Switching to voice');
+      const transport = this.live?.transport;
+      if (transport?.state === 'open') this.setUpOutputAudio(transport.kind);
+    }
+    this.publish();
+  }
+
+  /**
+   * Get current audio playback time in milliseconds
+   * Used for synchronizing visemes with audio playback (WebSocket transport only)
+   */
+  getAudioPlaybackTime(): number | null {
+    if (this.transportKind === 'webrtc') return null;
+    return this.player?.playbackTimeMs() ?? null;
+  }
+
+  // ===== Audio output & avatar =====
+
+  /**
+   * Create the output audio graph once the transport is open (or a text session switches to
+   * voice): the played audio as `audioStream` over WebSocket, the remote track's analyser input
+   * over WebRTC.
+   */
+  private setUpOutputAudio(kind: TransportKind): void {
+    // Nothing is played locally: no AudioContext to create (or to fail in Node)
+    if (this.isTextOnly || (kind === 'websocket' && this.config.playAudio === false)) return;
+    try {
+      const graph = this.ensureGraph();
+      if (kind === 'webrtc') {
+        if (this.fields.audioStream) graph.attachRemoteStream(this.fields.audioStream);
+      } else if (!this.config.session?.avatar) {
+        // Voice-only WebSocket mode: expose played audio as a MediaStream
+        const stream = graph.ensureDestination();
+        if (stream) this.set({ audioStream: stream });
+        // What the user hears is the echo reference, for a microphone that is already running
+        if (this.usesClientEchoReference()) this.capture.setReferenceStream(stream);
+      }
+    } catch (err) {
+      // A blocked/unavailable AudioContext must not abort the connection: over WebRTC the
+      // remote RTP stream plays on its own and the graph is only used for visualization.
+      // (Over WebSocket, playback then fails later with a clear error from the player.)
+      this.log.warn('Audio graph unavailable:', err);
+    }
+  }
+
+  /**
+   * The output audio graph (AudioContext + gain + analyser), created once per connection.
+   * Publishes a change when the context is created so `audioContext`/`audioAnalyser` update.
+   */
+  private ensureGraph(): OutputAudioGraph {
+    let graph = this.graph;
+    if (!graph) {
+      graph = new OutputAudioGraph({ log: this.log });
+      this.graph = graph;
+    }
+    if (graph.ensure()) {
+      this.publish();
+    }
+    return graph;
+  }
+
+  /** The PCM player for the WebSocket transport (lazy; replaced when the output format changes) */
+  private ensurePlayer(): PcmPlayer {
+    let player = this.player;
+    const format = this.audioFormat('output');
+    if (player && player.format !== format) {
+      player.dispose();
+      player = null;
+    }
+    if (!player) {
+      player = new PcmPlayer(this.ensureGraph(), {
+        sourceSampleRate: this.config.audioSampleRate ?? 24000,
+        format,
+        log: this.log,
+        // Its end can be the quiet moment a due rollover waits for
+        onPlaybackEnd: () => this.maybeRollOver(),
+      });
+      this.player = player;
+    }
+    return player;
+  }
+
+  /** The effective wire audio format: as the service confirmed it, else as configured */
+  private audioFormat(direction: 'input' | 'output'): AudioFormat {
+    const session = this.config.session;
+    const configured =
+      direction === 'input' ? session?.inputAudioFormat : session?.outputAudioFormat;
+    return this.confirmedFormats[direction] ?? configured ?? 'pcm16';
+  }
+
+  /** Follow the formats in a `session.updated` echo (`updateSession()` may change them mid-call) */
+  private applyAudioFormats(session?: {
+    input_audio_format?: AudioFormat;
+    output_audio_format?: AudioFormat;
+  }): void {
+    const input = this.audioFormat('input');
+    if (session?.input_audio_format) this.confirmedFormats.input = session.input_audio_format;
+    if (session?.output_audio_format) this.confirmedFormats.output = session.output_audio_format;
+    // A running microphone switches encoding with its next chunk
+    if (this.audioFormat('input') !== input && this.capture.isCapturing) {
+      this.capture.setOptions(this.wsCaptureOptions());
+    }
+  }
+
+  /**
+   * Mark the session ready (both transports) and settle a pending reconnect — after replaying the
+   * conversation into it, when `reconnect.restoreConversation` asks for that
+   */
+  private announceReady(): void {
+    const session = this.live;
+    if (!session || !session.scope.isActive || session.restoring) return;
+    const restore =
+      this.reconnectAttempt > 0 && !session.ready
+        ? resolveRestoreConversationOptions(
+            resolveReconnectOptions(this.config.reconnect)?.restoreConversation,
+            this.config.connection
+          )
+        : null;
+    if (!restore) {
+      this.markReady(session);
+      return;
+    }
+    // Not ready until the history is back: the microphone would talk to an amnesiac assistant
+    session.restoring = true;
+    void this.restoreConversation(session, restore).then(() => {
+      session.restoring = false;
+      if (this.live === session && session.scope.isActive) this.markReady(session);
+    });
+  }
+
+  private markReady(session: LiveSession): void {
+    session.ready = true;
+    this.authRetried = false;
+    // Only a fresh choice is stored: renewing a remembered one would keep it from ever expiring
+    if (this.autoTransport && this.autoTransport.reason !== 'remembered') {
+      rememberTransport(session.transport.kind);
+    }
+    this.set({ isReady: true, sessionState: 'listening' });
+    if (this.reconnectAttempt > 0) {
+      this.log.info(`Reconnected after ${this.reconnectAttempt} attempt(s)`);
+      this.reconnectAttempt = 0;
+      this.set({ reconnectAttempt: 0 });
+      if (!this.notify('reconnected')) return;
+    }
+    this.sendGreeting();
+  }
+
+  /**
+   * Replay the history into the session a reconnect opened: the last turns as they were, older
+   * ones as a summary if one is wanted. Never rejects — a failed summary only leaves those turns
+   * out.
+   */
+  private async restoreConversation(
+    session: LiveSession,
+    options: NonNullable<ReturnType<typeof resolveRestoreConversationOptions>>
+  ): Promise<void> {
+    const restored = await this.collectRestoredItems(options);
+    if (this.live !== session || !session.scope.isActive) return;
+    this.replayItems(restored.items);
+    this.log.info(
+      `Restored ${restored.kept.length} conversation item(s)` +
+        (restored.dropped.length > 0
+          ? ` (${restored.dropped.length} older ones left out or summarized)`
+          : '')
+    );
+  }
+
+  /**
+   * The `conversation.item.create` items that recreate the history in a new session, with the
+   * summary of the older turns first. A summary is asked of the live session (`generate()`).
+   */
+  private async collectRestoredItems(
+    options: NonNullable<ReturnType<typeof resolveRestoreConversationOptions>>
+  ): Promise<{
+    items: WireConversationRequestItem[];
+    kept: ConversationItem[];
+    dropped: ConversationItem[];
+  }> {
+    const { kept, dropped } = selectRestoredItems(
+      this.conversation.getSnapshot(),
+      options.maxTurns
+    );
+    const items: WireConversationRequestItem[] = [];
+    if (dropped.length > 0 && options.summarize) {
+      let summary = '';
+      try {
+        summary =
+          typeof options.summarize === 'function'
+            ? await options.summarize(dropped)
+            : (
+                await this.generate({
+                  instructions: RESTORE_SUMMARY_INSTRUCTIONS,
+                  input: toRequestItems(dropped, { ids: false }),
+                })
+              ).text;
+      } catch (err) {
+        this.log.warn('Could not summarize the earlier conversation — leaving it out:', err);
+      }
+      if (summary) {
+        items.push({
+          type: 'message',
+          role: 'system',
+          content: [{ type: 'input_text', text: `Summary of the conversation so far: ${summary}` }],
+        });
+      }
+    }
+    items.push(...toRequestItems(kept));
+    return { items, kept, dropped };
+  }
+
+  /** Create `items` in the live session; their echoes are not added to the history again */
+  private replayItems(items: readonly WireConversationRequestItem[]): void {
+    for (const item of items) {
+      const id = item.id ?? this.nextItemId();
+      this.restoredItemIds.add(id);
+      this.sendRaw({ type: 'conversation.item.create', item: { ...item, id } });
+    }
+  }
+
+  /** Send the proactive greeting once per connect() (not again after a reconnect) */
+  private sendGreeting(): void {
+    const greeting = this.config.session?.greeting;
+    if (!greeting || this.greetingSent || !this.live?.ready) return;
+    this.greetingSent = true;
+    this.log.debug(`Sending proactive greeting (${greeting.type})...`);
+    // An LLM greeting is a *pair*: a system instruction item plus the response request. If the
+    // conversation already started, the whole pair is dropped — sending only the instruction would
+    // leave it in the conversation, silently steering the user's own turn.
+    if (this.gate.isBusy || this.pendingToolBatch()) {
+      this.log.debug('Conversation already started — skipping the proactive greeting');
+      return;
+    }
+    // The greeting's own `response.create` carries a payload (the pre-generated message), so it is
+    // sent through the gate rather than replaced by a bare one.
+    buildGreetingEvents(greeting).forEach((event) => {
+      if (event.type === 'response.create') {
+        this.requestResponse({ event, dropIfBusy: true });
+      } else {
+        this.sendEvent(event);
+      }
+    });
+  }
+
+  /**
+   * Set up the avatar media connection after `session.updated` (WebSocket transport)
+   */
+  private async connectAvatar(iceServers: RTCIceServer[]): Promise<void> {
+    this.log.debug('Setting up avatar WebRTC...');
+    this.avatar?.close();
+    const avatar = new AvatarConnection(
+      {
+        onVideoStream: (stream) => {
+          this.set({ videoStream: stream });
+        },
+        onAudioStream: (stream) => {
+          this.set({ audioStream: stream });
+          // Avatar sessions skip the MediaStreamDestination, so without this the public
+          // `audioAnalyser` would have no input at all and visualizers would read silence
+          if (stream) this.ensureGraph().attachRemoteStream(stream);
+        },
+        onError: (message) => {
+          this.log.error(`Avatar: ${message}`);
+          this.set({ error: message });
+        },
+      },
+      { log: this.log }
+    );
+    this.avatar = avatar;
+    const clientSdp = await avatar.createOffer(iceServers);
+    if (this.avatar !== avatar) return; // torn down meanwhile
+    this.sendEvent({ type: 'session.avatar.connect', client_sdp: clientSdp });
+    this.log.debug('Avatar connection request sent');
+  }
+
+  // ===== Server events =====
+
+  /**
+   * A generation's events go to the gate and its caller only: it is no part of the conversation,
+   * so none of what a spoken response does (state, transcripts, tool calls) may happen for it.
+   *
+   * @returns true when the event belonged to a generation
+   */
+  private handleGenerationEvent(event: VoiceLiveServerEvent): boolean {
+    const responseId = responseIdOf(event);
+    if (!responseId) return false;
+    if (event.type === 'response.created') {
+      if (!event.response.metadata?.[GENERATION_METADATA_KEY]) return false;
+      this.generationResponses.add(responseId);
+      this.clearSpeculativeTimer();
+      this.gate.onResponseCreated();
+      this.responseHandles.onCreated(event.response, null);
+      return true;
+    }
+    if (!this.generationResponses.has(responseId)) return false;
+    this.responseHandles.apply(event);
+    if (event.type === 'response.done') {
+      this.generationResponses.delete(responseId);
+      if (this.gate.onResponseDone()) {
+        this.log.debug('Sending queued response.create');
+        this.sendGatedResponseCreate();
+      } else {
+        this.armSpeculativeRelease();
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Handle a server event (from the WebSocket or the WebRTC data channel)
+   */
+  private async handleServerEvent(data: VoiceLiveServerEvent): Promise<void> {
+    const log = this.log;
+    if (!VERBOSE_SERVER_EVENTS.has(data.type)) {
+      log.debug(data.type);
+    }
+
+    const { toolExecutor } = this.config;
+    const hasTranscriptListener = this.hasListener('transcript');
+
+    // Call custom event handler first (never let it abort our own handling). If it ends or
+    // replaces the session, this event belongs to a session that no longer exists.
+    if (!this.notify('event', data)) return;
+
+    if (this.handleGenerationEvent(data)) return;
+
+    // Replayed history is already in `conversation`
+    const restoredEcho =
+      data.type === 'conversation.item.created' &&
+      !!data.item?.id &&
+      this.restoredItemIds.delete(data.item.id);
+    if (!restoredEcho) this.conversation.apply(data);
+    this.responseHandles.apply(data);
+    // Settles an awaited request (its acknowledgement, or the error it caused)
+    const settledRequest = this.requests.handle(data);
+
+    const isWebRtc = this.transportKind === 'webrtc';
+
+    // Handle specific events
+    switch (data.type) {
+      case 'session.created': {
+        if (data.session?.expires_at) {
+          this.set({ sessionExpiresAt: data.session.expires_at * 1000 });
+          this.scheduleRollover(data.session.expires_at * 1000);
+        }
+        if (isWebRtc) {
+          // Session config was passed inside rtc.call.sdp.create
+          log.debug('Session created (webrtc)');
+          break;
+        }
+        // Configure the session before any audio flows
+        log.debug('Configuring session...');
+        this.sendEvent({ type: 'session.update', session: this.buildSession(this.config.session) });
+        break;
+      }
+
+      case 'session.updated': {
+        if (data.session?.expires_at) {
+          this.set({ sessionExpiresAt: data.session.expires_at * 1000 });
+          this.scheduleRollover(data.session.expires_at * 1000);
+        }
+        // The service echoes the effective session: keep the VAD behaviour in sync with it
+        const turnDetection = (
+          data.session as { turn_detection?: { create_response?: boolean } } | undefined
+        )?.turn_detection;
+        this.autoCreateResponse = turnDetection ? turnDetection.create_response !== false : true;
+        this.applyAudioFormats(
+          data.session as { input_audio_format?: AudioFormat; output_audio_format?: AudioFormat }
+        );
+        if (!this.notify('sessionUpdated', data.session as Record<string, unknown>)) {
+          // The consumer disconnected/reconnected: do not set up an avatar for a dead session
+          break;
+        }
+
+        if (isWebRtc) {
+          // Readiness is driven by the peer connection + data channel state in WebRTC mode
+          log.debug('Session configured (webrtc)');
+          break;
+        }
+        log.debug('Session configured');
+
+        if (data.session?.avatar?.ice_servers) {
+          const avatarSession = this.live;
+          try {
+            await this.connectAvatar(data.session.avatar.ice_servers);
+          } catch (err) {
+            if (this.live !== avatarSession || !avatarSession?.scope.isActive) {
+              // Torn down while the offer was in flight — the rejection is expected
+              log.debug('Avatar offer rejected after teardown — ignoring');
+              break;
+            }
+            log.error('Avatar setup failed:', err);
+            this.set({ error: err instanceof Error ? err.message : 'Avatar setup failed' });
+          }
+        } else {
+          // Voice-only mode (no avatar) - session is ready immediately
+          log.info('Voice session ready');
+          this.announceReady();
+        }
+        break;
+      }
+
+      case 'session.avatar.connecting':
+        if (data.server_sdp && this.avatar) {
+          // A disconnect()/reconnect while this is pending must not mark the new (or dead)
+          // session ready, nor overwrite its error state
+          const avatar = this.avatar;
+          const avatarSession = this.live;
+          const isCurrent = (): boolean =>
+            this.avatar === avatar &&
+            this.live === avatarSession &&
+            !!avatarSession?.scope.isActive;
+          try {
+            await avatar.applyServerSdp(data.server_sdp);
+            if (!isCurrent()) {
+              log.debug('Avatar SDP applied after teardown — ignoring');
+              break;
+            }
+            log.info('Avatar WebRTC established');
+            this.announceReady();
+          } catch (err) {
+            if (!isCurrent()) break;
+            log.error('Failed to apply avatar SDP:', err);
+            this.set({ error: err instanceof Error ? err.message : 'Failed to apply avatar SDP' });
+          }
+        }
+        break;
+
+      case 'response.created': {
+        this.clearSpeculativeTimer();
+        // The gate's outstanding request is the one this acknowledges (none: server VAD's own)
+        const requestId = this.gate.isSpeculative ? null : this.gate.outstandingEventId;
+        this.gate.onResponseCreated();
+        this.set({ sessionState: 'speaking' });
+        // Reset transcript accumulator for new response
+        this.assistantTranscript = '';
+        // Track current response for interruption handling + viseme sync
+        if (data.response?.id) {
+          this.currentResponseId = data.response.id;
+          this.player?.markResponseStart();
+          // Last: a handle cancelled before this may stop the response right away
+          this.responseHandles.onCreated(data.response, requestId);
+        }
+        break;
+      }
+
+      case 'response.output_item.added':
+        if (data.item?.id && SERVER_TOOL_CALL_TYPES.has(data.item.type) && data.response_id) {
+          const entry = this.serverToolCallsOf(data.response_id);
+          entry.calls.set(data.item.id, {
+            type: data.item.type as ServerToolCallType,
+            name: data.item.name,
+            serverLabel: data.item.server_label,
+          });
+          entry.running.add(data.item.id);
+        }
+        break;
+
+      case 'response.mcp_call.completed':
+      case 'response.mcp_call.failed':
+      case 'response.foundry_agent_call.completed':
+      case 'response.foundry_agent_call.failed': {
+        const itemId = String(data.item_id ?? '');
+        let responseId: string | undefined;
+        for (const [key, entry] of this.serverToolCalls) {
+          if (entry.calls.has(itemId)) responseId = key;
+        }
+        const entry = responseId === undefined ? undefined : this.serverToolCalls.get(responseId);
+        if (data.type.endsWith('.failed')) {
+          const call = entry?.calls.get(itemId);
+          const error = data.error as { message?: string } | string | undefined;
+          log.warn(`Server-side tool call ${call?.name ?? itemId} failed`);
+          const reported = this.notify('serverToolCallFailed', {
+            type: data.type.startsWith('response.mcp_call') ? 'mcp_call' : 'foundry_agent_call',
+            itemId,
+            responseId,
+            name: call?.name,
+            serverLabel: call?.serverLabel,
+            error: typeof error === 'string' ? error : error?.message,
+          });
+          if (!reported) return;
+        }
+        if (entry && responseId !== undefined && entry.running.delete(itemId)) {
+          this.finishServerToolCallsIfReady(responseId, entry, false);
+        }
+        break;
+      }
+
+      case 'input_audio_buffer.speech_started':
+        log.debug('User speaking (interrupting)...');
+        this.userSpeaking = true;
+        // A client VAD interruption is confirmed: what was held back of the response is dropped
+        this.clearLocalInterruptTimer();
+        this.set({ sessionState: 'listening' });
+        this.userTranscript = '';
+        if (!isWebRtc) {
+          // Microsoft's official pattern for WebSocket barge-in: stop client-side playback
+          // immediately; the server handles truncation with auto_truncate: true
+          this.stopAudioPlayback();
+        }
+        // The user moved on: a tool still working for the interrupted turn is no longer wanted
+        this.cancelRunningToolCalls('The user interrupted the response');
+        break;
+
+      case 'input_audio_buffer.speech_stopped': {
+        log.debug('User stopped speaking');
+        this.userSpeaking = false;
+        this.set({ sessionState: 'thinking' });
+        // With server VAD creating responses (the default), the service is about to start one.
+        // Reserving the slot keeps a turn submitted in this window from overlapping it; the
+        // reservation is speculative and self-heals if no `response.created` follows.
+        // Read what the *service* reports (session.updated), because updateSession() can change
+        // this at runtime — local config would go stale. Agent sessions are included: they use
+        // server VAD as well, and their echo corrects the default if the agent disables it.
+        if (this.autoCreateResponse) {
+          // Announced while another response is running? The gate remembers it and takes the
+          // reservation at `response.done` — the timer is armed there.
+          this.gate.reserveAutomatic();
+          this.armSpeculativeRelease();
+        }
+        break;
+      }
+
+      case 'conversation.item.input_audio_transcription.delta':
+        if (hasTranscriptListener && data.delta) {
+          this.userTranscript += data.delta;
+          if (!this.notify('transcript', 'user', this.userTranscript, false)) break;
+        }
+        break;
+
+      case 'conversation.item.input_audio_transcription.completed':
+        log.debug(`User said: "${data.transcript}"`);
+        if (hasTranscriptListener && data.transcript) {
+          if (!this.notify('transcript', 'user', data.transcript, true)) break;
+        }
+        this.userTranscript = '';
+        break;
+
+      case 'response.audio.delta':
+        // Play audio for WebSocket voice-only mode (no avatar), only for the current response
+        if (isWebRtc) break;
+        if (data.delta && !this.fields.videoStream && data.response_id === this.currentResponseId) {
+          if (this.emitter.has('audio')) {
+            const live = this.live;
+            const format = this.audioFormat('output');
+            this.emitter.emit('audio', base64ToBytes(data.delta), data.response_id, format);
+            // A listener may have ended the session (see `notify`)
+            if (this.live !== live || !live?.scope.isActive) break;
+          }
+          if (this.config.playAudio === false) break;
+          if (data.response_id !== this.locallyInterruptedResponseId) {
+            void this.ensurePlayer().enqueue(data.delta);
+          } else if (this.localInterruptTimer) {
+            this.heldAudio.push(data.delta);
+          }
+        }
+        break;
+
+      case 'response.audio_transcript.delta':
+      case 'response.text.delta':
+        if (data.type === 'response.text.delta' && data.delta) {
+          const current = this.fields.responseText;
+          const continues =
+            current?.responseId === data.response_id && current.itemId === data.item_id;
+          this.set({
+            responseText: {
+              responseId: data.response_id,
+              itemId: data.item_id,
+              text: (continues ? current.text : '') + data.delta,
+              isFinal: false,
+            },
+          });
+        }
+        if (hasTranscriptListener && data.delta) {
+          this.assistantTranscript += data.delta;
+          if (!this.notify('transcript', 'assistant', this.assistantTranscript, false)) break;
+        }
+        break;
+
+      case 'response.done': {
+        // Emit final assistant transcript if accumulated
+        if (hasTranscriptListener && this.assistantTranscript) {
+          const transcript = this.assistantTranscript;
+          this.assistantTranscript = '';
+          // A consumer may disconnect() on the final transcript: everything below belongs to a
+          // session that would no longer exist (state, the gate, a queued flush)
+          if (!this.notify('transcript', 'assistant', transcript, true)) break;
+        }
+        this.set({ sessionState: 'listening' });
+        // No further tool calls can arrive for this response, so a batch whose executors have
+        // all settled may ask for the answer now — while the gate still counts this response as
+        // running, so the request is queued into the single flush below instead of racing it.
+        const doneSession = this.live;
+        const doneKey = `${data.response?.id ?? this.currentResponseId ?? ''}`;
+        // The completed response lists its own tool calls: that is the only reliable way to know
+        // whether more are still on their way over the (independent) control channel
+        const toolCallCount = (data.response?.output ?? []).filter(
+          (item) => (item as { type?: string }).type === 'function_call'
+        ).length;
+        const completions = this.completedResponses;
+        completions.set(doneKey, {
+          outstandingToolCalls: toolCallCount,
+          answered: completions.get(doneKey)?.answered ?? false,
+        });
+        let doneBatch = this.toolBatches.get(doneKey);
+        // Only reserve when *we* run the tools: a consumer handling function calls manually
+        // through onEvent/sendToolResult never advances a batch, so reserving one would hold
+        // their follow-up until the late-call timeout on every tool turn.
+        if (!doneBatch && toolCallCount > 0 && doneSession && this.config.toolExecutor) {
+          // The response declares tool calls whose events have not arrived yet (WebRTC delivers
+          // them on the other channel). Reserve the batch now, so turns submitted meanwhile are
+          // held instead of being answered without the outputs.
+          doneBatch = {
+            pending: 0,
+            sentOutput: false,
+            responseDone: true,
+            followUpOwed: false,
+            seenCalls: 0,
+            expectedCalls: toolCallCount,
+            pendingCallIds: new Set<string>(),
+            running: new Map(),
+          };
+          this.toolBatches.set(doneKey, doneBatch);
+        }
+        if (doneBatch && doneSession) {
+          doneBatch.responseDone = true;
+          doneBatch.expectedCalls = Math.max(doneBatch.expectedCalls, toolCallCount);
+          if (batchOwesOutputs(doneBatch)) {
+            // A queued user turn must NOT be sent now — the service would answer before the
+            // required function_call_output exists. Hand it to the batch, whose single follow-up
+            // answers the tool result and that turn together. Requests with a payload of their
+            // own wait for the batch as well, but owe no follow-up.
+            const handedOver = this.gate.consumeQueuedRequest();
+            doneBatch.followUpOwed =
+              (handedOver && this.responseRequests.hasPlainRequest) || doneBatch.followUpOwed;
+            // ...but never wait forever for a call that may never arrive
+            this.armToolBatchTimeout(doneKey, doneBatch, doneSession);
+          }
+          this.finishToolBatchIfReady(doneKey, doneBatch, doneSession);
+        }
+        if (data.response?.id) this.completeServerToolCalls(data.response);
+        // Exactly one response.create for everything requested while this response ran
+        if (this.gate.onResponseDone()) {
+          log.debug('Sending queued response.create');
+          this.sendGatedResponseCreate();
+        } else {
+          // The gate may have taken a reservation for an automatic response announced while this
+          // one was running; it must not be able to block the conversation if none arrives
+          this.armSpeculativeRelease();
+        }
+        break;
+      }
+
+      case 'response.audio_transcript.done':
+        if (data.transcript) {
+          log.debug(`Assistant: "${data.transcript}"`);
+        }
+        break;
+
+      case 'response.text.done':
+        if (data.text) {
+          log.debug(`Assistant (text): "${data.text}"`);
+        }
+        this.set({
+          responseText: {
+            responseId: data.response_id,
+            itemId: data.item_id,
+            text: data.text,
+            isFinal: true,
+          },
+        });
+        break;
+
+      case 'conversation.item.truncated':
+        log.debug(`Assistant turn truncated at ${data.audio_end_ms} ms (item ${data.item_id})`);
+        break;
+
+      case 'conversation.item.created':
+        if (data.item?.type === 'mcp_approval_request') {
+          log.info(`MCP approval requested: ${data.item.server_label}/${data.item.name}`);
+          const request = {
+            approvalRequestId: data.item.id ?? '',
+            serverLabel: data.item.server_label ?? '',
+            name: data.item.name ?? '',
+            arguments: data.item.arguments ?? '',
+          };
+          // The policy answers what it can; only the rest is the user's to decide
+          if (this.mcpApprovals.handleRequest(request, this.config.mcpApprovalPolicy)) {
+            this.notify('mcpApprovalRequest', request);
+          }
+        }
+        break;
+
+      case 'response.function_call_arguments.done':
+        if (toolExecutor) {
+          const { name, arguments: args, call_id: callId } = data;
+          // One response can contain several function calls (parallel tool calls) whose
+          // executors settle at different times. Every output is sent immediately, but the
+          // follow-up response waits for `response.done` *and* the last executor — only then is
+          // it certain that no further tool call belongs to this response, so the model can
+          // never answer from a partial result set. The batch belongs to this session: a
+          // reconnect replaces the conversation, and `session.scope` says so.
+          const session = this.live;
+          const batchKey = `${data.response_id ?? this.currentResponseId ?? ''}`;
+          const completion = this.completedResponses.get(batchKey);
+          const batch =
+            this.toolBatches.get(batchKey) ??
+            ({
+              pending: 0,
+              sentOutput: false,
+              // The response may already be finished when its tool call reaches us (WebRTC), in
+              // which case we also know how many calls to expect
+              responseDone: this.completedResponses.has(batchKey),
+              followUpOwed: false,
+              seenCalls: 0,
+              expectedCalls: completion?.outstandingToolCalls ?? 0,
+              followUpSuppressed: completion?.answered ?? false,
+              pendingCallIds: new Set<string>(),
+              running: new Map(),
+            } satisfies ToolBatch);
+          batch.seenCalls += 1;
+          batch.pendingCallIds.add(callId);
+          batch.pending += 1;
+          this.toolBatches.set(batchKey, batch);
+          if (session && !batch.responseDone) {
+            // The batch now depends on a `response.done` that may never arrive (a dropped
+            // control-channel event, or a response that fails with an `error` instead). Without
+            // this watchdog it would owe its follow-up forever, silently swallowing a user turn
+            // handed to it.
+            this.armToolBatchTimeout(batchKey, batch, session);
+          }
+          // A sensitive call waits for the user's go-ahead; it still counts as pending, so the
+          // batch's single follow-up covers it once it is run or rejected
+          if (this.toolCallNeedsConfirmation(name, args, callId)) {
+            this.holdToolCall({ key: batchKey, batch, session, name, args, callId });
+          } else {
+            this.runToolCall(batchKey, batch, session, toolExecutor, name, args, callId);
+          }
+        }
+        break;
+
+      case 'warning':
+        log.warn('Service warning:', data.warning);
+        this.notify('warning', data.warning);
+        break;
+
+      case 'output_audio_buffer.started':
+        this.remoteAudioPlaying = true;
+        break;
+
+      case 'output_audio_buffer.stopped':
+      case 'output_audio_buffer.cleared':
+        this.remoteAudioPlaying = false;
+        break;
+
+      // Negotiation events are handled inside WebRtcTransport (answer applied / error reported)
+      case 'rtc.call.sdp.created':
+      case 'rtc.call.error':
+        break;
+
+      case 'error': {
+        const errorCode = data.error?.code || '';
+        const errorMessage = data.error?.message || 'Unknown API error';
+
+        // Filter benign errors that occur during normal barge-in
+        if (
+          errorCode === 'response_cancel_not_active' ||
+          errorMessage.toLowerCase().includes('no active response')
+        ) {
+          log.debug('Benign cancel error (ignored):', errorMessage);
+          break;
+        }
+
+        if (settledRequest) {
+          // Reported to the caller through the rejected promise; the session itself is fine
+          log.warn('Request failed:', errorMessage);
+          break;
+        }
+
+        log.error('API Error:', data.error);
+        this.responseHandles.onRejected(data.error?.event_id, errorMessage);
+        // The error may be the rejection of a response.create we are waiting on: no response.done
+        // will follow, so the gate falls back to idle and any queued turn is sent now
+        // The offending *client* event id is inside the error payload; the top-level event_id
+        // identifies the server's error event itself
+        if (this.gate.onError(data.error?.event_id)) {
+          log.debug('Sending queued response.create after an API error');
+          this.sendGatedResponseCreate();
+        } else {
+          // The gate may have taken over a reservation for an automatic response announced while
+          // the rejected request was in flight — it needs its release timer
+          this.armSpeculativeRelease();
+        }
+        this.set({ error: errorMessage });
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  // ===== Microphone =====
+
+  /** Start microphone capture on the live transport (RTP track or PCM events) */
+  startMic(): Promise<void> {
+    if (this.isTextOnly) {
+      this.log.warn('startMic() ignored: the session is text-only');
+      return Promise.resolve();
+    }
+    // Before connect() the microphone starts on the transport the connection will choose
+    if (!this.live) this.transportKind = this.selectTransport();
+    return this.transport === 'webrtc' ? this.startRtcMic() : this.startWsMic();
+  }
+
+  /** Stop microphone capture */
+  stopMic(): void {
+    if (this.transport === 'webrtc') this.stopRtcMic();
+    else this.capture.stop();
+  }
+
+  /** Toggle microphone mute (instant, keeps capture running) */
+  toggleMute(): void {
+    if (this.transport === 'webrtc') this.toggleRtcMute();
+    else this.capture.toggleMute();
+  }
+
+  private startWsMic(): Promise<void> {
+    this.capture.setOptions(this.wsCaptureOptions());
+    return this.capture.start();
+  }
+
+  private wsCaptureOptions(): PcmCaptureOptions {
+    const { audioSampleRate = 24000, audioConstraints } = this.config;
+    const clientReference = this.usesClientEchoReference();
+    return {
+      sampleRate: audioSampleRate,
+      audioConstraints: typeof audioConstraints === 'boolean' ? undefined : audioConstraints,
+      onAudioData: (data) => this.appendInputAudio(data),
+      onStateChange: () => this.publish(),
+      // Push-to-talk gates the microphone itself; the user decides where speech is
+      vad: this.isPushToTalk ? undefined : this.config.clientVad,
+      onVoiceActivity: (speaking) => {
+        if (speaking) this.handleLocalSpeechStart();
+      },
+      channels: clientReference ? 2 : 1,
+      format: this.audioFormat('input'),
+      // The output stream may not exist yet (mic started before connect): attached once it does
+      referenceStream: clientReference ? (this.graph?.destinationStream ?? null) : null,
+    };
+  }
+
+  /**
+   * Client VAD heard the user start speaking: stop the assistant now instead of when the
+   * service's `speech_started` arrives. The rest of the response is held back — the service
+   * interrupts it once its own VAD agrees, and its deltas may still be on the way. Without that
+   * confirmation the response plays on from the held audio (what was queued when it stopped is
+   * lost).
+   */
+  private handleLocalSpeechStart(): void {
+    if (this.capture.isMuted) return;
+    // Only where the service interrupts too (manual turns and `interruptResponse: false` do not)
+    const turnDetection = this.config.session?.turnDetection;
+    if (turnDetection === null || turnDetection?.interruptResponse === false) return;
+    this.log.debug('Client VAD: user started speaking — stopping playback');
+    this.clearLocalInterruptTimer();
+    this.locallyInterruptedResponseId = this.currentResponseId;
+    this.stopAudioPlayback();
+    if (!this.currentResponseId) return;
+    this.localInterruptTimer = setTimeout(() => {
+      this.localInterruptTimer = null;
+      const held = this.heldAudio;
+      this.heldAudio = [];
+      if (this.locallyInterruptedResponseId !== this.currentResponseId) return;
+      this.log.debug('Client VAD: the service heard no speech — resuming playback');
+      this.locallyInterruptedResponseId = null;
+      if (this.config.playAudio === false || this.fields.videoStream) return;
+      held.forEach((delta) => void this.ensurePlayer().enqueue(delta));
+    }, LOCAL_INTERRUPT_CONFIRM_MS);
+  }
+
+  private clearLocalInterruptTimer(): void {
+    if (this.localInterruptTimer) {
+      clearTimeout(this.localInterruptTimer);
+      this.localInterruptTimer = null;
+    }
+    this.heldAudio = [];
+  }
+
+  /**
+   * Client-reference echo cancellation: the service expects interleaved stereo with the played
+   * audio as channel 1 (`validateConfig` warns about incomplete settings)
+   */
+  private usesClientEchoReference(): boolean {
+    const echo = this.config.session?.inputAudioEchoCancellation;
+    return echo?.referenceSource === 'client' && echo.channels === 2;
+  }
+
+  private async startRtcMic(): Promise<void> {
+    const mic = this.mic;
+    // The microphone belongs to the *connection*: it is kept across reconnects and re-attached to
+    // the new transport. `stopMic()`/`disconnect()` supersede a pending acquisition inside
+    // `WebRtcMicrophone` itself, which then resolves to null.
+    // `startMic()` before `connect()` is supported (a user gesture can pre-arm the microphone and
+    // connect() passes it as `localTrack`), so a *missing* connection is fine here — only a
+    // connection that has since ended invalidates the acquisition.
+    const scope = this.connectionScope;
+    this.syncMicGate();
+    const track = await mic.start(this.config.audioConstraints);
+    if (!track) return; // superseded by stop() while the permission prompt was open
+    if (scope && !scope.isActive) {
+      this.log.debug('Microphone acquired after disconnect — releasing it');
+      mic.stop();
+      return;
+    }
+    const transport = this.live?.transport;
+    if (transport) {
+      await transport.setMicrophoneTrack(track);
+      // `replaceTrack` is async too: a disconnect()/stopMic() during it must still win
+      if ((scope && !scope.isActive) || !mic.isActive) {
+        this.log.debug('Microphone attached after the session ended — releasing it');
+        mic.stop();
+        return;
+      }
+    }
+    this.set({ rtcMicActive: true });
+    this.log.debug('WebRTC microphone started');
+  }
+
+  private stopRtcMic(): void {
+    this.mic.stop();
+    this.live?.transport.setMicrophoneTrack(null).catch(() => undefined);
+    this.set({ rtcMicActive: false });
+    this.log.debug('WebRTC microphone stopped');
+  }
+
+  private toggleRtcMute(): void {
+    const next = !this.mic.isMuted;
+    this.mic.setMuted(next);
+    this.set({ rtcMuted: next });
+  }
+
+  // ===== Credentials =====
+
+  /**
+   * The token for a connection attempt: `connection.token`, the one refreshed ahead of expiry, or
+   * a new one from `getToken` — forced past the provider's cache after a rejection, or when the
+   * cached one is about to expire
+   */
+  private async connectionToken(): Promise<string | undefined> {
+    const { getToken, token } = this.config.connection;
+    if (!getToken) {
+      this.trackToken(token);
+      return token;
+    }
+    const forceRefresh = this.forceTokenRefresh;
+    const refreshed = this.refreshedToken;
+    this.forceTokenRefresh = false;
+    this.refreshedToken = null;
+    if (!forceRefresh && refreshed !== null && !isTokenExpiring(decodeTokenExpiry(refreshed))) {
+      this.trackToken(refreshed);
+      return refreshed;
+    }
+    let next = await getToken({ forceRefresh });
+    if (!forceRefresh && isTokenExpiring(decodeTokenExpiry(next))) {
+      this.log.debug('The provided token is about to expire — asking for a new one');
+      next = await getToken({ forceRefresh: true });
+    }
+    this.trackToken(next);
+    return next;
+  }
+
+  /** Publish the expiry of the token in use and arm its refresh (JWTs only) */
+  private trackToken(token: string | undefined): void {
+    const expiresAt = decodeTokenExpiry(token);
+    this.set({ tokenExpiresAt: expiresAt });
+    this.clearTokenRefreshTimer();
+    const connectionScope = this.connectionScope;
+    if (expiresAt === null || !connectionScope) return;
+    this.tokenRefreshTimer = setTimeout(() => {
+      this.tokenRefreshTimer = null;
+      if (!connectionScope.isActive) return;
+      const { getToken } = this.config.connection;
+      if (!getToken) {
+        // The open connection is not affected, but a reconnect with this token would be refused
+        this.log.warn(
+          `connection.token expires at ${new Date(expiresAt).toISOString()} — set connection.getToken to keep reconnecting`
+        );
+        return;
+      }
+      Promise.resolve()
+        .then(() => getToken({ forceRefresh: true }))
+        .then(
+          (next) => {
+            if (!connectionScope.isActive) return;
+            const nextExpiresAt = decodeTokenExpiry(next);
+            if (nextExpiresAt !== null && nextExpiresAt <= expiresAt) {
+              // Refreshing again would only return the same token: stop here, once
+              const message =
+                'Token refresh returned no token that expires later than the last one';
+              this.log.warn(message);
+              this.notify('authError', { message, willRetry: false });
+              return;
+            }
+            this.refreshedToken = next;
+            this.trackToken(next);
+          },
+          (err: unknown) => {
+            if (!connectionScope.isActive) return;
+            const message = `Token refresh failed: ${err instanceof Error ? err.message : String(err)}`;
+            this.log.warn(message);
+            this.notify('authError', { message, willRetry: false });
+          }
+        );
+    }, tokenRefreshDelay(expiresAt));
+  }
+
+  // ===== Session rollover =====
+
+  /** Arm the rollover of the live session, which expires at `expiresAt` (`sessionRollover`) */
+  private scheduleRollover(expiresAt: number): void {
+    this.clearRolloverTimer();
+    const options = resolveSessionRolloverOptions(this.config.sessionRollover);
+    if (!options || this.rollover) return;
+    if (this.config.session?.avatar) {
+      // The avatar's media connection would have to be negotiated again: the video would jump
+      this.log.debug('Session rollover is not available with an avatar');
+      return;
+    }
+    const connectionScope = this.connectionScope;
+    this.rolloverTimer = setTimeout(
+      () => {
+        this.rolloverTimer = null;
+        if (!connectionScope?.isActive || this.rollover) return;
+        this.log.debug('Session rollover due — waiting for a quiet moment');
+        this.rollover = { phase: 'due', standby: null, expiresAt: null, remoteStream: null };
+        this.maybeRollOver();
+      },
+      rolloverDelay(expiresAt, options.leadTimeMs)
+    );
+  }
+
+  /**
+   * Whether moving to another session now interrupts nothing: the user is not speaking, no
+   * response, tool call, approval or request is open, and no assistant audio is still streaming
+   * (WebRTC) or playing from the local queue (WebSocket)
+   */
+  private get isQuiet(): boolean {
+    const live = this.live;
+    return (
+      !!live?.ready &&
+      !live.restoring &&
+      this.fields.sessionState === 'listening' &&
+      !this.userSpeaking &&
+      !this.fields.turnActive &&
+      !this.remoteAudioPlaying &&
+      !this.player?.isPlaying &&
+      !this.gate.isBusy &&
+      this.responseRequests.size === 0 &&
+      this.toolBatches.size === 0 &&
+      this.heldToolCalls.size === 0 &&
+      this.serverToolCalls.size === 0 &&
+      this.requests.size === 0 &&
+      !this.mcpApprovals.hasPending
+    );
+  }
+
+  /** Move a rollover on if the session is quiet: open the next session, or switch over to it */
+  private maybeRollOver(): void {
+    const rollover = this.rollover;
+    if (!rollover || (rollover.phase !== 'due' && rollover.phase !== 'ready')) return;
+    if (!this.isQuiet) {
+      // Not every way to quiet is a server event (a confirmed tool call, a settled request,
+      // `endTurn()`), and none may follow it: look again shortly
+      if (!this.rolloverTimer) {
+        this.rolloverTimer = setTimeout(() => {
+          this.rolloverTimer = null;
+          if (this.rollover === rollover) this.maybeRollOver();
+        }, ROLLOVER_RECHECK_MS);
+      }
+      return;
+    }
+    this.clearRolloverTimer();
+    if (rollover.phase === 'due') {
+      rollover.phase = 'preparing';
+      void this.openStandby(rollover);
+    } else if (rollover.phase === 'ready') {
+      rollover.phase = 'switching';
+      void this.switchToStandby(rollover);
+    }
+  }
+
+  /** Open and configure the next session beside the live one, without a microphone yet */
+  private async openStandby(rollover: Rollover): Promise<void> {
+    const connectionScope = this.connectionScope;
+    const { connection, session: sessionConfig } = this.config;
+    // The kind of the live session: the running microphone is made for it
+    const kind = this.transportKind;
+    try {
+      const token = await this.connectionToken();
+      if (this.rollover !== rollover || !connectionScope?.isActive) return;
+      const { url } = buildVoiceLiveUrl({
+        ...connection,
+        transport: kind,
+        ...(token && { token }),
+      });
+      if (!this.notify('sessionRollover', { phase: 'started' }) || this.rollover !== rollover) {
+        return;
+      }
+      this.log.info(`Session expires soon — opening the next one (${kind})`);
+      const standby = this.createTransport(kind, connectionScope);
+      rollover.standby = standby;
+      standby.transport.connect(url, kind === 'webrtc' ? this.buildSession(sessionConfig) : {}, {
+        localTrack: kind === 'webrtc' ? null : undefined,
+      });
+    } catch (err) {
+      this.failRollover(rollover, err instanceof Error ? err.message : 'Failed to connect');
+    }
+  }
+
+  /** The next session's events until it takes over: only its configuration matters */
+  private handleStandbyEvent(
+    rollover: Rollover,
+    standby: LiveSession,
+    event: VoiceLiveServerEvent
+  ): void {
+    switch (event.type) {
+      case 'session.created':
+      case 'session.updated':
+        if (event.session?.expires_at) rollover.expiresAt = event.session.expires_at * 1000;
+        // WebRTC sessions are configured by their offer and ready with their media (`onReady`)
+        if (standby.transport.kind === 'webrtc') break;
+        if (event.type === 'session.created') {
+          const update = {
+            type: 'session.update',
+            session: this.buildSession(this.config.session),
+          };
+          standby.transport.send(JSON.stringify({ ...update, event_id: this.nextEventId() }));
+        } else {
+          this.onStandbyReady(rollover);
+        }
+        break;
+      case 'error':
+        this.failRollover(rollover, event.error?.message || 'Unknown API error');
+        break;
+      default:
+        break;
+    }
+  }
+
+  private onStandbyReady(rollover: Rollover): void {
+    if (rollover.phase !== 'preparing') return;
+    this.log.debug('Next session configured — switching over at the next quiet moment');
+    rollover.phase = 'ready';
+    this.maybeRollOver();
+  }
+
+  /** Give up on a rollover: the live session carries on until it expires */
+  private failRollover(rollover: Rollover, message: string): void {
+    if (this.rollover !== rollover) return;
+    this.rollover = null;
+    rollover.standby?.scope.abort();
+    this.log.warn(`Session rollover failed — the session ends at its expiry: ${message}`);
+    this.notify('sessionRollover', { phase: 'failed', error: message });
+  }
+
+  /**
+   * Carry the conversation over and make the next session the live one. The replay and the swap
+   * happen in one step, so no microphone chunk reaches either session in between; over WebRTC
+   * the track is attached to the new connection before the old one closes.
+   */
+  private async switchToStandby(rollover: Rollover): Promise<void> {
+    const previous = this.live;
+    const standby = rollover.standby;
+    if (!previous || !standby) return;
+    const options = resolveSessionRolloverOptions(this.config.sessionRollover);
+    const restore = resolveRestoreConversationOptions(
+      options?.conversation ?? true,
+      this.config.connection
+    );
+    const restored = restore ? await this.collectRestoredItems(restore) : null;
+    if (this.rollover !== rollover || this.live !== previous || !standby.scope.isActive) return;
+    if (!this.isQuiet) {
+      // The conversation moved on while it was summarized: try again when it rests
+      rollover.phase = 'ready';
+      this.maybeRollOver();
+      return;
+    }
+    this.rollover = null;
+    // Quiet: nothing of the old conversation is running, only its bookkeeping is left
+    this.currentResponseId = null;
+    this.locallyInterruptedResponseId = null;
+    this.clearLocalInterruptTimer();
+    this.completedResponses.clear();
+    this.restoredItemIds.clear();
+    this.live = standby;
+    standby.ready = true;
+    this.replayItems(restored?.items ?? []);
+    if (rollover.remoteStream) {
+      this.set({ audioStream: rollover.remoteStream });
+      if (!this.isTextOnly) this.ensureGraph().attachRemoteStream(rollover.remoteStream);
+    }
+    this.set({ sessionExpiresAt: rollover.expiresAt });
+    if (rollover.expiresAt) this.scheduleRollover(rollover.expiresAt);
+    const track = standby.transport.kind === 'webrtc' ? this.mic.track : null;
+    if (track) {
+      try {
+        await standby.transport.setMicrophoneTrack(track);
+      } catch (err) {
+        this.log.warn('Could not attach the microphone to the new session:', err);
+      }
+    }
+    previous.scope.abort();
+    if (this.live !== standby) return;
+    const restoredItems = restored?.kept.length ?? 0;
+    this.log.info(
+      `Rolled over to a new session (${restoredItems} conversation item(s) carried over)`
+    );
+    this.notify('sessionRollover', {
+      phase: 'completed',
+      expiresAt: rollover.expiresAt,
+      restoredItems,
+    });
+  }
+
+  // ===== Connection lifecycle =====
+
+  /**
+   * Release the media/session objects of the current connection (transport, avatar, player,
+   * audio graph). Used by disconnect() and between reconnect attempts (`keepAudio`).
+   */
+  private releaseConnection(options: { keepAudio: boolean }): void {
+    this.clearConnectTimer();
+    this.clearSpeculativeTimer();
+    this.clearRolloverTimer();
+    // A session being prepared to replace this one goes with it
+    this.rollover?.standby?.scope.abort();
+    this.rollover = null;
+    // Aborting the session scope is the single teardown signal: every in-flight continuation that
+    // captured it (tool executors, avatar negotiation, mic attachment) discards itself
+    const session = this.live;
+    this.live = null;
+    session?.scope.abort();
+    session?.transport.close();
+    this.avatar?.close();
+    this.avatar = null;
+    const changes: Partial<SessionFields> = { videoStream: null };
+    if (options.keepAudio) {
+      // Between reconnect attempts: keep the AudioContext (user gesture) but flush playback
+      this.player?.stop();
+      this.graph?.detachRemoteStream();
+    } else {
+      this.player?.dispose();
+      this.player = null;
+      this.graph?.close();
+      this.graph = null;
+      changes.audioStream = null;
+    }
+    this.currentResponseId = null;
+    this.locallyInterruptedResponseId = null;
+    this.clearLocalInterruptTimer();
+    this.gate.reset();
+    this.responseRequests.clear();
+    this.generationResponses.clear();
+    this.restoredItemIds.clear();
+    this.userSpeaking = false;
+    this.remoteAudioPlaying = false;
+    for (const batch of this.toolBatches.values()) {
+      if (batch.lateCallTimer) clearTimeout(batch.lateCallTimer);
+      // Nothing is answered: the conversation these calls belong to is gone
+      for (const call of batch.running.values()) {
+        if (call.timer) clearTimeout(call.timer);
+        call.controller.abort(toolAbortReason('The session ended', 'AbortError'));
+      }
+      batch.running.clear();
+    }
+    this.toolBatches.clear();
+    this.heldToolCalls.clear();
+    changes.pendingConfirmations = [];
+    // An open push-to-talk turn went with the buffer it was filling
+    changes.turnActive = false;
+    this.completedResponses.clear();
+    this.serverToolCalls.clear();
+    // An approval the service is still waiting for belongs to the conversation that just ended
+    this.mcpApprovals.dropPending();
+    this.requests.rejectAll(new Error('Session ended before the server acknowledged the request'));
+    this.responseHandles.failAll(new Error('Session ended before the response finished'));
+    this.assistantTranscript = '';
+    this.userTranscript = '';
+    // The expiry belonged to the session that just ended; the next session.created brings a new one
+    changes.sessionExpiresAt = null;
+    this.set(changes);
+    this.syncMicGate();
+  }
+
+  /**
+   * `transport: 'auto'`: once WebRTC failed to negotiate or to carry media, the connection goes on
+   * over WebSocket. An attempt whose session was not ready yet is repeated at once, without
+   * consuming a reconnect attempt; a ready session that fails so is a dropped connection, and
+   * the reconnect policy decides whether it is reconnected — over WebSocket.
+   *
+   * @returns false when the reconnect policy applies to the close
+   */
+  private fallBackToWebSocket(
+    connectionScope: Scope,
+    info: TransportCloseInfo,
+    wasReady: boolean
+  ): boolean {
+    const selected = this.autoTransport;
+    if (selected?.transport !== 'webrtc' || !isTransportFallbackClose(info)) return false;
+    this.log.warn(
+      `WebRTC failed (code ${info.code}${info.reason ? `, ${info.reason}` : ''}) — switching to WebSocket`
+    );
+    this.autoTransport = { transport: 'websocket', reason: 'fallback', closeCode: info.code };
+    if (wasReady) return false;
+    this.retryConnection(connectionScope);
+    return true;
+  }
+
+  /**
+   * Repeat the attempt that just failed at once, outside the reconnect policy: `reconnectAttempt`
+   * is left as is, so a retry during a reconnect still counts as that reconnect.
+   */
+  private retryConnection(connectionScope: Scope): void {
+    const mode = this.reconnectAttempt > 0 ? 'reconnect' : 'retry';
+    this.releaseConnection({ keepAudio: true });
+    this.set({ connectionState: mode === 'reconnect' ? 'reconnecting' : 'connecting' });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!connectionScope.isActive) return;
+      void this.openConnection(connectionScope, mode);
+    }, 0);
+  }
+
+  /**
+   * Schedule a reconnect attempt after an unexpected close, or settle into
+   * 'disconnected' / 'error' when reconnecting is off or exhausted.
+   */
+  private handleUnexpectedClose(connectionScope: Scope, info: TransportCloseInfo): void {
+    const policy = resolveReconnectOptions(this.config.reconnect);
+    const attempt = this.reconnectAttempt + 1;
+    const closeDetails = `code ${info.code}${info.reason ? `, ${info.reason}` : ''}`;
+    // A rejected token may only be stale: one immediate retry with a new one, whatever the
+    // policy. It is not a reconnect attempt, so it neither needs `reconnect` nor uses one up.
+    const authFailure = isAuthFailureClose(info);
+    if (authFailure && this.config.connection.getToken && !this.authRetried) {
+      this.authRetried = true;
+      this.forceTokenRefresh = true;
+      this.log.warn(`Connection rejected (${closeDetails}) — retrying with a refreshed token`);
+      this.retryConnection(connectionScope);
+      const message = `Connection rejected (${closeDetails})`;
+      this.notify('authError', { message, closeCode: info.code, willRetry: true });
+      return;
+    }
+    if (policy && isReconnectableClose(info) && attempt <= policy.maxAttempts) {
+      const delayMs = computeBackoffDelay(attempt, policy);
+      this.reconnectAttempt = attempt;
+      this.set({ reconnectAttempt: attempt, connectionState: 'reconnecting' });
+      this.log.warn(
+        `Connection lost (${closeDetails}) — reconnect attempt ${attempt}/${policy.maxAttempts} in ${delayMs} ms`
+      );
+      // Keep the AudioContext (created on the user's gesture) but drop everything else, then
+      // arm the retry *before* notifying: a throwing callback must not strand the state machine
+      this.releaseConnection({ keepAudio: true });
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (!connectionScope.isActive) return; // disconnect()/connect() happened meanwhile
+        void this.openConnection(connectionScope, 'reconnect');
+      }, delayMs);
+      this.notify('reconnecting', attempt, delayMs);
+      return;
+    }
+    const gaveUp = policy !== null && this.reconnectAttempt > 0;
+    const message = authFailure
+      ? `Connection rejected (${closeDetails})`
+      : gaveUp
+        ? `Connection lost — giving up after ${this.reconnectAttempt} reconnect attempt(s)`
+        : null;
+    // Nothing will follow this close, so end the whole connection (microphone included).
+    // The mute preference is kept: it belongs to the user, not to the connection.
+    this.endConnection({ resetMute: false });
+    if (message) {
+      this.log.error(message);
+      this.set({ error: message, connectionState: 'error' });
+    } else if (this.fields.connectionState !== 'error') {
+      this.set({ connectionState: 'disconnected' });
+    }
+    if (authFailure && message) {
+      this.notify('authError', { message, closeCode: info.code, willRetry: false });
+    }
+  }
+
+  /**
+   * Create the transport for one connection attempt and wire its callbacks. Callbacks from a
+   * stale generation or a transport that has been replaced are ignored.
+   */
+  private createTransport(kind: TransportKind, connectionScope: Scope): LiveSession {
+    const log = this.log;
+    // One session record per attempt. Its scope is a child of the connection scope, so
+    // `disconnect()` ends both, while a reconnect only replaces the session.
+    const scope = connectionScope.child('session');
+    let session: LiveSession | null = null;
+    /** Callbacks from a superseded transport (or after teardown) are ignored */
+    const isStale = (): boolean => this.live !== session || !scope.isActive;
+    /** The rollover this transport is the next session of, until it takes over */
+    const standbyOf = (): Rollover | null =>
+      this.rollover?.standby === session && scope.isActive ? this.rollover : null;
+
+    const callbacks: TransportCallbacks = {
+      onOpen: () => {
+        if (standbyOf()) return;
+        if (isStale()) return;
+        this.clearConnectTimer();
+        log.info(kind === 'webrtc' ? 'Control channel connected' : 'WebSocket connected');
+        this.set({ connectionState: 'connected' });
+        this.setUpOutputAudio(kind);
+      },
+      onEvent: (event) => {
+        const rollover = standbyOf();
+        if (rollover) {
+          this.handleStandbyEvent(rollover, session as LiveSession, event);
+          return;
+        }
+        if (isStale()) return;
+        // A due rollover waits for the moment an event leaves the session quiet
+        void this.handleServerEvent(event).then(() => this.maybeRollOver());
+      },
+      onError: (message, cause) => {
+        const rollover = standbyOf();
+        if (rollover) {
+          this.failRollover(rollover, message);
+          return;
+        }
+        if (isStale()) return;
+        log.error(message, cause ?? '');
+        this.set({ error: message, connectionState: 'error' });
+      },
+      onClose: (info) => {
+        const rollover = standbyOf();
+        if (rollover) {
+          this.failRollover(rollover, `closed with code ${info.code}`);
+          return;
+        }
+        if (isStale()) return;
+        log.info(
+          `Connection closed - Code: ${info.code}, Reason: ${info.reason || 'none'}, Clean: ${info.wasClean}`
+        );
+        if (!info.wasClean) {
+          log.warn('Connection closed unexpectedly');
+        }
+        // The transport closed itself; drop the record so releaseConnection() does not re-close it
+        this.live = null;
+        scope.abort();
+        this.set({ isReady: false, sessionState: 'idle' });
+        if (this.fallBackToWebSocket(connectionScope, info, (session as LiveSession).ready)) return;
+        this.handleUnexpectedClose(connectionScope, info);
+      },
+      onReady: (reason) => {
+        const rollover = standbyOf();
+        if (rollover) {
+          this.onStandbyReady(rollover);
+          return;
+        }
+        if (isStale()) return;
+        log.debug(`Transport ready (${reason})`);
+        this.announceReady();
+      },
+      onRemoteStream: (stream) => {
+        const rollover = standbyOf();
+        if (rollover) {
+          rollover.remoteStream = stream;
+          return;
+        }
+        if (isStale()) return;
+        this.set({ audioStream: stream });
+        // Remote tracks start muted and unmute once RTP packets arrive — useful for diagnostics
+        stream.getAudioTracks().forEach((track) => {
+          track.addEventListener(
+            'unmute',
+            () => log.debug('Remote audio flowing (track unmuted)'),
+            {
+              once: true,
+            }
+          );
+        });
+        // A text-only session gets the graph (and its AudioContext) on a switch to voice
+        if (!this.isTextOnly) this.ensureGraph().attachRemoteStream(stream);
+      },
+    };
+
+    const create = (wired: TransportCallbacks): VoiceLiveTransport => {
+      if (this.config.createTransport) return this.config.createTransport(wired, kind);
+      return kind === 'webrtc'
+        ? new WebRtcTransport(wired, {
+            rtcConfiguration: this.config.connection.rtcConfiguration,
+            log,
+          })
+        : new WebSocketTransport(wired, { log });
+    };
+    const recorder = this.config.recorder;
+    const transport = recorder ? recorder.wrap(callbacks, create) : create(callbacks);
+    // Closing the transport is part of ending the session, wherever the abort comes from
+    scope.onAbort(() => transport.close());
+    session = { scope, transport, ready: false };
+    return session;
+  }
+
+  /**
+   * Open a connection for the given generation (initial connect, reconnect attempt, or an
+   * immediate retry of a failed first attempt: refreshed token, WebSocket fallback)
+   */
+  private async openConnection(
+    connectionScope: Scope,
+    mode: 'initial' | 'reconnect' | 'retry'
+  ): Promise<void> {
+    const log = this.log;
+    const { connection: currentConnection, session: currentSession } = this.config;
+    const kind = this.selectTransport();
+
+    try {
+      this.set({
+        error: null,
+        connectionState: mode === 'reconnect' ? 'reconnecting' : 'connecting',
+      });
+      const selected = this.autoTransport;
+      if (selected && selected !== this.reportedTransport) {
+        this.reportedTransport = selected;
+        log.info(`Transport: ${selected.transport} (${selected.reason})`);
+        this.notify('transportSelected', selected);
+        if (!connectionScope.isActive) return; // disconnected from the callback
+      }
+
+      // Fresh token per attempt when a provider is configured
+      const token = await this.connectionToken();
+      if (!connectionScope.isActive) return; // disconnected while acquiring the token
+      const resolvedConnection = { ...currentConnection, transport: kind, ...(token && { token }) };
+
+      const { url, isAgentMode, modeLabel } = buildVoiceLiveUrl(resolvedConnection);
+      this.isAgentMode = isAgentMode;
+      if (this.transportKind !== kind) {
+        // The consumer changed `connection.transport` and this attempt picks it up. The
+        // microphone belongs to the *connection* and survives reconnects, but each kind has its
+        // own capture (RTP track vs. PCM events) — carrying the old one over would leave it
+        // recording with nothing able to stop it, and the WebSocket capture would send
+        // input_audio_buffer.append over a WebRTC control channel that does not accept it.
+        const micWasActive =
+          this.transportKind === 'webrtc' ? this.fields.rtcMicActive : this.capture.isCapturing;
+        if (this.transportKind === 'webrtc') this.stopRtcMic();
+        else this.capture.stop();
+        this.transportKind = kind;
+        // An 'auto' fallback continues the same session for the user: the microphone follows it
+        if (micWasActive && this.autoTransport?.reason === 'fallback') {
+          this.startMic().catch((err) => log.error('Microphone error:', err));
+        }
+      }
+      this.transportKind = kind;
+
+      log.info(
+        `${mode === 'reconnect' ? 'Reconnecting' : 'Connecting'} (${modeLabel}, ${kind}) → ${redactUrl(url)}`
+      );
+      if (mode === 'initial') {
+        // Local compatibility warnings reach `onWarning` like the service's own `warning`
+        // events, so an app can surface them in its UI instead of only in the console
+        validateConfig(currentSession ?? {}, isAgentMode, currentConnection.model).forEach(
+          (warning) => {
+            log.warn(warning);
+            this.notify('warning', { message: warning, code: CLIENT_CONFIG_WARNING_CODE });
+          }
+        );
+        // A consumer may `disconnect()` from `onWarning`. Continuing would open a socket whose
+        // scope is already aborted — its close handler runs before `connect()` and the transport
+        // would be left open with nothing able to shut it down.
+        if (!connectionScope.isActive) {
+          log.debug('Connection ended while reporting configuration warnings');
+          return;
+        }
+      }
+      if (kind === 'webrtc') {
+        validateTransport(resolvedConnection, currentSession);
+      }
+
+      // Replace whatever session is left from a previous attempt (silently)
+      const previous = this.live;
+      this.live = null;
+      previous?.scope.abort();
+      connectionScope.pruneChildren();
+      // WebRTC embeds the session in `rtc.call.sdp.create` and is ready before any
+      // `session.updated`, so seed the effective VAD behaviour from what we send; later server
+      // echoes still correct it.
+      this.autoCreateResponse = currentSession?.turnDetection?.createResponse !== false;
+      const session = this.createTransport(kind, connectionScope);
+      this.live = session;
+      this.publish();
+      // A new conversation has no outstanding requests, whatever happened before it
+      this.gate.reset();
+      session.transport.connect(url, kind === 'webrtc' ? this.buildSession(currentSession) : {}, {
+        // WebRTC: keep sending the microphone that was started before connect()/reconnect
+        localTrack: kind === 'webrtc' ? (this.mic.track ?? null) : undefined,
+      });
+
+      // A socket that never opens *and* never errors (silently dropped upgrade, dead proxy)
+      // would leave the session in 'connecting' forever, and connect() refuses to run again
+      const timeoutMs = this.config.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+      this.clearConnectTimer();
+      if (timeoutMs > 0) {
+        this.connectTimer = setTimeout(() => {
+          this.connectTimer = null;
+          if (this.live !== session || !session.scope.isActive) return;
+          if (session.transport.state === 'open') return;
+          const message = `Connection timed out after ${timeoutMs} ms (control channel never opened)`;
+          log.error(message);
+          this.live = null;
+          session.scope.abort(); // closes the transport via its onAbort handler
+          this.set({ isReady: false, error: message, connectionState: 'error' });
+          // Let the reconnect policy decide whether to try again
+          this.handleUnexpectedClose(connectionScope, {
+            code: CONNECT_TIMEOUT_CLOSE_CODE,
+            reason: message,
+            wasClean: false,
+          });
+        }, timeoutMs);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to connect';
+      log.error('Connection error:', err);
+      this.clearConnectTimer();
+      if (!connectionScope.isActive) return; // superseded meanwhile
+      if (mode === 'reconnect') {
+        // A transient getToken()/setup failure must consume an attempt and continue the
+        // backoff policy instead of ending the session with no transport and no timer
+        this.handleUnexpectedClose(connectionScope, {
+          code: RECONNECT_SETUP_FAILED_CLOSE_CODE,
+          reason: errorMessage,
+          wasClean: false,
+        });
+        return;
+      }
+      // Nothing will follow a failed initial connect either: end the connection so a
+      // pre-connect `startMic()` microphone is released instead of recording into nothing
+      this.endConnection({ resetMute: false });
+      this.set({ error: errorMessage, connectionState: 'error' });
+    }
+  }
+
+  /**
+   * Connect to Voice Live API
+   */
+  async connect(): Promise<void> {
+    // Idempotent: a second call while a transport is connecting/open is a no-op
+    const active = this.live?.transport;
+    if (active && (active.state === 'connecting' || active.state === 'open')) {
+      this.log.warn('connect() ignored: already connecting or connected');
+      return;
+    }
+    // A manual connect() supersedes a pending reconnect
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    this.set({ reconnectAttempt: 0 });
+    this.authRetried = false;
+    this.forceTokenRefresh = false;
+    this.greetingSent = false;
+    this.confirmedFormats = {};
+    this.modalities = null;
+    // A new connection is a new server-side conversation; the history is kept until then, so it
+    // can still be shown after a disconnect
+    this.conversation.clear();
+    this.set({ responseText: null });
+    this.mcpApprovals.reset();
+
+    // A fresh connection lifetime; anything still referring to the old one is now inert
+    this.connectionScope?.abort();
+    const connectionScope = new Scope('connection');
+    this.connectionScope = connectionScope;
+    await this.openConnection(connectionScope, 'initial');
+  }
+
+  /**
+   * End the connection lifetime: no reconnect will follow, so the microphone (which is
+   * deliberately kept *across* reconnect attempts) must be released too. Used by `disconnect()`
+   * and by every terminal close — leaving the microphone live after the session ended would keep
+   * the browser's recording indicator on.
+   */
+  private endConnection(options: { resetMute: boolean }): void {
+    this.connectionScope?.abort();
+    this.connectionScope = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    this.greetingSent = false;
+    this.clearTokenRefreshTimer();
+    this.refreshedToken = null;
+    // `transport: 'auto'` chooses again on the next connect(), from what was remembered
+    this.autoTransport = null;
+    this.reportedTransport = null;
+
+    // Stop microphone capture (both transports)
+    this.capture.stop();
+    this.mic.stop();
+    if (options.resetMute) this.mic.setMuted(false);
+    // The token belonged to this connection; the next connect() fetches its own
+    const changes: Partial<SessionFields> = { rtcMicActive: false, tokenExpiresAt: null };
+    if (options.resetMute) changes.rtcMuted = false;
+
+    this.releaseConnection({ keepAudio: false });
+
+    this.set({ ...changes, reconnectAttempt: 0, isReady: false, sessionState: 'idle' });
+  }
+
+  /**
+   * Disconnect from Voice Live API
+   */
+  disconnect(): void {
+    this.log.info('Disconnecting...');
+    this.endConnection({ resetMute: true });
+    this.set({ sessionExpiresAt: null, connectionState: 'disconnected' });
+  }
+}
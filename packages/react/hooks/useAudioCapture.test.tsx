@@ -169,6 +169,43 @@ describe('useAudioCapture', () => {
     expect(onAudioData).toHaveBeenCalledTimes(3);
   });
 
+  it('passes vad to the worklet and reports its speech changes, flushing the utterance tail', async () => {
+    const onAudioData = vi.fn();
+    const onVoiceActivity = vi.fn();
+    const { result } = renderHook(() =>
+      useAudioCapture({ onAudioData, vad: { hangoverMs: 1000 }, onVoiceActivity })
+    );
+    await act(async () => {
+      await result.current.startCapture();
+    });
+    const node = FakeAudioWorkletNode.instances[0]!;
+    expect(node.options.processorOptions).toEqual({
+      channels: 1,
+      vad: {
+        thresholdDb: 12,
+        maxSpectralFlatness: 0.35,
+        minSpeechMs: 60,
+        hangoverMs: 1000,
+        prefixPaddingMs: 300,
+      },
+    });
+
+    act(() => {
+      node.port.onmessage?.({ data: { type: 'vad', speaking: true } });
+    });
+    expect(result.current.isSpeaking).toBe(true);
+    emit(node, 3000);
+    expect(onAudioData).toHaveBeenCalledTimes(1);
+    act(() => {
+      node.port.onmessage?.({ data: { type: 'vad', speaking: false } });
+    });
+    expect(result.current.isSpeaking).toBe(false);
+    expect(onVoiceActivity.mock.calls).toEqual([[true], [false]]);
+    // The 600 samples left over were not held for the next utterance
+    expect(onAudioData).toHaveBeenCalledTimes(2);
+    expect((onAudioData.mock.calls[1]![0] as ArrayBuffer).byteLength).toBe(600 * 2);
+  });
+
   it('mute drops incoming audio without stopping the stream; pause/resume suspend the context', async () => {
     const onAudioData = vi.fn();
     const { result } = renderHook(() => useAudioCapture({ onAudioData }));
@@ -289,4 +326,62 @@ describe('useAudioCapture', () => {
     expect(ctx.closed).toBe(true);
     expect(FakeAudioWorkletNode.instances).toHaveLength(0);
   });
+
+  it('captures interleaved stereo with a playback reference attached while running', async () => {
+    const onAudioData = vi.fn();
+    const reference = { id: 'played-audio' } as unknown as MediaStream;
+    const { result, rerender } = renderHook(
+      ({ referenceStream }: { referenceStream: MediaStream | null }) =>
+        useAudioCapture({ channels: 2, referenceStream, onAudioData }),
+      { initialProps: { referenceStream: null as MediaStream | null } }
+    );
+    await act(async () => {
+      await result.current.startCapture();
+    });
+    const ctx = FakeAudioContext.instances[0]!;
+    const node = FakeAudioWorkletNode.instances[0]!;
+    expect(node.options).toEqual({ numberOfInputs: 2, processorOptions: { channels: 2 } });
+    expect(ctx.mediaStreamSources).toHaveLength(1); // the microphone only, for now
+
+    rerender({ referenceStream: reference });
+    const referenceSource = ctx.mediaStreamSources[1]!;
+    expect(referenceSource.stream).toBe(reference);
+    expect(referenceSource.connect).toHaveBeenCalledWith(node, 0, 1);
+
+    // 2400 frames of two channels per chunk
+    emit(node, 2400);
+    expect(onAudioData).not.toHaveBeenCalled();
+    emit(node, 2400);
+    expect((onAudioData.mock.calls[0]![0] as ArrayBuffer).byteLength).toBe(2400 * 2 * 2);
+
+    act(() => {
+      result.current.stopCapture();
+    });
+    expect(referenceSource.disconnect).toHaveBeenCalled();
+  });
+  it('encodes G.711 at 8 kHz: 100 ms at 24 kHz becomes 800 bytes', async () => {
+    const onAudioData = vi.fn();
+    const { result } = renderHook(() => useAudioCapture({ format: 'g711_ulaw', onAudioData }));
+    await act(async () => {
+      await result.current.startCapture();
+    });
+    const node = FakeAudioWorkletNode.instances[0]!;
+    emit(node, 2400, 0);
+    emit(node, 2400, 0);
+    const [first, second] = onAudioData.mock.calls.map(([data]) => new Uint8Array(data));
+    // the resampler holds back a few samples for its filter, and catches up in the next chunk
+    expect(first!.length).toBeGreaterThan(790);
+    expect(first!.length + second!.length).toBeGreaterThan(1590);
+    expect([...first!].every((byte) => byte === 0xff)).toBe(true); // μ-law silence
+  });
+
+  it('refuses stereo capture in a G.711 format', async () => {
+    const { result } = renderHook(() =>
+      useAudioCapture({ channels: 2, format: 'g711_alaw', onAudioData: vi.fn() })
+    );
+    await act(async () => {
+      await expect(result.current.startCapture()).rejects.toThrow(/pcm16/);
+    });
+    expect(result.current.error).toMatch(/pcm16/);
+  });
 });
@@ -221,6 +221,383 @@ describe('useVoiceLive (reconnect)', () => {
     expect(getToken).toHaveBeenCalledTimes(3);
   });
 
+  it('refreshes an expiring token ahead of time and retries a rejected connection once', async () => {
+    const jwt = (exp: number) =>
+      ['e30', btoa(JSON.stringify({ exp })).replace(/=+$/, ''), 'sig'].join('.');
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    const exp2 = exp + 3600;
+    const getToken = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) =>
+      jwt(forceRefresh ? exp2 : exp)
+    );
+    const onAuthError = vi.fn();
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', getToken },
+      onAuthError,
+    });
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: false });
+    expect(hook.result.current.tokenExpiresAt).toBe(exp * 1000);
+
+    // five minutes ahead of expiry the next token is fetched
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5 * 60_000);
+    });
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+    expect(hook.result.current.tokenExpiresAt).toBe(exp2 * 1000);
+
+    // a rejection is retried at once with a fresh token, even with reconnect off
+    await act(async () => {
+      ws.drop(1008, 'Unauthorized');
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(onAuthError).toHaveBeenCalledWith(
+      expect.objectContaining({ closeCode: 1008, willRetry: true })
+    );
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(hook.result.current.connectionState).toBe('connecting');
+    expect(hook.result.current.reconnectAttempt).toBe(0);
+
+    // a second rejection is final
+    await act(async () => {
+      FakeWebSocket.instances[1]!.drop(1008, 'Unauthorized');
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+    expect(onAuthError).toHaveBeenLastCalledWith(
+      expect.objectContaining({ closeCode: 1008, willRetry: false })
+    );
+    expect(hook.result.current.connectionState).toBe('error');
+    expect(hook.result.current.tokenExpiresAt).toBeNull();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('reconnects with the token refreshed ahead of expiry', async () => {
+    const jwt = (exp: number) =>
+      ['e30', btoa(JSON.stringify({ exp })).replace(/=+$/, ''), 'sig'].join('.');
+    const exp = Math.floor(Date.now() / 1000) + 600;
+    let calls = 0;
+    const getToken = vi.fn(async () => jwt(exp + 3600 * calls++));
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', getToken },
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5 * 60_000);
+    });
+    expect(getToken).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      ws.drop(1006);
+      await vi.advanceTimersByTimeAsync(10);
+    });
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(hook.result.current.tokenExpiresAt).toBe((exp + 3600) * 1000);
+  });
+
+  it('stops refreshing when the provider keeps returning the same token', async () => {
+    const jwt = (exp: number) =>
+      ['e30', btoa(JSON.stringify({ exp })).replace(/=+$/, ''), 'sig'].join('.');
+    const token = jwt(Math.floor(Date.now() / 1000) + 120);
+    const getToken = vi.fn(async () => token);
+    const onAuthError = vi.fn();
+    await connectAndReady({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', getToken },
+      onAuthError,
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(200_000);
+    });
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+    expect(onAuthError).toHaveBeenCalledWith(expect.objectContaining({ willRetry: false }));
+  });
+
+  it('does not count the token retry as a reconnect attempt', async () => {
+    const getToken = vi.fn(async () => 'token');
+    const onReconnecting = vi.fn();
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', getToken },
+      reconnect: { initialDelayMs: 10, jitter: 0, maxAttempts: 1 },
+      onReconnecting,
+    });
+
+    await act(async () => {
+      ws.drop(1008, 'Unauthorized');
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(hook.result.current.reconnectAttempt).toBe(0);
+    expect(onReconnecting).not.toHaveBeenCalled();
+
+    // the retried connection drops too: the single reconnect attempt is still there
+    await act(async () => {
+      FakeWebSocket.instances[1]!.drop(1006);
+    });
+    expect(hook.result.current.connectionState).toBe('reconnecting');
+    expect(onReconnecting).toHaveBeenCalledWith(1, 10);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(10);
+    });
+    expect(FakeWebSocket.instances).toHaveLength(3);
+  });
+
+  it('restores the conversation into the new session before it is ready again', async () => {
+    let finishSummary: (summary: string) => void = () => undefined;
+    const summarize = vi.fn(() => new Promise<string>((resolve) => (finishSummary = resolve)));
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      reconnect: {
+        initialDelayMs: 10,
+        jitter: 0,
+        restoreConversation: { maxTurns: 1, summarize },
+      },
+    });
+    const turn = (n: number) => [
+      {
+        type: 'conversation.item.created',
+        item: {
+          id: `u${n}`,
+          type: 'message',
+          role: 'user',
+          status: 'completed',
+          content: [{ type: 'input_text', text: `Question ${n}` }],
+        },
+      },
+      {
+        type: 'response.output_item.done',
+        response_id: `r${n}`,
+        item: {
+          id: `a${n}`,
+          type: 'message',
+          role: 'assistant',
+          status: 'completed',
+          content: [{ type: 'audio', transcript: `Answer ${n}` }],
+        },
+      },
+    ];
+    await act(async () => {
+      [...turn(1), ...turn(2)].forEach((event) => ws.receive(event));
+    });
+    const history = hook.result.current.conversation;
+    expect(history).toHaveLength(4);
+
+    await act(async () => {
+      ws.drop(1006);
+      await vi.advanceTimersByTimeAsync(10);
+    });
+    const ws2 = FakeWebSocket.instances.at(-1)!;
+    await act(async () => {
+      ws2.open();
+      ws2.receive({ type: 'session.created', session: { id: 's2' } });
+      ws2.receive({ type: 'session.updated', session: { id: 's2' } });
+    });
+    // Summarizing the older turn: not ready (the microphone waits), nothing replayed yet
+    expect(summarize).toHaveBeenCalledWith(history.slice(0, 2));
+    expect(hook.result.current.isReady).toBe(false);
+    expect(ws2.sent.filter((e) => e.type === 'conversation.item.create')).toEqual([]);
+
+    await act(async () => {
+      finishSummary('The user asked question 1.');
+    });
+    expect(hook.result.current.isReady).toBe(true);
+    const replayed = ws2.sent
+      .filter((e) => e.type === 'conversation.item.create')
+      .map((e) => e.item);
+    expect(replayed).toEqual([
+      {
+        type: 'message',
+        role: 'system',
+        id: expect.any(String),
+        content: [
+          {
+            type: 'input_text',
+            text: 'Summary of the conversation so far: The user asked question 1.',
+          },
+        ],
+      },
+      {
+        type: 'message',
+        role: 'user',
+        id: 'u2',
+        content: [{ type: 'input_text', text: 'Question 2' }],
+      },
+      {
+        type: 'message',
+        role: 'assistant',
+        id: 'a2',
+        content: [{ type: 'text', text: 'Answer 2' }],
+      },
+    ]);
+
+    // The echoes leave the history as it was
+    await act(async () => {
+      replayed.forEach((item) =>
+        ws2.receive({ type: 'conversation.item.created', item: { ...item, status: 'completed' } })
+      );
+    });
+    expect(hook.result.current.conversation).toBe(history);
+  });
+
+  it('rolls over to a new session at a quiet moment before the old one expires', async () => {
+    const onSessionRollover = vi.fn();
+    const onEvent = vi.fn();
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      sessionRollover: { leadTimeMs: 1000 },
+      onSessionRollover,
+      onEvent,
+    });
+    const expiresAt = Math.floor(Date.now() / 1000) + 3;
+    await act(async () => {
+      ws.receive({ type: 'session.updated', session: { id: 's1', expires_at: expiresAt } });
+      ws.receive({
+        type: 'conversation.item.created',
+        item: {
+          id: 'u1',
+          type: 'message',
+          role: 'user',
+          status: 'completed',
+          content: [{ type: 'input_text', text: 'Hello' }],
+        },
+      });
+      ws.receive({ type: 'response.created', response: { id: 'r1' } });
+    });
+
+    // Due while the assistant is answering: the rollover waits for the response to end
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(3000);
+    });
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    await act(async () => {
+      ws.receive({ type: 'response.done', response: { id: 'r1', status: 'completed' } });
+    });
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(onSessionRollover).toHaveBeenCalledWith({ phase: 'started' });
+    const ws2 = FakeWebSocket.instances[1]!;
+    expect(ws2.url).toBe(ws.url);
+
+    // The next session is configured beside the live one, which stays in charge meanwhile
+    const events = onEvent.mock.calls.length;
+    await act(async () => {
+      ws2.open();
+      ws2.receive({ type: 'session.created', session: { id: 's2', expires_at: expiresAt + 1800 } });
+    });
+    expect(ws2.lastSent('session.update')).toBeTruthy();
+    expect(ws.readyState).toBe(FakeWebSocket.OPEN);
+    await act(async () => {
+      ws2.receive({ type: 'session.updated', session: { id: 's2' } });
+    });
+    // Its setup is not the conversation's business
+    expect(onEvent).toHaveBeenCalledTimes(events);
+
+    expect(ws.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(
+      ws2.sent.filter((e) => e.type === 'conversation.item.create').map((e) => e.item)
+    ).toEqual([
+      { type: 'message', role: 'user', id: 'u1', content: [{ type: 'input_text', text: 'Hello' }] },
+    ]);
+    expect(onSessionRollover).toHaveBeenLastCalledWith({
+      phase: 'completed',
+      expiresAt: (expiresAt + 1800) * 1000,
+      restoredItems: 1,
+    });
+    expect(hook.result.current.isReady).toBe(true);
+    expect(hook.result.current.connectionState).toBe('connected');
+    expect(hook.result.current.sessionExpiresAt).toBe((expiresAt + 1800) * 1000);
+
+    // The conversation goes on in the new session
+    await act(async () => {
+      hook.result.current.sendText('Still there?');
+    });
+    expect(ws2.lastSent('response.create')).toBeTruthy();
+    expect(ws.lastSent('response.create')).toBeUndefined();
+  });
+
+  it('waits for the local playback of the last answer before rolling over', async () => {
+    const { ws } = await connectAndReady({ ...baseConfig, sessionRollover: { leadTimeMs: 1000 } });
+    await act(async () => {
+      ws.receive({
+        type: 'session.updated',
+        session: { id: 's1', expires_at: Math.floor(Date.now() / 1000) + 2 },
+      });
+      ws.receive({ type: 'response.created', response: { id: 'r1' } });
+      ws.receive({ type: 'response.audio.delta', response_id: 'r1', delta: btoa('\x01\x00') });
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+    const player = FakeAudioWorkletNode.instances.find(
+      (node) => node.name === 'audio-playback-processor'
+    )!;
+    expect(player.port.postMessage).toHaveBeenCalledTimes(1);
+
+    // The response is done on the wire, but its audio still plays here
+    await act(async () => {
+      ws.receive({ type: 'response.done', response: { id: 'r1', status: 'completed' } });
+    });
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    await act(async () => {
+      player.port.onmessage?.({ data: { type: 'drained', received: 1 } });
+    });
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('rolls over once the session becomes quiet without another server event', async () => {
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      sessionRollover: { leadTimeMs: 1000 },
+    });
+    let settled: unknown;
+    await act(async () => {
+      ws.receive({
+        type: 'session.updated',
+        session: { id: 's1', expires_at: Math.floor(Date.now() / 1000) + 2 },
+      });
+      // A request the service never answers keeps the session busy until it times out locally
+      hook.result.current
+        .sendRequest({ type: 'conversation.item.retrieve', item_id: 'x' }, { timeoutMs: 3000 })
+        .catch((err: Error) => (settled = err));
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1500);
+    });
+    expect(settled).toBeInstanceOf(Error);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('keeps the session when the next one cannot be set up', async () => {
+    const onSessionRollover = vi.fn();
+    const { hook, ws } = await connectAndReady({
+      ...baseConfig,
+      sessionRollover: { leadTimeMs: 1000 },
+      onSessionRollover,
+    });
+    await act(async () => {
+      ws.receive({
+        type: 'session.updated',
+        session: { id: 's1', expires_at: Math.floor(Date.now() / 1000) + 2 },
+      });
+      await vi.advanceTimersByTimeAsync(2000);
+    });
+    const ws2 = FakeWebSocket.instances[1]!;
+    await act(async () => {
+      ws2.drop(1006);
+    });
+    expect(onSessionRollover).toHaveBeenLastCalledWith({
+      phase: 'failed',
+      error: 'closed with code 1006',
+    });
+    expect(ws.readyState).toBe(FakeWebSocket.OPEN);
+    expect(hook.result.current.isReady).toBe(true);
+    expect(hook.result.current.connectionState).toBe('connected');
+  });
+
   it('reconnects the WebRTC transport after a negotiation timeout and re-attaches the mic track', async () => {
     const { hook } = {
       hook: renderHook(() =>
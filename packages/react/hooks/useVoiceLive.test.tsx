@@ -5,7 +5,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useVoiceLive, CLIENT_CONFIG_WARNING_CODE } from './useVoiceLive';
-import { FakeWebSocket, installBrowserFakes } from './testFakes';
+import { FakeAudioWorkletNode, FakeWebSocket, installBrowserFakes } from './testFakes';
 import type { UseVoiceLiveConfig } from '../types/voiceLive';
 
 let restore: () => void;
@@ -160,6 +160,59 @@ describe('useVoiceLive (websocket)', () => {
     hook.unmount();
   });
 
+  it('exposes the conversation history, kept after disconnect and cleared by connect()', async () => {
+    const { hook, ws } = await connectAndOpen(baseConfig);
+    await deliver(ws, { type: 'session.created', session: {} });
+    await deliver(ws, { type: 'session.updated', session: {} });
+    expect(hook.result.current.conversation).toEqual([]);
+
+    await deliver(ws, {
+      type: 'conversation.item.created',
+      item: {
+        id: 'u1',
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: 'Hi' }],
+      },
+    });
+    await deliver(ws, {
+      type: 'response.output_item.added',
+      response_id: 'r1',
+      output_index: 0,
+      item: { id: 'a1', type: 'message', role: 'assistant', status: 'in_progress', content: [] },
+    });
+    await deliver(ws, {
+      type: 'response.audio_transcript.delta',
+      response_id: 'r1',
+      item_id: 'a1',
+      output_index: 0,
+      content_index: 0,
+      delta: 'Hello!',
+    });
+    expect(hook.result.current.conversation).toEqual([
+      { id: 'u1', type: 'message', role: 'user', status: 'completed', text: 'Hi', hasAudio: false },
+      {
+        id: 'a1',
+        type: 'message',
+        role: 'assistant',
+        status: 'in_progress',
+        responseId: 'r1',
+        text: 'Hello!',
+        hasAudio: false,
+      },
+    ]);
+
+    await act(async () => {
+      hook.result.current.disconnect();
+    });
+    expect(hook.result.current.conversation).toHaveLength(2);
+    await act(async () => {
+      await hook.result.current.connect();
+    });
+    expect(hook.result.current.conversation).toEqual([]);
+    hook.unmount();
+  });
+
   it('auto-sends tool results returned by toolExecutor and stays quiet for void executors', async () => {
     const toolExecutor = vi.fn(async (name: string) =>
       name === 'get_time' ? { time: '12:00' } : undefined
@@ -182,7 +235,9 @@ describe('useVoiceLive (websocket)', () => {
       await Promise.resolve();
     });
 
-    expect(toolExecutor).toHaveBeenCalledWith('get_time', '{}', 'call_1');
+    expect(toolExecutor).toHaveBeenCalledWith('get_time', '{}', 'call_1', {
+      signal: expect.any(AbortSignal),
+    });
     const output = ws.lastSent('conversation.item.create');
     expect(output.item).toEqual({
       type: 'function_call_output',
@@ -227,24 +282,30 @@ describe('useVoiceLive (websocket)', () => {
       hook.result.current.commitInputAudio();
     });
 
+    // Every client event is stamped with its own id, so a service `error` can name it
+    const id = expect.stringMatching(/^evt_\d+$/);
     expect(ws.sent).toEqual([
       {
         type: 'conversation.item.create',
+        event_id: id,
         item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Hello' }] },
       },
-      { type: 'response.create', event_id: expect.stringMatching(/^evt_\d+$/) },
+      { type: 'response.create', event_id: id },
       {
         type: 'conversation.item.create',
+        event_id: id,
         item: { type: 'function_call_output', call_id: 'call_9', output: 'done' },
       },
       {
         type: 'conversation.item.create',
+        event_id: id,
         item: { type: 'mcp_approval_response', approval_request_id: 'req_1', approve: true },
       },
-      { type: 'response.cancel' },
-      { type: 'input_audio_buffer.clear' },
-      { type: 'input_audio_buffer.commit' },
+      { type: 'response.cancel', event_id: id },
+      { type: 'input_audio_buffer.clear', event_id: id },
+      { type: 'input_audio_buffer.commit', event_id: id },
     ]);
+    expect(new Set(ws.sent.map((event) => event.event_id)).size).toBe(ws.sent.length);
     hook.unmount();
   });
 
@@ -1194,4 +1255,432 @@ describe('useVoiceLive (websocket)', () => {
     expect(creates[0].response?.instructions).toBe('Answer in French');
     hook.unmount();
   });
+
+  it('aborts a running tool on barge-in and answers it as cancelled without a follow-up', async () => {
+    let signal: AbortSignal | undefined;
+    const toolExecutor = vi.fn((_name: string, _args: string, _callId: string, context) => {
+      signal = context.signal;
+      return new Promise<object>((resolve) => {
+        context.signal.addEventListener('abort', () => resolve({ late: true }));
+      });
+    });
+    const { hook, ws } = await connectAndOpen({ ...baseConfig, toolExecutor });
+    await deliver(ws, { type: 'session.created', session: {} });
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+    await deliver(ws, {
+      type: 'response.function_call_arguments.done',
+      response_id: 'resp-1',
+      call_id: 'call-a',
+      name: 'search',
+      arguments: '{}',
+    });
+    await deliver(ws, {
+      type: 'response.done',
+      response: { id: 'resp-1', output: [{ type: 'function_call', call_id: 'call-a' }] },
+    });
+    expect(signal?.aborted).toBe(false);
+
+    await deliver(ws, { type: 'input_audio_buffer.speech_started', audio_start_ms: 0 });
+    expect(signal?.aborted).toBe(true);
+    expect((signal?.reason as DOMException).name).toBe('AbortError');
+    const outputs = ws.sent.filter((e) => e.type === 'conversation.item.create');
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].item.call_id).toBe('call-a');
+    expect(JSON.parse(outputs[0].item.output)).toEqual({
+      error: { type: 'cancelled', tool: 'search', message: 'The user interrupted the response' },
+    });
+    // The interrupted turn is not answered; the executor's late result is dropped
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(0);
+    expect(ws.sent.filter((e) => e.type === 'conversation.item.create')).toHaveLength(1);
+    hook.unmount();
+  });
+
+  it('answers a tool that exceeds toolTimeoutMs with a timeout error', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    try {
+      let signal: AbortSignal | undefined;
+      const toolExecutor = vi.fn((_name: string, _args: string, _callId: string, context) => {
+        signal = context.signal;
+        return new Promise<void>(() => {});
+      });
+      const { hook, ws } = await connectAndOpen({
+        ...baseConfig,
+        toolExecutor,
+        toolTimeoutMs: 2000,
+      });
+      await deliver(ws, { type: 'session.created', session: {} });
+      await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+      await deliver(ws, {
+        type: 'response.function_call_arguments.done',
+        response_id: 'resp-1',
+        call_id: 'call-a',
+        name: 'search',
+        arguments: '{}',
+      });
+      await deliver(ws, {
+        type: 'response.done',
+        response: { id: 'resp-1', output: [{ type: 'function_call', call_id: 'call-a' }] },
+      });
+      expect(ws.lastSent('conversation.item.create')).toBeUndefined();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+      expect((signal?.reason as DOMException).name).toBe('TimeoutError');
+      expect(JSON.parse(ws.lastSent('conversation.item.create').item.output)).toEqual({
+        error: {
+          type: 'timeout',
+          tool: 'search',
+          message: 'Tool "search" did not finish within 2000 ms',
+        },
+      });
+      // Unlike a cancellation, the turn is still answered
+      expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(1);
+      hook.unmount();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('aborts running tools when the session ends', async () => {
+    let signal: AbortSignal | undefined;
+    const toolExecutor = vi.fn((_name: string, _args: string, _callId: string, context) => {
+      signal = context.signal;
+      return new Promise<void>(() => {});
+    });
+    const { hook, ws } = await connectAndOpen({ ...baseConfig, toolExecutor });
+    await deliver(ws, { type: 'session.created', session: {} });
+    await deliver(ws, {
+      type: 'response.function_call_arguments.done',
+      response_id: 'resp-1',
+      call_id: 'call-a',
+      name: 'search',
+      arguments: '{}',
+    });
+    const sent = ws.sent.length;
+    await act(async () => {
+      hook.result.current.disconnect();
+    });
+    expect(signal?.aborted).toBe(true);
+    expect(ws.sent.slice(sent).filter((e) => e.type === 'conversation.item.create')).toEqual([]);
+    hook.unmount();
+  });
+
+  it('asks for the answer once when a response ends on a server-side MCP call', async () => {
+    const { hook, ws } = await connectAndOpen(baseConfig);
+    await deliver(ws, { type: 'session.created', session: {} });
+    const mcpCall = {
+      id: 'mcp-1',
+      type: 'mcp_call',
+      server_label: 'docs',
+      name: 'search',
+      arguments: '{}',
+    };
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+    await deliver(ws, {
+      type: 'response.output_item.added',
+      response_id: 'resp-1',
+      output_index: 0,
+      item: mcpCall,
+    });
+    await deliver(ws, { type: 'response.mcp_call.in_progress', item_id: 'mcp-1' });
+    await deliver(ws, { type: 'response.mcp_call.completed', item_id: 'mcp-1' });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(0);
+    await deliver(ws, {
+      type: 'response.done',
+      response: { id: 'resp-1', status: 'completed', output: [mcpCall] },
+    });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(1);
+
+    // A response that presented the result itself is left alone
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-2' } });
+    await deliver(ws, {
+      type: 'response.output_item.added',
+      response_id: 'resp-2',
+      output_index: 0,
+      item: { ...mcpCall, id: 'mcp-2' },
+    });
+    await deliver(ws, { type: 'response.mcp_call.completed', item_id: 'mcp-2' });
+    await deliver(ws, {
+      type: 'response.done',
+      response: {
+        id: 'resp-2',
+        status: 'completed',
+        output: [
+          { ...mcpCall, id: 'mcp-2' },
+          { id: 'msg-1', type: 'message', role: 'assistant', content: [] },
+        ],
+      },
+    });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(1);
+    hook.unmount();
+  });
+
+  it('reports a failed agent call and continues once it settles after response.done', async () => {
+    const onServerToolCallFailed = vi.fn();
+    const { hook, ws } = await connectAndOpen({ ...baseConfig, onServerToolCallFailed });
+    await deliver(ws, { type: 'session.created', session: {} });
+    const agentCall = { id: 'agent-1', type: 'foundry_agent_call', name: 'billing', arguments: '' };
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+    await deliver(ws, {
+      type: 'response.output_item.added',
+      response_id: 'resp-1',
+      output_index: 0,
+      item: agentCall,
+    });
+    await deliver(ws, {
+      type: 'response.done',
+      response: { id: 'resp-1', status: 'completed', output: [agentCall] },
+    });
+    // The call is still running: nothing to present yet
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(0);
+
+    await deliver(ws, {
+      type: 'response.foundry_agent_call.failed',
+      item_id: 'agent-1',
+      error: { message: 'Agent unavailable' },
+    });
+    expect(onServerToolCallFailed).toHaveBeenCalledWith({
+      type: 'foundry_agent_call',
+      itemId: 'agent-1',
+      responseId: 'resp-1',
+      name: 'billing',
+      serverLabel: undefined,
+      error: 'Agent unavailable',
+    });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(1);
+    hook.unmount();
+  });
+
+  it('does not continue after a server-side call when the conversation already moved on', async () => {
+    const { hook, ws } = await connectAndOpen(baseConfig);
+    await deliver(ws, { type: 'session.created', session: {} });
+    const mcpCall = { id: 'mcp-1', type: 'mcp_call', server_label: 'docs', name: 'search' };
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+    await deliver(ws, {
+      type: 'response.output_item.added',
+      response_id: 'resp-1',
+      output_index: 0,
+      item: mcpCall,
+    });
+    await deliver(ws, {
+      type: 'response.done',
+      response: { id: 'resp-1', status: 'completed', output: [mcpCall] },
+    });
+    // The service continues on its own before the call reports back
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-2' } });
+    await deliver(ws, { type: 'response.mcp_call.completed', item_id: 'mcp-1' });
+    await deliver(ws, { type: 'response.done', response: { id: 'resp-2', output: [] } });
+    expect(ws.sent.filter((e) => e.type === 'response.create')).toHaveLength(0);
+    hook.unmount();
+  });
+
+  it('answers MCP approvals by policy and keeps an audit trail', async () => {
+    const onMcpApprovalRequest = vi.fn();
+    const onMcpApprovalDecision = vi.fn();
+    const { hook, ws } = await connectAndOpen({
+      ...baseConfig,
+      mcpApprovalPolicy: { rules: [{ name: 'reads', tool: /^search/, action: 'approve' }] },
+      onMcpApprovalRequest,
+      onMcpApprovalDecision,
+    });
+    await deliver(ws, { type: 'session.created', session: {} });
+    const approvalRequest = (id: string, name: string) => ({
+      type: 'conversation.item.created',
+      item: { id, type: 'mcp_approval_request', server_label: 'docs', name, arguments: '{}' },
+    });
+    await deliver(ws, approvalRequest('apr_1', 'search_docs'));
+    await deliver(ws, approvalRequest('apr_2', 'delete_page'));
+
+    const responses = () =>
+      ws.sent.filter((e) => e.type === 'conversation.item.create').map((e) => e.item);
+    expect(responses()).toEqual([
+      { type: 'mcp_approval_response', approval_request_id: 'apr_1', approve: true },
+    ]);
+    // Only the request no rule decided reaches the UI
+    expect(onMcpApprovalRequest).toHaveBeenCalledTimes(1);
+    expect(onMcpApprovalRequest.mock.calls[0][0].approvalRequestId).toBe('apr_2');
+
+    await act(async () => {
+      hook.result.current.approveMcpCall('apr_2', false);
+      hook.result.current.approveMcpCall('apr_1', false);
+    });
+    expect(responses()).toHaveLength(2);
+    expect(responses()[1]).toEqual({
+      type: 'mcp_approval_response',
+      approval_request_id: 'apr_2',
+      approve: false,
+    });
+    expect(
+      hook.result.current
+        .getMcpApprovalAudit()
+        .map(({ approve, decidedBy, rule }) => ({ approve, decidedBy, rule }))
+    ).toEqual([
+      { approve: true, decidedBy: 'policy', rule: 'reads' },
+      { approve: false, decidedBy: 'user', rule: undefined },
+    ]);
+    expect(onMcpApprovalDecision).toHaveBeenCalledTimes(2);
+    hook.unmount();
+  });
+
+  it('holds tool calls that need confirmation and answers each exactly once', async () => {
+    const toolExecutor = vi.fn(async () => ({ ok: true }));
+    const { hook, ws } = await connectAndOpen({
+      ...baseConfig,
+      toolExecutor,
+      toolRequiresConfirmation: (name) => name.startsWith('transfer'),
+    });
+    await deliver(ws, { type: 'session.created', session: {} });
+    await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+    for (const [callId, name] of [
+      ['call-a', 'transfer_money'],
+      ['call-b', 'transfer_shares'],
+    ]) {
+      await deliver(ws, {
+        type: 'response.function_call_arguments.done',
+        response_id: 'resp-1',
+        call_id: callId,
+        name,
+        arguments: '{"amount":5}',
+      });
+    }
+    await deliver(ws, {
+      type: 'response.done',
+      response: {
+        id: 'resp-1',
+        output: [
+          { type: 'function_call', call_id: 'call-a' },
+          { type: 'function_call', call_id: 'call-b' },
+        ],
+      },
+    });
+    expect(toolExecutor).not.toHaveBeenCalled();
+    expect(hook.result.current.pendingConfirmations).toEqual([
+      { callId: 'call-a', name: 'transfer_money', arguments: '{"amount":5}' },
+      { callId: 'call-b', name: 'transfer_shares', arguments: '{"amount":5}' },
+    ]);
+    const outputs = () =>
+      ws.sent
+        .filter((e) => e.type === 'conversation.item.create')
+        .map((e) => [e.item.call_id, JSON.parse(e.item.output)]);
+    const creates = () => ws.sent.filter((e) => e.type === 'response.create');
+
+    await act(async () => {
+      hook.result.current.rejectToolCall('call-b');
+    });
+    expect(outputs()).toEqual([
+      [
+        'call-b',
+        {
+          error: {
+            type: 'rejected',
+            tool: 'transfer_shares',
+            message: 'The user declined to run "transfer_shares"',
+          },
+        },
+      ],
+    ]);
+    // call-a is still held: no answer yet
+    expect(creates()).toHaveLength(0);
+
+    await act(async () => {
+      hook.result.current.confirmToolCall('call-a');
+      await Promise.resolve();
+      await Promise.resolve();
+    });
+    expect(toolExecutor).toHaveBeenCalledWith('transfer_money', '{"amount":5}', 'call-a', {
+      signal: expect.any(AbortSignal),
+    });
+    expect(outputs()[1]).toEqual(['call-a', { ok: true }]);
+    expect(creates()).toHaveLength(1);
+    expect(hook.result.current.pendingConfirmations).toEqual([]);
+
+    // Already answered: nothing happens
+    await act(async () => {
+      hook.result.current.confirmToolCall('call-a');
+    });
+    expect(outputs()).toHaveLength(2);
+    hook.unmount();
+  });
+
+  it('sends the microphone only during push-to-talk turns and submits them on release', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    try {
+      const { hook, ws } = await connectAndOpen({
+        ...baseConfig,
+        session: { turnDetection: { type: 'server_vad' } },
+        interactionMode: 'push-to-talk',
+      });
+      await deliver(ws, { type: 'session.created', session: {} });
+      expect(ws.lastSent('session.update').session.turn_detection).toBeNull();
+      await deliver(ws, { type: 'session.updated', session: {} });
+      await act(async () => {
+        await hook.result.current.startMic();
+      });
+      const pushAudio = (): void => {
+        FakeAudioWorkletNode.instances
+          .at(-1)
+          ?.port.onmessage?.({ data: new Int16Array(2400).buffer });
+      };
+      const sentTypes = (): string[] =>
+        ws.sent.map((e) => e.type).filter((type) => type !== 'session.update');
+
+      pushAudio();
+      expect(sentTypes()).toEqual([]);
+
+      await act(async () => {
+        hook.result.current.beginTurn();
+      });
+      expect(hook.result.current.isTurnActive).toBe(true);
+      pushAudio();
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(500);
+      });
+      let submitted: boolean | undefined;
+      await act(async () => {
+        submitted = hook.result.current.endTurn();
+      });
+      expect(submitted).toBe(true);
+      expect(hook.result.current.isTurnActive).toBe(false);
+      pushAudio();
+      expect(sentTypes()).toEqual([
+        'input_audio_buffer.clear',
+        'input_audio_buffer.append',
+        'input_audio_buffer.commit',
+        'response.create',
+      ]);
+
+      // Pressing again while the answer plays interrupts it; a tap is discarded
+      await deliver(ws, { type: 'response.created', response: { id: 'resp-1' } });
+      ws.sent.length = 0;
+      await act(async () => {
+        hook.result.current.beginTurn();
+        submitted = hook.result.current.endTurn();
+      });
+      expect(submitted).toBe(false);
+      expect(sentTypes()).toEqual([
+        'response.cancel',
+        'input_audio_buffer.clear',
+        'input_audio_buffer.clear',
+      ]);
+      hook.unmount();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ignores beginTurn() outside push-to-talk', async () => {
+    const { hook, ws } = await connectAndOpen(baseConfig);
+    await deliver(ws, { type: 'session.created', session: {} });
+    await deliver(ws, { type: 'session.updated', session: {} });
+    await act(async () => {
+      hook.result.current.beginTurn();
+    });
+    expect(hook.result.current.isTurnActive).toBe(false);
+    expect(ws.sent.some((e) => e.type === 'input_audio_buffer.clear')).toBe(false);
+    hook.unmount();
+  });
 });
@@ -12,6 +12,7 @@ import {
   installBrowserFakes,
   makeFakeMicStream,
 } from './testFakes';
+import { TRANSPORT_MEMORY_TTL_MS } from '../core/transportFallback';
 import type { UseVoiceLiveConfig } from '../types/voiceLive';
 
 let restore: () => void;
@@ -160,7 +161,9 @@ describe('useVoiceLive (webrtc)', () => {
       });
     });
     await flush();
-    expect(toolExecutor).toHaveBeenCalledWith('get_time', '{}', 'call_1');
+    expect(toolExecutor).toHaveBeenCalledWith('get_time', '{}', 'call_1', {
+      signal: expect.any(AbortSignal),
+    });
     expect(ws.lastSent('conversation.item.create').item).toEqual({
       type: 'function_call_output',
       call_id: 'call_1',
@@ -200,6 +203,34 @@ describe('useVoiceLive (webrtc)', () => {
     hook.unmount();
   });
 
+  it('enables the microphone track only during push-to-talk turns', async () => {
+    const { hook, pc, ws } = await connectWebRtc({
+      ...baseConfig,
+      interactionMode: 'push-to-talk',
+    });
+    expect(ws.sent[0].session.turn_detection).toBeNull();
+    await act(async () => {
+      pc.setConnectionState('connected');
+      pc.dataChannels[0]!.open();
+    });
+    await act(async () => {
+      await hook.result.current.startMic();
+    });
+    expect(mic.track.enabled).toBe(false);
+
+    await act(async () => {
+      hook.result.current.beginTurn();
+    });
+    expect(mic.track.enabled).toBe(true);
+    await act(async () => {
+      hook.result.current.endTurn();
+    });
+    expect(mic.track.enabled).toBe(false);
+    // The gate is not the user's mute
+    expect(hook.result.current.isMuted).toBe(false);
+    hook.unmount();
+  });
+
   it('releases the old microphone when a reconnect switches transport kind', async () => {
     const hook = renderHook(({ config }) => useVoiceLive(config), {
       initialProps: { config: { ...baseConfig, reconnect: true } },
@@ -361,6 +392,159 @@ describe('useVoiceLive (webrtc)', () => {
     hook.unmount();
   });
 
+  it("falls back to WebSocket with transport: 'auto' and starts there next time", async () => {
+    localStorage.clear();
+    const onTransportSelected = vi.fn();
+    const config: UseVoiceLiveConfig = {
+      ...baseConfig,
+      connection: { resourceName: 'my-res', apiKey: 'secret', transport: 'auto' },
+      onTransportSelected,
+    };
+    const { hook, pc } = await connectWebRtc(config);
+    expect(hook.result.current.transport).toBe('webrtc');
+    expect(onTransportSelected).toHaveBeenLastCalledWith({
+      transport: 'webrtc',
+      reason: 'preferred',
+    });
+
+    // UDP blocked: the peer connection fails before the session is ready
+    await act(async () => {
+      pc.setConnectionState('failed');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+    expect(onTransportSelected).toHaveBeenLastCalledWith({
+      transport: 'websocket',
+      reason: 'fallback',
+      closeCode: 4011,
+    });
+    const ws = FakeWebSocket.instances.at(-1)!;
+    expect(ws.url).toContain('wss://my-res.services.ai.azure.com/voice-live/realtime?');
+    expect(hook.result.current.connectionState).toBe('connecting');
+    expect(hook.result.current.error).toBeNull();
+    await act(async () => {
+      ws.open();
+      ws.receive({ type: 'session.created', session: {} });
+      ws.receive({ type: 'session.updated', session: {} });
+    });
+    expect(ws.lastSent('session.update')?.session).toMatchObject({ instructions: 'Be nice.' });
+    expect(hook.result.current.isReady).toBe(true);
+    expect(hook.result.current.transport).toBe('websocket');
+    expect(JSON.parse(localStorage.getItem('foundry-voice-live:transport')!)).toMatchObject({
+      transport: 'websocket',
+    });
+    const stored = JSON.stringify({ transport: 'websocket', at: Date.now() - 60_000 });
+    localStorage.setItem('foundry-voice-live:transport', stored);
+
+    act(() => hook.result.current.disconnect());
+    await act(async () => {
+      await hook.result.current.connect();
+    });
+    const ws2 = FakeWebSocket.instances.at(-1)!;
+    expect(ws2.url).toContain('/voice-live/realtime?');
+    expect(FakePeerConnection.instances).toHaveLength(1);
+    expect(onTransportSelected).toHaveBeenLastCalledWith({
+      transport: 'websocket',
+      reason: 'remembered',
+    });
+    // a session on the remembered transport does not renew it
+    await act(async () => {
+      ws2.open();
+      ws2.receive({ type: 'session.created', session: {} });
+      ws2.receive({ type: 'session.updated', session: {} });
+    });
+    expect(hook.result.current.isReady).toBe(true);
+    expect(localStorage.getItem('foundry-voice-live:transport')).toBe(stored);
+    hook.unmount();
+    localStorage.clear();
+  });
+
+  it("reconnects over WebSocket when a ready WebRTC session fails with transport: 'auto'", async () => {
+    localStorage.clear();
+    const onTransportSelected = vi.fn();
+    const onReconnecting = vi.fn();
+    const { hook, pc, ws } = await connectWebRtc({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', apiKey: 'secret', transport: 'auto' },
+      reconnect: { initialDelayMs: 10, jitter: 0 },
+      onTransportSelected,
+      onReconnecting,
+    });
+    await act(async () => {
+      ws.receive({ type: 'rtc.call.sdp.created', sdp_answer: 'v=0 answer' });
+    });
+    await flush();
+    await act(async () => {
+      pc.setConnectionState('connected');
+      pc.dataChannels[0]!.open();
+    });
+    expect(hook.result.current.isReady).toBe(true);
+
+    // the network changes mid-call: the drop is reconnected, over WebSocket
+    await act(async () => {
+      pc.setConnectionState('failed');
+    });
+    expect(hook.result.current.connectionState).toBe('reconnecting');
+    expect(onReconnecting).toHaveBeenCalledWith(1, 10);
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    });
+    expect(onTransportSelected).toHaveBeenLastCalledWith({
+      transport: 'websocket',
+      reason: 'fallback',
+      closeCode: 4011,
+    });
+    expect(FakeWebSocket.instances.at(-1)!.url).toContain('/voice-live/realtime?');
+    expect(FakePeerConnection.instances).toHaveLength(1);
+    hook.unmount();
+    localStorage.clear();
+  });
+
+  it("reads the remembered transport on connect, not while rendering, with transport: 'auto'", async () => {
+    localStorage.setItem(
+      'foundry-voice-live:transport',
+      JSON.stringify({ transport: 'websocket', at: Date.now() })
+    );
+    const getItem = vi.spyOn(Storage.prototype, 'getItem');
+    const hook = renderHook(() =>
+      useVoiceLive({
+        ...baseConfig,
+        connection: { resourceName: 'my-res', apiKey: 'secret', transport: 'auto' },
+      })
+    );
+    expect(hook.result.current.transport).toBe('webrtc');
+    expect(getItem).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await hook.result.current.connect();
+    });
+    expect(getItem).toHaveBeenCalledWith('foundry-voice-live:transport');
+    expect(hook.result.current.transport).toBe('websocket');
+    expect(FakePeerConnection.instances).toHaveLength(0);
+    getItem.mockRestore();
+    hook.unmount();
+    localStorage.clear();
+  });
+
+  it("tries WebRTC again once the remembered transport has expired with transport: 'auto'", async () => {
+    localStorage.setItem(
+      'foundry-voice-live:transport',
+      JSON.stringify({ transport: 'websocket', at: Date.now() - TRANSPORT_MEMORY_TTL_MS })
+    );
+    const onTransportSelected = vi.fn();
+    const { hook } = await connectWebRtc({
+      ...baseConfig,
+      connection: { resourceName: 'my-res', apiKey: 'secret', transport: 'auto' },
+      onTransportSelected,
+    });
+    expect(hook.result.current.transport).toBe('webrtc');
+    expect(onTransportSelected).toHaveBeenLastCalledWith({
+      transport: 'webrtc',
+      reason: 'preferred',
+    });
+    hook.unmount();
+    localStorage.clear();
+  });
+
   it('websocket transport still sends session.update on session.created (regression)', async () => {
     const hook = renderHook(() =>
       useVoiceLive({ ...baseConfig, connection: { resourceName: 'r', apiKey: 'k' } })
@@ -22,6 +22,7 @@ export {
   DEFAULT_MODEL,
   VOICE_LIVE_DATA_CHANNEL,
   DEFAULT_CONNECT_TIMEOUT_MS,
+  DEFAULT_MIN_TURN_DURATION_MS,
 } from './utils/constants';
 export { OPENAI_VOICES, AZURE_REALTIME_NATIVE_VOICES } from './types/voiceLive';
 export {
@@ -42,26 +43,64 @@ export {
   buildSessionConfig,
   buildAgentSessionConfig,
   convertToSessionUpdate,
+  convertResponseOptions,
   validateConfig,
   DEFAULT_SESSION_CONFIG,
   AGENT_OWNED_FIELDS,
+  AUDIO_SESSION_FIELDS,
+  isTextOnlySession,
 } from './utils/sessionBuilder';
 
 export {
   arrayBufferToBase64,
+  base64ToBytes,
   createAudioDataCallback,
   buildMicConstraints,
 } from './utils/audioHelpers';
 
+export {
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+  decodeToPcm16,
+  encodeFromPcm16,
+  audioFormatSampleRate,
+  resamplePcm16,
+  Pcm16Resampler,
+  G711_SAMPLE_RATE,
+} from './utils/audioCodecs';
+
 export { buildGreetingEvents } from './utils/greeting';
+export { buildGenerateEvent, readGenerateResult, GENERATION_METADATA_KEY } from './utils/generate';
+export { bindPushToTalkKey, type PushToTalkKeyOptions } from './utils/pushToTalk';
+
+export {
+  defineTool,
+  ToolRegistry,
+  type ToolDefinition,
+  type ToolCallContext,
+  type ToolCallError,
+  type ToolCallErrorType,
+} from './utils/toolRegistry';
+export {
+  validateJsonSchema,
+  type JsonSchema,
+  type JsonSchemaType,
+  type JsonSchemaIssue,
+  type InferSchema,
+} from './utils/jsonSchema';
 
 export {
   buildVoiceLiveUrl,
   resolveConnectionMode,
   validateTransport,
   redactUrl,
+  isSecretName,
+  moveCredentialsToHeaders,
   type ConnectionMode,
   type ResolvedConnection,
+  type HeaderAuthenticatedUrl,
 } from './utils/connectionUrl';
 
 export { createLogger, type Logger } from './utils/logger';
@@ -131,6 +170,13 @@ export {
   RTC_MEDIA_FAILED_CLOSE_CODE,
   CONTROL_CHANNEL_SETUP_FAILED_CLOSE_CODE,
 } from './core/transports/webrtcTransport';
+export {
+  SessionRecorder,
+  parseRecording,
+  type SessionRecorderOptions,
+  type RecordingEntry,
+} from './core/transports/recorder';
+export { ReplayTransport, type ReplayTransportOptions } from './core/transports/replayTransport';
 export type {
   VoiceLiveTransport as VoiceLiveTransportInstance,
   TransportCallbacks,
@@ -158,12 +204,60 @@ export {
   resolveReconnectOptions,
   computeBackoffDelay,
   isReconnectableClose,
+  isAuthFailureClose,
   DEFAULT_RECONNECT_OPTIONS,
 } from './core/reconnect';
+export {
+  resolveRestoreConversationOptions,
+  selectRestoredItems,
+  toRequestItems,
+} from './core/conversationRestore';
+export {
+  resolveSessionRolloverOptions,
+  DEFAULT_ROLLOVER_LEAD_TIME_MS,
+} from './core/sessionRollover';
+export {
+  decodeTokenExpiry,
+  tokenRefreshDelay,
+  isTokenExpiring,
+  TOKEN_REFRESH_LEAD_MS,
+  TOKEN_REFRESH_MIN_DELAY_MS,
+  TOKEN_MIN_VALIDITY_MS,
+} from './core/tokenRefresh';
+export {
+  selectAutoTransport,
+  isTransportFallbackClose,
+  readRememberedTransport,
+  rememberTransport,
+  TRANSPORT_STORAGE_KEY,
+  TRANSPORT_MEMORY_TTL_MS,
+} from './core/transportFallback';
 export { parseServerEvent, SeenEventIds } from './core/serverEvents';
 export { BoundedMap } from './core/boundedMap';
 export { Scope } from './core/lifecycle';
 export { ResponseGate, type ResponseGateState } from './core/responseGate';
+export { VoiceLiveSession } from './core/voiceLiveSession';
+export {
+  PcmCapture,
+  CAPTURE_CHUNK_SAMPLES,
+  DEFAULT_CLIENT_VAD_OPTIONS,
+  resolveClientVadOptions,
+  type PcmCaptureOptions,
+} from './core/audioCapture';
+export { TypedEmitter, type EventMap, type Listener } from './core/emitter';
+export { ConversationStore } from './core/conversation';
+export {
+  PendingRequests,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  ackMatcherFor,
+  type AckMatcher,
+} from './core/pendingRequests';
+export {
+  McpApprovals,
+  evaluateMcpApprovalPolicy,
+  DEFAULT_MCP_APPROVAL_TIMEOUT_MS,
+  type McpApprovalVerdict,
+} from './core/mcpApprovals';
 
 // ==================== Configuration ====================
 export { createVoiceLiveConfig } from './presets';
@@ -193,6 +287,8 @@ export type {
   SessionUpdatedEvent,
   ConversationItemCreatedEvent,
   ConversationItemTruncatedEvent,
+  ConversationItemDeletedEvent,
+  ConversationItemRetrievedEvent,
   InputAudioTranscriptionDeltaEvent,
   InputAudioTranscriptionCompletedEvent,
   InputAudioBufferSpeechStartedEvent,
@@ -293,12 +389,48 @@ export type {
   UseVoiceLiveConfig,
   UseVoiceLiveReturn,
   SessionState,
+  InteractionMode,
+  ClientVadOptions,
   ReconnectOptions,
+  RestoreConversationOptions,
+  SessionRolloverOptions,
+  SessionRolloverEvent,
+  TokenRequestOptions,
+  VoiceLiveAuthError,
+  TransportSelectedEvent,
+  SendRequestOptions,
+  ResponseCreateOptions,
+  ResponseHandle,
+  GenerateOptions,
+  GenerateResult,
+  GenerateToolCall,
   LogLevel,
   ToolExecutor,
+  ToolExecutionContext,
+  ToolConfirmationPredicate,
+  PendingToolConfirmation,
   ToolResult,
   VoiceLiveWarning,
   McpApprovalRequest,
+  McpApprovalAction,
+  McpApprovalRule,
+  McpApprovalPolicy,
+  McpApprovalDecision,
+  ServerToolCallFailure,
+
+  // Conversation history
+  ConversationItem,
+  ConversationItemStatus,
+  ConversationMessageItem,
+  ConversationFunctionCallItem,
+  ConversationMcpCallItem,
+  ConversationFoundryAgentCallItem,
+  ResponseText,
+
+  // Framework-agnostic session
+  VoiceLiveSessionOptions,
+  VoiceLiveSessionSnapshot,
+  VoiceLiveSessionEvents,
 
   // Audio capture
   AudioCaptureConfig,
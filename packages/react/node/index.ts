@@ -0,0 +1,137 @@
+/**
+ * Microsoft Foundry Voice Live API - Node.js entry point
+ * (`@iloveagents/foundry-voice-live-react/node`).
+ *
+ * The framework-agnostic session without browser APIs or React: `NodeVoiceLiveClient` over `ws`
+ * (an optional peer dependency — install it next to this package), plus the configuration helpers
+ * and the recording tools.
+ *
+ * @packageDocumentation
+ */
+
+// ==================== Client ====================
+export { NodeVoiceLiveClient, type NodeVoiceLiveClientOptions } from './nodeVoiceLiveClient';
+
+// ==================== Constants ====================
+export { DEFAULT_API_VERSION, DEFAULT_MODEL } from '../utils/constants';
+
+// ==================== Utilities ====================
+export {
+  buildSessionConfig,
+  buildAgentSessionConfig,
+  validateConfig,
+  DEFAULT_SESSION_CONFIG,
+} from '../utils/sessionBuilder';
+export { arrayBufferToBase64, base64ToBytes } from '../utils/audioHelpers';
+export {
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+  decodeToPcm16,
+  encodeFromPcm16,
+  audioFormatSampleRate,
+  resamplePcm16,
+  Pcm16Resampler,
+  G711_SAMPLE_RATE,
+} from '../utils/audioCodecs';
+export {
+  defineTool,
+  ToolRegistry,
+  type ToolDefinition,
+  type ToolCallContext,
+  type ToolCallError,
+} from '../utils/toolRegistry';
+export { validateJsonSchema, type JsonSchema, type InferSchema } from '../utils/jsonSchema';
+export {
+  buildVoiceLiveUrl,
+  moveCredentialsToHeaders,
+  redactUrl,
+  type HeaderAuthenticatedUrl,
+} from '../utils/connectionUrl';
+export {
+  withVoice,
+  withHDVoice,
+  withCustomVoice,
+  withPersonalVoice,
+  withAzureRealtimeVoice,
+  withSemanticVAD,
+  withEndOfUtterance,
+  withoutTurnDetection,
+  withEchoCancellation,
+  withoutEchoCancellation,
+  withDeepNoiseReduction,
+  withNearFieldNoiseReduction,
+  withoutNoiseReduction,
+  withSampleRate,
+  withWordTimestamps,
+  withTranscription,
+  withoutTranscription,
+  withTools,
+  withToolChoice,
+  withMcpServer,
+  withFoundryAgentTool,
+  withParallelToolCalls,
+  withReasoningEffort,
+  withMetadata,
+  withInterimResponse,
+  withGreeting,
+  compose,
+  sessionConfig,
+  SessionConfigBuilder,
+} from '../utils/configHelpers';
+
+// ==================== Core building blocks ====================
+export { VoiceLiveSession } from '../core/voiceLiveSession';
+export {
+  SessionRecorder,
+  parseRecording,
+  type SessionRecorderOptions,
+  type RecordingEntry,
+} from '../core/transports/recorder';
+export { ReplayTransport, type ReplayTransportOptions } from '../core/transports/replayTransport';
+
+// ==================== Types ====================
+export type {
+  AudioFormat,
+  VoiceLiveConnectionConfig,
+  VoiceLiveSessionConfig,
+  VoiceLiveSessionOptions,
+  VoiceLiveSessionSnapshot,
+  VoiceLiveSessionEvents,
+  InteractionMode,
+  ReconnectOptions,
+  RestoreConversationOptions,
+  SessionRolloverOptions,
+  SessionRolloverEvent,
+  TokenRequestOptions,
+  VoiceLiveAuthError,
+  TransportSelectedEvent,
+  SendRequestOptions,
+  ResponseCreateOptions,
+  ResponseHandle,
+  GenerateOptions,
+  GenerateResult,
+  GenerateToolCall,
+  ToolExecutor,
+  ToolExecutionContext,
+  ToolConfirmationPredicate,
+  PendingToolConfirmation,
+  ToolResult,
+  VoiceLiveWarning,
+  McpApprovalRequest,
+  McpApprovalAction,
+  McpApprovalRule,
+  McpApprovalPolicy,
+  McpApprovalDecision,
+  ServerToolCallFailure,
+  ConversationItem,
+  ResponseText,
+} from '../types/voiceLive';
+export type {
+  VoiceLiveServerEvent,
+  VoiceLiveClientEvent,
+  ServerEventType,
+  ClientEventType,
+  ServerEventOf,
+} from '../types/events';
@@ -0,0 +1,124 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+// @vitest-environment node
+/**
+ * NodeVoiceLiveClient against a local `ws` server: no browser globals exist in this environment,
+ * so anything reaching for one (WebSocket, AudioContext, navigator) fails the test.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { NodeVoiceLiveClient } from './nodeVoiceLiveClient';
+
+let server: WebSocketServer | null = null;
+let client: NodeVoiceLiveClient | null = null;
+
+afterEach(async () => {
+  client?.disconnect();
+  client = null;
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = null;
+});
+
+/** A server that plays the service's side of the handshake and records what it receives */
+async function startServer() {
+  const received: Array<{ type: string; [key: string]: unknown }> = [];
+  const requests: IncomingMessage[] = [];
+  let socket: WebSocket | null = null;
+  const waiting: Array<{ type: string; resolve: () => void }> = [];
+  server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  server.on('connection', (ws, request) => {
+    socket = ws;
+    requests.push(request);
+    ws.send(JSON.stringify({ type: 'session.created', session: {} }));
+    ws.on('message', (data) => {
+      const event = JSON.parse(data.toString()) as { type: string };
+      received.push(event);
+      if (event.type === 'session.update') {
+        ws.send(JSON.stringify({ type: 'session.updated', session: {} }));
+      }
+      waiting.filter((entry) => entry.type === event.type).forEach((entry) => entry.resolve());
+    });
+  });
+  await new Promise<void>((resolve) => server?.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    received,
+    requests,
+    port,
+    send: (event: Record<string, unknown>) => socket?.send(JSON.stringify(event)),
+    next: (type: string) => new Promise<void>((resolve) => waiting.push({ type, resolve })),
+  };
+}
+
+const ready = (session: NodeVoiceLiveClient) =>
+  new Promise<void>((resolve) => {
+    const off = session.on('change', (state) => {
+      if (!state.isReady) return;
+      off();
+      resolve();
+    });
+  });
+
+describe('NodeVoiceLiveClient', () => {
+  it('authenticates with headers and exchanges PCM16 buffers', async () => {
+    const fake = await startServer();
+    client = new NodeVoiceLiveClient({
+      connection: { resourceName: 'my-resource', apiKey: 'SECRET' },
+      createWebSocket: (url, headers) => {
+        const { pathname, search } = new URL(url);
+        return new WebSocket(`ws://127.0.0.1:${fake.port}${pathname}${search}`, { headers });
+      },
+    });
+    const isReady = ready(client);
+    await client.connect();
+    await isReady;
+
+    const request = fake.requests[0];
+    expect(request?.headers['api-key']).toBe('SECRET');
+    expect(request?.url).not.toContain('SECRET');
+    expect(request?.url).toContain('model=gpt-realtime');
+    expect(client.getSnapshot().audioContext).toBeNull();
+
+    const appended = fake.next('input_audio_buffer.append');
+    // A Buffer from Node's pool: only its own four bytes may be sent
+    client.sendAudio(Buffer.from([1, 2, 3, 4]));
+    await appended;
+    expect(fake.received.find((e) => e.type === 'input_audio_buffer.append')?.audio).toBe(
+      'AQIDBA=='
+    );
+
+    const audio = new Promise<[Uint8Array, string]>((resolve) =>
+      client?.on('audio', (pcm, responseId) => resolve([pcm, responseId]))
+    );
+    fake.send({ type: 'response.created', response: { id: 'resp_1' } });
+    fake.send({
+      type: 'response.audio.delta',
+      response_id: 'resp_1',
+      item_id: 'item_1',
+      output_index: 0,
+      content_index: 0,
+      delta: Buffer.from([5, 6, 7, 8]).toString('base64'),
+    });
+    const [pcm, responseId] = await audio;
+    expect([...pcm]).toEqual([5, 6, 7, 8]);
+    expect(responseId).toBe('resp_1');
+  });
+
+  it('rejects configurations that need browser media', () => {
+    expect(
+      () =>
+        new NodeVoiceLiveClient({
+          connection: { resourceName: 'r', apiKey: 'k', transport: 'webrtc' },
+        })
+    ).toThrow(/websocket/);
+    expect(
+      () =>
+        new NodeVoiceLiveClient({
+          connection: { resourceName: 'r', apiKey: 'k' },
+          session: { avatar: { character: 'lisa', style: 'casual-sitting' } },
+        })
+    ).toThrow(/browser/);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * NodeVoiceLiveClient — the Voice Live session for Node.js (servers, telephony bridges, scripts).
+ *
+ * The same `VoiceLiveSession` the browser uses (session builder, `ResponseGate`, reconnect,
+ * automatic tool batches), over a `ws` socket and without any browser API: no microphone, no
+ * AudioContext. Audio goes in and out as PCM16 buffers, and the credentials travel as
+ * `api-key` / `Authorization` handshake headers instead of query parameters.
+ *
+ * @example
+ * ```ts
+ * import { NodeVoiceLiveClient } from '@iloveagents/foundry-voice-live-react/node';
+ *
+ * const client = new NodeVoiceLiveClient({
+ *   connection: { resourceName: 'my-resource', apiKey: process.env.FOUNDRY_API_KEY },
+ *   session: { instructions: 'You are helpful' },
+ * });
+ * client.on('audio', (pcm) => speaker.write(pcm));
+ * client.on('event', (event) => {
+ *   if (event.type === 'input_audio_buffer.speech_started') speaker.flush(); // barge-in
+ * });
+ * await client.connect();
+ * microphone.on('data', (chunk: Buffer) => client.sendAudio(chunk));
+ * ```
+ */
+
+import WS from 'ws';
+import { VoiceLiveSession } from '../core/voiceLiveSession';
+import { WebSocketTransport } from '../core/transports/websocketTransport';
+import { moveCredentialsToHeaders } from '../utils/connectionUrl';
+import type { VoiceLiveSessionOptions } from '../types/voiceLive';
+
+export interface NodeVoiceLiveClientOptions extends Omit<
+  VoiceLiveSessionOptions,
+  'autoStartMic' | 'audioConstraints' | 'playAudio'
+> {
+  /**
+   * Open the socket, given the URL without credentials and the auth headers. Override it to pass
+   * `ws` options (a proxy `agent`, TLS settings) or to point a test at a local server.
+   * @default (url, headers) => new WebSocket(url, { headers })
+   */
+  createWebSocket?: (url: string, headers: Record<string, string>) => WS;
+}
+
+/**
+ * Session options for Node: WebSocket only, nothing captured or played locally.
+ *
+ * @throws Error for the WebRTC transport and avatar sessions (both need browser media)
+ */
+function toSessionOptions(options: NodeVoiceLiveClientOptions): VoiceLiveSessionOptions {
+  if (options.connection.transport === 'webrtc') {
+    throw new Error(
+      "NodeVoiceLiveClient supports transport: 'websocket' only (WebRTC needs a browser)."
+    );
+  }
+  if (options.session?.avatar) {
+    throw new Error('Avatar sessions need a browser to render the video stream.');
+  }
+  const { createWebSocket, ...rest } = options;
+  const open = createWebSocket ?? ((url, headers): WS => new WS(url, { headers }));
+  return {
+    ...rest,
+    autoStartMic: false,
+    playAudio: false,
+    createTransport:
+      options.createTransport ??
+      ((callbacks): WebSocketTransport =>
+        new WebSocketTransport(callbacks, {
+          createWebSocket: (url) => {
+            const auth = moveCredentialsToHeaders(url);
+            // `ws` implements the handler properties the transport uses (`onopen`, `onmessage`
+            // with string data for text frames, `onclose` with code/reason/wasClean)
+            return open(auth.url, auth.headers) as unknown as WebSocket;
+          },
+        })),
+  };
+}
+
+export class NodeVoiceLiveClient extends VoiceLiveSession {
+  constructor(options: NodeVoiceLiveClientOptions) {
+    super(toSessionOptions(options));
+  }
+
+  setConfig(options: NodeVoiceLiveClientOptions): void {
+    super.setConfig(toSessionOptions(options));
+  }
+
+  /**
+   * Send audio in the session's `inputAudioFormat`: PCM16 little-endian at `audioSampleRate`, or
+   * 8 kHz G.711 bytes (a `Buffer`, `Int16Array` or `ArrayBuffer`). Dropped until the session is
+   * ready, like microphone audio in the browser.
+   */
+  sendAudio(pcm: ArrayBuffer | ArrayBufferView): void {
+    if (pcm instanceof ArrayBuffer) {
+      this.appendInputAudio(pcm);
+      return;
+    }
+    // A Buffer is usually a view into Node's shared pool: send only its own bytes
+    this.appendInputAudio(
+      new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength).slice().buffer as ArrayBuffer
+    );
+  }
+}
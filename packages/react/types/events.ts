@@ -153,6 +153,14 @@ export interface ConversationItemTruncatedEvent extends ServerEventBase {
   content_index: number;
   audio_end_ms: number;
 }
+export interface ConversationItemDeletedEvent extends ServerEventBase {
+  type: 'conversation.item.deleted';
+  item_id: string;
+}
+export interface ConversationItemRetrievedEvent extends ServerEventBase {
+  type: 'conversation.item.retrieved';
+  item: WireConversationItem;
+}
 export interface InputAudioTranscriptionDeltaEvent extends ServerEventBase {
   type: 'conversation.item.input_audio_transcription.delta';
   item_id: string;
@@ -285,8 +293,6 @@ export interface RtcCallErrorEvent extends ServerEventBase {
 export const OTHER_SERVER_EVENT_TYPES = [
   'session.avatar.switch_to_speaking',
   'session.avatar.switch_to_idle',
-  'conversation.item.retrieved',
-  'conversation.item.deleted',
   'input_audio_buffer.committed',
   'input_audio_buffer.cleared',
   'output_audio_buffer.cleared',
@@ -343,6 +349,8 @@ export type VoiceLiveServerEvent =
   | SessionAvatarConnectingEvent
   | ConversationItemCreatedEvent
   | ConversationItemTruncatedEvent
+  | ConversationItemDeletedEvent
+  | ConversationItemRetrievedEvent
   | InputAudioTranscriptionDeltaEvent
   | InputAudioTranscriptionCompletedEvent
   | InputAudioTranscriptionFailedEvent
@@ -378,6 +386,8 @@ export const TYPED_SERVER_EVENT_TYPES = [
   'session.avatar.connecting',
   'conversation.item.created',
   'conversation.item.truncated',
+  'conversation.item.deleted',
+  'conversation.item.retrieved',
   'conversation.item.input_audio_transcription.delta',
   'conversation.item.input_audio_transcription.completed',
   'conversation.item.input_audio_transcription.failed',
@@ -478,6 +488,8 @@ export interface WireResponseCreateOptions {
   tool_choice?: unknown;
   temperature?: number;
   max_response_output_tokens?: number | 'inf';
+  /** Output token limit of this response (the official SDK's name for it) */
+  max_output_tokens?: number | 'inf';
   conversation?: 'auto' | 'none';
   metadata?: Record<string, string>;
   input?: WireConversationRequestItem[];
@@ -11,10 +11,12 @@
 export * from './voiceLive';
 export * from './events';
 
+import type { AudioFormat, ClientVadOptions } from './voiceLive';
+
 // ==================== Audio capture ====================
 
 /**
- * Audio data callback for audio capture (raw PCM16 buffer)
+ * Audio data callback for audio capture (raw PCM16 buffer, or G.711 bytes with a G.711 `format`)
  */
 export type AudioDataCallback = (audioData: ArrayBuffer) => void;
 
@@ -34,6 +36,28 @@ export interface AudioCaptureConfig {
   audioConstraints?: MediaTrackConstraints;
   /** Callback for receiving processed audio data */
   onAudioData?: AudioDataCallback;
+  /**
+   * `2` delivers interleaved stereo PCM16 for client-reference echo cancellation: channel 0 is the
+   * microphone, channel 1 `referenceStream`. Applies from the next start. @default 1
+   */
+  channels?: 1 | 2;
+  /**
+   * The audio actually played to the user (e.g. `useVoiceLive().audioStream`), mixed in as
+   * channel 1 when `channels` is 2. Channel 1 is silent while it is null.
+   */
+  referenceStream?: MediaStream | null;
+  /**
+   * Format of the delivered chunks. `g711_ulaw` / `g711_alaw` resample to 8 kHz and encode (mono
+   * only), for sessions with that `inputAudioFormat`. @default 'pcm16'
+   */
+  format?: AudioFormat;
+  /**
+   * Detect speech in the worklet and deliver only speech (with its padding and hangover) to
+   * `onAudioData`. Inline processor only; applies from the next start. @default false
+   */
+  vad?: boolean | ClientVadOptions;
+  /** Called when `vad` finds the user started (`true`) or stopped (`false`) speaking */
+  onVoiceActivity?: (speaking: boolean) => void;
   /** Whether to automatically start capture */
   autoStart?: boolean;
 }
@@ -50,6 +74,8 @@ export interface AudioCaptureReturn {
   isCapturing: boolean;
   /** Whether audio is muted (capture running but data not forwarded) */
   isMuted: boolean;
+  /** Whether `vad` currently hears speech */
+  isSpeaking: boolean;
   /** Error message if capture failed */
   error: string | null;
   /** Start audio capture */
@@ -20,7 +20,21 @@ export interface VoiceLiveEvent {
   [key: string]: unknown; // Additional event-specific properties
 }
 
-import type { VoiceLiveServerEvent, VoiceLiveClientEvent, VoiceLiveWarningDetails } from './events';
+import type {
+  VoiceLiveServerEvent,
+  VoiceLiveClientEvent,
+  VoiceLiveWarningDetails,
+  WireConversationItem,
+  WireConversationRequestItem,
+  WireResponse,
+} from './events';
+import type { SessionRecorder } from '../core/transports/recorder';
+import type { InferSchema, JsonSchema } from '../utils/jsonSchema';
+import type {
+  TransportCallbacks,
+  TransportKind,
+  VoiceLiveTransport as VoiceLiveTransportInstance,
+} from '../core/transports/types';
 
 // Re-export typed protocol events so consumers can import everything from one place
 export type {
@@ -75,6 +89,28 @@ export type VoiceLiveModel = KnownVoiceLiveModel | (string & Record<string, neve
  */
 export type VoiceLiveTransport = 'websocket' | 'webrtc';
 
+/**
+ * How `connection.transport: 'auto'` came to use a transport (`onTransportSelected`):
+ *
+ * - `'preferred'`: WebRTC, tried first
+ * - `'remembered'`: the transport that last worked in this browser origin
+ * - `'unsupported'`: WebSocket, because this session or environment cannot use WebRTC (avatar,
+ *   an older `apiVersion`, no `RTCPeerConnection`)
+ * - `'fallback'`: WebSocket, after WebRTC failed to negotiate or to carry media
+ */
+export interface TransportSelectedEvent {
+  transport: VoiceLiveTransport;
+  reason: 'preferred' | 'remembered' | 'unsupported' | 'fallback';
+  /** Close code of the failed WebRTC attempt (`'fallback'`, 4008–4012) */
+  closeCode?: number;
+}
+
+/** What `connection.getToken` is asked for */
+export interface TokenRequestOptions {
+  /** Bypass any token cache (MSAL: `acquireTokenSilent({ forceRefresh: true })`) */
+  forceRefresh: boolean;
+}
+
 /**
  * Connection configuration for Voice Live API
  */
@@ -99,9 +135,12 @@ export interface VoiceLiveConnectionConfig {
 
   /**
    * Token provider called on every (re)connect — use it instead of `token` when tokens
-   * expire (e.g. MSAL `acquireTokenSilent`). Takes precedence over `token`.
+   * expire (e.g. MSAL `acquireTokenSilent`). Takes precedence over `token`. A JWT is also
+   * refreshed ahead of its `exp`, and the next (re)connect uses that token instead of calling
+   * again; `forceRefresh` asks for a new token rather than a cached one (after the service
+   * rejected it, or when the cached one is about to expire).
    */
-  getToken?: () => string | Promise<string>;
+  getToken?: (options: TokenRequestOptions) => string | Promise<string>;
 
   /**
    * Model to use (standard mode)
@@ -193,10 +232,12 @@ export interface VoiceLiveConnectionConfig {
   // ===== Transport =====
 
   /**
-   * Realtime transport.
+   * Realtime transport. `'auto'` tries WebRTC and continues over WebSocket when it fails to
+   * negotiate or to carry media (e.g. UDP blocked), then remembers the transport that worked
+   * for this browser origin (`localStorage`).
    * @default 'websocket'
    */
-  transport?: VoiceLiveTransport;
+  transport?: VoiceLiveTransport | 'auto';
 
   /**
    * Optional RTCConfiguration for `transport: 'webrtc'` (e.g. TURN servers for
@@ -215,6 +256,31 @@ export interface VoiceLiveConnectionConfig {
  */
 export type AudioFormat = 'pcm16' | 'g711_ulaw' | 'g711_alaw';
 
+/**
+ * Client-side voice activity detection in the capture worklet. A frame is speech when it is
+ * `thresholdDb` above the tracked noise floor *and* has the peaky spectrum of a voice rather than
+ * the flat one of fans, traffic or hiss.
+ */
+export interface ClientVadOptions {
+  /** How far above the noise floor a frame must be to count as speech @default 12 */
+  thresholdDb?: number;
+  /**
+   * Frames with a flatter spectrum (0 = a pure tone, ~0.56 = white noise) are not speech
+   * @default 0.35
+   */
+  maxSpectralFlatness?: number;
+  /** Consecutive speech needed before the user counts as speaking @default 60 */
+  minSpeechMs?: number;
+  /**
+   * How long the user still counts as speaking after the last speech frame. Audio keeps flowing
+   * meanwhile, so keep it above `turnDetection.silenceDurationMs`: the service needs to hear the
+   * silence that ends the turn. @default 800
+   */
+  hangoverMs?: number;
+  /** Audio from before the onset sent ahead of it, so the first syllable is not cut @default 300 */
+  prefixPaddingMs?: number;
+}
+
 /**
  * Input audio sampling rate (Voice Live)
  */
@@ -237,9 +303,8 @@ export interface InputAudioEchoCancellation {
    * - 'client': the client streams interleaved stereo PCM16 (channel 0 = mic,
    *   channel 1 = the audio actually played back) and the service uses channel 1
    *   as the reference. Requires `channels: 2` and `inputAudioFormat: 'pcm16'`.
-   *
-   * Note: stereo reference capture is not yet implemented by `useAudioCapture`;
-   * this option is currently types/wire-format only.
+   *   The WebSocket microphone then captures stereo with `audioStream` as the reference
+   *   (voice-only; the WebRTC transport and avatars have no client-side reference).
    * @default 'server'
    */
   referenceSource?: 'server' | 'client';
@@ -1120,19 +1185,51 @@ export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'none';
  */
 export type ToolResult = string | object;
 
+/**
+ * Per-call context handed to a tool executor
+ */
+export interface ToolExecutionContext {
+  /**
+   * Aborted when the call's result is no longer wanted: the user barged in, `cancelResponse()`
+   * was called, the call exceeded `toolTimeoutMs`, or the session ended (disconnect or
+   * reconnect). Pass it to `fetch()` and friends; `signal.reason` is a `DOMException` named
+   * `AbortError` (or `TimeoutError`).
+   */
+  signal: AbortSignal;
+}
+
 /**
  * Tool executor for function calling.
  *
  * If it returns (or resolves to) a value other than `undefined`, the hook sends it as
  * the `function_call_output` for `callId` and triggers a new response automatically.
  * Return `undefined`/`void` to send the result yourself via `sendToolResult()`.
+ *
+ * A call that is cancelled (barge-in, `cancelResponse()`) is answered with
+ * `{ error: { type: 'cancelled', tool, message } }` and no new response; whatever the executor
+ * produces afterwards is discarded.
  */
 export type ToolExecutor = (
   name: string,
   args: string,
-  callId: string
+  callId: string,
+  context: ToolExecutionContext
 ) => void | ToolResult | Promise<void | ToolResult>;
 
+/**
+ * Whether an automatic tool call must be confirmed by the user before `toolExecutor` runs
+ * (`toolRequiresConfirmation`)
+ */
+export type ToolConfirmationPredicate = (name: string, args: string, callId: string) => boolean;
+
+/** An automatic tool call held until `confirmToolCall()` or `rejectToolCall()` */
+export interface PendingToolConfirmation {
+  callId: string;
+  name: string;
+  /** JSON arguments as the model sent them */
+  arguments: string;
+}
+
 /**
  * Non-fatal warning emitted by the service (`warning` event)
  */
@@ -1150,6 +1247,98 @@ export interface McpApprovalRequest {
   arguments: string;
 }
 
+/** What an approval rule does with the requests it matches */
+export type McpApprovalAction = 'approve' | 'deny' | 'ask';
+
+/**
+ * One rule of an `McpApprovalPolicy`. Every criterion given must match; omitted ones match any
+ * request.
+ */
+export interface McpApprovalRule {
+  /** Shown in the audit trail (defaults to `rules[<index>]`) */
+  name?: string;
+  /** MCP server label, exact or as a pattern */
+  serverLabel?: string | RegExp;
+  /** Tool name, exact or as a pattern */
+  tool?: string | RegExp;
+  /**
+   * Predicate over the call's parsed arguments (`undefined` when they are not valid JSON).
+   * A predicate that throws does not match.
+   */
+  arguments?: (args: unknown, request: McpApprovalRequest) => boolean;
+  action: McpApprovalAction;
+}
+
+/**
+ * Answers MCP approval requests without a UI round-trip. The first matching rule decides;
+ * `'ask'` hands the request to `onMcpApprovalRequest` as before.
+ *
+ * @example
+ * ```ts
+ * mcpApprovalPolicy: {
+ *   rules: [
+ *     { serverLabel: 'mslearn', tool: /^(search|fetch)_/, action: 'approve' },
+ *     { tool: 'delete_page', action: 'deny' },
+ *     {
+ *       name: 'small refunds',
+ *       tool: 'refund',
+ *       arguments: (args) => Number((args as { amount?: number }).amount) <= 50,
+ *       action: 'approve',
+ *     },
+ *   ],
+ *   timeoutMs: 30_000,
+ * }
+ * ```
+ */
+export interface McpApprovalPolicy {
+  rules?: McpApprovalRule[];
+  /**
+   * Action for requests no rule matches
+   * @default 'ask'
+   */
+  default?: McpApprovalAction;
+  /**
+   * How long a request left to the user may stay unanswered; it is then denied. `0` waits
+   * indefinitely.
+   * @default 60000
+   */
+  timeoutMs?: number;
+}
+
+/** One entry of the MCP approval audit trail */
+export interface McpApprovalDecision {
+  request: McpApprovalRequest;
+  approve: boolean;
+  /**
+   * Who decided: a policy rule or the policy's default action (`'policy'`), the user through
+   * `approveMcpCall()`, or the expiry of an unanswered request
+   */
+  decidedBy: 'policy' | 'user' | 'expiry';
+  /** The rule that matched (`'policy'`; absent when the default action decided) */
+  rule?: string;
+  /** `Date.now()` when the decision was made */
+  decidedAt: number;
+}
+
+/**
+ * A tool call the service ran itself that failed (`response.mcp_call.failed` /
+ * `response.foundry_agent_call.failed`). The model sees the failure in the conversation; this
+ * is for the app to log it or show it.
+ */
+export interface ServerToolCallFailure {
+  type: 'mcp_call' | 'foundry_agent_call';
+  /** Id of the call's conversation item */
+  itemId: string;
+  /** Response that made the call, when its item was seen */
+  responseId?: string;
+  /** Tool (or agent) name, when the call's item was seen */
+  name?: string;
+  /** MCP server label (`mcp_call`) */
+  serverLabel?: string;
+  /** What the service reported, when it says */
+  error?: string;
+}
+
 /**
  * Complete configuration for useVoiceLive hook
  */
@@ -1205,6 +1394,38 @@ export interface UseVoiceLiveConfig {
    */
   audioConstraints?: MediaTrackConstraints | boolean;
 
+  /**
+   * Play response audio through Web Audio (WebSocket transport). Set false when the audio goes
+   * elsewhere — a telephony bridge, a Node process — and take it from the session's `audio`
+   * event instead; no AudioContext is created then.
+   * @default true
+   */
+  playAudio?: boolean;
+
+  /**
+   * Detect speech in the microphone worklet (WebSocket transport): only speech — with
+   * `prefixPaddingMs` before it and `hangoverMs` after it — is sent as `input_audio_buffer.append`,
+   * and the assistant's playback stops the moment the user starts talking instead of when the
+   * service's `speech_started` arrives (unless `turnDetection.interruptResponse` is false). The
+   * service's turn detection still decides when a turn ends. Not used with push-to-talk.
+   * @default false
+   */
+  clientVad?: boolean | ClientVadOptions;
+
+  /**
+   * `'push-to-talk'` turns server turn detection off (`turn_detection: null`, whatever
+   * `session.turnDetection` says) and sends microphone audio only between `beginTurn()` and
+   * `endTurn()` — for places too noisy for voice activity detection to find the turns.
+   * @default 'voice-activity'
+   */
+  interactionMode?: InteractionMode;
+
+  /**
+   * Push-to-talk: turns shorter than this are discarded by `endTurn()` instead of submitted
+   * @default 300
+   */
+  minTurnDurationMs?: number;
+
   // ===== Lifecycle & Handlers =====
 
   /**
@@ -1234,13 +1455,25 @@ export interface UseVoiceLiveConfig {
    *
    * During attempts `connectionState` is `'reconnecting'`; the microphone (WebRTC) and
    * capture (WebSocket) are re-attached automatically; the proactive greeting is **not**
-   * re-sent. Standard-mode sessions start fresh (the service keeps no history) — Foundry
-   * agents continue the conversation when `connection.conversationId` is set. Use
+   * re-sent. Standard-mode sessions start fresh (the service keeps no history) unless
+   * `restoreConversation` replays it — Foundry agents continue the conversation when
+   * `connection.conversationId` is set. Use
    * `connection.getToken` so a fresh token is used for each attempt.
    * @default false
    */
   reconnect?: boolean | Partial<ReconnectOptions>;
 
+  /**
+   * Roll over to a fresh service session before this one expires (`sessionExpiresAt`), instead
+   * of being cut off. `leadTimeMs` before the expiry a second transport is opened and configured;
+   * at the next quiet moment (listening, nothing running or playing) the conversation is carried
+   * over, the microphone moves to the new session and the old one is closed — nothing the user
+   * hears is interrupted. Not available with an avatar. A rollover that fails leaves the session
+   * to expire as before (`reconnect` applies then).
+   * @default false
+   */
+  sessionRollover?: boolean | SessionRolloverOptions;
+
   /**
    * Event handler for all Voice Live server events (raw wire format).
    * Fired before the hook's own handling, for every event — including events arriving
@@ -1265,6 +1498,22 @@ export interface UseVoiceLiveConfig {
    */
   toolExecutor?: ToolExecutor;
 
+  /**
+   * Longest time an automatic tool call may run. When it is exceeded the executor's signal is
+   * aborted and the call is answered with `{ error: { type: 'timeout', tool, message } }`, so
+   * the model can tell the user instead of the turn waiting for a backend that hangs.
+   * @default undefined (no limit)
+   */
+  toolTimeoutMs?: number;
+
+  /**
+   * Tool calls for which this returns true are held before `toolExecutor` runs — listed in
+   * `pendingConfirmations` until `confirmToolCall(callId)` runs them or `rejectToolCall(callId)`
+   * answers them with `{ error: { type: 'rejected', tool, message } }`. Their response is not
+   * answered meanwhile. With typed tools, pass `registry.requiresConfirmation`.
+   */
+  toolRequiresConfirmation?: ToolConfirmationPredicate;
+
   /**
    * Called for non-fatal `warning` events from the service.
    */
@@ -1276,6 +1525,22 @@ export interface UseVoiceLiveConfig {
    */
   onMcpApprovalRequest?: (request: McpApprovalRequest) => void;
 
+  /**
+   * Decides MCP approval requests by rule (server label, tool name, arguments) before they reach
+   * `onMcpApprovalRequest`; requests left to the user are denied after `timeoutMs`.
+   * @default undefined (every request goes to `onMcpApprovalRequest`, without expiry)
+   */
+  mcpApprovalPolicy?: McpApprovalPolicy;
+
+  /** Called with every MCP approval decision, whoever made it (see `getMcpApprovalAudit()`) */
+  onMcpApprovalDecision?: (decision: McpApprovalDecision) => void;
+
+  /**
+   * Called when an MCP or Foundry agent tool call run by the service fails. The session still
+   * asks the model to continue once the response's calls have settled, so it can tell the user.
+   */
+  onServerToolCallFailed?: (failure: ServerToolCallFailure) => void;
+
   /**
    * Called with the raw (snake_case) session object on every `session.updated`.
    */
@@ -1286,6 +1551,47 @@ export interface UseVoiceLiveConfig {
 
   /** Called once a reconnect attempt produced a ready session */
   onReconnected?: () => void;
+
+  /**
+   * Called when the credentials are rejected (a `1008` or `401` close) or a token refresh fails.
+   * With `connection.getToken` a rejected connection is retried once with a forced refresh
+   * (`willRetry`), even with `reconnect` off and without counting as a reconnect attempt; after
+   * that it is fatal.
+   */
+  onAuthError?: (error: VoiceLiveAuthError) => void;
+
+  /**
+   * Called with the transport `connection.transport: 'auto'` uses: once per `connect()`, and
+   * again when WebRTC fails and the session continues over WebSocket.
+   */
+  onTransportSelected?: (event: TransportSelectedEvent) => void;
+
+  /** Called as a session rollover starts, completes or fails (see `sessionRollover`) */
+  onSessionRollover?: (event: SessionRolloverEvent) => void;
+
+  // ===== Recording & Replay =====
+
+  /**
+   * Record every client and server event of the session (redacted; audio optional) into this
+   * `SessionRecorder`. Save `recorder.toJSONL()` to reproduce the session later.
+   */
+  recorder?: SessionRecorder;
+
+  /**
+   * Build the transport for each connection attempt instead of the built-in WebSocket/WebRTC
+   * one — typically a `ReplayTransport` that plays a recording back. `kind` is the
+   * `connection.transport` of the attempt (the one `'auto'` chose); a connection URL is still
+   * required (any `proxyUrl` will do).
+   *
+   * @example
+   * ```ts
+   * createTransport: (callbacks) => new ReplayTransport(callbacks, { recording, speed: Infinity })
+   * ```
+   */
+  createTransport?: (
+    callbacks: TransportCallbacks,
+    kind: TransportKind
+  ) => VoiceLiveTransportInstance;
 }
 
 /**
@@ -1293,6 +1599,12 @@ export interface UseVoiceLiveConfig {
  */
 export type SessionState = 'idle' | 'listening' | 'thinking' | 'speaking';
 
+/**
+ * How user turns are delimited: by the service's voice activity detection (`turnDetection`), or
+ * by the user holding a button (`beginTurn()` / `endTurn()`)
+ */
+export type InteractionMode = 'voice-activity' | 'push-to-talk';
+
 /**
  * Connection state of the control channel.
  * `'reconnecting'` is only reached with the `reconnect` option.
@@ -1316,6 +1628,160 @@ export interface ReconnectOptions {
   maxDelayMs: number;
   /** Random jitter as a fraction of the delay (0–1) @default 0.2 */
   jitter: number;
+  /**
+   * Replay the conversation into the new session: its messages and answered function calls are
+   * recreated (`conversation.item.create`) before the session is ready again, so the assistant
+   * remembers what was said. Not applied to a Foundry agent conversation resumed by
+   * `connection.conversationId`, which the service restores itself.
+   * @default false
+   */
+  restoreConversation?: boolean | RestoreConversationOptions;
+}
+
+/** How much of the conversation a reconnect restores (`reconnect.restoreConversation`) */
+export interface RestoreConversationOptions {
+  /** Turns replayed, newest last; a turn starts at each user message @default 20 */
+  maxTurns?: number;
+  /**
+   * Replace the older turns with a summary, replayed first as a system message: `true` asks the
+   * model (an out-of-band `generate()` on the new session), a function returns your own. Without
+   * it, the older turns are left out.
+   */
+  summarize?: boolean | ((dropped: readonly ConversationItem[]) => string | Promise<string>);
+}
+
+/** An authentication failure (`onAuthError`) */
+export interface VoiceLiveAuthError {
+  message: string;
+  /** Close code of the rejected connection; absent when a token refresh failed */
+  closeCode?: number;
+  /** A connection attempt with a freshly fetched token follows */
+  willRetry: boolean;
+}
+
+/** When and how a session rolls over before it expires (`sessionRollover`) */
+export interface SessionRolloverOptions {
+  /** How long before `sessionExpiresAt` the new session is prepared, in ms @default 60000 */
+  leadTimeMs?: number;
+  /**
+   * What of the conversation the new session gets, as for `reconnect.restoreConversation`
+   * (a summary is generated on the old session). `false` starts it empty.
+   * @default true (the last 20 turns)
+   */
+  conversation?: boolean | RestoreConversationOptions;
+}
+
+/** Progress of a session rollover (`onSessionRollover`) */
+export type SessionRolloverEvent =
+  /** The new session is being opened and configured */
+  | { phase: 'started' }
+  /** The new session took over; `expiresAt` is its expiry (epoch ms), null when unknown */
+  | { phase: 'completed'; expiresAt: number | null; restoredItems: number }
+  /** The new session could not be set up; the current one carries on until it expires */
+  | { phase: 'failed'; error: string };
+
+/**
+ * Options for `sendRequest()`
+ */
+export interface SendRequestOptions<T> {
+  /**
+   * Recognise the acknowledgement yourself: return the value to resolve with, or undefined for
+   * events that are not it. Required for client events without a known acknowledgement.
+   */
+  until?: (event: VoiceLiveServerEvent) => T | undefined;
+  /** Reject when no acknowledgement arrives in time (0 waits forever) @default 10000 */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-response overrides for `createResponse()`: the session's settings for this one response
+ * only. Converted like the session (`convertResponseOptions`).
+ */
+export interface ResponseCreateOptions {
+  /** Instructions for this response instead of the session's */
+  instructions?: string;
+  voice?: string | StandardVoice | VoiceConfig;
+  /** `['text']` answers in text only (no audio for this response) */
+  modalities?: Modality[];
+  /** Tools for this response instead of the session's (`[]`: none) */
+  tools?: Tool[];
+  toolChoice?: ToolChoice;
+  temperature?: number;
+  /** Output token limit of this response */
+  maxOutputTokens?: number | 'inf';
+  /** Up to 16 key/value pairs echoed on the response (`response.created`, `response.done`) */
+  metadata?: Record<string, string>;
+  /**
+   * `'none'` makes the response out-of-band: it is not added to the conversation, and the gate
+   * never merges it with a turn of the conversation
+   * @default 'auto'
+   */
+  conversation?: 'auto' | 'none';
+}
+
+/**
+ * One requested response, from `createResponse()` or `sendText()`. Plain requests made while a
+ * response runs are collapsed by the response gate into one follow-up, whose output all their
+ * handles see; a request with its own options waits for a response of its own.
+ *
+ * The iterators replay the response's output from its start, so they may be started late; they
+ * end with the response, and throw when it can no longer arrive.
+ */
+export interface ResponseHandle {
+  /** The response id, once `response.created` arrived (null until then) */
+  readonly id: string | null;
+  /** Resolves when the `response.create` reaches the wire: at once, or when the gate sends it */
+  readonly sent: Promise<void>;
+  /** Resolves with the response id on `response.created` */
+  readonly created: Promise<string>;
+  /**
+   * Resolves with the `response.done` payload (`status`, `usage`, `output`), also for a cancelled
+   * response; rejects when the service refuses the request or the session ends first
+   */
+  readonly done: Promise<WireResponse>;
+  /** `response.text.delta`s (text modality) */
+  textDeltas(): AsyncIterable<string>;
+  /** `response.audio_transcript.delta`s (what the assistant says) */
+  transcriptDeltas(): AsyncIterable<string>;
+  /** Audio as sent (`response.audio.delta`, decoded; WebSocket transport — WebRTC plays RTP) */
+  audioChunks(): AsyncIterable<Uint8Array>;
+  /** Cancel this response: now if it runs, as soon as it starts if it has not yet */
+  cancel(): void;
+}
+
+/**
+ * A side task for `generate()`: a one-shot text answer that is neither spoken nor added to the
+ * conversation ("classify the user's intent", "summarize these turns")
+ */
+export interface GenerateOptions<S extends JsonSchema = JsonSchema> {
+  /** The task */
+  instructions: string;
+  /** What the task works on: text (sent as a user message) or conversation items */
+  input: string | WireConversationRequestItem[];
+  /** Tools the model may call. Its calls are returned in `toolCalls`, not executed. */
+  tools?: Tool[];
+  /**
+   * JSON Schema of the answer: the model is asked for JSON matching it, and `json` is the parsed
+   * answer. An answer that is not valid JSON or does not match rejects.
+   */
+  schema?: S;
+}
+
+/** A function call the model made during `generate()` */
+export interface GenerateToolCall {
+  name: string;
+  /** JSON-encoded arguments, as the model wrote them */
+  arguments: string;
+  callId: string;
+}
+
+/** The answer of `generate()` */
+export interface GenerateResult<T = unknown> {
+  /** The text of the answer */
+  text: string;
+  /** The answer parsed and validated against `schema` (only with a schema) */
+  json?: T;
+  toolCalls: GenerateToolCall[];
 }
 
 /**
@@ -1331,7 +1797,10 @@ export interface UseVoiceLiveReturn {
   /** Current session activity state (idle/listening/thinking/speaking) */
   sessionState: SessionState;
 
-  /** Active transport ('websocket' or 'webrtc') */
+  /**
+   * Active transport ('websocket' or 'webrtc'). With `connection.transport: 'auto'` it is only
+   * chosen by `connect()` (or `startMic()`); before that it reports WebRTC where supported.
+   */
   transport: VoiceLiveTransport;
 
   /** Video stream for avatar */
@@ -1349,6 +1818,12 @@ export interface UseVoiceLiveReturn {
    */
   sessionExpiresAt: number | null;
 
+  /**
+   * Expiry of the connection's Entra ID token as epoch milliseconds (the JWT `exp` of `token` or
+   * of what `getToken` last returned), or null when unknown or not a JWT.
+   */
+  tokenExpiresAt: number | null;
+
   /** Audio context for visualization and analysis */
   audioContext: AudioContext | null;
 
@@ -1367,6 +1842,34 @@ export interface UseVoiceLiveReturn {
   /** Error message if any */
   error: string | null;
 
+  /**
+   * The conversation so far, in server order (see `ConversationItem`). Built by the SDK from the
+   * service's item, transcription and response events; cleared by `connect()`, kept across
+   * reconnects and after `disconnect()`.
+   */
+  conversation: readonly ConversationItem[];
+
+  /**
+   * Tool calls waiting for the user's go-ahead (`toolRequiresConfirmation`), oldest first.
+   * Emptied when the session ends.
+   */
+  pendingConfirmations: readonly PendingToolConfirmation[];
+
+  /** Push-to-talk: whether a turn is open (between `beginTurn()` and `endTurn()`) */
+  isTurnActive: boolean;
+
+  /**
+   * Whether the session runs without the audio modality (`session.modalities: ['text']`, or
+   * switched there with `updateSession`): no microphone and no output audio graph
+   */
+  isTextOnly: boolean;
+
+  /**
+   * Assistant text of the latest response that produced some, while it streams. Replaced when
+   * the next response's text starts; cleared by `connect()`.
+   */
+  responseText: ResponseText | null;
+
   /** Connect to Voice Live API */
   connect: () => Promise<void>;
 
@@ -1385,14 +1888,31 @@ export interface UseVoiceLiveReturn {
   /** Send a raw event to the API (typed client events or any `{ type, ... }` object) */
   sendEvent: (event: VoiceLiveClientEvent | VoiceLiveEvent) => void;
 
-  /** Update session configuration (agent-mode aware) */
-  updateSession: (config: Partial<VoiceLiveSessionConfig>) => void;
+  /**
+   * Send a client event and wait for the server's answer: resolves with the acknowledging event
+   * (`session.updated`, `conversation.item.created`, `input_audio_buffer.committed`, ...), rejects
+   * with the service's message on an `error` naming this event's `event_id`, on timeout, or when
+   * the session ends first. Use `options.until` for events without a known acknowledgement.
+   */
+  sendRequest: <T = VoiceLiveServerEvent>(
+    event: VoiceLiveClientEvent,
+    options?: SendRequestOptions<T>
+  ) => Promise<T>;
+
+  /**
+   * Update session configuration (agent-mode aware). Resolves once `session.updated` confirms the
+   * new configuration is live; rejects if the service refuses it. New `modalities` switch the
+   * session between voice and text right away: the microphone and playback stop for text, and
+   * come back (with `autoStartMic`) for voice. The switch holds for later updates and reconnects
+   * until the next `connect()`.
+   */
+  updateSession: (config: Partial<VoiceLiveSessionConfig>) => Promise<void>;
 
   /**
    * Send a user text message (`conversation.item.create` with `input_text`) and,
-   * by default, trigger a response.
+   * by default, trigger a response — returned as a handle (null with `triggerResponse: false`).
    */
-  sendText: (text: string, options?: { triggerResponse?: boolean }) => void;
+  sendText: (text: string, options?: { triggerResponse?: boolean }) => ResponseHandle | null;
 
   /**
    * Send a function-call result (`function_call_output`) for `callId` and, by default,
@@ -1418,16 +1938,231 @@ export interface UseVoiceLiveReturn {
 
   /**
    * Ask the model to respond now (manual turn control, or after a tool result you sent yourself).
-   * Serialized with every other turn, so it can never overlap a running response.
+   * Serialized with every other turn, so it can never overlap a running response; the handle
+   * follows the response that answers it. `options` override the session for this response.
+   */
+  createResponse: (options?: ResponseCreateOptions) => ResponseHandle;
+
+  /**
+   * Run a side task outside the conversation (`conversation: 'none'`, text only). Serialized with
+   * every other turn like `createResponse()`, so it never overlaps a spoken response; nothing is
+   * spoken, shown in `responseText` or added to `conversation`. Rejects when the service refuses
+   * it, the response does not complete, or the answer does not match `schema`.
+   */
+  generate: <const S extends JsonSchema = JsonSchema>(
+    options: GenerateOptions<S>
+  ) => Promise<GenerateResult<InferSchema<S>>>;
+
+  /**
+   * Push-to-talk: start a user turn — interrupt the assistant (cancel its response and flush
+   * playback), clear the input audio buffer and start sending the microphone
    */
-  createResponse: () => void;
+  beginTurn: () => void;
 
-  /** Approve or deny a pending MCP tool call (`mcp_approval_response`) */
+  /**
+   * Push-to-talk: stop sending the microphone, commit the turn and request a response. A turn
+   * shorter than `minTurnDurationMs` is cleared instead. Returns whether the turn was submitted.
+   */
+  endTurn: () => boolean;
+
+  /**
+   * Approve or deny a pending MCP tool call (`mcp_approval_response`). A request the policy or
+   * its expiry already decided is not answered again.
+   */
   approveMcpCall: (approvalRequestId: string, approve: boolean) => void;
 
+  /** Every MCP approval decision of the current conversation, oldest first */
+  getMcpApprovalAudit: () => readonly McpApprovalDecision[];
+
+  /** Run a held tool call (`pendingConfirmations`) through `toolExecutor` */
+  confirmToolCall: (callId: string) => void;
+
+  /**
+   * Answer a held tool call with a refusal instead of running it, so the model can explain.
+   * `reason` becomes the error message.
+   */
+  rejectToolCall: (callId: string, reason?: string) => void;
+
+  /**
+   * Fetch an item as the service stores it (`conversation.item.retrieve`). Like the other item
+   * edits below, the promise resolves on the server's acknowledgement and rejects with the
+   * service's message when it answers with an `error` for this request.
+   */
+  retrieveItem: (itemId: string) => Promise<WireConversationItem>;
+
+  /** Delete an item from the conversation (`conversation.item.delete`) */
+  deleteItem: (itemId: string) => Promise<void>;
+
+  /**
+   * Truncate an assistant audio message at `audioEndMs` (`conversation.item.truncate`), removing
+   * the transcript of audio the user did not hear.
+   */
+  truncateItem: (itemId: string, audioEndMs: number) => Promise<void>;
+
+  /**
+   * Insert an item without triggering a response (`conversation.item.create`) — after
+   * `previousItemId` when given, else at the end. Resolves with the created item.
+   */
+  insertItem: (
+    item: WireConversationRequestItem,
+    options?: { previousItemId?: string }
+  ) => Promise<WireConversationItem>;
+
   /**
    * Get current audio playback time in milliseconds (for viseme synchronization).
    * Returns null before playback starts and always null on the WebRTC transport.
    */
   getAudioPlaybackTime: () => number | null;
 }
+
+// ============================================================================
+// CONVERSATION
+// ============================================================================
+
+/**
+ * Lifecycle of a conversation item. `incomplete` is a response item that was cancelled or cut
+ * off; `failed` is a tool call the service reported as failed.
+ */
+export type ConversationItemStatus = 'in_progress' | 'completed' | 'incomplete' | 'failed';
+
+interface ConversationItemBase {
+  /** Service-assigned item id (stable for the lifetime of the item) */
+  id: string;
+  status: ConversationItemStatus;
+  /** The response that produced this item (assistant output only) */
+  responseId?: string;
+}
+
+/** A user, assistant or system message */
+export interface ConversationMessageItem extends ConversationItemBase {
+  type: 'message';
+  role: 'user' | 'assistant' | 'system';
+  /**
+   * Text of the message: typed text, the user's input transcription or the assistant's
+   * transcript — updated while it streams
+   */
+  text: string;
+  /** The message carries audio (its `text` is a transcript) */
+  hasAudio: boolean;
+  /**
+   * Where the assistant's audio was cut off (barge-in), in ms from the start of the item;
+   * everything in `text` after that point was not heard
+   */
+  truncatedAtMs?: number;
+}
+
+/** A function (tool) call, joined with its `function_call_output` once that exists */
+export interface ConversationFunctionCallItem extends ConversationItemBase {
+  type: 'function_call';
+  callId: string;
+  name: string;
+  /** JSON arguments (partial while streaming) */
+  arguments: string;
+  output?: string;
+}
+
+/** A call the service made to an MCP server */
+export interface ConversationMcpCallItem extends ConversationItemBase {
+  type: 'mcp_call';
+  serverLabel: string;
+  name: string;
+  arguments: string;
+  output?: string;
+  error?: string;
+}
+
+/** A call the service made to a Foundry agent tool */
+export interface ConversationFoundryAgentCallItem extends ConversationItemBase {
+  type: 'foundry_agent_call';
+  name: string;
+  arguments: string;
+  output?: string;
+  error?: string;
+}
+
+/** One entry of `UseVoiceLiveReturn['conversation']` */
+export type ConversationItem =
+  | ConversationMessageItem
+  | ConversationFunctionCallItem
+  | ConversationMcpCallItem
+  | ConversationFoundryAgentCallItem;
+
+/**
+ * Assistant text as it streams for one response of a text modality session
+ * (`response.text.delta` / `response.text.done`)
+ */
+export interface ResponseText {
+  responseId: string;
+  /** The message item the text belongs to */
+  itemId: string;
+  /** Text so far; the service's final text once `isFinal` */
+  text: string;
+  isFinal: boolean;
+}
+
+// ============================================================================
+// FRAMEWORK-AGNOSTIC SESSION
+// ============================================================================
+
+/**
+ * Configuration of a `VoiceLiveSession` — the same options `useVoiceLive` takes (the hook passes
+ * them through), minus the React-only `autoConnect`.
+ */
+export type VoiceLiveSessionOptions = Omit<UseVoiceLiveConfig, 'autoConnect'>;
+
+/**
+ * Observable state of a `VoiceLiveSession`. `useVoiceLive` returns exactly these fields next to
+ * its actions; other frameworks read them from `getSnapshot()` / the `change` event.
+ */
+export type VoiceLiveSessionSnapshot = Pick<
+  UseVoiceLiveReturn,
+  | 'connectionState'
+  | 'reconnectAttempt'
+  | 'sessionState'
+  | 'transport'
+  | 'videoStream'
+  | 'audioStream'
+  | 'sessionExpiresAt'
+  | 'tokenExpiresAt'
+  | 'audioContext'
+  | 'audioAnalyser'
+  | 'isReady'
+  | 'isMicActive'
+  | 'isMuted'
+  | 'error'
+  | 'conversation'
+  | 'pendingConfirmations'
+  | 'isTurnActive'
+  | 'isTextOnly'
+  | 'responseText'
+>;
+
+/**
+ * Events a `VoiceLiveSession` emits (`session.on(name, listener)`). Each mirrors the `on*`
+ * callback of the same name in the options; both are called, the callback first.
+ */
+export interface VoiceLiveSessionEvents {
+  /** Any field of the snapshot changed */
+  change: [snapshot: VoiceLiveSessionSnapshot];
+  /** Every server event (raw wire format), before the session's own handling */
+  event: [event: VoiceLiveServerEvent];
+  transcript: [role: 'user' | 'assistant', text: string, isFinal: boolean];
+  warning: [warning: VoiceLiveWarning];
+  /** A new error message (also reflected in `snapshot.error`) */
+  error: [message: string];
+  /**
+   * Audio of the current response as sent (WebSocket transport): PCM16 little-endian at
+   * `audioSampleRate`, or 8 kHz G.711 bytes when `format` says so. Decoded from base64 only while
+   * someone listens; emitted whether or not `playAudio` is on.
+   */
+  audio: [audio: Uint8Array, responseId: string, format: AudioFormat];
+  mcpApprovalRequest: [request: McpApprovalRequest];
+  mcpApprovalDecision: [decision: McpApprovalDecision];
+  serverToolCallFailed: [failure: ServerToolCallFailure];
+  sessionUpdated: [session: Record<string, unknown>];
+  reconnecting: [attempt: number, delayMs: number];
+  reconnected: [];
+  sessionRollover: [event: SessionRolloverEvent];
+  authError: [error: VoiceLiveAuthError];
+  transportSelected: [event: TransportSelectedEvent];
+}
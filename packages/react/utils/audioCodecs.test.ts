@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+import { describe, it, expect } from 'vitest';
+import {
+  encodeMuLaw,
+  decodeMuLaw,
+  encodeALaw,
+  decodeALaw,
+  decodeToPcm16,
+  encodeFromPcm16,
+  resamplePcm16,
+  Pcm16Resampler,
+} from './audioCodecs';
+
+const ALL_BYTES = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+/** A sine tone as PCM16 */
+function tone(frequency: number, sampleRate: number, samples: number, amplitude = 16000) {
+  return Int16Array.from({ length: samples }, (_, i) =>
+    Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+  );
+}
+
+/** Root mean square over the middle of a signal (away from the edges) */
+function rms(pcm: Int16Array) {
+  const middle = pcm.subarray(Math.floor(pcm.length / 4), Math.floor((3 * pcm.length) / 4));
+  return Math.sqrt(middle.reduce((sum, value) => sum + value * value, 0) / middle.length);
+}
+
+describe('G.711', () => {
+  it('matches the reference μ-law and A-law code points', () => {
+    expect([...encodeMuLaw(Int16Array.from([0, 32767, -32768]))]).toEqual([0xff, 0x80, 0x00]);
+    expect([...decodeMuLaw(Uint8Array.from([0xff, 0x80, 0x00]))]).toEqual([0, 32124, -32124]);
+    expect([...encodeALaw(Int16Array.from([0, 32767, -32768]))]).toEqual([0xd5, 0xaa, 0x2a]);
+    expect([...decodeALaw(Uint8Array.from([0xd5, 0x55, 0xaa]))]).toEqual([8, -8, 32256]);
+  });
+
+  it('re-encodes every decoded code point to the same value', () => {
+    const mu = decodeMuLaw(ALL_BYTES);
+    expect([...decodeMuLaw(encodeMuLaw(mu))]).toEqual([...mu]);
+    const a = decodeALaw(ALL_BYTES);
+    expect([...encodeALaw(a)]).toEqual([...ALL_BYTES]);
+  });
+
+  it('keeps speech-level audio within the companding error', () => {
+    const pcm = tone(440, 8000, 800);
+    for (const [encode, decode] of [
+      [encodeMuLaw, decodeMuLaw],
+      [encodeALaw, decodeALaw],
+    ] as const) {
+      const decoded = decode(encode(pcm));
+      pcm.forEach((value, i) => {
+        expect(Math.abs((decoded[i] as number) - value)).toBeLessThanOrEqual(
+          Math.abs(value) / 16 + 16
+        );
+      });
+    }
+  });
+
+  it('converts between wire formats and PCM16', () => {
+    const pcm = Int16Array.from([1, -2, 300]);
+    const bytes = encodeFromPcm16(pcm, 'pcm16');
+    expect([...bytes]).toEqual([1, 0, 254, 255, 44, 1]);
+    // an odd offset into a larger buffer, as a Node Buffer from the pool would be
+    const shifted = new Uint8Array(bytes.length + 1);
+    shifted.set(bytes, 1);
+    expect([...decodeToPcm16(shifted.subarray(1), 'pcm16')]).toEqual([1, -2, 300]);
+    expect(decodeToPcm16(encodeFromPcm16(pcm, 'g711_alaw'), 'g711_alaw')).toHaveLength(3);
+  });
+});
+
+describe('resamplePcm16', () => {
+  it('changes the length by the rate ratio and keeps a constant signal constant', () => {
+    const dc = new Int16Array(2400).fill(1000);
+    const down = resamplePcm16(dc, 24000, 8000);
+    expect(down).toHaveLength(800);
+    expect(down[400]).toBe(1000);
+    const up = resamplePcm16(down, 8000, 16000);
+    expect(up).toHaveLength(1600);
+    expect(up[800]).toBe(1000);
+  });
+
+  it('keeps in-band tones and removes what 8 kHz cannot carry', () => {
+    const speech = tone(1000, 24000, 4800);
+    expect(rms(resamplePcm16(speech, 24000, 8000)) / rms(speech)).toBeCloseTo(1, 1);
+    const hiss = tone(6000, 24000, 4800);
+    expect(rms(resamplePcm16(hiss, 24000, 8000)) / rms(hiss)).toBeLessThan(0.1);
+  });
+
+  it('resamples a stream in chunks exactly like the whole signal', () => {
+    const signal = tone(700, 24000, 7200);
+    const resampler = new Pcm16Resampler(24000, 8000);
+    const chunks: number[] = [];
+    for (let offset = 0; offset < signal.length; offset += 2400) {
+      chunks.push(...resampler.process(signal.subarray(offset, offset + 2400)));
+    }
+    chunks.push(...resampler.flush());
+    expect(chunks).toEqual([...resamplePcm16(signal, 24000, 8000)]);
+  });
+});
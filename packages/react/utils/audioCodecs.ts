@@ -0,0 +1,241 @@
+/**
+ * Telephony audio: G.711 μ-law / A-law and PCM16 resampling.
+ *
+ * Pure functions (no Web Audio), usable in the browser, in the capture/playback pipeline and in
+ * Node bridges. G.711 is always 8 kHz mono, one byte per sample; the service accepts and produces
+ * it when the session's `inputAudioFormat` / `outputAudioFormat` is `g711_ulaw` or `g711_alaw`.
+ */
+
+import type { AudioFormat } from '../types/voiceLive';
+
+/** Sample rate of G.711 audio */
+export const G711_SAMPLE_RATE = 8000;
+
+// ===== μ-law (ITU-T G.711, as used by North American / Japanese telephony and Twilio) =====
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+function encodeMuLawSample(value: number): number {
+  const sign = value < 0 ? 0x80 : 0;
+  let magnitude = Math.min(sign ? -value : value, MULAW_CLIP) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  magnitude = sign | (exponent << 4) | mantissa;
+  return ~magnitude & 0xff;
+}
+
+function decodeMuLawSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const magnitude = ((((value & 0x0f) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return value & 0x80 ? -magnitude : magnitude;
+}
+
+// ===== A-law (ITU-T G.711, as used by European telephony) =====
+
+/** Upper bound of each A-law segment, on the 13-bit magnitude */
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function encodeALawSample(value: number): number {
+  let magnitude = value >> 3;
+  let mask = 0xd5;
+  if (magnitude < 0) {
+    mask = 0x55;
+    magnitude = -magnitude - 1;
+  }
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => magnitude <= end);
+  if (segment < 0) return 0x7f ^ mask;
+  const shift = segment < 2 ? 1 : segment;
+  return ((segment << 4) | ((magnitude >> shift) & 0x0f)) ^ mask;
+}
+
+function decodeALawSample(byte: number): number {
+  const value = byte ^ 0x55;
+  const segment = (value & 0x70) >> 4;
+  let magnitude = ((value & 0x0f) << 4) + 8;
+  if (segment >= 1) magnitude += 0x100;
+  if (segment > 1) magnitude <<= segment - 1;
+  return value & 0x80 ? magnitude : -magnitude;
+}
+
+/** Decoding is a table lookup; the tables are built on first use */
+let muLawTable: Int16Array | null = null;
+let aLawTable: Int16Array | null = null;
+
+function decodeWith(table: Int16Array, bytes: Uint8Array): Int16Array {
+  const pcm = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    pcm[i] = table[bytes[i] as number] as number;
+  }
+  return pcm;
+}
+
+function buildTable(decode: (byte: number) => number): Int16Array {
+  const table = new Int16Array(256);
+  for (let byte = 0; byte < 256; byte++) table[byte] = decode(byte);
+  return table;
+}
+
+/** Encode PCM16 samples (8 kHz) as G.711 μ-law bytes */
+export function encodeMuLaw(pcm: Int16Array): Uint8Array {
+  return Uint8Array.from(pcm, encodeMuLawSample);
+}
+
+/** Decode G.711 μ-law bytes to PCM16 samples (8 kHz) */
+export function decodeMuLaw(bytes: Uint8Array): Int16Array {
+  muLawTable ??= buildTable(decodeMuLawSample);
+  return decodeWith(muLawTable, bytes);
+}
+
+/** Encode PCM16 samples (8 kHz) as G.711 A-law bytes */
+export function encodeALaw(pcm: Int16Array): Uint8Array {
+  return Uint8Array.from(pcm, encodeALawSample);
+}
+
+/** Decode G.711 A-law bytes to PCM16 samples (8 kHz) */
+export function decodeALaw(bytes: Uint8Array): Int16Array {
+  aLawTable ??= buildTable(decodeALawSample);
+  return decodeWith(aLawTable, bytes);
+}
+
+/**
+ * Decode wire audio of `format` to PCM16 samples. PCM16 is read as little-endian, which is what
+ * the service sends (and the byte order of every platform this runs on).
+ */
+export function decodeToPcm16(bytes: Uint8Array, format: AudioFormat): Int16Array {
+  switch (format) {
+    case 'g711_ulaw':
+      return decodeMuLaw(bytes);
+    case 'g711_alaw':
+      return decodeALaw(bytes);
+    default:
+      // Copy: the view may start at an odd offset (a Node Buffer from the pool, for instance)
+      return new Int16Array(bytes.slice(0, bytes.length - (bytes.length % 2)).buffer);
+  }
+}
+
+/** Encode PCM16 samples as wire audio of `format` */
+export function encodeFromPcm16(pcm: Int16Array, format: AudioFormat): Uint8Array {
+  switch (format) {
+    case 'g711_ulaw':
+      return encodeMuLaw(pcm);
+    case 'g711_alaw':
+      return encodeALaw(pcm);
+    default:
+      return new Uint8Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength));
+  }
+}
+
+/** Sample rate of wire audio: G.711 is fixed, PCM16 uses the session's rate */
+export function audioFormatSampleRate(format: AudioFormat, pcmSampleRate: number): number {
+  return format === 'pcm16' ? pcmSampleRate : G711_SAMPLE_RATE;
+}
+
+// ===== Resampling =====
+
+/** Lanczos lobes: the same kernel the playback worklet uses */
+const LOBES = 3;
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (Math.abs(x) >= LOBES) return 0;
+  const px = Math.PI * x;
+  return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+}
+
+/**
+ * Streaming PCM16 resampler (Lanczos-3, low-pass filtered when downsampling, e.g. 24 kHz → 8 kHz).
+ *
+ * Chunks are resampled as one continuous signal: the samples a chunk boundary needs on both
+ * sides are carried over to the next `process()` call, so per-chunk conversion has no clicks.
+ * That costs a few samples of latency; `flush()` returns them at the end of a stream.
+ */
+export class Pcm16Resampler {
+  /** Source samples per output sample */
+  private readonly step: number;
+  /** Kernel compression: below 1 when downsampling, which moves the cutoff below the new Nyquist */
+  private readonly scale: number;
+  /** Kernel half-width, in source samples */
+  private readonly reach: number;
+  /** Source samples still needed (left context of the next output sample, and beyond) */
+  private pending: Int16Array;
+  /** Position of the next output sample in `pending` */
+  private position: number;
+
+  constructor(
+    readonly fromRate: number,
+    readonly toRate: number
+  ) {
+    if (!(fromRate > 0) || !(toRate > 0)) {
+      throw new Error(`Invalid resampling rates: ${fromRate} Hz → ${toRate} Hz`);
+    }
+    this.step = fromRate / toRate;
+    this.scale = Math.min(1, toRate / fromRate);
+    this.reach = Math.ceil(LOBES / this.scale);
+    this.pending = new Int16Array(this.reach); // silence before the first sample
+    this.position = this.reach;
+  }
+
+  /** Resample the next chunk of the stream */
+  process(input: Int16Array): Int16Array {
+    if (this.fromRate === this.toRate) return input.slice();
+    const source = new Int16Array(this.pending.length + input.length);
+    source.set(this.pending);
+    source.set(input, this.pending.length);
+    return this.run(source, source.length - this.reach);
+  }
+
+  /** Resample what is left of the stream (its last samples see silence after them) and reset */
+  flush(): Int16Array {
+    if (this.fromRate === this.toRate) return new Int16Array(0);
+    const end = this.pending.length;
+    const source = new Int16Array(end + this.reach + 1);
+    source.set(this.pending);
+    const tail = this.run(source, end);
+    this.pending = new Int16Array(this.reach);
+    this.position = this.reach;
+    return tail;
+  }
+
+  /** Emit every output sample positioned before `limit`, then keep what the next ones need */
+  private run(source: Int16Array, limit: number): Int16Array {
+    const output: number[] = [];
+    while (this.position < limit && Math.floor(this.position) + this.reach < source.length) {
+      output.push(this.sampleAt(source, this.position));
+      this.position += this.step;
+    }
+    const keepFrom = Math.max(0, Math.floor(this.position) - this.reach + 1);
+    this.pending = source.slice(keepFrom);
+    this.position -= keepFrom;
+    return Int16Array.from(output);
+  }
+
+  private sampleAt(source: Int16Array, position: number): number {
+    const center = Math.floor(position);
+    let sum = 0;
+    let weights = 0;
+    for (let i = center - this.reach + 1; i <= center + this.reach; i++) {
+      const weight = lanczos((position - i) * this.scale);
+      sum += (source[i] ?? 0) * weight;
+      weights += weight;
+    }
+    // Normalizing keeps a constant signal constant whatever the fractional position
+    const value = Math.round(weights === 0 ? 0 : sum / weights);
+    return Math.max(-32768, Math.min(32767, value));
+  }
+}
+
+/** Resample a complete PCM16 buffer (for streams, keep one `Pcm16Resampler` instead) */
+export function resamplePcm16(pcm: Int16Array, fromRate: number, toRate: number): Int16Array {
+  const resampler = new Pcm16Resampler(fromRate, toRate);
+  const head = resampler.process(pcm);
+  const tail = resampler.flush();
+  const output = new Int16Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
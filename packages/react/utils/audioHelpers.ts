@@ -35,6 +35,19 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
+/**
+ * Decode base64 audio (e.g. `response.audio.delta`) to bytes — the inverse of
+ * `arrayBufferToBase64`.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
  * Helper to create audio data callback for Voice Live API
  * Automatically handles base64 encoding
@@ -516,7 +516,7 @@ export function withoutTurnDetection(
  *
  * @param config - Session configuration to update
  * @param options - Optional Live-Reference AEC settings (`referenceSource: 'client'`,
- *   `channels: 2`) — types/wire only; stereo capture is not implemented by useAudioCapture yet
+ *   `channels: 2` makes the WebSocket microphone send the played audio as the echo reference)
  * @returns Updated configuration
  *
  * @example
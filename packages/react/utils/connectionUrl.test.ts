@@ -6,6 +6,7 @@ import {
   validateTransport,
   redactUrl,
   compareApiVersions,
+  moveCredentialsToHeaders,
 } from './connectionUrl';
 import { DEFAULT_API_VERSION, DEFAULT_WEBRTC_API_VERSION } from './constants';
 
@@ -320,3 +321,25 @@ describe('redactUrl (encoded and differently-cased parameter names)', () => {
     expect(redactUrl(url)).toBe(url);
   });
 });
+
+describe('moveCredentialsToHeaders', () => {
+  it('moves the api key and the bearer token out of the URL', () => {
+    const standard = moveCredentialsToHeaders(
+      buildVoiceLiveUrl({ resourceName: 'r', apiKey: 'SECRET' }).url
+    );
+    expect(standard.url).not.toContain('SECRET');
+    expect(params(standard.url).get('model')).toBe('gpt-realtime');
+    expect(standard.headers).toEqual({ 'api-key': 'SECRET' });
+
+    const agent = moveCredentialsToHeaders(
+      buildVoiceLiveUrl({ resourceName: 'r', agentName: 'a', projectName: 'p', token: 'TOK' }).url
+    );
+    expect(agent.url).not.toContain('TOK');
+    expect(agent.headers).toEqual({ Authorization: 'Bearer TOK' });
+  });
+
+  it("leaves a proxy's token parameter in place", () => {
+    const url = 'wss://proxy.example.com/ws?model=gpt-realtime&token=T';
+    expect(moveCredentialsToHeaders(url)).toEqual({ url, headers: {} });
+  });
+});
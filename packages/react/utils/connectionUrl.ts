@@ -226,6 +226,11 @@ export function validateTransport(
 /** Query parameters that carry a credential and must never reach a log */
 const SECRET_PARAMS = new Set(['token', 'api-key', 'apikey', 'authorization']);
 
+/** Whether a parameter (or header, or field) name carries a credential — compared as a server would */
+export function isSecretName(name: string): boolean {
+  return SECRET_PARAMS.has(name.trim().toLowerCase());
+}
+
 /**
  * Mask secrets (api-key, Authorization, token) in a URL for logging.
  *
@@ -239,7 +244,7 @@ export function redactUrl(url: string): string {
     const parsed = new URL(url, isAbsolute ? undefined : 'ws://redact.invalid');
     let redacted = false;
     for (const key of [...parsed.searchParams.keys()]) {
-      if (SECRET_PARAMS.has(key.trim().toLowerCase())) {
+      if (isSecretName(key)) {
         parsed.searchParams.set(key, '***');
         redacted = true;
       }
@@ -255,7 +260,33 @@ export function redactUrl(url: string): string {
       } catch {
         // keep the raw name
       }
-      return SECRET_PARAMS.has(name.trim().toLowerCase()) ? `${sep}${key}=***` : match;
+      return isSecretName(name) ? `${sep}${key}=***` : match;
     });
   }
 }
+
+/** Result of `moveCredentialsToHeaders` */
+export interface HeaderAuthenticatedUrl {
+  /** The URL without `api-key` / `Authorization` */
+  url: string;
+  /** `api-key` and/or `Authorization`, as the service reads them from a request header */
+  headers: Record<string, string>;
+}
+
+/**
+ * Move the `api-key` / `Authorization` query parameters of a `buildVoiceLiveUrl` result into
+ * request headers, for clients that can set handshake headers (Node). Browsers cannot, which is
+ * why the URL carries them; a URL in a server process ends up in access logs and HTTP tracing.
+ * A proxy's `token` parameter is left alone: the proxy reads it from the query.
+ */
+export function moveCredentialsToHeaders(url: string): HeaderAuthenticatedUrl {
+  const parsed = new URL(url);
+  const headers: Record<string, string> = {};
+  for (const key of [...parsed.searchParams.keys()]) {
+    const name = key.trim().toLowerCase();
+    if (name !== 'api-key' && name !== 'authorization') continue;
+    headers[name === 'api-key' ? 'api-key' : 'Authorization'] = parsed.searchParams.get(key) ?? '';
+    parsed.searchParams.delete(key);
+  }
+  return Object.keys(headers).length > 0 ? { url: parsed.toString(), headers } : { url, headers };
+}
@@ -42,3 +42,9 @@ export const VOICE_LIVE_DATA_CHANNEL = 'voice-live-events';
  * the hook in `'connecting'` forever. Set `connectTimeoutMs: 0` to disable.
  */
 export const DEFAULT_CONNECT_TIMEOUT_MS = 15000;
+
+/**
+ * Push-to-talk: shortest turn `endTurn()` submits (ms). Anything shorter — a tap, a key bounce —
+ * is discarded rather than sent to the model as a turn of near silence.
+ */
+export const DEFAULT_MIN_TURN_DURATION_MS = 300;
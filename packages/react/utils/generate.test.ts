@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { buildGenerateEvent, readGenerateResult } from './generate';
+import type { WireResponse } from '../types/events';
+
+const intent = {
+  type: 'object',
+  properties: { intent: { type: 'string', enum: ['order', 'refund', 'other'] } },
+  required: ['intent'],
+} as const;
+
+const answer = (text: string, extra: Partial<WireResponse> = {}): WireResponse => ({
+  id: 'r1',
+  status: 'completed',
+  output: [{ type: 'message', role: 'assistant', content: [{ type: 'text', text }] }],
+  ...extra,
+});
+
+describe('generate', () => {
+  it('builds an out-of-band text response tagged with the generation id', () => {
+    expect(
+      buildGenerateEvent({ instructions: 'Summarize.', input: 'I want my money back' }, 'gen_1')
+    ).toEqual({
+      type: 'response.create',
+      response: {
+        instructions: 'Summarize.',
+        modalities: ['text'],
+        conversation: 'none',
+        metadata: { generation_id: 'gen_1' },
+        input: [
+          {
+            type: 'message',
+            role: 'user',
+            content: [{ type: 'input_text', text: 'I want my money back' }],
+          },
+        ],
+      },
+    });
+    const { response } = buildGenerateEvent(
+      { instructions: 'Classify the intent.', input: [], schema: intent },
+      'gen_2'
+    );
+    expect(response?.instructions).toContain(JSON.stringify(intent));
+    expect(response?.input).toEqual([]);
+  });
+
+  it('reads the text, the tool calls and the validated JSON answer', () => {
+    expect(readGenerateResult(answer('Refund request.'))).toEqual({
+      text: 'Refund request.',
+      toolCalls: [],
+    });
+    expect(readGenerateResult(answer('```json\n{"intent":"refund"}\n```'), intent).json).toEqual({
+      intent: 'refund',
+    });
+    expect(
+      readGenerateResult(
+        {
+          id: 'r2',
+          status: 'completed',
+          output: [{ type: 'function_call', name: 'lookup', arguments: '{}', call_id: 'call_1' }],
+        },
+        intent
+      )
+    ).toEqual({ text: '', toolCalls: [{ name: 'lookup', arguments: '{}', callId: 'call_1' }] });
+  });
+
+  it('rejects an answer that is not JSON matching the schema, or an unfinished response', () => {
+    expect(() => readGenerateResult(answer('It is a refund.'), intent)).toThrow(
+      /^The answer is not valid JSON: /
+    );
+    expect(() => readGenerateResult(answer('{"intent":"complaint"}'), intent)).toThrow(
+      'The answer does not match the schema: /intent must be one of "order", "refund", "other"'
+    );
+    expect(() =>
+      readGenerateResult(
+        answer('', { status: 'incomplete', status_details: { reason: 'max_output_tokens' } })
+      )
+    ).toThrow('Generation incomplete: max_output_tokens');
+  });
+});
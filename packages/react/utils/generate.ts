@@ -0,0 +1,98 @@
+/**
+ * Out-of-band generation (`generate()`): one-shot model calls beside the live conversation.
+ *
+ * A generation is a `response.create` with `conversation: 'none'` and text output. Its metadata
+ * carries the generation id, so its response is recognised by what it says it is rather than by
+ * when it arrived. Voice Live has no structured-output mode: a `schema` becomes part of the
+ * instructions, and the answer is parsed and checked here.
+ */
+
+import type { GenerateOptions, GenerateResult, GenerateToolCall } from '../types/voiceLive';
+import type { ResponseCreateClientEvent, WireResponse } from '../types/events';
+import { convertResponseOptions } from './sessionBuilder';
+import { validateJsonSchema, type JsonSchema } from './jsonSchema';
+
+/** Response metadata key holding the generation id */
+export const GENERATION_METADATA_KEY = 'generation_id';
+
+/**
+ * Build the `response.create` of a generation.
+ *
+ * @param options - The side task
+ * @param generationId - Tag for its response
+ */
+export function buildGenerateEvent(
+  options: GenerateOptions,
+  generationId: string
+): ResponseCreateClientEvent {
+  const instructions = options.schema
+    ? `${options.instructions}\n\nAnswer with JSON only, no other text, matching this JSON Schema:\n${JSON.stringify(options.schema)}`
+    : options.instructions;
+  return {
+    type: 'response.create',
+    response: {
+      ...convertResponseOptions({
+        instructions,
+        modalities: ['text'],
+        tools: options.tools,
+        conversation: 'none',
+        metadata: { [GENERATION_METADATA_KEY]: generationId },
+      }),
+      input:
+        typeof options.input === 'string'
+          ? [
+              {
+                type: 'message',
+                role: 'user',
+                content: [{ type: 'input_text', text: options.input }],
+              },
+            ]
+          : options.input,
+    },
+  };
+}
+
+/**
+ * Read the answer of a finished generation.
+ *
+ * @param response - The `response.done` payload
+ * @param schema - The schema the answer must match, if one was asked for
+ * @throws When the response did not complete, or the answer is not JSON matching `schema`
+ */
+export function readGenerateResult<T>(
+  response: WireResponse,
+  schema?: JsonSchema
+): GenerateResult<T> {
+  if (response.status !== 'completed') {
+    const reason =
+      response.status_details?.error?.message ?? response.status_details?.reason ?? 'no reason';
+    throw new Error(`Generation ${response.status ?? 'failed'}: ${reason}`);
+  }
+  let text = '';
+  const toolCalls: GenerateToolCall[] = [];
+  for (const item of response.output ?? []) {
+    if (item.type === 'message') {
+      for (const part of item.content ?? []) {
+        if (part.type === 'text' && part.text) text += part.text;
+      }
+    } else if (item.type === 'function_call' && item.name && item.call_id) {
+      toolCalls.push({ name: item.name, arguments: item.arguments ?? '', callId: item.call_id });
+    }
+  }
+  // A model that called tools instead of answering has no answer to parse
+  if (!schema || (!text && toolCalls.length > 0)) return { text, toolCalls };
+
+  let json: unknown;
+  try {
+    // Models like to fence JSON even when told not to
+    json = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch (err) {
+    throw new Error(`The answer is not valid JSON: ${(err as Error).message}`);
+  }
+  const issues = validateJsonSchema(schema, json);
+  if (issues.length > 0) {
+    const details = issues.map((issue) => `${issue.path || '/'} ${issue.message}`).join('; ');
+    throw new Error(`The answer does not match the schema: ${details}`);
+  }
+  return { text, json: json as T, toolCalls };
+}
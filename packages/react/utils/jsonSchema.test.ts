@@ -0,0 +1,74 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { validateJsonSchema, type InferSchema, type JsonSchema } from './jsonSchema';
+
+const ORDER = {
+  type: 'object',
+  properties: {
+    sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+    quantity: { type: 'integer', minimum: 1, maximum: 10 },
+    size: { type: 'string', enum: ['S', 'M', 'L'] },
+    notes: { type: ['string', 'null'], maxLength: 5 },
+    tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 2 },
+  },
+  required: ['sku', 'quantity'],
+  additionalProperties: false,
+} as const satisfies JsonSchema;
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    expect(
+      validateJsonSchema(ORDER, { sku: 'ABC-1', quantity: 2, size: 'M', notes: null, tags: ['x'] })
+    ).toEqual([]);
+  });
+
+  it('reports every issue with a JSON Pointer to the value', () => {
+    expect(
+      validateJsonSchema(ORDER, {
+        sku: 'abc',
+        quantity: 2.5,
+        size: 'XL',
+        notes: 'too long',
+        tags: ['', 'b', 'c'],
+        color: 'red',
+      })
+    ).toEqual([
+      { path: '/sku', message: 'must match ^[A-Z]{3}-\\d+$' },
+      { path: '/quantity', message: 'must be integer, got number' },
+      { path: '/size', message: 'must be one of "S", "M", "L"' },
+      { path: '/notes', message: 'must be at most 5 characters' },
+      { path: '/tags', message: 'must have at most 2 items' },
+      { path: '/tags/0', message: 'must be at least 1 characters' },
+      { path: '/color', message: 'is not an allowed property' },
+    ]);
+    expect(validateJsonSchema(ORDER, { quantity: 0 })).toEqual([
+      { path: '/sku', message: 'is required' },
+      { path: '/quantity', message: 'must be >= 1' },
+    ]);
+    expect(validateJsonSchema(ORDER, [])).toEqual([
+      { path: '', message: 'must be object, got array' },
+    ]);
+  });
+
+  it('checks const, anyOf and additionalProperties schemas', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { kind: { const: 'point' } },
+      additionalProperties: { anyOf: [{ type: 'number' }, { type: 'boolean' }] },
+    };
+    expect(validateJsonSchema(schema, { kind: 'point', x: 1, visible: true })).toEqual([]);
+    expect(validateJsonSchema(schema, { kind: 'line', x: 'a' })).toEqual([
+      { path: '/kind', message: 'must be "point"' },
+      { path: '/x', message: 'must match one of the allowed schemas' },
+    ]);
+  });
+
+  it('infers the TypeScript type of a schema', () => {
+    expectTypeOf<InferSchema<typeof ORDER>>().toEqualTypeOf<{
+      sku: string;
+      quantity: number;
+      size?: 'S' | 'M' | 'L';
+      notes?: string | null;
+      tags?: string[];
+    }>();
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * The JSON Schema subset tool parameters are written in, with a validator and the TypeScript
+ * type a schema describes.
+ *
+ * Function-calling schemas are small and flat, so this covers what they use — `type`, `enum`,
+ * `const`, `properties` / `required` / `additionalProperties`, `items`, `anyOf` and the string,
+ * number and array bounds — without a validator dependency. Keywords outside the subset are
+ * accepted and not checked.
+ */
+
+/** JSON Schema type names */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/** A JSON Schema (the subset checked by `validateJsonSchema`; other keywords are ignored) */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  /** `false` rejects unknown properties; a schema validates them */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: readonly JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  /** Checked with the `u` flag; an invalid pattern is not checked */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+/** One reason a value does not match its schema */
+export interface JsonSchemaIssue {
+  /** JSON Pointer to the offending value (`''` for the root, `/items/0/name`, ...) */
+  path: string;
+  message: string;
+}
+
+// ===== Type inference =====
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type InferType<T> = T extends 'string'
+  ? string
+  : T extends 'number' | 'integer'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'null'
+        ? null
+        : T extends 'array'
+          ? unknown[]
+          : T extends 'object'
+            ? Record<string, unknown>
+            : unknown;
+
+type InferObject<S> = S extends {
+  properties: infer P extends Readonly<Record<string, JsonSchema>>;
+}
+  ? Simplify<
+      {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: InferSchema<P[K]>;
+      } & {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: InferSchema<P[K]>;
+      }
+    >
+  : Record<string, unknown>;
+
+type RequiredKeys<S> = S extends { required: readonly (infer R)[] } ? R : never;
+
+/**
+ * The TypeScript type of the values a schema accepts, for schemas declared `as const` (or passed
+ * straight to `defineTool`). Anything the inference does not cover is `unknown`.
+ */
+export type InferSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { anyOf: readonly (infer A)[] }
+      ? InferSchema<A>
+      : S extends { type: 'object' }
+        ? InferObject<S>
+        : S extends { type: 'array'; items: infer I }
+          ? InferSchema<I>[]
+          : S extends { type: infer T }
+            ? T extends readonly (infer U)[]
+              ? InferType<U>
+              : InferType<T>
+            : unknown;
+
+// ===== Validation =====
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/** Structural equality for `enum` / `const` */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const escapePointer = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const describe = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+function collect(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: JsonSchemaIssue[]
+): void {
+  const issue = (message: string): void => {
+    issues.push({ path, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type as JsonSchemaType];
+    if (!types.some((type) => matchesType(value, type))) {
+      issue(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      return; // the remaining keywords describe a value of the declared type
+    }
+  }
+  if (schema.const !== undefined && !jsonEqual(value, schema.const)) {
+    issue(`must be ${describe(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((entry) => jsonEqual(value, entry))) {
+    issue(`must be one of ${schema.enum.map(describe).join(', ')}`);
+  }
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => validateJsonSchema(option, value).length === 0);
+    if (!matches) issue('must match one of the allowed schemas');
+  }
+
+  if (typeof value === 'string') {
+    // Code points, not UTF-16 units, as JSON Schema counts them
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      issue(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      issue(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      let regex: RegExp | null = null;
+      try {
+        regex = new RegExp(schema.pattern, 'u');
+      } catch {
+        // An invalid pattern is the schema's problem, not the caller's
+      }
+      if (regex && !regex.test(value)) issue(`must match ${schema.pattern}`);
+    }
+  } else if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issue(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issue(`must be <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issue(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issue(`must be < ${schema.exclusiveMaximum}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => collect(items, item, `${path}/${index}`, issues));
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(record, name)) {
+        issues.push({ path: `${path}/${escapePointer(name)}`, message: 'is required' });
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const [name, entry] of Object.entries(record)) {
+      const childPath = `${path}/${escapePointer(name)}`;
+      const propertySchema = Object.prototype.hasOwnProperty.call(properties, name)
+        ? properties[name]
+        : undefined;
+      if (propertySchema) {
+        collect(propertySchema, entry, childPath, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        collect(schema.additionalProperties, entry, childPath, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema.
+ *
+ * @returns Every issue found (empty when the value is valid)
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  collect(schema, value, '', issues);
+  return issues;
+}
@@ -16,7 +16,7 @@
  */
 
 import { describe, it, expect, beforeAll } from 'vitest';
-import { convertToSessionUpdate } from './sessionBuilder';
+import { convertResponseOptions, convertToSessionUpdate } from './sessionBuilder';
 import { buildGreetingEvents } from './greeting';
 import { SERVER_EVENT_TYPES, CLIENT_EVENT_TYPES } from '../types/events';
 import type { VoiceLiveSessionConfig } from '../types/voiceLive';
@@ -409,6 +409,34 @@ describe('client events match the official SDK serializers', () => {
     );
   });
 
+  it('per-response options match responseCreateParamsSerializer', () => {
+    // `conversation` is left out: the SDK does not model it
+    const ours = convertResponseOptions({
+      instructions: 'Summarize the call.',
+      voice: { name: 'en-US-AvaNeural', type: 'azure-standard', temperature: 0.8 },
+      modalities: ['text', 'audio'],
+      tools: [{ type: 'mcp', serverLabel: 'docs', serverUrl: 'https://docs' }],
+      toolChoice: 'auto',
+      temperature: 0.7,
+      maxOutputTokens: 200,
+      metadata: { purpose: 'summary' },
+    });
+    const theirs = azure.responseCreateParamsSerializer({
+      instructions: 'Summarize the call.',
+      voice: { name: 'en-US-AvaNeural', type: 'azure-standard', temperature: 0.8 },
+      modalities: ['text', 'audio'],
+      tools: [{ type: 'mcp', serverLabel: 'docs', serverUrl: 'https://docs' }],
+      toolChoice: 'auto',
+      temperature: 0.7,
+      maxOutputTokens: 200,
+      metadata: { purpose: 'summary' },
+    });
+    expect(ours).toEqual(theirs);
+    expect(convertResponseOptions({ maxOutputTokens: 'inf' })).toEqual(
+      azure.responseCreateParamsSerializer({ maxOutputTokens: 'inf' })
+    );
+  });
+
   it('function_call_output and mcp_approval_response items match', () => {
     expect({
       type: 'conversation.item.create',
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { bindPushToTalkKey } from './pushToTalk';
+
+const press = (type: 'keydown' | 'keyup', code: string, init: KeyboardEventInit = {}): boolean =>
+  window.dispatchEvent(new KeyboardEvent(type, { code, cancelable: true, ...init }));
+
+describe('bindPushToTalkKey', () => {
+  it('opens a turn while the key is held', () => {
+    const turns = { beginTurn: vi.fn(), endTurn: vi.fn(() => true) };
+    const unbind = bindPushToTalkKey(turns);
+    expect(press('keydown', 'Space')).toBe(false); // default prevented
+    press('keydown', 'Space', { repeat: true });
+    press('keydown', 'KeyA');
+    expect(turns.beginTurn).toHaveBeenCalledTimes(1);
+    press('keyup', 'KeyA');
+    expect(turns.endTurn).not.toHaveBeenCalled();
+    press('keyup', 'Space');
+    expect(turns.endTurn).toHaveBeenCalledTimes(1);
+
+    // Focus lost mid-turn: the key-up never comes
+    press('keydown', 'Space');
+    window.dispatchEvent(new Event('blur'));
+    expect(turns.endTurn).toHaveBeenCalledTimes(2);
+
+    unbind();
+    press('keydown', 'Space');
+    expect(turns.beginTurn).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves text fields alone and ends its own turn when unbound', () => {
+    const turns = { beginTurn: vi.fn(), endTurn: vi.fn(() => true) };
+    const unbind = bindPushToTalkKey(turns, { code: 'F2' });
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    input.dispatchEvent(new KeyboardEvent('keydown', { code: 'F2', bubbles: true }));
+    expect(turns.beginTurn).not.toHaveBeenCalled();
+    input.remove();
+
+    press('keydown', 'F2');
+    unbind();
+    expect(turns.endTurn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Keyboard binding for push-to-talk (`interactionMode: 'push-to-talk'`): holding the key is the
+ * turn.
+ *
+ * @example
+ * ```tsx
+ * const { beginTurn, endTurn, isReady } = useVoiceLive({ connection, interactionMode: 'push-to-talk' });
+ * useEffect(
+ *   () => (isReady ? bindPushToTalkKey({ beginTurn, endTurn }) : undefined),
+ *   [isReady, beginTurn, endTurn]
+ * );
+ * ```
+ */
+
+import type { UseVoiceLiveReturn } from '../types/voiceLive';
+
+export interface PushToTalkKeyOptions {
+  /**
+   * `KeyboardEvent.code` of the key to hold (the physical key, so layouts do not matter)
+   * @default 'Space'
+   */
+  code?: string;
+  /** Where the key listeners go @default window */
+  target?: Pick<EventTarget, 'addEventListener' | 'removeEventListener'>;
+}
+
+/** Text fields keep their keys: typing a space must not open a turn */
+function isEditable(target: EventTarget | null): boolean {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Open a turn while a key is held. Key repeats are ignored; a turn still open when the window
+ * loses focus is ended, since the key-up would never arrive.
+ *
+ * @returns A function that removes the listeners (and ends a turn it opened)
+ */
+export function bindPushToTalkKey(
+  turns: Pick<UseVoiceLiveReturn, 'beginTurn' | 'endTurn'>,
+  options: PushToTalkKeyOptions = {}
+): () => void {
+  const { code = 'Space', target = window } = options;
+  let held = false;
+
+  const onKeyDown = (event: Event): void => {
+    const key = event as KeyboardEvent;
+    if (key.code !== code || isEditable(key.target)) return;
+    // Space would scroll the page or press the focused button
+    key.preventDefault();
+    if (held || key.repeat) return;
+    held = true;
+    turns.beginTurn();
+  };
+  const release = (): void => {
+    if (!held) return;
+    held = false;
+    turns.endTurn();
+  };
+  const onKeyUp = (event: Event): void => {
+    if ((event as KeyboardEvent).code === code) release();
+  };
+
+  target.addEventListener('keydown', onKeyDown);
+  target.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', release);
+  return () => {
+    target.removeEventListener('keydown', onKeyDown);
+    target.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', release);
+    release();
+  };
+}
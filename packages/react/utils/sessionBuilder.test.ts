@@ -8,7 +8,10 @@ import {
   buildSessionConfig,
   buildAgentSessionConfig,
   AGENT_OWNED_FIELDS,
+  AUDIO_SESSION_FIELDS,
+  convertResponseOptions,
   convertToSessionUpdate,
+  isTextOnlySession,
   validateConfig,
 } from './sessionBuilder';
 
@@ -367,10 +370,60 @@ describe('Session Builder Wire Format', () => {
     expect(result.tools).toEqual([fn]);
   });
 
+  it('leaves every audio field out of a text-only session, defaults included', () => {
+    const result = buildSessionConfig({
+      modalities: ['text'],
+      instructions: 'Be brief.',
+      voice: 'alloy',
+      inputAudioTranscription: { model: 'azure-speech' },
+    });
+    expect(Object.keys(result).sort()).toEqual(
+      [
+        'instructions',
+        'max_response_output_tokens',
+        'modalities',
+        'temperature',
+        'tool_choice',
+        'tools',
+      ].sort()
+    );
+    expect(buildAgentSessionConfig({ modalities: ['text'] })).toEqual({ modalities: ['text'] });
+    expect(AUDIO_SESSION_FIELDS).toContain('inputAudioFormat');
+    expect(isTextOnlySession()).toBe(false);
+    expect(isTextOnlySession({ modalities: ['text'] })).toBe(true);
+  });
+
   it('convertToSessionUpdate applies no defaults', () => {
     expect(convertToSessionUpdate({})).toEqual({});
     expect(convertToSessionUpdate({ instructions: 'Hi' })).toEqual({ instructions: 'Hi' });
   });
+
+  it('converts per-response options without defaults', () => {
+    expect(convertResponseOptions({})).toEqual({});
+    expect(
+      convertResponseOptions({
+        instructions: 'Answer in one word.',
+        voice: { name: 'en-US-AvaNeural', type: 'azure-standard', rate: '1.2' },
+        modalities: ['text'],
+        tools: [{ type: 'mcp', serverLabel: 'docs', serverUrl: 'https://docs' }],
+        toolChoice: 'none',
+        temperature: 0.6,
+        maxOutputTokens: 64,
+        metadata: { purpose: 'summary' },
+        conversation: 'none',
+      })
+    ).toEqual({
+      instructions: 'Answer in one word.',
+      voice: { name: 'en-US-AvaNeural', type: 'azure-standard', rate: '1.2' },
+      modalities: ['text'],
+      tools: [{ type: 'mcp', server_label: 'docs', server_url: 'https://docs' }],
+      tool_choice: 'none',
+      temperature: 0.6,
+      max_output_tokens: 64,
+      metadata: { purpose: 'summary' },
+      conversation: 'none',
+    });
+  });
 });
 
 describe('buildAgentSessionConfig', () => {
@@ -510,7 +563,32 @@ describe('validateConfig', () => {
     );
     expect(warnings.some((w) => w.includes("only supported by 'azure_semantic_vad'"))).toBe(true);
     expect(warnings.some((w) => w.includes('interruptResponse is false'))).toBe(true);
-    expect(warnings.some((w) => w.includes("referenceSource 'client'"))).toBe(true);
+    // channels: 2 is what the stereo capture needs
+    expect(warnings.some((w) => w.includes("referenceSource 'client'"))).toBe(false);
+    expect(
+      validateConfig(
+        {
+          inputAudioEchoCancellation: {
+            type: 'server_echo_cancellation',
+            referenceSource: 'client',
+          },
+        },
+        false
+      )[0]
+    ).toMatch(/requires channels: 2/);
+    expect(
+      validateConfig(
+        {
+          inputAudioFormat: 'g711_ulaw',
+          inputAudioEchoCancellation: {
+            type: 'server_echo_cancellation',
+            referenceSource: 'client',
+            channels: 2,
+          },
+        },
+        false
+      )[0]
+    ).toMatch(/needs inputAudioFormat 'pcm16'/);
     expect(
       validateConfig({ turnDetection: { appendedTextAfterTruncation: ' [cut]' } }, false)[0]
     ).toMatch(/requires autoTruncate/);
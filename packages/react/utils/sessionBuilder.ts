@@ -12,12 +12,14 @@
  */
 
 import type {
+  ResponseCreateOptions,
   VoiceLiveSessionConfig,
   VoiceConfig,
   TurnDetectionConfig,
   StandardVoice,
   Tool,
 } from '../types/voiceLive';
+import type { WireResponseCreateOptions } from '../types/events';
 import { OPENAI_VOICES } from '../types/voiceLive';
 
 /**
@@ -99,7 +101,7 @@ export function buildSessionConfig(
   const merged = deepMerge(DEFAULT_SESSION_CONFIG, userConfig);
 
   // Convert to session.update format
-  return convertToSessionUpdate(merged);
+  return convertToSessionUpdate(withoutAudioFields(merged));
 }
 
 /**
@@ -141,7 +143,36 @@ export function buildAgentSessionConfig(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
 ): any {
   const overrides = userConfig ? omitKeys(userConfig, AGENT_OWNED_FIELDS) : {};
-  return convertToSessionUpdate(deepMerge(AGENT_DEFAULT_SESSION_CONFIG, overrides));
+  return convertToSessionUpdate(
+    withoutAudioFields(deepMerge(AGENT_DEFAULT_SESSION_CONFIG, overrides))
+  );
+}
+
+/**
+ * Session fields that only mean something when audio flows. A text-only session (`modalities`
+ * without `'audio'`) is sent without them, defaults included.
+ */
+export const AUDIO_SESSION_FIELDS = [
+  'voice',
+  'inputAudioFormat',
+  'outputAudioFormat',
+  'inputAudioSamplingRate',
+  'inputAudioEchoCancellation',
+  'inputAudioNoiseReduction',
+  'inputAudioTranscription',
+  'turnDetection',
+  'outputAudioTimestampTypes',
+  'animation',
+] as const satisfies readonly (keyof VoiceLiveSessionConfig)[];
+
+/** Whether a session configuration leaves out the audio modality */
+export function isTextOnlySession(config?: VoiceLiveSessionConfig): boolean {
+  const modalities = config?.modalities ?? DEFAULT_SESSION_CONFIG.modalities ?? [];
+  return !modalities.includes('audio');
+}
+
+function withoutAudioFields(config: VoiceLiveSessionConfig): VoiceLiveSessionConfig {
+  return isTextOnlySession(config) ? omitKeys(config, AUDIO_SESSION_FIELDS) : config;
 }
 
 /**
@@ -360,6 +391,27 @@ export function convertToSessionUpdate(config: VoiceLiveSessionConfig): any {
   return session;
 }
 
+/**
+ * Convert per-response options to the `response` of a `response.create`, with the same rules as
+ * `convertToSessionUpdate` (no defaults: the session's settings apply to whatever is left out)
+ *
+ * @param options - Typed per-response overrides
+ * @returns Wire-format `response` object
+ */
+export function convertResponseOptions(options: ResponseCreateOptions): WireResponseCreateOptions {
+  const response: WireResponseCreateOptions = {};
+  if (options.modalities) response.modalities = options.modalities;
+  if (options.instructions !== undefined) response.instructions = options.instructions;
+  if (options.voice) response.voice = convertVoiceConfig(options.voice);
+  if (options.tools) response.tools = options.tools.map(convertTool);
+  if (options.toolChoice) response.tool_choice = options.toolChoice;
+  if (options.temperature !== undefined) response.temperature = options.temperature;
+  if (options.maxOutputTokens !== undefined) response.max_output_tokens = options.maxOutputTokens;
+  if (options.metadata !== undefined) response.metadata = options.metadata;
+  if (options.conversation) response.conversation = options.conversation;
+  return response;
+}
+
 /**
  * Convert a tool definition to wire format.
  * Function tools (and any unknown/hand-built objects) pass through unchanged;
@@ -745,12 +797,27 @@ export function validateConfig(
     }
   }
 
-  // Client-reference AEC needs stereo capture that useAudioCapture does not implement yet
-  if (config.inputAudioEchoCancellation?.referenceSource === 'client') {
-    warnings.push(
-      "inputAudioEchoCancellation.referenceSource 'client' requires interleaved stereo capture, " +
-        'which useAudioCapture does not implement yet — the service will reject mono audio.'
-    );
+  // Client-reference AEC: the microphone capture sends the played audio as a second channel
+  const echo = config.inputAudioEchoCancellation;
+  if (echo?.referenceSource === 'client') {
+    if (echo.channels !== 2) {
+      warnings.push(
+        "inputAudioEchoCancellation.referenceSource 'client' requires channels: 2 (interleaved " +
+          'stereo: microphone + playback reference) — without it the SDK captures mono audio.'
+      );
+    }
+    if (config.avatar) {
+      warnings.push(
+        "inputAudioEchoCancellation.referenceSource 'client' has no playback reference with an " +
+          "avatar (its audio plays through the avatar's peer connection) — use 'server'."
+      );
+    }
+    if (config.inputAudioFormat && config.inputAudioFormat !== 'pcm16') {
+      warnings.push(
+        "inputAudioEchoCancellation.referenceSource 'client' needs inputAudioFormat 'pcm16' — " +
+          'G.711 is mono, so the microphone cannot start with a reference channel.'
+      );
+    }
   }
 
   return warnings;
@@ -0,0 +1,165 @@
+import { describe, it, expect, expectTypeOf, vi, afterEach } from 'vitest';
+import { defineTool, ToolRegistry } from './toolRegistry';
+
+const getWeather = defineTool({
+  name: 'get_weather',
+  description: 'Get the current weather for a location',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: { type: 'string' },
+      unit: { type: 'string', enum: ['celsius', 'fahrenheit'] },
+    },
+    required: ['location'],
+  },
+  execute: ({ location, unit = 'celsius' }) => ({ location, unit, temperature: 21 }),
+});
+
+const getTime = defineTool({
+  name: 'get_time',
+  description: 'Get the current time',
+  parameters: { type: 'object', properties: {} },
+  execute: (_args, { callId }) => ({ time: '12:00', callId }),
+});
+
+const context = (): { signal: AbortSignal } => ({ signal: new AbortController().signal });
+
+describe('ToolRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('types the arguments from the schema', () => {
+    expectTypeOf(getWeather.execute).parameter(0).toEqualTypeOf<{
+      location: string;
+      unit?: 'celsius' | 'fahrenheit';
+    }>();
+  });
+
+  it('produces the wire function tools', () => {
+    const registry = new ToolRegistry([getWeather, getTime]);
+    expect(registry.tools).toEqual([
+      {
+        type: 'function',
+        name: 'get_weather',
+        description: 'Get the current weather for a location',
+        parameters: getWeather.parameters,
+      },
+      {
+        type: 'function',
+        name: 'get_time',
+        description: 'Get the current time',
+        parameters: { type: 'object', properties: {} },
+      },
+    ]);
+    expect(registry.names).toEqual(['get_weather', 'get_time']);
+    expect(() => new ToolRegistry([getTime, getTime])).toThrow(/Duplicate tool name "get_time"/);
+  });
+
+  it('dispatches calls with parsed arguments', async () => {
+    const execute = vi.fn(() => 'ok');
+    const registry = new ToolRegistry([getWeather, { ...getTime, execute }]);
+    // Unbound on purpose: the executor is passed around as a plain function
+    const { execute: toolExecutor } = registry;
+    expect(await toolExecutor('get_weather', '{"location":"Berlin"}', 'call_1', context())).toEqual(
+      {
+        location: 'Berlin',
+        unit: 'celsius',
+        temperature: 21,
+      }
+    );
+    expect(toolExecutor('get_time', '', 'call_2', context())).toBe('ok');
+    expect(execute).toHaveBeenCalledWith(
+      {},
+      { name: 'get_time', callId: 'call_2', signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('answers unknown tools and invalid arguments with a structured error', () => {
+    const execute = vi.fn();
+    const registry = new ToolRegistry([{ ...getWeather, execute }]);
+    expect(registry.execute('get_stock', '{}', 'call_1', context())).toEqual({
+      error: {
+        type: 'unknown_tool',
+        tool: 'get_stock',
+        message: 'Unknown tool "get_stock"',
+        availableTools: ['get_weather'],
+      },
+    });
+    expect(registry.execute('get_weather', '{"location":', 'call_2', context())).toEqual({
+      error: {
+        type: 'invalid_arguments',
+        tool: 'get_weather',
+        message: expect.stringMatching(/^Arguments are not valid JSON: /),
+      },
+    });
+    expect(registry.execute('get_weather', '{"unit":"kelvin"}', 'call_3', context())).toEqual({
+      error: {
+        type: 'invalid_arguments',
+        tool: 'get_weather',
+        message: 'Arguments do not match the schema of "get_weather"',
+        issues: [
+          { path: '/location', message: 'is required' },
+          { path: '/unit', message: 'must be one of "celsius", "fahrenheit"' },
+        ],
+      },
+    });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it('answers a tool that outlives its timeoutMs and aborts its signal', async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const slow = defineTool({
+      name: 'search',
+      description: 'Search the catalog',
+      parameters: { type: 'object', properties: {} },
+      timeoutMs: 1000,
+      execute: (_args, context) => {
+        signal = context.signal;
+        return new Promise<string>(() => {});
+      },
+    });
+    const result = new ToolRegistry([slow]).execute('search', '{}', 'call_1', context());
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await result).toEqual({
+      error: {
+        type: 'timeout',
+        tool: 'search',
+        message: 'Tool "search" did not finish within 1000 ms',
+      },
+    });
+    expect(signal?.aborted).toBe(true);
+    expect((signal?.reason as DOMException).name).toBe('TimeoutError');
+
+    // The session's own abort reaches the handler too
+    const session = new AbortController();
+    void new ToolRegistry([slow]).execute('search', '{}', 'call_2', { signal: session.signal });
+    expect(signal?.aborted).toBe(false);
+    session.abort();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('tells which calls need confirmation', () => {
+    const transfer = defineTool({
+      name: 'transfer_money',
+      description: 'Transfer money',
+      parameters: {
+        type: 'object',
+        properties: { amount: { type: 'number' } },
+        required: ['amount'],
+      },
+      requiresConfirmation: ({ amount }) => amount > 100,
+      execute: () => 'done',
+    });
+    const remove = { ...getTime, name: 'delete_record', requiresConfirmation: true };
+    const { requiresConfirmation } = new ToolRegistry([transfer, remove, getTime]);
+    expect(requiresConfirmation('transfer_money', '{"amount":500}', 'call_1')).toBe(true);
+    expect(requiresConfirmation('transfer_money', '{"amount":5}', 'call_2')).toBe(false);
+    expect(requiresConfirmation('delete_record', '', 'call_3')).toBe(true);
+    expect(requiresConfirmation('get_time', '{}', 'call_4')).toBe(false);
+    // The executor answers these with an error; there is nothing to confirm
+    expect(requiresConfirmation('transfer_money', '{"amount":"x"}', 'call_5')).toBe(false);
+    expect(requiresConfirmation('get_stock', '{}', 'call_6')).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Typed function tools: declare each tool once with `defineTool()` and let a `ToolRegistry`
+ * produce the `session.tools` entries and the `toolExecutor` that dispatches calls to them.
+ *
+ * The executor parses the call's arguments and validates them against the tool's JSON Schema
+ * before its `execute` runs, so a handler only ever sees arguments of the declared shape. A call
+ * the registry cannot run — an unknown tool, arguments that are not JSON or do not match the
+ * schema — is answered with a structured `{ error: { type, tool, message, ... } }` output, which
+ * the model can read and correct instead of the turn stalling. So is a tool that outlives its
+ * `timeoutMs`; its handler sees that (and any cancellation by the session) on `context.signal`.
+ *
+ * @example
+ * ```ts
+ * const getWeather = defineTool({
+ *   name: 'get_weather',
+ *   description: 'Get the current weather for a location',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: {
+ *       location: { type: 'string' },
+ *       unit: { type: 'string', enum: ['celsius', 'fahrenheit'] },
+ *     },
+ *     required: ['location'],
+ *   },
+ *   // args: { location: string; unit?: 'celsius' | 'fahrenheit' }
+ *   execute: async ({ location, unit = 'celsius' }) => fetchWeather(location, unit),
+ * });
+ *
+ * const registry = new ToolRegistry([getWeather]);
+ * useVoiceLive({
+ *   connection,
+ *   session: { tools: registry.tools },
+ *   toolExecutor: registry.execute,
+ * });
+ * ```
+ */
+
+import type {
+  FunctionTool,
+  ToolConfirmationPredicate,
+  ToolExecutor,
+  ToolResult,
+} from '../types/voiceLive';
+import {
+  validateJsonSchema,
+  type InferSchema,
+  type JsonSchema,
+  type JsonSchemaIssue,
+} from './jsonSchema';
+
+/** What a tool's `execute` learns about the call besides its arguments */
+export interface ToolCallContext {
+  /** Tool name, as called by the model */
+  name: string;
+  /** `call_id` the output is sent for */
+  callId: string;
+  /** Aborted when the result is no longer wanted (cancellation, session end, `timeoutMs`) */
+  signal: AbortSignal;
+}
+
+/**
+ * A function tool with its handler. `execute` follows the `toolExecutor` contract: a returned
+ * value is sent as the `function_call_output`, `undefined` sends nothing.
+ */
+export interface ToolDefinition<Args = unknown> {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: JsonSchema;
+  /** Longest time `execute` may take before the call is answered with a `timeout` error */
+  timeoutMs?: number;
+  /**
+   * Hold calls until the user confirms them (`registry.requiresConfirmation`): always, or when
+   * the predicate holds for the validated arguments
+   */
+  requiresConfirmation?: boolean | ((args: Args) => boolean);
+  execute: (args: Args, context: ToolCallContext) => void | ToolResult | Promise<void | ToolResult>;
+}
+
+/**
+ * Declare a function tool. With the schema written inline, the arguments of `execute` are typed
+ * from it (`required` properties are non-optional, `enum`s become unions).
+ */
+export function defineTool<const S extends JsonSchema>(definition: {
+  name: string;
+  description: string;
+  parameters: S;
+  timeoutMs?: number;
+  requiresConfirmation?: boolean | ((args: InferSchema<S>) => boolean);
+  execute: (
+    args: InferSchema<S>,
+    context: ToolCallContext
+  ) => void | ToolResult | Promise<void | ToolResult>;
+}): ToolDefinition<InferSchema<S>> {
+  return definition;
+}
+
+/** @throws SyntaxError when the arguments are not JSON */
+function parseArguments(args: string): unknown {
+  // Tools without parameters may be called with no arguments at all
+  return args.trim() === '' ? {} : JSON.parse(args);
+}
+
+/** Why the registry answered a call itself instead of running a tool */
+export type ToolCallErrorType = 'unknown_tool' | 'invalid_arguments' | 'timeout';
+
+/** The `function_call_output` sent for a call the registry could not run */
+export interface ToolCallError {
+  error: {
+    type: ToolCallErrorType;
+    tool: string;
+    message: string;
+    /** Schema violations (`invalid_arguments`) */
+    issues?: JsonSchemaIssue[];
+    /** Tools that exist (`unknown_tool`) */
+    availableTools?: string[];
+  };
+}
+
+/**
+ * Function tools by name, with the dispatcher for their calls.
+ *
+ * @throws Error from the constructor for a tool without a name, or two tools with the same name
+ */
+export class ToolRegistry {
+  /** Wire entries for `session.tools` (combine with MCP or agent tools as needed) */
+  readonly tools: FunctionTool[];
+  private readonly byName = new Map<string, ToolDefinition<never>>();
+
+  constructor(definitions: ReadonlyArray<ToolDefinition<never>>) {
+    for (const definition of definitions) {
+      if (!definition.name) {
+        throw new Error('Every tool needs a name');
+      }
+      if (this.byName.has(definition.name)) {
+        throw new Error(`Duplicate tool name "${definition.name}"`);
+      }
+      this.byName.set(definition.name, definition);
+    }
+    // Wire entries carry only what the service knows about
+    this.tools = definitions.map(({ name, description, parameters }) => ({
+      type: 'function',
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  /** Names of the registered tools */
+  get names(): string[] {
+    return [...this.byName.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.byName.has(name);
+  }
+
+  /**
+   * A `toolExecutor`: runs the named tool with validated arguments, or answers the call with a
+   * `ToolCallError`. A handler that throws rejects, as any executor would (the session then
+   * reports `{ error: message }` to the model). Bound, so it can be passed as is.
+   */
+  readonly execute: ToolExecutor = (name, args, callId, { signal }) => {
+    const tool = this.byName.get(name);
+    if (!tool) {
+      return this.callError('unknown_tool', name, `Unknown tool "${name}"`, {
+        availableTools: this.names,
+      });
+    }
+    let parsed: unknown;
+    try {
+      parsed = parseArguments(args);
+    } catch (err) {
+      return this.callError(
+        'invalid_arguments',
+        name,
+        `Arguments are not valid JSON: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    const issues = validateJsonSchema(tool.parameters, parsed);
+    if (issues.length > 0) {
+      return this.callError(
+        'invalid_arguments',
+        name,
+        `Arguments do not match the schema of "${name}"`,
+        { issues }
+      );
+    }
+    if (tool.timeoutMs === undefined) {
+      return tool.execute(parsed as never, { name, callId, signal });
+    }
+    return this.executeWithTimeout(tool, tool.timeoutMs, parsed, { name, callId, signal });
+  };
+
+  /**
+   * Run a handler against its own deadline. The handler gets a signal that follows the session's
+   * and is also aborted at the deadline, when the call is answered with a `timeout` error
+   * whether or not the handler reacts to the abort.
+   */
+  private async executeWithTimeout(
+    tool: ToolDefinition<never>,
+    timeoutMs: number,
+    args: unknown,
+    context: ToolCallContext
+  ): Promise<void | ToolResult> {
+    const controller = new AbortController();
+    const forwardAbort = (): void => controller.abort(context.signal.reason);
+    if (context.signal.aborted) forwardAbort();
+    else context.signal.addEventListener('abort', forwardAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<ToolCallError>((resolve) => {
+      timer = setTimeout(() => {
+        const message = `Tool "${context.name}" did not finish within ${timeoutMs} ms`;
+        controller.abort(new DOMException(message, 'TimeoutError'));
+        resolve(this.callError('timeout', context.name, message));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([
+        tool.execute(args as never, { ...context, signal: controller.signal }),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      context.signal.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  /**
+   * A `toolRequiresConfirmation` predicate from the tools' `requiresConfirmation`. Calls the
+   * registry would answer with an error anyway (unknown tool, invalid arguments) are not held.
+   */
+  readonly requiresConfirmation: ToolConfirmationPredicate = (name, args) => {
+    const tool = this.byName.get(name);
+    if (!tool?.requiresConfirmation) return false;
+    if (tool.requiresConfirmation === true) return true;
+    let parsed: unknown;
+    try {
+      parsed = parseArguments(args);
+    } catch {
+      return false;
+    }
+    if (validateJsonSchema(tool.parameters, parsed).length > 0) return false;
+    return tool.requiresConfirmation(parsed as never);
+  };
+
+  private callError(
+    type: ToolCallErrorType,
+    tool: string,
+    message: string,
+    details: Pick<ToolCallError['error'], 'issues' | 'availableTools'> = {}
+  ): ToolCallError {
+    return { error: { type, tool, message, ...details } };
+  }
+}